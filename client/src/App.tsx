@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
 
 import Landing from "@/pages/Landing";
 import Home from "@/pages/Home";
@@ -16,10 +17,13 @@ import CompanyDashboard from "@/pages/CompanyDashboard";
 import CompanySetup from "@/pages/CompanySetup";
 import AdminDashboard from "@/pages/AdminDashboard";
 import Profile from "@/pages/Profile";
+import Invitation from "@/pages/Invitation";
+import PublicProfile from "@/pages/PublicProfile";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  useRealtime(isAuthenticated);
 
   return (
     <Switch>
@@ -29,6 +33,8 @@ function Router() {
           <Route path="/how-it-works" component={HowItWorks} />
           <Route path="/projects" component={Projects} />
           <Route path="/projects/:id" component={ProjectDetail} />
+          <Route path="/invitations/:token" component={Invitation} />
+          <Route path="/u/:handle" component={PublicProfile} />
         </>
       ) : (
         <>
@@ -41,6 +47,8 @@ function Router() {
           <Route path="/company/setup" component={CompanySetup} />
           <Route path="/admin" component={AdminDashboard} />
           <Route path="/profile" component={Profile} />
+          <Route path="/invitations/:token" component={Invitation} />
+          <Route path="/u/:handle" component={PublicProfile} />
         </>
       )}
       <Route component={NotFound} />
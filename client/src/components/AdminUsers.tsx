@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { companyRoleLabels } from "@shared/companyRoles";
+import type { Company, CompanyRole, User, UserRole } from "@shared/schema";
+import { Ban, ChevronLeft, ChevronRight, LogOut, Search, ShieldCheck } from "lucide-react";
+
+interface UserWithCompany extends User {
+  company: Pick<Company, "id" | "name"> | null;
+  companyRole: CompanyRole | null;
+}
+
+interface UserPage {
+  users: UserWithCompany[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const pageSize = 25;
+const userRoles: UserRole[] = ["candidate", "company", "admin"];
+
+function userName(user: User) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+// Every account on the platform. Admins change roles, suspend accounts
+// with a reason and sign users out everywhere.
+export function AdminUsers({ currentUserId }: { currentUserId?: string }) {
+  const { toast } = useToast();
+  const [q, setQ] = useState("");
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState<UserRole | "all">("all");
+  const [status, setStatus] = useState<"all" | "active" | "suspended">("all");
+  const [offset, setOffset] = useState(0);
+  const [suspending, setSuspending] = useState<UserWithCompany | null>(null);
+  const [reason, setReason] = useState("");
+
+  const params = new URLSearchParams();
+  if (search) params.set("q", search);
+  if (role !== "all") params.set("role", role);
+  if (status !== "all") params.set("status", status);
+  params.set("limit", String(pageSize));
+  params.set("offset", String(offset));
+
+  const { data, isLoading } = useQuery<UserPage>({
+    queryKey: [`/api/admin/users?${params}`],
+  });
+
+  // Any page of the search may show the user that changed
+  const invalidateUsers = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/users"),
+    });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) =>
+      apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role }),
+    onSuccess: () => {
+      toast({ title: "Role changed" });
+      invalidateUsers();
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+    },
+    onError,
+  });
+
+  const suspendMutation = useMutation({
+    mutationFn: async ({ userId, suspend }: { userId: string; suspend: boolean }) =>
+      apiRequest("POST", `/api/admin/users/${userId}/${suspend ? "suspend" : "unsuspend"}`, { reason }),
+    onSuccess: (_, { suspend }) => {
+      toast({ title: suspend ? "User suspended" : "Suspension lifted" });
+      invalidateUsers();
+      setSuspending(null);
+      setReason("");
+    },
+    onError,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async (userId: string) => apiRequest("POST", `/api/admin/users/${userId}/logout`),
+    onSuccess: () => {
+      toast({ title: "User signed out everywhere" });
+    },
+    onError,
+  });
+
+  const filter = (apply: () => void) => {
+    apply();
+    setOffset(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+        <CardDescription>Search accounts, change their role, suspend them or sign them out</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr]">
+          <form
+            className="space-y-1"
+            onSubmit={(event) => {
+              event.preventDefault();
+              filter(() => setSearch(q.trim()));
+            }}
+          >
+            <Label htmlFor="user-search">Search</Label>
+            <div className="flex gap-2">
+              <Input
+                id="user-search"
+                value={q}
+                onChange={(event) => setQ(event.target.value)}
+                placeholder="Name, email or id"
+                data-testid="input-user-search"
+              />
+              <Button type="submit" variant="outline" size="icon" aria-label="Search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+          <div className="space-y-1">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => filter(() => setRole(value as UserRole | "all"))}>
+              <SelectTrigger data-testid="select-user-role-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {userRoles.map((option) => (
+                  <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => filter(() => setStatus(value as typeof status))}>
+              <SelectTrigger data-testid="select-user-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="suspended">Suspended</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !data?.users.length ? (
+          <p className="py-8 text-center text-muted-foreground">No users match.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.users.map((user) => {
+                const isSelf = user.id === currentUserId;
+                return (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell>
+                      <p className="font-medium">{userName(user)}</p>
+                      <p className="text-xs text-muted-foreground">{user.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(value) => roleMutation.mutate({ userId: user.id, role: value as UserRole })}
+                        disabled={isSelf || roleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-32 capitalize" data-testid={`select-user-role-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map((option) => (
+                            <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {user.company ? (
+                        <>
+                          {user.company.name}
+                          {user.companyRole && (
+                            <span className="text-muted-foreground"> · {companyRoleLabels[user.companyRole]}</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {user.suspendedAt ? (
+                        <div>
+                          <Badge className="bg-destructive/10 text-destructive">Suspended</Badge>
+                          {user.suspensionReason && (
+                            <p className="text-xs text-muted-foreground mt-1 max-w-xs break-words">{user.suspensionReason}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <Badge variant="outline">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => logoutMutation.mutate(user.id)}
+                          disabled={isSelf || logoutMutation.isPending}
+                          data-testid={`button-logout-user-${user.id}`}
+                        >
+                          <LogOut className="mr-1 h-4 w-4" />
+                          Sign out
+                        </Button>
+                        {user.suspendedAt ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => suspendMutation.mutate({ userId: user.id, suspend: false })}
+                            disabled={suspendMutation.isPending}
+                            data-testid={`button-unsuspend-user-${user.id}`}
+                          >
+                            <ShieldCheck className="mr-1 h-4 w-4" />
+                            Lift
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setSuspending(user)}
+                            disabled={isSelf}
+                            data-testid={`button-suspend-user-${user.id}`}
+                          >
+                            <Ban className="mr-1 h-4 w-4" />
+                            Suspend
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {data && data.total > pageSize && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {offset + 1}–{Math.min(offset + pageSize, data.total)} of {data.total}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - pageSize)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + pageSize >= data.total}
+                onClick={() => setOffset(offset + pageSize)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!suspending} onOpenChange={() => setSuspending(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Suspend {suspending && userName(suspending)}</DialogTitle>
+            <DialogDescription>
+              They're signed out straight away and can't sign in again until the suspension is lifted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Textarea
+              id="suspension-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Recorded in the audit log"
+              data-testid="input-suspension-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => suspending && suspendMutation.mutate({ userId: suspending.id, suspend: true })}
+              disabled={!reason.trim() || suspendMutation.isPending}
+              data-testid="button-confirm-suspend"
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              Suspend
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
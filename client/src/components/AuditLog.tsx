@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { auditActionLabels, auditActions, type AuditAction } from "@shared/audit";
+import type { AuditLogEntry, AuditLogEntryWithActor } from "@shared/schema";
+import { ChevronLeft, ChevronRight, Download, Search } from "lucide-react";
+
+interface AuditPage {
+  entries: AuditLogEntryWithActor[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const pageSize = 50;
+
+function actorName(entry: AuditLogEntryWithActor) {
+  const { actor } = entry;
+  return [actor?.firstName, actor?.lastName].filter(Boolean).join(" ") || actor?.email || "System";
+}
+
+// Each changed field as "field: before → after"
+function describeChanges(entry: AuditLogEntry) {
+  const fields = Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+  const show = (value: unknown) => (value === undefined ? "—" : typeof value === "string" ? value : JSON.stringify(value));
+  return fields.map((field) => `${field}: ${show(entry.before?.[field])} → ${show(entry.after?.[field])}`);
+}
+
+// The audit log of admin and company team actions, newest first, searchable
+// by actor, target or reason and exportable as CSV
+export function AuditLog() {
+  const [q, setQ] = useState("");
+  const [search, setSearch] = useState("");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const params = new URLSearchParams();
+  if (search) params.set("q", search);
+  if (action !== "all") params.set("action", action);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const filters = params.toString();
+  params.set("limit", String(pageSize));
+  params.set("offset", String(offset));
+
+  const { data, isLoading } = useQuery<AuditPage>({
+    queryKey: [`/api/admin/audit?${params}`],
+  });
+
+  const filter = (apply: () => void) => {
+    apply();
+    setOffset(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>Every admin and company team action, with who took it and what changed</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/admin/audit/export.csv?${filters}`} data-testid="link-audit-export">
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr_1fr]">
+          <form
+            className="space-y-1"
+            onSubmit={(event) => {
+              event.preventDefault();
+              filter(() => setSearch(q.trim()));
+            }}
+          >
+            <Label htmlFor="audit-search">Search</Label>
+            <div className="flex gap-2">
+              <Input
+                id="audit-search"
+                value={q}
+                onChange={(event) => setQ(event.target.value)}
+                placeholder="Actor, target id or reason"
+                data-testid="input-audit-search"
+              />
+              <Button type="submit" variant="outline" size="icon" aria-label="Search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={(value) => filter(() => setAction(value as AuditAction | "all"))}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {auditActions.map((option) => (
+                  <SelectItem key={option} value={option}>{auditActionLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(event) => filter(() => setFrom(event.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(event) => filter(() => setTo(event.target.value))} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !data?.entries.length ? (
+          <p className="py-8 text-center text-muted-foreground">No actions match.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.entries.map((entry) => (
+                <TableRow key={entry.id} data-testid={`row-audit-${entry.id}`}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.ip && <p className="text-xs text-muted-foreground font-mono">{entry.ip}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p>{actorName(entry)}</p>
+                    <Badge variant="outline" className="capitalize">{entry.actorRole}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {auditActionLabels[entry.action as AuditAction] ?? entry.action}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <span className="capitalize">{entry.targetType}</span>
+                    <p className="text-xs text-muted-foreground font-mono">{entry.targetId.slice(0, 8)}</p>
+                  </TableCell>
+                  <TableCell className="text-xs font-mono max-w-xs">
+                    {describeChanges(entry).map((change) => (
+                      <p key={change} className="break-words">{change}</p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs break-words">{entry.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {data && data.total > pageSize && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {offset + 1}–{Math.min(offset + pageSize, data.total)} of {data.total}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(offset - pageSize)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + pageSize >= data.total}
+                onClick={() => setOffset(offset + pageSize)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  companyRatingCriteria,
+  companyRatingCriterionLabels,
+  type CompanyRatingCriterion,
+  type CompanyTrustScore,
+} from "@shared/companyRatings";
+import type { CompanyRating } from "@shared/schema";
+import { Flag, MessageSquare, Star } from "lucide-react";
+
+// A rating as the public ratings endpoint returns it
+interface PublicCompanyRating {
+  id: string;
+  projectTitle: string | null;
+  clarity: number;
+  fairness: number;
+  paymentSpeed: number | null;
+  comment: string | null;
+  reply: string | null;
+  repliedAt: string | null;
+  createdAt: string | null;
+}
+
+// A rating as the company sees it, hidden and reported ones included
+type OwnCompanyRating = Omit<CompanyRating, "candidateId" | "moderatedBy"> & { projectTitle: string | null };
+
+interface CompanyRatingsResponse<T> {
+  trust: CompanyTrustScore;
+  ratings: T[];
+}
+
+function StarRow({ score, size = "h-4 w-4" }: { score: number; size?: string }) {
+  return (
+    <span className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star key={star} className={`${size} ${star <= Math.round(score) ? "fill-chart-4 text-chart-4" : "text-muted"}`} />
+      ))}
+    </span>
+  );
+}
+
+// The company's trust score from candidates, or a note that it has none yet
+export function CompanyTrustBadge({ trust }: { trust?: CompanyTrustScore | null }) {
+  if (!trust?.ratingCount || trust.score === null) {
+    return <span className="text-xs text-muted-foreground" data-testid="text-company-trust">No ratings yet</span>;
+  }
+  return (
+    <span className="flex items-center gap-1 text-sm" data-testid="text-company-trust">
+      <Star className="h-4 w-4 fill-chart-4 text-chart-4" />
+      <span className="font-medium">{trust.score.toFixed(1)}</span>
+      <span className="text-muted-foreground">({trust.ratingCount})</span>
+    </span>
+  );
+}
+
+// The average of each criterion behind the trust score
+function TrustBreakdown({ trust }: { trust: CompanyTrustScore }) {
+  return (
+    <div className="space-y-1">
+      {companyRatingCriteria.map((criterion) => (
+        <div key={criterion} className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{companyRatingCriterionLabels[criterion]}</span>
+          {trust[criterion] === null ? (
+            <span className="text-xs text-muted-foreground">Not rated</span>
+          ) : (
+            <span className="flex items-center gap-2">
+              <StarRow score={trust[criterion]!} size="h-3 w-3" />
+              {trust[criterion]!.toFixed(1)}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RatingScores({ rating }: { rating: Pick<CompanyRating, CompanyRatingCriterion> }) {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+      {companyRatingCriteria.map((criterion) =>
+        rating[criterion] === null ? null : (
+          <span key={criterion} className="flex items-center gap-1">
+            {companyRatingCriterionLabels[criterion]}
+            <StarRow score={rating[criterion]!} size="h-3 w-3" />
+          </span>
+        ),
+      )}
+    </div>
+  );
+}
+
+function RatingReply({ reply }: { reply: string }) {
+  return (
+    <div className="mt-2 ml-4 border-l-2 pl-3 text-sm">
+      <p className="text-xs font-medium text-muted-foreground">Reply from the company</p>
+      <p>{reply}</p>
+    </div>
+  );
+}
+
+// The trust score of a company and its published ratings with any replies,
+// for candidates deciding whether to take on one of its projects
+export function CompanyReviews({ companyId }: { companyId: string }) {
+  const { data, isLoading } = useQuery<CompanyRatingsResponse<PublicCompanyRating>>({
+    queryKey: ["/api/companies", companyId, "ratings"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (!data?.ratings.length) {
+    return <p className="text-sm text-muted-foreground">No candidate has rated this company yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="list-company-reviews">
+      <TrustBreakdown trust={data.trust} />
+      {data.ratings.map((rating) => (
+        <div key={rating.id} className="border-t pt-3" data-testid={`review-${rating.id}`}>
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-sm font-medium truncate">{rating.projectTitle || "Project"}</span>
+            <span className="text-xs text-muted-foreground">
+              {rating.createdAt ? new Date(rating.createdAt).toLocaleDateString() : ""}
+            </span>
+          </div>
+          <RatingScores rating={rating} />
+          {rating.comment && <p className="text-sm mt-2">{rating.comment}</p>}
+          {rating.reply && <RatingReply reply={rating.reply} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StarInput({ value, onChange, testId }: { value: number; onChange: (score: number) => void; testId: string }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          className="p-1"
+          aria-label={`${star} star${star > 1 ? "s" : ""}`}
+          data-testid={`${testId}-${star}`}
+        >
+          <Star className={`h-6 w-6 ${star <= value ? "fill-chart-4 text-chart-4" : "text-muted"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface RateCompanyDialogProps {
+  submissionId: string;
+  companyName?: string;
+  // Whether the submission was approved, and so paid
+  paid: boolean;
+}
+
+// Lets a candidate rate the company once it has decided on their submission
+export function RateCompanyDialog({ submissionId, companyName, paid }: RateCompanyDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [scores, setScores] = useState<Record<CompanyRatingCriterion, number>>({ clarity: 0, fairness: 0, paymentSpeed: 0 });
+  const [comment, setComment] = useState("");
+  const criteria = companyRatingCriteria.filter((criterion) => paid || criterion !== "paymentSpeed");
+
+  const rateMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/submissions/${submissionId}/company-rating`, {
+        clarity: scores.clarity,
+        fairness: scores.fairness,
+        ...(paid ? { paymentSpeed: scores.paymentSpeed } : {}),
+        comment: comment || undefined,
+      }),
+    onSuccess: () => {
+      toast({ title: "Thanks for rating!", description: "Your rating helps other candidates." });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/submissions"] });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" data-testid={`button-rate-company-${submissionId}`}>
+          <Star className="h-4 w-4 mr-2" />
+          Rate Company
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate {companyName || "the company"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {criteria.map((criterion) => (
+            <div key={criterion}>
+              <Label>{companyRatingCriterionLabels[criterion]}</Label>
+              <StarInput
+                value={scores[criterion]}
+                onChange={(score) => setScores({ ...scores, [criterion]: score })}
+                testId={`star-${criterion}`}
+              />
+            </div>
+          ))}
+          <div>
+            <Label>Comment (optional)</Label>
+            <Textarea
+              placeholder="What was it like working on this project?"
+              value={comment}
+              maxLength={2000}
+              onChange={(e) => setComment(e.target.value)}
+              className="mt-2"
+              data-testid="input-rating-comment"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Your rating is public but doesn't show your name. You can rate each submission once.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => rateMutation.mutate()}
+            disabled={rateMutation.isPending || criteria.some((criterion) => !scores[criterion])}
+            data-testid="button-submit-company-rating"
+          >
+            Submit Rating
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The company's ratings from candidates. Members who manage the company can
+// reply to each once and report ones they think break the rules.
+export function CompanyRatingsManager({ canManage }: { canManage: boolean }) {
+  const { toast } = useToast();
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [reporting, setReporting] = useState<OwnCompanyRating | null>(null);
+  const [reportReason, setReportReason] = useState("");
+
+  const { data, isLoading } = useQuery<CompanyRatingsResponse<OwnCompanyRating>>({
+    queryKey: ["/api/company/ratings"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const replyMutation = useMutation({
+    mutationFn: async (ratingId: string) =>
+      apiRequest("POST", `/api/company/ratings/${ratingId}/reply`, { reply: replies[ratingId] }),
+    onSuccess: () => {
+      toast({ title: "Reply posted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/ratings"] });
+    },
+    onError,
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async (ratingId: string) =>
+      apiRequest("POST", `/api/company/ratings/${ratingId}/report`, { reason: reportReason }),
+    onSuccess: () => {
+      toast({ title: "Rating reported", description: "An admin will look at it." });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/ratings"] });
+      setReporting(null);
+      setReportReason("");
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <Skeleton className="h-20 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Trust Score
+            <CompanyTrustBadge trust={data?.trust} />
+          </CardTitle>
+          <CardDescription>
+            Candidates rate you once you've approved or rejected their work. Candidates see this on your projects.
+          </CardDescription>
+        </CardHeader>
+        {data?.trust.ratingCount ? (
+          <CardContent>
+            <TrustBreakdown trust={data.trust} />
+          </CardContent>
+        ) : null}
+      </Card>
+
+      {data?.ratings.map((rating) => (
+        <Card key={rating.id} data-testid={`card-company-rating-${rating.id}`}>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <CardTitle className="text-base truncate">{rating.projectTitle || "Project"}</CardTitle>
+                <CardDescription>
+                  {rating.createdAt ? new Date(rating.createdAt).toLocaleDateString() : ""}
+                </CardDescription>
+              </div>
+              {rating.status === "hidden" ? (
+                <Badge variant="outline">Hidden by an admin</Badge>
+              ) : rating.reportedAt && !rating.moderatedAt ? (
+                <Badge variant="outline">Reported</Badge>
+              ) : null}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <RatingScores rating={rating} />
+            {rating.comment && <p className="text-sm">{rating.comment}</p>}
+            {rating.status === "hidden" && rating.moderationNote && (
+              <p className="text-xs text-muted-foreground">Hidden because: {rating.moderationNote}</p>
+            )}
+            {rating.reply ? (
+              <RatingReply reply={rating.reply} />
+            ) : canManage && rating.status === "published" ? (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Reply publicly. You can only reply once."
+                  value={replies[rating.id] ?? ""}
+                  maxLength={2000}
+                  onChange={(e) => setReplies({ ...replies, [rating.id]: e.target.value })}
+                  data-testid={`input-rating-reply-${rating.id}`}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => replyMutation.mutate(rating.id)}
+                    disabled={replyMutation.isPending || !replies[rating.id]?.trim()}
+                    data-testid={`button-reply-rating-${rating.id}`}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Reply
+                  </Button>
+                  {!rating.reportedAt && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setReporting(rating)}
+                      data-testid={`button-report-rating-${rating.id}`}
+                    >
+                      <Flag className="h-4 w-4 mr-2" />
+                      Report
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={!!reporting} onOpenChange={(open) => !open && setReporting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Rating</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label>Why should an admin look at this rating?</Label>
+            <Textarea
+              value={reportReason}
+              maxLength={2000}
+              onChange={(e) => setReportReason(e.target.value)}
+              className="mt-2"
+              data-testid="input-report-reason"
+            />
+            <p className="text-xs text-muted-foreground mt-1">You can report a rating once.</p>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => reporting && reportMutation.mutate(reporting.id)}
+              disabled={reportMutation.isPending || !reportReason.trim()}
+              data-testid="button-submit-report"
+            >
+              Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { companyRejectionReasonLabels, type CompanyRejectionReason } from "@shared/reviewReasons";
+import type { CompanyStatusChange } from "@shared/schema";
+
+const actionLabels: Record<string, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  resubmit: "Resubmitted for review",
+};
+
+// Timeline of admin reviews of a company and its resubmissions, oldest
+// first. `queryKey` points at the company or admin history endpoint.
+export function CompanyStatusHistory({ queryKey }: { queryKey: string[] }) {
+  const { data: history, isLoading } = useQuery<CompanyStatusChange[]>({ queryKey });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (!history?.length) {
+    return <p className="text-sm text-muted-foreground">Not reviewed yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3" data-testid="list-company-history">
+      {history.map((change) => (
+        <li key={change.id} className="border-l-2 pl-3">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-sm">{actionLabels[change.action] ?? change.action}</span>
+            <Badge variant="outline" className="capitalize text-xs">{change.toStatus}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {change.createdAt ? new Date(change.createdAt).toLocaleString() : ""}
+          </p>
+          {change.reason && (
+            <p className="text-sm mt-1 font-medium">
+              {companyRejectionReasonLabels[change.reason as CompanyRejectionReason] ?? change.reason}
+            </p>
+          )}
+          {change.note && <p className="text-sm mt-1">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  assignableCompanyRoles,
+  companyRoleDescriptions,
+  companyRoleLabels,
+  hasCompanyPermission,
+} from "@shared/companyRoles";
+import type { CompanyMemberWithUser, CompanyRole, SentCompanyInvitation } from "@shared/schema";
+import { Mail, UserMinus, UserPlus, X } from "lucide-react";
+
+interface CompanyTeamProps {
+  // The signed-in user's id and role on the team
+  userId?: string;
+  role: CompanyRole;
+}
+
+interface Team {
+  members: CompanyMemberWithUser[];
+  invitations: SentCompanyInvitation[];
+}
+
+function memberName(member: CompanyMemberWithUser) {
+  const { user } = member;
+  return [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || "Member";
+}
+
+// The company's team. Owners and admins invite people, change their roles
+// and remove them; everyone else sees who is on it and can leave.
+export function CompanyTeam({ userId, role }: CompanyTeamProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<CompanyRole>("reviewer");
+  const canManage = hasCompanyPermission(role, "manageMembers");
+
+  const { data: team, isLoading } = useQuery<Team>({
+    queryKey: ["/api/company/members"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/company/invitations", { email, role: inviteRole }),
+    onSuccess: () => {
+      toast({ title: "Invitation sent", description: `${email} has 7 days to accept it.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/members"] });
+      setEmail("");
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => apiRequest("DELETE", `/api/company/invitations/${invitationId}`),
+    onSuccess: () => {
+      toast({ title: "Invitation revoked" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/members"] });
+    },
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: CompanyRole }) =>
+      apiRequest("PATCH", `/api/company/members/${memberId}`, { role }),
+    onSuccess: () => {
+      toast({ title: "Role changed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/members"] });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (member: CompanyMemberWithUser) => apiRequest("DELETE", `/api/company/members/${member.id}`),
+    onSuccess: (_, member) => {
+      if (member.userId === userId) {
+        // Leaving the team takes the user out of the company altogether
+        queryClient.invalidateQueries({ queryKey: ["/api/company/profile"] });
+        return;
+      }
+      toast({ title: "Member removed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/members"] });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <Skeleton className="h-20 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Team</CardTitle>
+          <CardDescription>Everyone who works on your company's projects, and what they can do.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {team?.members.map((member) => (
+                <TableRow key={member.id} data-testid={`row-member-${member.id}`}>
+                  <TableCell>
+                    <p className="font-medium">{memberName(member)}</p>
+                    <p className="text-xs text-muted-foreground">{member.user?.email}</p>
+                  </TableCell>
+                  <TableCell>
+                    {canManage && member.role !== "owner" ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => roleMutation.mutate({ memberId: member.id, role: value as CompanyRole })}
+                        disabled={roleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-member-role-${member.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableCompanyRoles.map((option) => (
+                            <SelectItem key={option} value={option}>{companyRoleLabels[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{companyRoleLabels[member.role]}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {member.createdAt ? new Date(member.createdAt).toLocaleDateString() : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {member.role !== "owner" && (canManage || member.userId === userId) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMutation.mutate(member)}
+                        disabled={removeMutation.isPending}
+                        data-testid={`button-remove-member-${member.id}`}
+                      >
+                        <UserMinus className="mr-1 h-4 w-4" />
+                        {member.userId === userId ? "Leave" : "Remove"}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite a Teammate</CardTitle>
+            <CardDescription>{companyRoleDescriptions[inviteRole]}.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex flex-col sm:flex-row gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                inviteMutation.mutate();
+              }}
+            >
+              <Input
+                type="email"
+                placeholder="teammate@company.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                required
+                data-testid="input-invite-email"
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as CompanyRole)}>
+                <SelectTrigger className="sm:w-40" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableCompanyRoles.map((option) => (
+                    <SelectItem key={option} value={option}>{companyRoleLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={inviteMutation.isPending || !email} data-testid="button-send-invite">
+                <UserPlus className="mr-2 h-4 w-4" />
+                Invite
+              </Button>
+            </form>
+
+            {team?.invitations.length ? (
+              <ul className="space-y-2" data-testid="list-invitations">
+                {team.invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <span>{invitation.email}</span>
+                      <Badge variant="outline">{companyRoleLabels[invitation.role]}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-invitation-${invitation.id}`}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
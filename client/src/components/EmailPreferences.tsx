@@ -0,0 +1,64 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { NotificationType, User } from "@shared/schema";
+
+const emailOptions: { type: NotificationType; label: string; description: string }[] = [
+  { type: "submission_created", label: "New submissions", description: "When a candidate submits work to one of your projects." },
+  { type: "submission_reviewed", label: "Submission reviews", description: "When a company reviews your submission." },
+  { type: "submission_message", label: "Messages", description: "When someone replies in a submission's message thread." },
+  { type: "payment_released", label: "Payments", description: "When a payment is added to your balance." },
+  { type: "company_reviewed", label: "Company reviews", description: "When an admin reviews your company profile." },
+  { type: "project_reviewed", label: "Project reviews", description: "When an admin reviews one of your projects." },
+  { type: "company_rated", label: "Company ratings", description: "When a candidate rates your company." },
+];
+
+// Which notification types are also sent by email. Everything is emailed
+// unless the user opts out.
+export function EmailPreferences({ user }: { user: User }) {
+  const { toast } = useToast();
+  const optOuts = user.emailOptOuts ?? [];
+
+  const updateMutation = useMutation({
+    mutationFn: async (emailOptOuts: string[]) => apiRequest("PATCH", "/api/profile", { emailOptOuts }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (type: NotificationType, emailed: boolean) => {
+    updateMutation.mutate(emailed ? optOuts.filter((optOut) => optOut !== type) : [...optOuts, type]);
+  };
+
+  return (
+    <Card data-testid="card-email-preferences">
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>Choose which updates are also sent to {user.email ?? "your email"}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {emailOptions.map((option) => (
+          <div key={option.type} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`email-${option.type}`}>{option.label}</Label>
+              <p className="text-sm text-muted-foreground">{option.description}</p>
+            </div>
+            <Switch
+              id={`email-${option.type}`}
+              checked={!optOuts.includes(option.type)}
+              onCheckedChange={(checked) => toggle(option.type, checked)}
+              disabled={updateMutation.isPending}
+              data-testid={`switch-email-${option.type}`}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useRef, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { acceptedExtensions, formatFileSize, imageFileRules, isAllowedFile } from "@shared/uploads";
+import { Camera, Trash2 } from "lucide-react";
+
+interface ImagePickerProps {
+  imageUrl?: string | null;
+  fallback: ReactNode;
+  label: string;
+  onSelect: (file: File) => void;
+  onRemove?: () => void;
+  disabled?: boolean;
+  // Logos are letterboxed on the server, so they're shown uncropped
+  shape?: "circle" | "square";
+  testId: string;
+}
+
+// Shows an avatar or logo with buttons to pick a new image and remove it.
+// Files are checked against imageFileRules before onSelect is called.
+export function ImagePicker({
+  imageUrl,
+  fallback,
+  label,
+  onSelect,
+  onRemove,
+  disabled,
+  shape = "circle",
+  testId,
+}: ImagePickerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    if (!isAllowedFile(imageFileRules, file.name, file.type)) {
+      toast({ title: "Unsupported image", description: "Choose a PNG, JPEG, GIF or WebP image.", variant: "destructive" });
+      return;
+    }
+    if (file.size > imageFileRules.maxFileSize) {
+      toast({
+        title: "Image too large",
+        description: `Images can be at most ${formatFileSize(imageFileRules.maxFileSize)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onSelect(file);
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <Avatar className={`h-24 w-24 ${shape === "square" ? "rounded-lg" : ""}`}>
+        <AvatarImage
+          src={imageUrl || undefined}
+          alt={label}
+          className={shape === "square" ? "object-contain" : "object-cover"}
+        />
+        <AvatarFallback className={`text-2xl ${shape === "square" ? "rounded-lg" : ""}`}>{fallback}</AvatarFallback>
+      </Avatar>
+      <div className="flex flex-col gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={acceptedExtensions(imageFileRules)}
+          className="hidden"
+          onChange={(e) => {
+            handleChange(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+          data-testid={`input-${testId}`}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          data-testid={`button-change-${testId}`}
+        >
+          <Camera className="mr-2 h-4 w-4" />
+          {imageUrl ? `Change ${label.toLowerCase()}` : `Upload ${label.toLowerCase()}`}
+        </Button>
+        {imageUrl && onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            disabled={disabled}
+            data-testid={`button-remove-${testId}`}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
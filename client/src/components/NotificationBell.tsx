@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  // Pushed over the realtime connection, and polled in case it is down
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    refetchInterval: 30_000,
+  });
+
+  const { data: notifications, isLoading } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/notifications/${id}/read`),
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: invalidate,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  const unreadCount = unread?.count ?? 0;
+
+  return (
+    <DropdownMenu open={open} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center"
+              data-testid="badge-unread-count"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">Loading...</p>
+          ) : !notifications?.length ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-1 cursor-pointer"
+                onSelect={() => openNotification(notification)}
+                data-testid={`item-notification-${notification.id}`}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && <span className="h-2 w-2 rounded-full bg-primary shrink-0" />}
+                  <span className="font-medium text-sm">{notification.title}</span>
+                </div>
+                <span className="text-sm text-muted-foreground">{notification.body}</span>
+                {notification.createdAt && (
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </span>
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState, type ReactNode } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { RubricEditor } from "@/components/Rubric";
+import type { Project } from "@shared/schema";
+import type { RubricCriterion } from "@shared/rubric";
+import { projectFieldLabels, type EditableProjectField } from "@shared/projectEditing";
+
+const projectFormSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters"),
+  description: z.string().min(20, "Description must be at least 20 characters"),
+  requirements: z.string().optional(),
+  skills: z.string().optional(),
+  payment: z.string().optional(),
+  difficulty: z.string().default("intermediate"),
+  deadline: z.string().optional(),
+  maxSubmissions: z.string().default("10"),
+  maxRevisions: z.string().default("2"),
+  blindReview: z.boolean().default(false),
+});
+
+type ProjectFormData = z.infer<typeof projectFormSchema>;
+
+const emptyProject: ProjectFormData = {
+  title: "",
+  description: "",
+  requirements: "",
+  skills: "",
+  payment: "0",
+  difficulty: "intermediate",
+  deadline: "",
+  maxSubmissions: "10",
+  maxRevisions: "2",
+  blindReview: false,
+};
+
+// The form filled in with a project being edited
+function projectFormValues(project: Project): ProjectFormData {
+  return {
+    title: project.title,
+    description: project.description,
+    requirements: project.requirements ?? "",
+    skills: project.skills?.join(", ") ?? "",
+    payment: project.payment,
+    difficulty: project.difficulty ?? "intermediate",
+    deadline: project.deadline ? new Date(project.deadline).toISOString().slice(0, 10) : "",
+    maxSubmissions: String(project.maxSubmissions ?? 10),
+    maxRevisions: String(project.maxRevisions),
+    blindReview: project.blindReview,
+  };
+}
+
+// What the create, edit and resubmit routes take
+function projectRequest(data: ProjectFormData, rubric: RubricCriterion[]) {
+  return {
+    ...data,
+    skills: data.skills?.split(",").map(s => s.trim()).filter(Boolean),
+    maxSubmissions: parseInt(data.maxSubmissions) || 10,
+    maxRevisions: Number.isNaN(parseInt(data.maxRevisions)) ? 2 : parseInt(data.maxRevisions),
+    deadline: data.deadline || null,
+    rubric,
+  };
+}
+
+export type ProjectRequest = ReturnType<typeof projectRequest>;
+
+interface ProjectFormProps {
+  // The project being edited; the form starts empty without one
+  project?: Project;
+  submitLabel: string;
+  pendingLabel: string;
+  isPending: boolean;
+  onSubmit: (request: ProjectRequest) => void;
+  // False disables the submit button, leaving only saving as a draft
+  canSubmit?: boolean;
+  // Adds a "Save as Draft" button when given
+  onSaveDraft?: (request: ProjectRequest) => void;
+  // Fields that can't change on the project being edited
+  lockedFields?: readonly EditableProjectField[];
+  // Shown above the extra fields for the request as it stands, e.g. to
+  // warn that saving sends the project back to review
+  notice?: (request: ProjectRequest) => ReactNode;
+  // Extra fields shown above the submit button
+  children?: ReactNode;
+}
+
+// The fields of a project, for posting a new one or editing one. Meant for
+// the body of a dialog; it ends with the dialog's footer.
+export function ProjectForm({
+  project,
+  submitLabel,
+  pendingLabel,
+  isPending,
+  onSubmit,
+  canSubmit = true,
+  onSaveDraft,
+  lockedFields = [],
+  notice,
+  children,
+}: ProjectFormProps) {
+  const [rubric, setRubric] = useState<RubricCriterion[]>(project?.rubric ?? []);
+  const form = useForm<ProjectFormData>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: project ? projectFormValues(project) : emptyProject,
+  });
+  const locked = (field: EditableProjectField) => lockedFields.includes(field);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => onSubmit(projectRequest(data, rubric)))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Project Title</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Build a Landing Page" {...field} data-testid="input-project-title" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea 
+                  placeholder="Describe what candidates need to build..." 
+                  className="min-h-[100px]"
+                  {...field} 
+                  data-testid="input-project-description"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="requirements"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Requirements (Optional)</FormLabel>
+              <FormControl>
+                <Textarea 
+                  placeholder="List specific requirements or deliverables..." 
+                  {...field} 
+                  data-testid="input-project-requirements"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="payment"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment (USD, Optional)</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="0" {...field} disabled={locked("payment")} data-testid="input-project-payment" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="difficulty"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Difficulty</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-project-difficulty">
+                      <SelectValue placeholder="Select difficulty" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="beginner">Beginner</SelectItem>
+                    <SelectItem value="intermediate">Intermediate</SelectItem>
+                    <SelectItem value="advanced">Advanced</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="skills"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Required Skills (comma-separated)</FormLabel>
+              <FormControl>
+                <Input placeholder="React, TypeScript, Tailwind" {...field} data-testid="input-project-skills" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="deadline"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Deadline (Optional)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} data-testid="input-project-deadline" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxSubmissions"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Submissions</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="10" {...field} data-testid="input-project-max" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxRevisions"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Revisions Allowed</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={10}
+                    placeholder="2"
+                    {...field}
+                    disabled={locked("maxRevisions")}
+                    data-testid="input-project-max-revisions"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="blindReview"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <FormLabel>Blind Review</FormLabel>
+                <p className="text-xs text-muted-foreground">
+                  Hide who sent each submission until you approve or reject it.
+                </p>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={locked("blindReview")}
+                  data-testid="switch-blind-review"
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <Label>Scoring Rubric (optional)</Label>
+          <p className="text-xs text-muted-foreground">
+            Score submissions against weighted criteria instead of a single star rating.
+          </p>
+          {locked("rubric") ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-rubric-locked">
+              {rubric.length ? rubric.map((criterion) => criterion.name).join(", ") : "Star rating"}
+            </p>
+          ) : (
+            <RubricEditor value={rubric} onChange={setRubric} />
+          )}
+        </div>
+        {lockedFields.length > 0 && (
+          <p className="text-xs text-muted-foreground" data-testid="text-locked-fields">
+            {lockedFields.map((field) => projectFieldLabels[field]).join(", ")} can't change any more.
+          </p>
+        )}
+        {notice?.(projectRequest(form.watch(), rubric))}
+        {children}
+        <DialogFooter>
+          {onSaveDraft && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isPending}
+              onClick={form.handleSubmit((data) => onSaveDraft(projectRequest(data, rubric)))}
+              data-testid="button-save-project-draft"
+            >
+              Save as Draft
+            </Button>
+          )}
+          <Button type="submit" disabled={isPending || !canSubmit} data-testid="button-submit-project">
+            {isPending ? pendingLabel : submitLabel}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
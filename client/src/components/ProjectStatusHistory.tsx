@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { projectActionLabels, type ProjectAction } from "@shared/projectLifecycle";
+import { projectRejectionReasonLabels, type ProjectRejectionReason } from "@shared/reviewReasons";
+import type { ProjectStatusChange } from "@shared/schema";
+
+const actorLabels: Record<ProjectStatusChange["actor"], string> = {
+  company: "Company",
+  admin: "Admin",
+  system: "Automatic",
+};
+
+// Timeline of a project's status changes, oldest first. `queryKey` points
+// at the company or admin history endpoint for the project.
+export function ProjectStatusHistory({ queryKey }: { queryKey: string[] }) {
+  const { data: history, isLoading } = useQuery<ProjectStatusChange[]>({ queryKey });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (!history?.length) {
+    return <p className="text-sm text-muted-foreground">No status changes yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3" data-testid="list-project-history">
+      {history.map((change) => (
+        <li key={change.id} className="border-l-2 pl-3">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-sm">
+              {projectActionLabels[change.action as ProjectAction] ?? change.action}
+            </span>
+            <Badge variant="outline" className="capitalize text-xs">{change.toStatus}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {actorLabels[change.actor]} · {change.createdAt ? new Date(change.createdAt).toLocaleString() : ""}
+          </p>
+          {change.reason && (
+            <p className="text-sm mt-1 font-medium">
+              {projectRejectionReasonLabels[change.reason as ProjectRejectionReason] ?? change.reason}
+            </p>
+          )}
+          {change.note && <p className="text-sm mt-1">{change.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  handlePattern,
+  publicProfileFieldLabels,
+  publicProfileFields,
+  shownProfileFields,
+  type PublicProfileField,
+} from "@shared/publicProfile";
+import type { User } from "@shared/schema";
+import { Copy, ExternalLink } from "lucide-react";
+
+// The candidate's public profile at /u/:handle: the handle it lives at and
+// which fields it shows
+export function PublicProfileSettings({ user }: { user: User }) {
+  const { toast } = useToast();
+  const [handle, setHandle] = useState(user.handle ?? "");
+  const shown = shownProfileFields(user);
+  const url = user.handle ? `${window.location.origin}/u/${user.handle}` : null;
+
+  useEffect(() => {
+    setHandle(user.handle ?? "");
+  }, [user.handle]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { handle?: string; publicProfileFields?: string[] }) =>
+      apiRequest("PATCH", "/api/profile", updates),
+    onSuccess: (_, updates) => {
+      if (updates.handle !== undefined) {
+        toast({ title: updates.handle ? "Public profile saved" : "Public profile taken down" });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (field: PublicProfileField, show: boolean) => {
+    updateMutation.mutate({
+      publicProfileFields: show ? [...shown, field] : shown.filter((shownField) => shownField !== field),
+    });
+  };
+
+  const normalized = handle.trim().toLowerCase();
+  const validHandle = !normalized || handlePattern.test(normalized);
+
+  return (
+    <div className="space-y-6">
+      <Card data-testid="card-public-profile">
+        <CardHeader>
+          <CardTitle>Public Profile</CardTitle>
+          <CardDescription>
+            Pick a handle to get a profile you can share with anyone, signed in or not. Clear it to take the profile down.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="input-handle">Handle</Label>
+            <div className="flex gap-2 mt-2">
+              <div className="flex flex-1 items-center rounded-md border pl-3">
+                <span className="text-sm text-muted-foreground">/u/</span>
+                <Input
+                  id="input-handle"
+                  className="border-0 focus-visible:ring-0 pl-1"
+                  placeholder="your-name"
+                  value={handle}
+                  maxLength={30}
+                  onChange={(e) => setHandle(e.target.value)}
+                  data-testid="input-handle"
+                />
+              </div>
+              <Button
+                onClick={() => updateMutation.mutate({ handle: normalized })}
+                disabled={updateMutation.isPending || !validHandle || normalized === (user.handle ?? "")}
+                data-testid="button-save-handle"
+              >
+                Save
+              </Button>
+            </div>
+            {!validHandle && (
+              <p className="text-sm text-destructive mt-1">Use 3-30 lowercase letters, digits and hyphens.</p>
+            )}
+          </div>
+          {url && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/u/${user.handle}`} data-testid="link-public-profile">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  View
+                </Link>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  navigator.clipboard.writeText(url);
+                  toast({ title: "Link copied" });
+                }}
+                data-testid="button-copy-profile-link"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Link
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-profile-privacy">
+        <CardHeader>
+          <CardTitle>What Your Profile Shows</CardTitle>
+          <CardDescription>Fields you turn off are never sent to visitors. Your email is never shown.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {publicProfileFields.map((field) => (
+            <div key={field} className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`show-${field}`}>{publicProfileFieldLabels[field].label}</Label>
+                <p className="text-sm text-muted-foreground">{publicProfileFieldLabels[field].description}</p>
+              </div>
+              <Switch
+                id={`show-${field}`}
+                checked={shown.includes(field)}
+                onCheckedChange={(checked) => toggle(field, checked)}
+                disabled={updateMutation.isPending}
+                data-testid={`switch-show-${field}`}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { companyRatingCriteria, companyRatingCriterionLabels } from "@shared/companyRatings";
+import type { CompanyRating } from "@shared/schema";
+import { CheckCircle, EyeOff, RotateCcw, Star } from "lucide-react";
+
+interface RatingForModeration extends CompanyRating {
+  projectTitle: string | null;
+  company: { id: string; name: string } | null;
+}
+
+type Filter = "reported" | "hidden";
+
+// Company ratings for admins to moderate: reports from companies waiting on
+// a decision, and the ratings already hidden, which can be put back
+export function RatingModeration() {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<Filter>("reported");
+  const [hiding, setHiding] = useState<RatingForModeration | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: ratings, isLoading } = useQuery<RatingForModeration[]>({
+    queryKey: [`/api/admin/company-ratings?filter=${filter}`],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ ratingId, action, note }: { ratingId: string; action: "hide" | "restore" | "dismiss"; note?: string }) =>
+      apiRequest("POST", `/api/admin/company-ratings/${ratingId}/moderate`, { action, note }),
+    onSuccess: (_, { action }) => {
+      toast({ title: action === "hide" ? "Rating hidden" : action === "restore" ? "Rating restored" : "Report dismissed" });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/company-ratings"),
+      });
+      setHiding(null);
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-sm">
+          Companies can report a rating once. Hidden ratings leave the company's trust score.
+        </p>
+        <Select value={filter} onValueChange={(value) => setFilter(value as Filter)}>
+          <SelectTrigger className="w-40" data-testid="select-rating-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="reported">Reported</SelectItem>
+            <SelectItem value="hidden">Hidden</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !ratings?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {filter === "reported" ? "No reported ratings." : "No hidden ratings."}
+          </CardContent>
+        </Card>
+      ) : (
+        ratings.map((rating) => (
+          <Card key={rating.id} data-testid={`card-moderate-rating-${rating.id}`}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <CardTitle className="text-base">{rating.company?.name || "Company"}</CardTitle>
+                  <CardDescription>
+                    {rating.projectTitle || "Project"} · rated{" "}
+                    {rating.createdAt ? new Date(rating.createdAt).toLocaleDateString() : ""}
+                  </CardDescription>
+                </div>
+                <Badge variant="outline" className="capitalize">{rating.status}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {companyRatingCriteria.map((criterion) =>
+                  rating[criterion] === null ? null : (
+                    <span key={criterion} className="flex items-center gap-1">
+                      {companyRatingCriterionLabels[criterion]}: {rating[criterion]}
+                      <Star className="h-3 w-3 fill-chart-4 text-chart-4" />
+                    </span>
+                  ),
+                )}
+              </div>
+              {rating.comment && <p className="text-sm">{rating.comment}</p>}
+              {rating.reportReason && (
+                <div className="p-3 bg-muted rounded-lg text-sm">
+                  <span className="font-medium">Reported by the company:</span> {rating.reportReason}
+                </div>
+              )}
+              {rating.status === "hidden" && rating.moderationNote && (
+                <p className="text-sm text-muted-foreground">Hidden because: {rating.moderationNote}</p>
+              )}
+              <div className="flex gap-2">
+                {rating.status === "published" ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => setHiding(rating)}
+                      data-testid={`button-hide-rating-${rating.id}`}
+                    >
+                      <EyeOff className="h-4 w-4 mr-2" />
+                      Hide
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => moderateMutation.mutate({ ratingId: rating.id, action: "dismiss" })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-dismiss-report-${rating.id}`}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Keep Rating
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moderateMutation.mutate({ ratingId: rating.id, action: "restore" })}
+                    disabled={moderateMutation.isPending}
+                    data-testid={`button-restore-rating-${rating.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!hiding} onOpenChange={(open) => !open && setHiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hide Rating</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label>Why is this rating hidden?</Label>
+            <Textarea
+              value={note}
+              maxLength={2000}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-2"
+              data-testid="input-hide-note"
+            />
+            <p className="text-xs text-muted-foreground mt-1">The company sees this note.</p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => hiding && moderateMutation.mutate({ ratingId: hiding.id, action: "hide", note })}
+              disabled={moderateMutation.isPending || !note.trim()}
+              data-testid="button-confirm-hide"
+            >
+              Hide Rating
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { rubricLevels, weightedScore, type CriterionScore, type RubricCriterion } from "@shared/rubric";
+import { Plus, Trash2 } from "lucide-react";
+
+const levelNumbers = Array.from({ length: rubricLevels }, (_, i) => i + 1);
+
+export function emptyCriterion(): RubricCriterion {
+  return { name: "", weight: 1, levels: levelNumbers.map(() => "") };
+}
+
+// Criteria a company adds to a project before posting it. Each has a name,
+// a weight and what earns each score.
+export function RubricEditor({ value, onChange }: { value: RubricCriterion[]; onChange: (rubric: RubricCriterion[]) => void }) {
+  const update = (index: number, changes: Partial<RubricCriterion>) =>
+    onChange(value.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+
+  return (
+    <div className="space-y-3" data-testid="rubric-editor">
+      {value.map((criterion, index) => (
+        <div key={index} className="rounded-lg border p-3 space-y-2" data-testid={`rubric-criterion-${index}`}>
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label className="text-xs">Criterion</Label>
+              <Input
+                placeholder="e.g. Code quality"
+                value={criterion.name}
+                maxLength={100}
+                onChange={(e) => update(index, { name: e.target.value })}
+                data-testid={`input-criterion-name-${index}`}
+              />
+            </div>
+            <div className="w-24">
+              <Label className="text-xs">Weight</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={criterion.weight}
+                onChange={(e) => update(index, { weight: parseInt(e.target.value) || 1 })}
+                data-testid={`input-criterion-weight-${index}`}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              data-testid={`button-remove-criterion-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Remove criterion</span>
+            </Button>
+          </div>
+          {levelNumbers.map((level) => (
+            <div key={level} className="flex items-center gap-2">
+              <span className="w-4 text-xs font-mono text-muted-foreground">{level}</span>
+              <Input
+                className="h-8 text-sm"
+                placeholder={level === 1 ? "What earns the lowest score" : level === rubricLevels ? "What earns the top score" : ""}
+                value={criterion.levels[level - 1]}
+                maxLength={300}
+                onChange={(e) =>
+                  update(index, { levels: criterion.levels.map((text, i) => (i === level - 1 ? e.target.value : text)) })
+                }
+                data-testid={`input-criterion-level-${index}-${level}`}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+      {value.length < 10 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, emptyCriterion()])}
+          data-testid="button-add-criterion"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Criterion
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface RubricScorerProps {
+  rubric: RubricCriterion[];
+  // Scores so far, keyed by criterion name
+  scores: Record<string, number>;
+  onChange: (scores: Record<string, number>) => void;
+}
+
+// Scores a submission against each criterion, showing what the chosen
+// score means and the weighted total it adds up to
+export function RubricScorer({ rubric, scores, onChange }: RubricScorerProps) {
+  const scored = rubric.filter((criterion) => scores[criterion.name]);
+  const total = weightedScore(scored.map((criterion) => ({ ...criterion, score: scores[criterion.name] })));
+
+  return (
+    <div className="space-y-3" data-testid="rubric-scorer">
+      {rubric.map((criterion, index) => {
+        const score = scores[criterion.name];
+        return (
+          <div key={criterion.name} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{criterion.name}</span>
+              <span className="text-xs text-muted-foreground">Weight {criterion.weight}</span>
+            </div>
+            <div className="flex gap-1">
+              {levelNumbers.map((level) => (
+                <Button
+                  key={level}
+                  type="button"
+                  size="sm"
+                  variant={score === level ? "default" : "outline"}
+                  className="w-9"
+                  onClick={() => onChange({ ...scores, [criterion.name]: level })}
+                  data-testid={`button-score-${index}-${level}`}
+                >
+                  {level}
+                </Button>
+              ))}
+            </div>
+            {score && criterion.levels[score - 1] && (
+              <p className="text-xs text-muted-foreground">{criterion.levels[score - 1]}</p>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-sm" data-testid="text-weighted-score">
+        Weighted score:{" "}
+        <span className="font-mono font-medium">
+          {scored.length === rubric.length ? `${total.toFixed(1)}/${rubricLevels}` : "score every criterion"}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+// The per-criterion scores behind a rating
+export function RubricBreakdown({ scores }: { scores: CriterionScore[] }) {
+  return (
+    <ul className="space-y-1" data-testid="list-rubric-breakdown">
+      {scores.map((criterion) => (
+        <li key={criterion.name} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate">{criterion.name}</span>
+          <span className="text-xs text-muted-foreground">×{criterion.weight}</span>
+          <span className="w-8 text-right font-mono">
+            {criterion.score}/{rubricLevels}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,46 @@
+import { Download, FileArchive, FileImage, FileText } from "lucide-react";
+import { formatFileSize } from "@shared/uploads";
+import type { SubmissionFile } from "@shared/schema";
+
+function FileIcon({ contentType }: { contentType: string }) {
+  if (contentType.startsWith("image/")) {
+    return <FileImage className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  }
+  if (contentType === "application/pdf") {
+    return <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  }
+  return <FileArchive className="h-4 w-4 shrink-0 text-muted-foreground" />;
+}
+
+type DownloadableFile = Pick<SubmissionFile, "id" | "fileName" | "contentType" | "size">;
+
+// Download links for a list of stored files
+export function FileLinks<T extends DownloadableFile>({ files, hrefFor }: { files?: T[]; hrefFor: (file: T) => string }) {
+  if (!files?.length) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1" data-testid="list-submission-files">
+      {files.map((file) => (
+        <li key={file.id}>
+          <a
+            href={hrefFor(file)}
+            className="flex items-center gap-2 text-sm text-primary hover:underline"
+            data-testid={`link-file-${file.id}`}
+          >
+            <FileIcon contentType={file.contentType} />
+            <span className="truncate">{file.fileName}</span>
+            <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+            <Download className="h-3 w-3 shrink-0" />
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Download links for the files attached to a submission
+export function SubmissionFiles({ files }: { files?: SubmissionFile[] }) {
+  return <FileLinks files={files} hrefFor={(file) => `/api/submissions/${file.submissionId}/files/${file.id}`} />;
+}
@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SubmissionFiles } from "@/components/SubmissionFiles";
+import type { SubmissionRevisionWithFiles } from "@shared/schema";
+import { MessageSquareWarning } from "lucide-react";
+
+// Every revision of a submission, newest first, with the changes the
+// company asked for on each one it sent back
+export function SubmissionRevisions({ submissionId }: { submissionId: string }) {
+  const { data: revisions, isLoading } = useQuery<SubmissionRevisionWithFiles[]>({
+    queryKey: ["/api/submissions", submissionId, "revisions"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+  if (!revisions?.length) {
+    return null;
+  }
+
+  return (
+    <ol className="space-y-3" data-testid={`list-revisions-${submissionId}`}>
+      {[...revisions].reverse().map((revision, index) => (
+        <li key={revision.id} className="rounded-lg border p-3 space-y-2" data-testid={`revision-${revision.number}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">Revision {revision.number}</span>
+            <div className="flex items-center gap-2">
+              {index === 0 && <Badge variant="outline">Current</Badge>}
+              <span className="text-xs text-muted-foreground">
+                {new Date(revision.createdAt!).toLocaleDateString()}
+              </span>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{revision.content}</p>
+          {revision.attachmentUrl && (
+            <a
+              href={revision.attachmentUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary hover:underline"
+            >
+              View Attachment
+            </a>
+          )}
+          <SubmissionFiles files={revision.files} />
+          {revision.changesRequested && (
+            <div className="flex gap-2 rounded bg-chart-4/10 p-2 text-sm">
+              <MessageSquareWarning className="h-4 w-4 shrink-0 text-chart-4 mt-0.5" />
+              <div>
+                <p className="font-medium">Changes requested</p>
+                <p className="text-muted-foreground whitespace-pre-wrap">{revision.changesRequested}</p>
+              </div>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
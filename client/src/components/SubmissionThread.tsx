@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileLinks } from "@/components/SubmissionFiles";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { acceptedExtensions, formatFileSize, isAllowedFile, messageFileRules } from "@shared/uploads";
+import type { MessageSender, SubmissionMessageWithFiles } from "@shared/schema";
+import { CheckCheck, Check, MessageSquare, Paperclip, Send, X } from "lucide-react";
+
+interface SubmissionThreadProps {
+  submissionId: string;
+  // Which side of the thread the signed-in user is on
+  side: MessageSender;
+  // How the other side is labelled on their messages
+  otherName: string;
+}
+
+// The message thread between a submission's candidate and the company.
+// Opening it marks the other side's messages read, which they see as read
+// receipts on their own messages.
+export function SubmissionThread({ submissionId, side, otherName }: SubmissionThreadProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const messagesKey = ["/api/submissions", submissionId, "messages"];
+
+  const { data: messages, isLoading } = useQuery<SubmissionMessageWithFiles[]>({
+    queryKey: messagesKey,
+  });
+
+  const unread = messages?.filter((message) => message.sender !== side && !message.readAt).length ?? 0;
+
+  const readMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/submissions/${submissionId}/messages/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      queryClient.invalidateQueries({ queryKey: [side === "candidate" ? "/api/candidate/submissions" : "/api/company/projects"] });
+    },
+  });
+
+  // Runs again when a new message arrives while the thread is open
+  useEffect(() => {
+    if (unread > 0 && !readMutation.isPending) {
+      readMutation.mutate();
+    }
+  }, [unread]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const form = new FormData();
+      form.append("body", body);
+      for (const file of files) {
+        form.append("files", file);
+      }
+      return await apiRequest("POST", `/api/submissions/${submissionId}/messages`, form);
+    },
+    onSuccess: () => {
+      setBody("");
+      setFiles([]);
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Message not sent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addFiles = (selected: FileList | null) => {
+    const accepted: File[] = [];
+    for (const file of Array.from(selected ?? [])) {
+      if (!isAllowedFile(messageFileRules, file.name, file.type)) {
+        toast({ title: "Unsupported file", description: `${file.name} isn't a zip, pdf or image.`, variant: "destructive" });
+      } else if (file.size > messageFileRules.maxFileSize) {
+        toast({
+          title: "File too large",
+          description: `${file.name} is over ${formatFileSize(messageFileRules.maxFileSize)}.`,
+          variant: "destructive",
+        });
+      } else {
+        accepted.push(file);
+      }
+    }
+    const next = [...files, ...accepted];
+    if (next.length > messageFileRules.maxFiles) {
+      toast({ title: "Too many files", description: `Attach at most ${messageFileRules.maxFiles} files.`, variant: "destructive" });
+    }
+    setFiles(next.slice(0, messageFileRules.maxFiles));
+  };
+
+  return (
+    <div className="space-y-4" data-testid={`thread-${submissionId}`}>
+      <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : !messages?.length ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            <MessageSquare className="h-6 w-6 mx-auto mb-2" />
+            No messages yet. Ask a question or share an update.
+          </div>
+        ) : (
+          messages.map((message) => {
+            const mine = message.sender === side;
+            return (
+              <div key={message.id} className={`flex ${mine ? "justify-end" : "justify-start"}`} data-testid={`message-${message.id}`}>
+                <div className={`max-w-[85%] rounded-lg px-3 py-2 ${mine ? "bg-primary text-primary-foreground" : "bg-muted"}`}>
+                  <p className={`text-xs mb-1 ${mine ? "text-primary-foreground/80" : "text-muted-foreground"}`}>
+                    {mine ? "You" : otherName} · {formatDistanceToNow(new Date(message.createdAt!), { addSuffix: true })}
+                  </p>
+                  {message.body && <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>}
+                  {message.files.length > 0 && (
+                    <div className={`mt-2 rounded bg-background p-2 ${mine ? "text-foreground" : ""}`}>
+                      <FileLinks
+                        files={message.files}
+                        hrefFor={(file) => `/api/submissions/${submissionId}/messages/files/${file.id}`}
+                      />
+                    </div>
+                  )}
+                  {mine && (
+                    <p className="text-xs mt-1 flex items-center justify-end gap-1 text-primary-foreground/80" data-testid={`receipt-${message.id}`}>
+                      {message.readAt ? (
+                        <>
+                          <CheckCheck className="h-3 w-3" />
+                          Read
+                        </>
+                      ) : (
+                        <>
+                          <Check className="h-3 w-3" />
+                          Sent
+                        </>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder={`Message ${otherName}...`}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={5000}
+          data-testid="input-message"
+        />
+        {files.length > 0 && (
+          <ul className="space-y-1">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm" data-testid={`selected-message-file-${index}`}>
+                <Paperclip className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="truncate">{file.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 ml-auto"
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove {file.name}</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={acceptedExtensions(messageFileRules)}
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+            data-testid="input-message-files"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={files.length >= messageFileRules.maxFiles}
+            data-testid="button-attach-message-file"
+          >
+            <Paperclip className="mr-2 h-4 w-4" />
+            Attach
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => sendMutation.mutate()}
+            disabled={(!body.trim() && files.length === 0) || sendMutation.isPending}
+            data-testid="button-send-message"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            Send
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
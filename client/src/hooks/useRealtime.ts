@@ -0,0 +1,123 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { realtimePath, type RealtimeEvent } from "@shared/realtime";
+
+// Query keys each event makes stale. Invalidation matches by prefix, so
+// ["/api/company/projects"] also covers a project's history.
+function staleKeys(event: RealtimeEvent): unknown[][] {
+  switch (event.type) {
+    case "submission.created":
+      return [
+        ["/api/company/projects"],
+        ["/api/company/stats"],
+        ["/api/admin/stats"],
+        ["/api/projects", event.projectId],
+      ];
+    case "submission.reviewed":
+    case "submission.revised":
+      return [
+        ["/api/submissions", event.submissionId, "revisions"],
+        ["/api/candidate/submissions"],
+        ["/api/candidate/stats"],
+        ["/api/company/projects"],
+        ["/api/company/stats"],
+        ["/api/admin/stats"],
+        ["/api/projects", event.projectId],
+      ];
+    case "submission.messages":
+      return [
+        ["/api/submissions", event.submissionId, "messages"],
+        ["/api/candidate/submissions"],
+        ["/api/company/projects"],
+      ];
+    case "company.reviewed":
+    case "company.resubmitted":
+      return [
+        ["/api/company/profile"],
+        ["/api/company/profile/history"],
+        ["/api/admin/companies/pending"],
+        ["/api/admin/stats"],
+      ];
+    case "company.members":
+      return [["/api/company/members"], ["/api/company/profile"], ["/api/auth/user"]];
+    case "project.updated":
+      return [
+        ["/api/company/projects"],
+        ["/api/company/stats"],
+        ["/api/company/invoices"],
+        ["/api/admin/projects"],
+        ["/api/admin/projects/pending"],
+        ["/api/admin/stats"],
+        ["/api/projects", event.projectId],
+      ];
+    case "payment.updated":
+      return [
+        ["/api/candidate/stats"],
+        ["/api/candidate/payouts"],
+        ["/api/candidate/submissions"],
+        ["/api/company/stats"],
+        ["/api/company/invoices"],
+        ["/api/admin/payments/recent"],
+        ["/api/admin/stats"],
+      ];
+    case "payout.updated":
+      return [["/api/candidate/payouts"], ["/api/candidate/stats"], ["/api/admin/payouts"], ["/api/admin/jobs"]];
+    case "notification.created":
+      return [["/api/notifications"], ["/api/notifications/unread-count"]];
+  }
+}
+
+// Keeps a WebSocket to the server open while signed in and refetches the
+// queries each pushed event makes stale. Reconnects with backoff, and
+// refetches everything after a reconnect in case events were missed.
+export function useRealtime(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${realtimePath}`);
+
+      socket.onopen = () => {
+        if (attempts > 0) {
+          queryClient.invalidateQueries();
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as RealtimeEvent;
+          for (const queryKey of staleKeys(event)) {
+            queryClient.invalidateQueries({ queryKey });
+          }
+        } catch (error) {
+          console.error("Ignoring malformed realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) {
+          return;
+        }
+        attempts += 1;
+        retryTimer = setTimeout(connect, Math.min(1000 * 2 ** attempts, 30_000));
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
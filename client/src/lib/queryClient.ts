@@ -12,10 +12,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // FormData is sent as multipart, with the boundary header set by fetch
+  const isForm = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isForm ? { "Content-Type": "application/json" } : {},
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
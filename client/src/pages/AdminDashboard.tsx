@@ -13,6 +13,21 @@ import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProjectStatusHistory } from "@/components/ProjectStatusHistory";
+import { CompanyStatusHistory } from "@/components/CompanyStatusHistory";
+import { AuditLog } from "@/components/AuditLog";
+import { AdminUsers } from "@/components/AdminUsers";
+import { RatingModeration } from "@/components/RatingModeration";
+import { availableProjectActions } from "@shared/projectLifecycle";
+import {
+  companyRejectionReasonLabels,
+  companyRejectionReasons,
+  projectRejectionReasonLabels,
+  projectRejectionReasons,
+  type CompanyRejectionReason,
+  type ProjectRejectionReason,
+} from "@shared/reviewReasons";
 import { 
   Building2, 
   FileText, 
@@ -25,9 +40,23 @@ import {
   Shield,
   TrendingUp,
   AlertCircle,
-  Eye
+  Eye,
+  Wallet,
+  Ban,
+  RotateCcw,
+  Cog
 } from "lucide-react";
-import type { Company, Project, User, Payment } from "@shared/schema";
+import type {
+  Company,
+  CompanyStatusChange,
+  Project,
+  ProjectStatusChange,
+  User,
+  Payment,
+  Payout,
+  PayoutMethod,
+  Job,
+} from "@shared/schema";
 
 interface AdminStats {
   totalUsers: number;
@@ -38,12 +67,18 @@ interface AdminStats {
   totalPayouts: string;
 }
 
+// Pending companies and projects carry their last rejection when they've
+// been resubmitted
 interface CompanyWithUser extends Company {
   user?: User;
+  previousRejection?: CompanyStatusChange | null;
 }
 
 interface ProjectWithCompany extends Project {
   company?: Company;
+  previousRejection?: ProjectStatusChange | null;
+  // Set when an edit sent a live project back for review
+  wasLive?: boolean;
 }
 
 interface PaymentWithDetails extends Payment {
@@ -51,12 +86,20 @@ interface PaymentWithDetails extends Payment {
   company?: Company;
 }
 
+interface PayoutWithDetails extends Payout {
+  candidate?: User;
+  payoutMethod?: PayoutMethod;
+}
+
 export default function AdminDashboard() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const [selectedCompany, setSelectedCompany] = useState<CompanyWithUser | null>(null);
   const [selectedProject, setSelectedProject] = useState<ProjectWithCompany | null>(null);
+  const [selectedPayout, setSelectedPayout] = useState<PayoutWithDetails | null>(null);
+  const [moderatedProject, setModeratedProject] = useState<ProjectWithCompany | null>(null);
   const [reviewNote, setReviewNote] = useState("");
+  const [rejectionReason, setRejectionReason] = useState("");
 
   const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
@@ -78,15 +121,37 @@ export default function AdminDashboard() {
     enabled: isAuthenticated && user?.role === "admin",
   });
 
+  const liveProjectsKey = ["/api/admin/projects?status=active,paused,suspended"];
+  const { data: liveProjects } = useQuery<ProjectWithCompany[]>({
+    queryKey: liveProjectsKey,
+    enabled: isAuthenticated && user?.role === "admin",
+  });
+
+  const { data: requestedPayouts, isLoading: payoutsLoading } = useQuery<PayoutWithDetails[]>({
+    queryKey: ["/api/admin/payouts"],
+    enabled: isAuthenticated && user?.role === "admin",
+  });
+
+  const { data: failedJobs, isLoading: jobsLoading } = useQuery<Job[]>({
+    queryKey: ["/api/admin/jobs"],
+    enabled: isAuthenticated && user?.role === "admin",
+  });
+
   const approveCompanyMutation = useMutation({
     mutationFn: async ({ companyId, approved }: { companyId: string; approved: boolean }) => {
-      return await apiRequest("POST", `/api/admin/companies/${companyId}/review`, { approved });
+      return await apiRequest("POST", `/api/admin/companies/${companyId}/review`, {
+        approved,
+        reason: approved ? undefined : rejectionReason,
+        note: reviewNote,
+      });
     },
     onSuccess: () => {
       toast({ title: "Company reviewed!" });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/companies/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
       setSelectedCompany(null);
+      setReviewNote("");
+      setRejectionReason("");
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -95,13 +160,71 @@ export default function AdminDashboard() {
 
   const approveProjectMutation = useMutation({
     mutationFn: async ({ projectId, approved }: { projectId: string; approved: boolean }) => {
-      return await apiRequest("POST", `/api/admin/projects/${projectId}/review`, { approved });
+      return await apiRequest("POST", `/api/admin/projects/${projectId}/review`, {
+        approved,
+        reason: approved ? undefined : rejectionReason,
+        note: reviewNote,
+      });
     },
     onSuccess: () => {
       toast({ title: "Project reviewed!" });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/projects/pending"] });
+      queryClient.invalidateQueries({ queryKey: liveProjectsKey });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
       setSelectedProject(null);
+      setReviewNote("");
+      setRejectionReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const moderateProjectMutation = useMutation({
+    mutationFn: async ({ projectId, action }: { projectId: string; action: "suspend" | "reinstate" }) => {
+      return await apiRequest("POST", `/api/admin/projects/${projectId}/status`, { action, note: reviewNote });
+    },
+    onSuccess: (_response, { projectId, action }) => {
+      toast({ title: action === "suspend" ? "Project suspended" : "Project reinstated" });
+      queryClient.invalidateQueries({ queryKey: liveProjectsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/projects", projectId, "history"] });
+      setModeratedProject(null);
+      setReviewNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      return await apiRequest("POST", `/api/admin/jobs/${jobId}/retry`);
+    },
+    onSuccess: () => {
+      toast({ title: "Job queued again" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reviewPayoutMutation = useMutation({
+    mutationFn: async ({ payoutId, approved }: { payoutId: string; approved: boolean }) => {
+      const response = await apiRequest("POST", `/api/admin/payouts/${payoutId}/review`, { approved, note: reviewNote });
+      return await response.json() as Payout;
+    },
+    onSuccess: (payout) => {
+      toast({
+        title: payout.status === "failed" ? "Payout failed" : "Payout reviewed!",
+        description: payout.failureReason ?? undefined,
+        variant: payout.status === "failed" ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      setSelectedPayout(null);
+      setReviewNote("");
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -259,9 +382,24 @@ export default function AdminDashboard() {
               <TabsTrigger value="projects" data-testid="tab-projects">
                 Pending Projects ({pendingProjects?.length || 0})
               </TabsTrigger>
+              <TabsTrigger value="payouts" data-testid="tab-payouts">
+                Payout Requests ({requestedPayouts?.length || 0})
+              </TabsTrigger>
               <TabsTrigger value="payments" data-testid="tab-payments">
                 Recent Payments
               </TabsTrigger>
+              <TabsTrigger value="ratings" data-testid="tab-ratings">
+                Ratings
+              </TabsTrigger>
+              <TabsTrigger value="users" data-testid="tab-users">
+                Users
+              </TabsTrigger>
+              <TabsTrigger value="audit" data-testid="tab-audit">
+                Audit
+              </TabsTrigger>
+              <TabsTrigger value="jobs" data-testid="tab-jobs">
+                Failed Jobs ({failedJobs?.length || 0})
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="companies">
@@ -296,11 +434,19 @@ export default function AdminDashboard() {
                               <CardDescription>{company.industry} • {company.size}</CardDescription>
                             </div>
                           </div>
-                          <Badge className="bg-chart-4/10 text-chart-4">Pending</Badge>
+                          <Badge className="bg-chart-4/10 text-chart-4">
+                            {company.previousRejection ? "Resubmitted" : "Pending"}
+                          </Badge>
                         </div>
                       </CardHeader>
                       <CardContent>
                         <p className="text-sm text-muted-foreground line-clamp-2 mb-4">{company.description}</p>
+                        {company.previousRejection?.reason && (
+                          <p className="text-sm mb-4" data-testid={`text-previous-rejection-${company.id}`}>
+                            Previously rejected:{" "}
+                            {companyRejectionReasonLabels[company.previousRejection.reason as CompanyRejectionReason] ?? company.previousRejection.reason}
+                          </p>
+                        )}
                         <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
                           <span>Created by: {company.user?.email || "Unknown"}</span>
                         </div>
@@ -354,12 +500,25 @@ export default function AdminDashboard() {
                           </div>
                           <div className="text-right">
                             <p className="font-bold text-primary">${project.payment}</p>
-                            <Badge className="bg-chart-4/10 text-chart-4 mt-1">Pending</Badge>
+                            <Badge className="bg-chart-4/10 text-chart-4 mt-1">
+                              {project.wasLive ? "Edited" : project.previousRejection ? "Resubmitted" : "Pending"}
+                            </Badge>
                           </div>
                         </div>
                       </CardHeader>
                       <CardContent>
                         <p className="text-sm text-muted-foreground line-clamp-2 mb-4">{project.description}</p>
+                        {project.wasLive && (
+                          <p className="text-sm mb-4" data-testid={`text-was-live-${project.id}`}>
+                            Edited while live. Approving puts it back live on the escrow it already holds.
+                          </p>
+                        )}
+                        {project.previousRejection?.reason && (
+                          <p className="text-sm mb-4" data-testid={`text-previous-rejection-${project.id}`}>
+                            Previously rejected:{" "}
+                            {projectRejectionReasonLabels[project.previousRejection.reason as ProjectRejectionReason] ?? project.previousRejection.reason}
+                          </p>
+                        )}
                         <div className="flex flex-wrap gap-2 mb-4">
                           {project.skills?.slice(0, 3).map((skill) => (
                             <Badge key={skill} variant="secondary" className="text-xs">{skill}</Badge>
@@ -379,6 +538,104 @@ export default function AdminDashboard() {
                   ))}
                 </div>
               )}
+              
+              {(liveProjects?.length || 0) > 0 && (
+                <Card className="mt-6" data-testid="card-live-projects">
+                  <CardHeader>
+                    <CardTitle>Live Projects</CardTitle>
+                    <CardDescription>Active, paused and suspended projects</CardDescription>
+                  </CardHeader>
+                  <CardContent className="divide-y">
+                    {liveProjects?.map((project) => (
+                      <div key={project.id} className="flex items-center justify-between gap-4 py-3" data-testid={`row-live-project-${project.id}`}>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{project.title}</p>
+                          <p className="text-sm text-muted-foreground flex items-center gap-2">
+                            <Building2 className="h-3 w-3" />
+                            {project.company?.name || "Company"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <Badge
+                            variant={project.status === "suspended" ? "destructive" : "secondary"}
+                            className="capitalize"
+                          >
+                            {project.status}
+                          </Badge>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setModeratedProject(project)}
+                            data-testid={`button-moderate-project-${project.id}`}
+                          >
+                            <Eye className="mr-2 h-4 w-4" />
+                            Manage
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="payouts">
+              {payoutsLoading ? (
+                <Card>
+                  <CardContent className="py-8">
+                    <Skeleton className="h-20 w-full" />
+                  </CardContent>
+                </Card>
+              ) : (requestedPayouts?.length || 0) === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <div className="h-16 w-16 rounded-full bg-chart-2/10 flex items-center justify-center mx-auto mb-4">
+                      <CheckCircle className="h-8 w-8 text-chart-2" />
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">All Caught Up!</h3>
+                    <p className="text-muted-foreground">No payouts waiting for approval.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Payout Requests</CardTitle>
+                    <CardDescription>Oldest requests first</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {requestedPayouts?.map((payout) => (
+                        <div key={payout.id} className="flex items-center justify-between p-4 border rounded-lg" data-testid={`row-payout-${payout.id}`}>
+                          <div className="flex items-center gap-4">
+                            <div className="h-10 w-10 rounded-full bg-chart-4/10 flex items-center justify-center">
+                              <Wallet className="h-5 w-5 text-chart-4" />
+                            </div>
+                            <div>
+                              <p className="font-medium">
+                                {payout.candidate?.firstName} {payout.candidate?.lastName}
+                              </p>
+                              <p className="text-sm text-muted-foreground">
+                                {payout.payoutMethod?.label} • Requested {new Date(payout.createdAt!).toLocaleDateString()}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-4">
+                            <p className="font-bold text-chart-2">${payout.amount}</p>
+                            <Button
+                              variant="outline"
+                              onClick={() => setSelectedPayout(payout)}
+                              data-testid={`button-review-payout-${payout.id}`}
+                            >
+                              <Eye className="mr-2 h-4 w-4" />
+                              Review
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
             
             <TabsContent value="payments">
@@ -423,7 +680,9 @@ export default function AdminDashboard() {
                           <div className="text-right">
                             <p className="font-bold text-chart-2">${payment.amount}</p>
                             <p className="text-xs text-muted-foreground">
-                              {payment.paidAt ? new Date(payment.paidAt).toLocaleDateString() : "Pending"}
+                              {payment.paidAt
+                                ? new Date(payment.paidAt).toLocaleDateString()
+                                : payment.status === "failed" ? "Failed" : "Pending"}
                             </p>
                           </div>
                         </div>
@@ -433,6 +692,78 @@ export default function AdminDashboard() {
                 </Card>
               )}
             </TabsContent>
+            
+            <TabsContent value="jobs">
+              {jobsLoading ? (
+                <Card>
+                  <CardContent className="py-8">
+                    <Skeleton className="h-20 w-full" />
+                  </CardContent>
+                </Card>
+              ) : (failedJobs?.length || 0) === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <div className="h-16 w-16 rounded-full bg-chart-2/10 flex items-center justify-center mx-auto mb-4">
+                      <CheckCircle className="h-8 w-8 text-chart-2" />
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">All Caught Up!</h3>
+                    <p className="text-muted-foreground">No background jobs have failed.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Failed Jobs</CardTitle>
+                    <CardDescription>Jobs that ran out of attempts, most recent first</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {failedJobs?.map((job) => (
+                        <div key={job.id} className="flex items-start justify-between gap-4 p-4 border rounded-lg" data-testid={`row-job-${job.id}`}>
+                          <div className="flex items-start gap-4 min-w-0">
+                            <div className="h-10 w-10 rounded-full bg-destructive/10 flex items-center justify-center shrink-0">
+                              <Cog className="h-5 w-5 text-destructive" />
+                            </div>
+                            <div className="min-w-0">
+                              <p className="font-medium font-mono">{job.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {job.attempts} of {job.maxAttempts} attempts
+                                {job.updatedAt && ` · last tried ${new Date(job.updatedAt).toLocaleString()}`}
+                              </p>
+                              {job.lastError && (
+                                <p className="text-sm text-destructive break-words mt-1">{job.lastError}</p>
+                              )}
+                            </div>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryJobMutation.mutate(job.id)}
+                            disabled={retryJobMutation.isPending}
+                            data-testid={`button-retry-job-${job.id}`}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Retry
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="ratings">
+              <RatingModeration />
+            </TabsContent>
+            
+            <TabsContent value="users">
+              <AdminUsers currentUserId={user?.id} />
+            </TabsContent>
+            
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
           </Tabs>
         </div>
       </section>
@@ -468,12 +799,43 @@ export default function AdminDashboard() {
               <Label>Created By</Label>
               <p className="text-sm text-muted-foreground">{selectedCompany?.user?.email}</p>
             </div>
+            {selectedCompany?.previousRejection && (
+              <div>
+                <Label>Review history</Label>
+                <div className="mt-2">
+                  <CompanyStatusHistory queryKey={["/api/admin/companies", selectedCompany.id, "history"]} />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label>Rejection reason</Label>
+              <Select value={rejectionReason} onValueChange={setRejectionReason}>
+                <SelectTrigger className="mt-1" data-testid="select-company-rejection-reason">
+                  <SelectValue placeholder="Needed to reject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {companyRejectionReasons.map((reason) => (
+                    <SelectItem key={reason} value={reason}>{companyRejectionReasonLabels[reason]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="company-note">Note</Label>
+              <Textarea
+                id="company-note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="Shown to the company. Say what to fix if you reject it."
+                data-testid="input-company-note"
+              />
+            </div>
           </div>
           <DialogFooter className="gap-2">
             <Button
               variant="destructive"
               onClick={() => selectedCompany && approveCompanyMutation.mutate({ companyId: selectedCompany.id, approved: false })}
-              disabled={approveCompanyMutation.isPending}
+              disabled={approveCompanyMutation.isPending || !rejectionReason || (rejectionReason === "other" && !reviewNote.trim())}
             >
               <XCircle className="mr-2 h-4 w-4" />
               Reject
@@ -526,12 +888,43 @@ export default function AdminDashboard() {
                 ))}
               </div>
             </div>
+            {(selectedProject?.previousRejection || selectedProject?.wasLive) && (
+              <div>
+                <Label>Status history</Label>
+                <div className="mt-2">
+                  <ProjectStatusHistory queryKey={["/api/admin/projects", selectedProject.id, "history"]} />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label>Rejection reason</Label>
+              <Select value={rejectionReason} onValueChange={setRejectionReason}>
+                <SelectTrigger className="mt-1" data-testid="select-project-rejection-reason">
+                  <SelectValue placeholder="Needed to reject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projectRejectionReasons.map((reason) => (
+                    <SelectItem key={reason} value={reason}>{projectRejectionReasonLabels[reason]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="project-review-note">Note</Label>
+              <Textarea
+                id="project-review-note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="Shown to the company. Say what to fix if you reject it."
+                data-testid="input-project-review-note"
+              />
+            </div>
           </div>
           <DialogFooter className="gap-2">
             <Button
               variant="destructive"
               onClick={() => selectedProject && approveProjectMutation.mutate({ projectId: selectedProject.id, approved: false })}
-              disabled={approveProjectMutation.isPending}
+              disabled={approveProjectMutation.isPending || !rejectionReason || (rejectionReason === "other" && !reviewNote.trim())}
             >
               <XCircle className="mr-2 h-4 w-4" />
               Reject
@@ -547,6 +940,113 @@ export default function AdminDashboard() {
         </DialogContent>
       </Dialog>
       
+      {/* Project Moderation Dialog */}
+      <Dialog open={!!moderatedProject} onOpenChange={() => setModeratedProject(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Manage Project: {moderatedProject?.title}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Company</Label>
+              <p className="text-sm text-muted-foreground">{moderatedProject?.company?.name}</p>
+            </div>
+            <div>
+              <Label>Status history</Label>
+              <div className="mt-2">
+                {moderatedProject && (
+                  <ProjectStatusHistory queryKey={["/api/admin/projects", moderatedProject.id, "history"]} />
+                )}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="project-note">Reason</Label>
+              <Textarea
+                id="project-note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="Recorded in the project's history"
+                data-testid="input-project-note"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {moderatedProject && availableProjectActions(moderatedProject.status, "admin").includes("suspend") && (
+              <Button
+                variant="destructive"
+                onClick={() => moderateProjectMutation.mutate({ projectId: moderatedProject.id, action: "suspend" })}
+                disabled={moderateProjectMutation.isPending}
+                data-testid="button-suspend-project"
+              >
+                <Ban className="mr-2 h-4 w-4" />
+                Suspend
+              </Button>
+            )}
+            {moderatedProject && availableProjectActions(moderatedProject.status, "admin").includes("reinstate") && (
+              <Button
+                onClick={() => moderateProjectMutation.mutate({ projectId: moderatedProject.id, action: "reinstate" })}
+                disabled={moderateProjectMutation.isPending}
+                data-testid="button-reinstate-project"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reinstate
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Payout Review Dialog */}
+      <Dialog open={!!selectedPayout} onOpenChange={() => setSelectedPayout(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Review Payout: ${selectedPayout?.amount}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Candidate</Label>
+              <p className="text-sm text-muted-foreground">
+                {selectedPayout?.candidate?.firstName} {selectedPayout?.candidate?.lastName} ({selectedPayout?.candidate?.email})
+              </p>
+            </div>
+            <div>
+              <Label>Payout Method</Label>
+              <p className="text-sm text-muted-foreground">
+                {selectedPayout?.payoutMethod?.label} ({selectedPayout?.payoutMethod?.type === "paypal" ? "PayPal" : "Bank transfer"})
+              </p>
+              <p className="text-sm font-mono">{selectedPayout?.payoutMethod?.details}</p>
+            </div>
+            <div>
+              <Label htmlFor="payout-note">Note (shown to the candidate)</Label>
+              <Textarea
+                id="payout-note"
+                value={reviewNote}
+                onChange={(e) => setReviewNote(e.target.value)}
+                placeholder="Optional, e.g. why the payout was rejected"
+                data-testid="input-payout-note"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="destructive"
+              onClick={() => selectedPayout && reviewPayoutMutation.mutate({ payoutId: selectedPayout.id, approved: false })}
+              disabled={reviewPayoutMutation.isPending}
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+            <Button
+              onClick={() => selectedPayout && reviewPayoutMutation.mutate({ payoutId: selectedPayout.id, approved: true })}
+              disabled={reviewPayoutMutation.isPending}
+            >
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Approve & Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
       {/* Footer */}
       <footer className="border-t py-12 bg-muted/30 mt-auto">
         <div className="max-w-7xl mx-auto px-4">
@@ -1,4 +1,5 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link, Redirect } from "wouter";
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
@@ -6,7 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
   Target, 
   CheckCircle, 
@@ -18,16 +24,46 @@ import {
   FileText,
   ArrowRight,
   ExternalLink,
-  Building2
+  Building2,
+  Wallet,
+  Trash2,
+  MessageSquare
 } from "lucide-react";
-import type { Submission, Project, Rating, Payment } from "@shared/schema";
+import type { Submission, SubmissionFile, Project, Rating, CompanyRating, Payment, Payout, PayoutEvent, PayoutMethod } from "@shared/schema";
+import { SubmissionFiles } from "@/components/SubmissionFiles";
+import { RubricBreakdown } from "@/components/Rubric";
+import { RateCompanyDialog } from "@/components/CompanyRatings";
+import { ratesPaymentSpeed } from "@shared/companyRatings";
+import { awaitsDecision } from "@shared/submissionReview";
 
 interface SubmissionWithDetails extends Submission {
   project?: Project & { company?: { name: string } };
-  rating?: Rating;
+  rating?: Rating | null;
+  companyRating?: CompanyRating | null;
   payment?: Payment;
+  files?: SubmissionFile[];
+  unreadMessages?: number;
 }
 
+interface PayoutWithDetails extends Payout {
+  payoutMethod: PayoutMethod | null;
+  events: PayoutEvent[];
+}
+
+interface PayoutSummary {
+  balance: string;
+  minimum: string;
+  payouts: PayoutWithDetails[];
+}
+
+const payoutStatusLabels: Record<Payout["status"], string> = {
+  requested: "Requested",
+  processing: "Processing",
+  paid: "Paid",
+  failed: "Failed",
+  rejected: "Rejected",
+};
+
 interface CandidateStats {
   totalSubmissions: number;
   completedProjects: number;
@@ -35,8 +71,31 @@ interface CandidateStats {
   averageRating: number;
 }
 
+// The candidate's rating of the company that decided on a submission, or a
+// way to give one
+function YourCompanyRating({ submission }: { submission: SubmissionWithDetails }) {
+  if (!submission.companyRating) {
+    return (
+      <RateCompanyDialog
+        submissionId={submission.id}
+        companyName={submission.project?.company?.name}
+        paid={ratesPaymentSpeed(submission)}
+      />
+    );
+  }
+  return (
+    <p className="flex items-center gap-1 text-sm text-muted-foreground" data-testid={`text-company-rated-${submission.id}`}>
+      <CheckCircle className="h-4 w-4 text-chart-2" />
+      You rated {submission.project?.company?.name || "the company"}
+    </p>
+  );
+}
+
 export default function CandidateDashboard() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [payoutMethodId, setPayoutMethodId] = useState("");
+  const [newMethod, setNewMethod] = useState({ type: "bank_transfer", label: "", details: "" });
 
   const { data: submissions, isLoading: submissionsLoading } = useQuery<SubmissionWithDetails[]>({
     queryKey: ["/api/candidate/submissions"],
@@ -48,11 +107,74 @@ export default function CandidateDashboard() {
     enabled: isAuthenticated,
   });
 
+  const { data: payoutSummary, isLoading: payoutsLoading } = useQuery<PayoutSummary>({
+    queryKey: ["/api/candidate/payouts"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: payoutMethods } = useQuery<PayoutMethod[]>({
+    queryKey: ["/api/candidate/payout-methods"],
+    enabled: isAuthenticated,
+  });
+
+  const requestPayoutMutation = useMutation({
+    mutationFn: async (methodId: string) => {
+      return await apiRequest("POST", "/api/candidate/payouts", { payoutMethodId: methodId });
+    },
+    onSuccess: () => {
+      toast({ title: "Payout requested!", description: "An admin will review it shortly." });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/payouts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addPayoutMethodMutation = useMutation({
+    mutationFn: async (method: typeof newMethod) => {
+      const response = await apiRequest("POST", "/api/candidate/payout-methods", method);
+      return await response.json() as PayoutMethod;
+    },
+    onSuccess: (method) => {
+      toast({ title: "Payout method added!" });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/payout-methods"] });
+      setNewMethod({ type: "bank_transfer", label: "", details: "" });
+      setPayoutMethodId(method.id);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removePayoutMethodMutation = useMutation({
+    mutationFn: async (methodId: string) => {
+      return await apiRequest("DELETE", `/api/candidate/payout-methods/${methodId}`);
+    },
+    onSuccess: (_, methodId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/payout-methods"] });
+      if (payoutMethodId === methodId) setPayoutMethodId("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getPayoutStatusColor = (status: Payout["status"]) => {
+    switch (status) {
+      case "paid": return "bg-chart-2/10 text-chart-2 border-chart-2/20";
+      case "failed":
+      case "rejected": return "bg-destructive/10 text-destructive border-destructive/20";
+      case "processing": return "bg-chart-4/10 text-chart-4 border-chart-4/20";
+      default: return "bg-muted text-muted-foreground";
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "approved": return "bg-chart-2/10 text-chart-2 border-chart-2/20";
       case "rejected": return "bg-destructive/10 text-destructive border-destructive/20";
       case "under_review": return "bg-chart-4/10 text-chart-4 border-chart-4/20";
+      case "changes_requested": return "bg-primary/10 text-primary border-primary/20";
       default: return "bg-muted text-muted-foreground";
     }
   };
@@ -79,9 +201,10 @@ export default function CandidateDashboard() {
     return <Redirect to="/" />;
   }
 
-  const pendingSubmissions = submissions?.filter(s => s.status === "pending" || s.status === "under_review") || [];
+  const pendingSubmissions = submissions?.filter(s => awaitsDecision(s.status)) || [];
   const completedSubmissions = submissions?.filter(s => s.status === "approved") || [];
   const rejectedSubmissions = submissions?.filter(s => s.status === "rejected") || [];
+  const canWithdraw = !!payoutSummary && Number(payoutSummary.balance) >= Number(payoutSummary.minimum);
 
   return (
     <div className="min-h-screen bg-background">
@@ -194,6 +317,9 @@ export default function CandidateDashboard() {
               <TabsTrigger value="rejected" data-testid="tab-rejected">
                 Rejected ({rejectedSubmissions.length})
               </TabsTrigger>
+              <TabsTrigger value="payouts" data-testid="tab-payouts">
+                Payouts
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="active">
@@ -242,7 +368,9 @@ export default function CandidateDashboard() {
                             </CardDescription>
                           </div>
                           <Badge className={getStatusColor(submission.status)}>
-                            {submission.status === "under_review" ? "In Review" : "Pending"}
+                            {submission.status === "changes_requested"
+                              ? "Changes Requested"
+                              : submission.status === "under_review" ? "In Review" : "Pending"}
                           </Badge>
                         </div>
                       </CardHeader>
@@ -250,16 +378,27 @@ export default function CandidateDashboard() {
                         <p className="text-sm text-muted-foreground line-clamp-2 mb-4">
                           {submission.content}
                         </p>
+                        {submission.files?.length ? (
+                          <div className="mb-4">
+                            <SubmissionFiles files={submission.files} />
+                          </div>
+                        ) : null}
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-muted-foreground">
                             Submitted {new Date(submission.createdAt!).toLocaleDateString()}
                           </span>
+                          {!!submission.unreadMessages && (
+                            <Badge variant="outline" className="gap-1" data-testid={`badge-unread-${submission.id}`}>
+                              <MessageSquare className="h-3 w-3" />
+                              {submission.unreadMessages} new
+                            </Badge>
+                          )}
                         </div>
                       </CardContent>
                       <CardFooter>
                         <Button variant="outline" className="w-full" asChild>
                           <Link href={`/projects/${submission.projectId}`}>
-                            View Project
+                            {submission.status === "changes_requested" ? "Revise Submission" : "View Project"}
                             <ArrowRight className="ml-2 h-4 w-4" />
                           </Link>
                         </Button>
@@ -319,6 +458,11 @@ export default function CandidateDashboard() {
                             <span className="text-sm ml-1">({submission.rating.score}/5)</span>
                           </div>
                         )}
+                        {submission.rating?.criteriaScores?.length ? (
+                          <div className="mb-3 rounded-lg border p-2">
+                            <RubricBreakdown scores={submission.rating.criteriaScores} />
+                          </div>
+                        ) : null}
                         {submission.feedback && (
                           <p className="text-sm text-muted-foreground italic line-clamp-2 mb-3">
                             "{submission.feedback}"
@@ -333,6 +477,9 @@ export default function CandidateDashboard() {
                           </span>
                         </div>
                       </CardContent>
+                      <CardFooter>
+                        <YourCompanyRating submission={submission} />
+                      </CardFooter>
                     </Card>
                   ))}
                 </div>
@@ -382,11 +529,156 @@ export default function CandidateDashboard() {
                           Submitted {new Date(submission.createdAt!).toLocaleDateString()}
                         </p>
                       </CardContent>
+                      <CardFooter>
+                        <YourCompanyRating submission={submission} />
+                      </CardFooter>
                     </Card>
                   ))}
                 </div>
               )}
             </TabsContent>
+            
+            <TabsContent value="payouts">
+              <div className="grid lg:grid-cols-3 gap-6">
+                <Card data-testid="card-payout-balance">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Wallet className="h-5 w-5 text-chart-2" />
+                      Available Balance
+                    </CardTitle>
+                    <CardDescription>
+                      Withdraw once your balance reaches ${payoutSummary?.minimum ?? "—"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-3xl font-bold font-mono text-chart-2" data-testid="text-payout-balance">
+                      {payoutsLoading ? <Skeleton className="h-9 w-24" /> : `$${payoutSummary?.balance ?? "0.00"}`}
+                    </p>
+                    <div className="space-y-2">
+                      <Label>Send to</Label>
+                      <Select value={payoutMethodId} onValueChange={setPayoutMethodId}>
+                        <SelectTrigger data-testid="select-payout-method">
+                          <SelectValue placeholder={payoutMethods?.length ? "Choose a payout method" : "Add a payout method first"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {payoutMethods?.map((method) => (
+                            <SelectItem key={method.id} value={method.id}>
+                              {method.label} ({method.details})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardContent>
+                  <CardFooter>
+                    <Button
+                      className="w-full"
+                      onClick={() => requestPayoutMutation.mutate(payoutMethodId)}
+                      disabled={!canWithdraw || !payoutMethodId || requestPayoutMutation.isPending}
+                      data-testid="button-request-payout"
+                    >
+                      <DollarSign className="mr-2 h-4 w-4" />
+                      Withdraw ${payoutSummary?.balance ?? "0.00"}
+                    </Button>
+                  </CardFooter>
+                </Card>
+                
+                <Card data-testid="card-payout-methods">
+                  <CardHeader>
+                    <CardTitle>Payout Methods</CardTitle>
+                    <CardDescription>Where your withdrawals are sent</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {payoutMethods?.map((method) => (
+                      <div key={method.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`row-payout-method-${method.id}`}>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{method.label}</p>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {method.type === "paypal" ? "PayPal" : "Bank transfer"} • {method.details}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removePayoutMethodMutation.mutate(method.id)}
+                          disabled={removePayoutMethodMutation.isPending}
+                          data-testid={`button-remove-payout-method-${method.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="space-y-2 pt-2 border-t">
+                      <Select value={newMethod.type} onValueChange={(type) => setNewMethod({ ...newMethod, type })}>
+                        <SelectTrigger data-testid="select-new-payout-method-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bank_transfer">Bank transfer</SelectItem>
+                          <SelectItem value="paypal">PayPal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Label, e.g. Main account"
+                        value={newMethod.label}
+                        onChange={(e) => setNewMethod({ ...newMethod, label: e.target.value })}
+                        data-testid="input-payout-method-label"
+                      />
+                      <Input
+                        placeholder={newMethod.type === "paypal" ? "PayPal email" : "IBAN or account number"}
+                        value={newMethod.details}
+                        onChange={(e) => setNewMethod({ ...newMethod, details: e.target.value })}
+                        data-testid="input-payout-method-details"
+                      />
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => addPayoutMethodMutation.mutate(newMethod)}
+                        disabled={!newMethod.label || !newMethod.details || addPayoutMethodMutation.isPending}
+                        data-testid="button-add-payout-method"
+                      >
+                        Add Payout Method
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+                
+                <Card data-testid="card-payout-history">
+                  <CardHeader>
+                    <CardTitle>Payout History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {(payoutSummary?.payouts.length || 0) === 0 ? (
+                      <p className="text-sm text-muted-foreground">No payouts yet.</p>
+                    ) : (
+                      <div className="space-y-4">
+                        {payoutSummary?.payouts.map((payout) => (
+                          <div key={payout.id} className="p-3 border rounded-lg" data-testid={`row-payout-${payout.id}`}>
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="font-bold font-mono">${payout.amount}</span>
+                              <Badge className={getPayoutStatusColor(payout.status)}>
+                                {payoutStatusLabels[payout.status]}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground mb-2">
+                              To {payout.payoutMethod?.label ?? "removed method"}
+                            </p>
+                            <ol className="space-y-1">
+                              {payout.events.map((event) => (
+                                <li key={event.id} className="text-xs text-muted-foreground">
+                                  {new Date(event.createdAt!).toLocaleString()} — {payoutStatusLabels[event.status]}
+                                  {event.note && <span className="italic"> ({event.note})</span>}
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </section>
@@ -8,17 +8,30 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ProjectStatusHistory } from "@/components/ProjectStatusHistory";
+import { CompanyStatusHistory } from "@/components/CompanyStatusHistory";
+import { ProjectForm, type ProjectRequest } from "@/components/ProjectForm";
+import { CompanyForm, type CompanyFormData } from "@/components/CompanyForm";
+import { ImagePicker } from "@/components/ImagePicker";
+import { availableProjectActions } from "@shared/projectLifecycle";
+import { isFundedProject, isLiveProject, isMaterialProjectEdit, lockedProjectFields } from "@shared/projectEditing";
+import { awaitsDecision, revisionsLeft, type ReviewDecision } from "@shared/submissionReview";
 import { 
   Plus, 
   FileText, 
@@ -32,18 +45,80 @@ import {
   Clock,
   Building2,
   ArrowRight,
-  Send
+  Send,
+  Download,
+  Receipt,
+  Pause,
+  Play,
+  Flag,
+  History,
+  MessageSquare,
+  RotateCcw,
+  EyeOff,
+  Pencil
 } from "lucide-react";
-import type { Project, Submission, Company, User } from "@shared/schema";
+import type {
+  Project,
+  ProjectStatusChange,
+  Submission,
+  SubmissionFile,
+  Company,
+  CompanyRole,
+  CompanyStatusChange,
+  User,
+} from "@shared/schema";
+import { SubmissionFiles } from "@/components/SubmissionFiles";
+import { SubmissionThread } from "@/components/SubmissionThread";
+import { SubmissionRevisions } from "@/components/SubmissionRevisions";
+import { RubricScorer } from "@/components/Rubric";
+import { CompanyTeam } from "@/components/CompanyTeam";
+import { CompanyRatingsManager } from "@/components/CompanyRatings";
+import { hasCompanyPermission, type CompanyPermission } from "@shared/companyRoles";
+import {
+  companyRejectionReasonLabels,
+  projectRejectionReasonLabels,
+  type CompanyRejectionReason,
+  type ProjectRejectionReason,
+} from "@shared/reviewReasons";
 
-interface SubmissionWithCandidate extends Submission {
+// Blind-reviewed submissions come without the candidate, or even their id,
+// until they're decided. They get a handle instead.
+interface SubmissionWithCandidate extends Omit<Submission, "candidateId"> {
+  candidateId?: string;
   candidate?: User;
+  candidateHandle?: string;
+  files?: SubmissionFile[];
+  unreadMessages?: number;
+}
+
+// The company, with the signed-in user's role on its team and, while it is
+// rejected, why
+interface CompanyWithRole extends Company {
+  role: CompanyRole;
+  rejection?: CompanyStatusChange | null;
 }
 
 interface ProjectWithSubmissions extends Project {
+  escrowBalance?: string;
+  // Why a rejected project was rejected
+  rejection?: ProjectStatusChange | null;
   submissions?: SubmissionWithCandidate[];
 }
 
+interface InvoiceLine {
+  id: string;
+  reference: string;
+  issuedAt: string;
+  projectTitle: string;
+  candidateName: string;
+  amount: string;
+}
+
+interface Billing {
+  invoices: InvoiceLine[];
+  statements: string[];
+}
+
 interface CompanyStats {
   totalProjects: number;
   activeProjects: number;
@@ -51,18 +126,13 @@ interface CompanyStats {
   totalSpent: string;
 }
 
-const projectFormSchema = z.object({
-  title: z.string().min(5, "Title must be at least 5 characters"),
-  description: z.string().min(20, "Description must be at least 20 characters"),
-  requirements: z.string().optional(),
-  skills: z.string().optional(),
-  payment: z.string().optional(),
-  difficulty: z.string().default("intermediate"),
-  deadline: z.string().optional(),
-  maxSubmissions: z.string().default("10"),
-});
-
-type ProjectFormData = z.infer<typeof projectFormSchema>;
+function candidateName(submission: SubmissionWithCandidate) {
+  const { candidate } = submission;
+  if (!candidate) {
+    return submission.candidateHandle ?? "Candidate";
+  }
+  return [candidate.firstName, candidate.lastName].filter(Boolean).join(" ") || candidate.email || "Candidate";
+}
 
 export default function CompanyDashboard() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -71,26 +141,22 @@ export default function CompanyDashboard() {
   const [selectedSubmission, setSelectedSubmission] = useState<SubmissionWithCandidate | null>(null);
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [rating, setRating] = useState(5);
+  const [scores, setScores] = useState<Record<string, number>>({});
   const [feedback, setFeedback] = useState("");
+  const [projectToCancel, setProjectToCancel] = useState<ProjectWithSubmissions | null>(null);
+  const [projectToClose, setProjectToClose] = useState<ProjectWithSubmissions | null>(null);
+  const [historyProject, setHistoryProject] = useState<ProjectWithSubmissions | null>(null);
+  const [projectToResubmit, setProjectToResubmit] = useState<ProjectWithSubmissions | null>(null);
+  const [isCompanyResubmitOpen, setIsCompanyResubmitOpen] = useState(false);
+  const [resubmitNote, setResubmitNote] = useState("");
+  const [projectToEdit, setProjectToEdit] = useState<ProjectWithSubmissions | null>(null);
+  const [editNote, setEditNote] = useState("");
 
-  const form = useForm<ProjectFormData>({
-    resolver: zodResolver(projectFormSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      requirements: "",
-      skills: "",
-      payment: "0",
-      difficulty: "intermediate",
-      deadline: "",
-      maxSubmissions: "10",
-    },
-  });
-
-  const { data: company, isLoading: companyLoading } = useQuery<Company>({
+  const { data: company, isLoading: companyLoading } = useQuery<CompanyWithRole>({
     queryKey: ["/api/company/profile"],
     enabled: isAuthenticated,
   });
+  const can = (permission: CompanyPermission) => !!company && hasCompanyPermission(company.role, permission);
 
   const { data: projects, isLoading: projectsLoading } = useQuery<ProjectWithSubmissions[]>({
     queryKey: ["/api/company/projects"],
@@ -102,21 +168,21 @@ export default function CompanyDashboard() {
     enabled: isAuthenticated && !!company,
   });
 
+  const { data: billing, isLoading: billingLoading } = useQuery<Billing>({
+    queryKey: ["/api/company/invoices"],
+    enabled: isAuthenticated && can("viewBilling"),
+  });
+
   const createProjectMutation = useMutation({
-    mutationFn: async (data: ProjectFormData) => {
-      return await apiRequest("POST", "/api/company/projects", {
-        ...data,
-        payment: data.payment,
-        skills: data.skills?.split(",").map(s => s.trim()).filter(Boolean),
-        maxSubmissions: parseInt(data.maxSubmissions) || 10,
-        deadline: data.deadline || null,
-      });
+    mutationFn: async ({ request, draft }: { request: ProjectRequest; draft: boolean }) => {
+      return await apiRequest("POST", "/api/company/projects", { ...request, draft });
     },
-    onSuccess: () => {
-      toast({ title: "Success!", description: "Project created and pending admin approval." });
+    onSuccess: (_, { draft }) => {
+      toast(draft
+        ? { title: "Draft saved", description: "Submit it for approval from the Drafts tab when it's ready." }
+        : { title: "Success!", description: "Project created and pending admin approval." });
       queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
       setIsCreateOpen(false);
-      form.reset();
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -124,20 +190,144 @@ export default function CompanyDashboard() {
   });
 
   const reviewSubmissionMutation = useMutation({
-    mutationFn: async ({ submissionId, approved }: { submissionId: string; approved: boolean }) => {
+    mutationFn: async ({ submissionId, decision }: { submissionId: string; decision: ReviewDecision }) => {
       return await apiRequest("POST", `/api/company/submissions/${submissionId}/review`, {
-        approved,
-        rating: approved ? rating : undefined,
+        decision,
+        rating: decision === "approved" ? rating : undefined,
+        scores: decision === "approved" ? scores : undefined,
         feedback,
       });
     },
-    onSuccess: () => {
-      toast({ title: "Submission reviewed!" });
+    onSuccess: (_, { decision }) => {
+      toast({ title: decision === "changes_requested" ? "Changes requested" : "Submission reviewed!" });
       queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/invoices"] });
       setReviewDialogOpen(false);
       setSelectedSubmission(null);
       setFeedback("");
       setRating(5);
+      setScores({});
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelProjectMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const res = await apiRequest("POST", `/api/company/projects/${projectId}/cancel`);
+      return (await res.json()) as { refunded: string };
+    },
+    onSuccess: ({ refunded }) => {
+      toast({ title: "Project cancelled", description: `$${refunded} was refunded from escrow.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/stats"] });
+      setProjectToCancel(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const projectStatusMutation = useMutation({
+    mutationFn: async ({ projectId, action }: { projectId: string; action: "pause" | "resume" | "close" }) => {
+      const res = await apiRequest("POST", `/api/company/projects/${projectId}/status`, { action });
+      return (await res.json()) as Project & { refunded?: string };
+    },
+    onSuccess: (project, { action }) => {
+      const titles = { pause: "Project paused", resume: "Project resumed", close: "Project closed" };
+      toast({
+        title: titles[action],
+        description: action === "close" ? `$${project.refunded ?? "0.00"} was refunded from escrow.` : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/stats"] });
+      setProjectToClose(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resubmitProjectMutation = useMutation({
+    mutationFn: async ({ projectId, request }: { projectId: string; request: ProjectRequest }) => {
+      return await apiRequest("POST", `/api/company/projects/${projectId}/resubmit`, { ...request, note: resubmitNote });
+    },
+    onSuccess: () => {
+      toast({ title: "Project resubmitted", description: "It's back in the queue for admin approval." });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+      setProjectToResubmit(null);
+      setResubmitNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const editProjectMutation = useMutation({
+    mutationFn: async ({ projectId, request }: { projectId: string; request: ProjectRequest }) => {
+      const res = await apiRequest("PATCH", `/api/company/projects/${projectId}`, { ...request, note: editNote });
+      return (await res.json()) as Project;
+    },
+    onSuccess: (project) => {
+      toast(projectToEdit && isLiveProject(projectToEdit.status) && project.status === "pending"
+        ? { title: "Project sent back for review", description: "It goes live again once an admin approves the changes." }
+        : { title: "Project saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+      setProjectToEdit(null);
+      setEditNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Submit a draft for approval, or withdraw a pending project back to drafts
+  const draftMutation = useMutation({
+    mutationFn: async ({ projectId, action }: { projectId: string; action: "submit" | "withdraw" }) => {
+      return await apiRequest("POST", `/api/company/projects/${projectId}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      toast(action === "submit"
+        ? { title: "Project submitted", description: "It's in the queue for admin approval." }
+        : { title: "Project withdrawn", description: "It's back in your drafts." });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/projects"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resubmitCompanyMutation = useMutation({
+    mutationFn: async (data: CompanyFormData) => {
+      return await apiRequest("POST", "/api/company/profile/resubmit", { ...data, note: resubmitNote });
+    },
+    onSuccess: () => {
+      toast({ title: "Company resubmitted", description: "It's back in the queue for admin approval." });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/profile/history"] });
+      setIsCompanyResubmitOpen(false);
+      setResubmitNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // A null file removes the logo
+  const logoMutation = useMutation({
+    mutationFn: async (file: File | null) => {
+      if (!file) {
+        return await apiRequest("DELETE", "/api/company/logo");
+      }
+      const form = new FormData();
+      form.append("image", file);
+      return await apiRequest("POST", "/api/company/logo", form);
+    },
+    onSuccess: (_, file) => {
+      toast({ title: file ? "Logo updated" : "Logo removed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/profile"] });
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -148,6 +338,10 @@ export default function CompanyDashboard() {
     switch (status) {
       case "active": return "bg-chart-2/10 text-chart-2";
       case "pending": return "bg-chart-4/10 text-chart-4";
+      case "paused": return "bg-chart-4/10 text-chart-4";
+      case "draft": return "bg-muted text-muted-foreground";
+      case "suspended":
+      case "rejected": return "bg-destructive/10 text-destructive";
       case "completed": return "bg-primary/10 text-primary";
       default: return "bg-muted text-muted-foreground";
     }
@@ -195,10 +389,22 @@ export default function CompanyDashboard() {
     );
   }
 
-  const activeProjects = projects?.filter(p => p.status === "active") || [];
-  const pendingProjects = projects?.filter(p => p.status === "pending") || [];
+  const activeProjects = projects?.filter(p => p.status === "active" || p.status === "paused" || p.status === "suspended") || [];
+  const draftProjects = projects?.filter(p => p.status === "draft") || [];
+  const pendingProjects = projects?.filter(p => p.status === "pending" || p.status === "approved" || p.status === "rejected") || [];
+  const endedProjects = projects?.filter(p => p.status === "completed" || p.status === "cancelled") || [];
   const allSubmissions = projects?.flatMap(p => p.submissions || []) || [];
-  const pendingSubmissions = allSubmissions.filter(s => s.status === "pending" || s.status === "under_review");
+  const pendingSubmissions = allSubmissions.filter(s => awaitsDecision(s.status));
+  const selectedProject = projects?.find(p => p.id === selectedSubmission?.projectId);
+  const canRequestChanges =
+    !!selectedSubmission && !!selectedProject &&
+    selectedSubmission.status !== "changes_requested" &&
+    revisionsLeft(selectedSubmission, selectedProject) > 0;
+  const reviewRubric = selectedProject?.rubric ?? [];
+  const rubricScored = reviewRubric.every((criterion) => scores[criterion.name]);
+  const canPostProjects = company?.status === "approved" && can("manageProjects");
+  const projectActions = (status: Project["status"]) =>
+    can("manageProjects") ? availableProjectActions(status, "company") : [];
 
   return (
     <div className="min-h-screen bg-background">
@@ -208,20 +414,35 @@ export default function CompanyDashboard() {
       <section className="py-8 border-b">
         <div className="max-w-7xl mx-auto px-4">
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-            <div>
-              <h1 className="text-3xl font-bold mb-2" data-testid="text-company-dashboard">
-                {company?.name || "Company"} Dashboard
-              </h1>
-              <p className="text-muted-foreground">
-                Manage your projects and review candidate submissions.
-              </p>
-              {company?.status === "pending" && (
-                <Badge className="mt-2 bg-chart-4/10 text-chart-4">Pending Approval</Badge>
-              )}
+            <div className="flex items-center gap-6">
+              <ImagePicker
+                imageUrl={company?.logoUrl}
+                fallback={<Building2 className="h-8 w-8 text-muted-foreground" />}
+                label="Logo"
+                shape="square"
+                onSelect={(file) => logoMutation.mutate(file)}
+                onRemove={() => logoMutation.mutate(null)}
+                disabled={logoMutation.isPending || !can("manageCompany")}
+                testId="company-logo"
+              />
+              <div>
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-company-dashboard">
+                  {company?.name || "Company"} Dashboard
+                </h1>
+                <p className="text-muted-foreground">
+                  Manage your projects and review candidate submissions.
+                </p>
+                {company?.status === "pending" && (
+                  <Badge className="mt-2 bg-chart-4/10 text-chart-4">Pending Approval</Badge>
+                )}
+                {company?.status === "rejected" && (
+                  <Badge className="mt-2 bg-destructive/10 text-destructive">Not Approved</Badge>
+                )}
+              </div>
             </div>
             <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
               <DialogTrigger asChild>
-                <Button data-testid="button-create-project" disabled={company?.status !== "approved"}>
+                <Button data-testid="button-create-project" disabled={!can("manageProjects")}>
                   <Plus className="mr-2 h-4 w-4" />
                   Post New Project
                 </Button>
@@ -230,147 +451,63 @@ export default function CompanyDashboard() {
                 <DialogHeader>
                   <DialogTitle>Create New Project</DialogTitle>
                 </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit((data) => createProjectMutation.mutate(data))} className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="title"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Project Title</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Build a Landing Page" {...field} data-testid="input-project-title" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="description"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Description</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="Describe what candidates need to build..." 
-                              className="min-h-[100px]"
-                              {...field} 
-                              data-testid="input-project-description"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="requirements"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Requirements (Optional)</FormLabel>
-                          <FormControl>
-                            <Textarea 
-                              placeholder="List specific requirements or deliverables..." 
-                              {...field} 
-                              data-testid="input-project-requirements"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="payment"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Payment (USD, Optional)</FormLabel>
-                            <FormControl>
-                              <Input type="number" placeholder="0" {...field} data-testid="input-project-payment" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="difficulty"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Difficulty</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger data-testid="select-project-difficulty">
-                                  <SelectValue placeholder="Select difficulty" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="beginner">Beginner</SelectItem>
-                                <SelectItem value="intermediate">Intermediate</SelectItem>
-                                <SelectItem value="advanced">Advanced</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <FormField
-                      control={form.control}
-                      name="skills"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Required Skills (comma-separated)</FormLabel>
-                          <FormControl>
-                            <Input placeholder="React, TypeScript, Tailwind" {...field} data-testid="input-project-skills" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="deadline"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Deadline (Optional)</FormLabel>
-                            <FormControl>
-                              <Input type="date" {...field} data-testid="input-project-deadline" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="maxSubmissions"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Max Submissions</FormLabel>
-                            <FormControl>
-                              <Input type="number" placeholder="10" {...field} data-testid="input-project-max" />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    <DialogFooter>
-                      <Button type="submit" disabled={createProjectMutation.isPending} data-testid="button-submit-project">
-                        {createProjectMutation.isPending ? "Creating..." : "Create Project"}
-                      </Button>
-                    </DialogFooter>
-                  </form>
-                </Form>
+                <ProjectForm
+                  submitLabel="Create Project"
+                  pendingLabel="Creating..."
+                  isPending={createProjectMutation.isPending}
+                  onSubmit={(request) => createProjectMutation.mutate({ request, draft: false })}
+                  canSubmit={canPostProjects}
+                  onSaveDraft={(request) => createProjectMutation.mutate({ request, draft: true })}
+                >
+                  {!canPostProjects && (
+                    <p className="text-sm text-muted-foreground">
+                      You can save drafts now and submit them once your company is approved.
+                    </p>
+                  )}
+                </ProjectForm>
               </DialogContent>
             </Dialog>
           </div>
         </div>
       </section>
       
+      {/* Company Rejection */}
+      {company?.status === "rejected" && (
+        <section className="pt-8">
+          <div className="max-w-7xl mx-auto px-4">
+            <Card className="border-destructive bg-destructive/5" data-testid="card-company-rejection">
+              <CardContent className="py-4">
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="h-10 w-10 rounded-full bg-destructive/10 flex items-center justify-center">
+                    <XCircle className="h-5 w-5 text-destructive" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-medium">Your company wasn't approved to post projects</p>
+                    {company.rejection?.reason && (
+                      <p className="text-sm" data-testid="text-company-rejection-reason">
+                        {companyRejectionReasonLabels[company.rejection.reason as CompanyRejectionReason] ?? company.rejection.reason}
+                      </p>
+                    )}
+                    {company.rejection?.note && (
+                      <p className="text-sm text-muted-foreground">{company.rejection.note}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsCompanyResubmitOpen(true)}
+                    disabled={!can("manageCompany")}
+                    data-testid="button-resubmit-company"
+                  >
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit & Resubmit
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </section>
+      )}
+      
       {/* Stats Cards */}
       <section className="py-8">
         <div className="max-w-7xl mx-auto px-4">
@@ -471,12 +608,29 @@ export default function CompanyDashboard() {
               <TabsTrigger value="active" data-testid="tab-active-projects">
                 Active ({activeProjects.length})
               </TabsTrigger>
+              <TabsTrigger value="drafts" data-testid="tab-draft-projects">
+                Drafts ({draftProjects.length})
+              </TabsTrigger>
               <TabsTrigger value="pending" data-testid="tab-pending-projects">
                 Pending Approval ({pendingProjects.length})
               </TabsTrigger>
+              <TabsTrigger value="ended" data-testid="tab-ended-projects">
+                Ended ({endedProjects.length})
+              </TabsTrigger>
               <TabsTrigger value="submissions" data-testid="tab-submissions">
                 Review Submissions ({pendingSubmissions.length})
               </TabsTrigger>
+              {can("viewBilling") && (
+                <TabsTrigger value="billing" data-testid="tab-billing">
+                  Billing
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="ratings" data-testid="tab-ratings">
+                Ratings
+              </TabsTrigger>
+              <TabsTrigger value="team" data-testid="tab-team">
+                Team
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="active">
@@ -494,7 +648,7 @@ export default function CompanyDashboard() {
                     </div>
                     <h3 className="text-xl font-semibold mb-2">No Active Projects</h3>
                     <p className="text-muted-foreground mb-6">Create a project to start receiving submissions from candidates.</p>
-                    <Button onClick={() => setIsCreateOpen(true)} disabled={company?.status !== "approved"}>
+                    <Button onClick={() => setIsCreateOpen(true)} disabled={!can("manageProjects")}>
                       <Plus className="mr-2 h-4 w-4" />
                       Post New Project
                     </Button>
@@ -507,23 +661,169 @@ export default function CompanyDashboard() {
                       <CardHeader>
                         <div className="flex items-start justify-between gap-2">
                           <CardTitle className="text-lg truncate flex-1">{project.title}</CardTitle>
-                          <Badge className={getStatusColor(project.status)}>Active</Badge>
+                          <Badge className={`capitalize ${getStatusColor(project.status)}`}>{project.status}</Badge>
                         </div>
                         <CardDescription className="line-clamp-2">{project.description}</CardDescription>
                       </CardHeader>
                       <CardContent>
                         <div className="flex items-center justify-between text-sm mb-4">
-                          <span className="text-muted-foreground">
+                          <span className="text-muted-foreground flex items-center gap-2">
                             {project.submissions?.length || 0} submissions
+                            {project.blindReview && (
+                              <Badge variant="outline" className="gap-1 text-xs" data-testid={`badge-blind-${project.id}`}>
+                                <EyeOff className="h-3 w-3" />
+                                Blind
+                              </Badge>
+                            )}
                           </span>
                           <span className="font-semibold text-primary">${project.payment}</span>
                         </div>
+                        <div className="flex items-center justify-between text-sm mb-4">
+                          <span className="text-muted-foreground">In escrow</span>
+                          <span className="font-mono" data-testid={`text-escrow-${project.id}`}>${project.escrowBalance || "0.00"}</span>
+                        </div>
                         <div className="flex flex-wrap gap-2">
                           {project.skills?.slice(0, 3).map((skill) => (
                             <Badge key={skill} variant="secondary" className="text-xs">{skill}</Badge>
                           ))}
                         </div>
                       </CardContent>
+                      <CardFooter className="flex flex-wrap gap-2">
+                        {projectActions(project.status).includes("revise") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToEdit(project)}
+                            data-testid={`button-edit-project-${project.id}`}
+                          >
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Button>
+                        )}
+                        {projectActions(project.status).includes("pause") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => projectStatusMutation.mutate({ projectId: project.id, action: "pause" })}
+                            disabled={projectStatusMutation.isPending}
+                            data-testid={`button-pause-project-${project.id}`}
+                          >
+                            <Pause className="mr-2 h-4 w-4" />
+                            Pause
+                          </Button>
+                        )}
+                        {projectActions(project.status).includes("resume") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => projectStatusMutation.mutate({ projectId: project.id, action: "resume" })}
+                            disabled={projectStatusMutation.isPending}
+                            data-testid={`button-resume-project-${project.id}`}
+                          >
+                            <Play className="mr-2 h-4 w-4" />
+                            Resume
+                          </Button>
+                        )}
+                        {projectActions(project.status).includes("close") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToClose(project)}
+                            data-testid={`button-close-project-${project.id}`}
+                          >
+                            <Flag className="mr-2 h-4 w-4" />
+                            Close
+                          </Button>
+                        )}
+                        {projectActions(project.status).includes("cancel") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToCancel(project)}
+                            data-testid={`button-cancel-project-${project.id}`}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Cancel
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryProject(project)}
+                          data-testid={`button-history-project-${project.id}`}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          History
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="drafts">
+              {draftProjects.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+                      <Pencil className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">No Drafts</h3>
+                    <p className="text-muted-foreground">Projects you save as drafts wait here until you submit them.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {draftProjects.map((project) => (
+                    <Card key={project.id} data-testid={`card-draft-${project.id}`}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-lg truncate flex-1">{project.title}</CardTitle>
+                          <Badge className={getStatusColor(project.status)}>Draft</Badge>
+                        </div>
+                        <CardDescription className="line-clamp-2">{project.description}</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-sm text-muted-foreground">
+                          Only your team can see it. Submit it for approval when it's ready.
+                        </p>
+                      </CardContent>
+                      <CardFooter className="flex flex-wrap gap-2">
+                        {projectActions(project.status).includes("submit") && (
+                          <Button
+                            size="sm"
+                            onClick={() => draftMutation.mutate({ projectId: project.id, action: "submit" })}
+                            disabled={!canPostProjects || draftMutation.isPending}
+                            data-testid={`button-submit-draft-${project.id}`}
+                          >
+                            <Send className="mr-2 h-4 w-4" />
+                            Submit for Approval
+                          </Button>
+                        )}
+                        {can("manageProjects") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToEdit(project)}
+                            data-testid={`button-edit-project-${project.id}`}
+                          >
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Button>
+                        )}
+                        {projectActions(project.status).includes("cancel") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToCancel(project)}
+                            data-testid={`button-cancel-project-${project.id}`}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Discard
+                          </Button>
+                        )}
+                      </CardFooter>
                     </Card>
                   ))}
                 </div>
@@ -544,19 +844,137 @@ export default function CompanyDashboard() {
               ) : (
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {pendingProjects.map((project) => (
-                    <Card key={project.id} className="opacity-75" data-testid={`card-pending-${project.id}`}>
+                    <Card
+                      key={project.id}
+                      className={project.status === "rejected" ? "border-destructive" : "opacity-75"}
+                      data-testid={`card-pending-${project.id}`}
+                    >
                       <CardHeader>
                         <div className="flex items-start justify-between gap-2">
                           <CardTitle className="text-lg truncate flex-1">{project.title}</CardTitle>
-                          <Badge className="bg-chart-4/10 text-chart-4">Pending</Badge>
+                          {project.status === "rejected" ? (
+                            <Badge className={getStatusColor(project.status)}>Rejected</Badge>
+                          ) : (
+                            <Badge className="bg-chart-4/10 text-chart-4">
+                              {project.status === "approved" ? "Funding" : "Pending"}
+                            </Badge>
+                          )}
                         </div>
                         <CardDescription className="line-clamp-2">{project.description}</CardDescription>
                       </CardHeader>
                       <CardContent>
-                        <p className="text-sm text-muted-foreground">
-                          Awaiting admin approval. You'll be notified once it's live.
-                        </p>
+                        {project.status === "rejected" ? (
+                          <div className="text-sm space-y-1" data-testid={`text-rejection-${project.id}`}>
+                            {project.rejection?.reason && (
+                              <p className="font-medium">
+                                {projectRejectionReasonLabels[project.rejection.reason as ProjectRejectionReason] ?? project.rejection.reason}
+                              </p>
+                            )}
+                            {project.rejection?.note && <p className="text-muted-foreground">{project.rejection.note}</p>}
+                            <p className="text-muted-foreground">Fix it and resubmit it for approval, or cancel it.</p>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {project.status === "approved"
+                              ? "Approved. It goes live as soon as the escrow payment clears."
+                              : "Awaiting admin approval. You'll be notified once it's live."}
+                          </p>
+                        )}
                       </CardContent>
+                      <CardFooter className="flex flex-wrap gap-2">
+                        {projectActions(project.status).includes("withdraw") && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setProjectToEdit(project)}
+                              data-testid={`button-edit-project-${project.id}`}
+                            >
+                              <Pencil className="mr-2 h-4 w-4" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => draftMutation.mutate({ projectId: project.id, action: "withdraw" })}
+                              disabled={draftMutation.isPending}
+                              data-testid={`button-withdraw-project-${project.id}`}
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Withdraw
+                            </Button>
+                          </>
+                        )}
+                        {projectActions(project.status).includes("resubmit") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToResubmit(project)}
+                            disabled={!canPostProjects}
+                            data-testid={`button-resubmit-project-${project.id}`}
+                          >
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit & Resubmit
+                          </Button>
+                        )}
+                        {project.status === "rejected" && projectActions(project.status).includes("cancel") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProjectToCancel(project)}
+                            data-testid={`button-cancel-project-${project.id}`}
+                          >
+                            <XCircle className="mr-2 h-4 w-4" />
+                            Cancel
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setHistoryProject(project)}>
+                          <History className="mr-2 h-4 w-4" />
+                          History
+                        </Button>
+                      </CardFooter>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="ended">
+              {endedProjects.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+                      <Flag className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">No Ended Projects</h3>
+                    <p className="text-muted-foreground">Completed and cancelled projects show up here.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {endedProjects.map((project) => (
+                    <Card key={project.id} data-testid={`card-ended-${project.id}`}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-2">
+                          <CardTitle className="text-lg truncate flex-1">{project.title}</CardTitle>
+                          <Badge className={`capitalize ${getStatusColor(project.status)}`}>{project.status}</Badge>
+                        </div>
+                        <CardDescription className="line-clamp-2">{project.description}</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {project.submissions?.filter((submission) => submission.status === "approved").length || 0} approved submissions
+                          </span>
+                          <span className="font-semibold text-primary">${project.payment}</span>
+                        </div>
+                      </CardContent>
+                      <CardFooter>
+                        <Button variant="ghost" size="sm" onClick={() => setHistoryProject(project)}>
+                          <History className="mr-2 h-4 w-4" />
+                          History
+                        </Button>
+                      </CardFooter>
                     </Card>
                   ))}
                 </div>
@@ -585,10 +1003,24 @@ export default function CompanyDashboard() {
                             <div>
                               <CardTitle className="text-lg">{project?.title || "Project"}</CardTitle>
                               <CardDescription className="flex items-center gap-2 mt-1">
-                                From: {submission.candidate?.firstName} {submission.candidate?.lastName || submission.candidate?.email}
+                                From: {candidateName(submission)}
                               </CardDescription>
                             </div>
-                            <Badge className="bg-chart-4/10 text-chart-4">Review</Badge>
+                            <div className="flex flex-col items-end gap-1">
+                              {submission.status === "changes_requested" ? (
+                                <Badge variant="outline">Changes Requested</Badge>
+                              ) : (
+                                <Badge className="bg-chart-4/10 text-chart-4">
+                                  {submission.revision > 1 ? `Review Revision ${submission.revision}` : "Review"}
+                                </Badge>
+                              )}
+                              {!!submission.unreadMessages && (
+                                <Badge variant="outline" className="gap-1" data-testid={`badge-unread-${submission.id}`}>
+                                  <MessageSquare className="h-3 w-3" />
+                                  {submission.unreadMessages} new
+                                </Badge>
+                              )}
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent>
@@ -603,13 +1035,16 @@ export default function CompanyDashboard() {
                               View Attachment <ArrowRight className="h-3 w-3" />
                             </a>
                           )}
+                          <SubmissionFiles files={submission.files} />
                         </CardContent>
                         <CardFooter className="gap-2">
                           <Button 
                             variant="outline" 
                             className="flex-1"
+                            disabled={!can("reviewSubmissions")}
                             onClick={() => {
                               setSelectedSubmission(submission);
+                              setScores({});
                               setReviewDialogOpen(true);
                             }}
                             data-testid={`button-review-${submission.id}`}
@@ -624,13 +1059,109 @@ export default function CompanyDashboard() {
                 </div>
               )}
             </TabsContent>
+            
+            <TabsContent value="billing">
+              {billingLoading ? (
+                <Card>
+                  <CardContent className="py-8">
+                    <Skeleton className="h-20 w-full" />
+                  </CardContent>
+                </Card>
+              ) : (billing?.invoices.length || 0) === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+                      <Receipt className="h-8 w-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">No Invoices Yet</h3>
+                    <p className="text-muted-foreground">An invoice is issued for every submission you approve.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid lg:grid-cols-3 gap-6">
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Invoices</CardTitle>
+                      <CardDescription>One per approved submission</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Invoice</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Project</TableHead>
+                            <TableHead>Candidate</TableHead>
+                            <TableHead className="text-right">Amount</TableHead>
+                            <TableHead className="text-right">Download</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {billing?.invoices.map((invoice) => (
+                            <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                              <TableCell className="font-mono">{invoice.reference}</TableCell>
+                              <TableCell>{new Date(invoice.issuedAt).toLocaleDateString()}</TableCell>
+                              <TableCell>{invoice.projectTitle}</TableCell>
+                              <TableCell>{invoice.candidateName}</TableCell>
+                              <TableCell className="text-right font-semibold">${invoice.amount}</TableCell>
+                              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                                <a href={`/api/company/invoices/${invoice.id}/pdf`} className="text-sm text-primary hover:underline" download>PDF</a>
+                                <a href={`/api/company/invoices/${invoice.id}/csv`} className="text-sm text-primary hover:underline" download>CSV</a>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                  
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Monthly Statements</CardTitle>
+                      <CardDescription>Every invoice issued in the month</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {billing?.statements.map((month) => (
+                        <div key={month} className="flex items-center justify-between p-3 border rounded-lg" data-testid={`row-statement-${month}`}>
+                          <span className="font-medium">
+                            {new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" })}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={`/api/company/invoices/statements/${month}/pdf`} download>
+                                <Download className="mr-1 h-3 w-3" />
+                                PDF
+                              </a>
+                            </Button>
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={`/api/company/invoices/statements/${month}/csv`} download>
+                                <Download className="mr-1 h-3 w-3" />
+                                CSV
+                              </a>
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="ratings">
+              <CompanyRatingsManager canManage={can("manageCompany")} />
+            </TabsContent>
+            
+            <TabsContent value="team">
+              {company && <CompanyTeam userId={user?.id} role={company.role} />}
+            </TabsContent>
           </Tabs>
         </div>
       </section>
       
       {/* Review Dialog */}
       <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Review Submission</DialogTitle>
           </DialogHeader>
@@ -638,50 +1169,109 @@ export default function CompanyDashboard() {
             <div>
               <Label>Candidate</Label>
               <p className="text-sm text-muted-foreground">
-                {selectedSubmission?.candidate?.firstName} {selectedSubmission?.candidate?.lastName}
+                {selectedSubmission && candidateName(selectedSubmission)}
               </p>
             </div>
+            {selectedSubmission?.status === "changes_requested" && (
+              <p className="rounded bg-muted p-3 text-sm text-muted-foreground" data-testid="text-awaiting-revision">
+                You asked for changes and are waiting for the candidate's revision. You can still approve or reject
+                the submission as it is.
+              </p>
+            )}
             <div>
-              <Label>Submission</Label>
+              <Label>
+                Submission{selectedSubmission && selectedSubmission.revision > 1 ? ` (revision ${selectedSubmission.revision})` : ""}
+              </Label>
               <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selectedSubmission?.content}</p>
             </div>
-            <div>
-              <Label>Rating (1-5 stars)</Label>
-              <div className="flex gap-2 mt-2">
-                {[1, 2, 3, 4, 5].map((star) => (
-                  <button
-                    key={star}
-                    type="button"
-                    onClick={() => setRating(star)}
-                    className="p-1"
-                  >
-                    <Star className={`h-6 w-6 ${star <= rating ? "fill-chart-4 text-chart-4" : "text-muted"}`} />
-                  </button>
-                ))}
+            {selectedSubmission?.files?.length ? (
+              <div>
+                <Label>Files</Label>
+                <div className="mt-2">
+                  <SubmissionFiles files={selectedSubmission.files} />
+                </div>
               </div>
-            </div>
+            ) : null}
+            {selectedSubmission && selectedSubmission.revision > 1 && (
+              <div>
+                <Label>Revision History</Label>
+                <div className="mt-2">
+                  <SubmissionRevisions submissionId={selectedSubmission.id} />
+                </div>
+              </div>
+            )}
+            {selectedSubmission && (
+              <div>
+                <Label>Messages</Label>
+                <div className="mt-2 rounded-lg border p-3">
+                  <SubmissionThread
+                    submissionId={selectedSubmission.id}
+                    side="company"
+                    otherName={selectedSubmission.candidate?.firstName || candidateName(selectedSubmission)}
+                  />
+                </div>
+              </div>
+            )}
+            {reviewRubric.length ? (
+              <div>
+                <Label>Rubric</Label>
+                <div className="mt-2">
+                  <RubricScorer rubric={reviewRubric} scores={scores} onChange={setScores} />
+                </div>
+              </div>
+            ) : (
+              <div>
+                <Label>Rating (1-5 stars)</Label>
+                <div className="flex gap-2 mt-2">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      type="button"
+                      onClick={() => setRating(star)}
+                      className="p-1"
+                    >
+                      <Star className={`h-6 w-6 ${star <= rating ? "fill-chart-4 text-chart-4" : "text-muted"}`} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
               <Label>Feedback</Label>
               <Textarea
-                placeholder="Provide feedback for the candidate..."
+                placeholder="Provide feedback for the candidate, or say what should change..."
                 value={feedback}
                 onChange={(e) => setFeedback(e.target.value)}
                 className="mt-2"
               />
+              {selectedSubmission && selectedProject && (
+                <p className="text-xs text-muted-foreground mt-1" data-testid="text-revisions-left">
+                  {revisionsLeft(selectedSubmission, selectedProject)} of {selectedProject.maxRevisions} revisions left
+                </p>
+              )}
             </div>
           </div>
           <DialogFooter className="gap-2">
             <Button
               variant="destructive"
-              onClick={() => selectedSubmission && reviewSubmissionMutation.mutate({ submissionId: selectedSubmission.id, approved: false })}
+              onClick={() => selectedSubmission && reviewSubmissionMutation.mutate({ submissionId: selectedSubmission.id, decision: "rejected" })}
               disabled={reviewSubmissionMutation.isPending}
             >
               <XCircle className="mr-2 h-4 w-4" />
               Reject
             </Button>
             <Button
-              onClick={() => selectedSubmission && reviewSubmissionMutation.mutate({ submissionId: selectedSubmission.id, approved: true })}
-              disabled={reviewSubmissionMutation.isPending}
+              variant="outline"
+              onClick={() => selectedSubmission && reviewSubmissionMutation.mutate({ submissionId: selectedSubmission.id, decision: "changes_requested" })}
+              disabled={reviewSubmissionMutation.isPending || !canRequestChanges || !feedback.trim()}
+              data-testid="button-request-changes"
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Request Changes
+            </Button>
+            <Button
+              onClick={() => selectedSubmission && reviewSubmissionMutation.mutate({ submissionId: selectedSubmission.id, decision: "approved" })}
+              disabled={reviewSubmissionMutation.isPending || !rubricScored}
             >
               <CheckCircle className="mr-2 h-4 w-4" />
               Approve & Pay
@@ -690,6 +1280,183 @@ export default function CompanyDashboard() {
         </DialogContent>
       </Dialog>
       
+      {/* Cancel Project Dialog */}
+      <AlertDialog open={!!projectToCancel} onOpenChange={(open) => !open && setProjectToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {projectToCancel?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project will stop accepting submissions and the ${projectToCancel?.escrowBalance || "0.00"} left
+              in its escrow will be refunded. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Project</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => projectToCancel && cancelProjectMutation.mutate(projectToCancel.id)}
+              disabled={cancelProjectMutation.isPending}
+              data-testid="button-confirm-cancel-project"
+            >
+              Cancel Project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Close Project Dialog */}
+      <AlertDialog open={!!projectToClose} onOpenChange={(open) => !open && setProjectToClose(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close {projectToClose?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project will be marked completed and the ${projectToClose?.escrowBalance || "0.00"} left in its
+              escrow will be refunded. Review any outstanding submissions first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Open</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => projectToClose && projectStatusMutation.mutate({ projectId: projectToClose.id, action: "close" })}
+              disabled={projectStatusMutation.isPending}
+              data-testid="button-confirm-close-project"
+            >
+              Close Project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      {/* Project History Dialog */}
+      <Dialog open={!!historyProject} onOpenChange={(open) => !open && setHistoryProject(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{historyProject?.title} history</DialogTitle>
+          </DialogHeader>
+          {historyProject && (
+            <ProjectStatusHistory queryKey={["/api/company/projects", historyProject.id, "history"]} />
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Edit Project Dialog */}
+      <Dialog open={!!projectToEdit} onOpenChange={(open) => !open && setProjectToEdit(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit {projectToEdit?.title}</DialogTitle>
+          </DialogHeader>
+          {projectToEdit && (
+            <ProjectForm
+              project={projectToEdit}
+              submitLabel="Save Changes"
+              pendingLabel="Saving..."
+              isPending={editProjectMutation.isPending}
+              onSubmit={(request) => editProjectMutation.mutate({ projectId: projectToEdit.id, request })}
+              lockedFields={lockedProjectFields({
+                submissions: projectToEdit.submissions?.length ?? 0,
+                funded: isFundedProject(projectToEdit.status, projectToEdit.escrowBalance ?? 0),
+              })}
+              notice={(request) =>
+                isLiveProject(projectToEdit.status) && isMaterialProjectEdit(projectToEdit, request) && (
+                  <div
+                    className="rounded-lg border border-chart-4/40 bg-chart-4/10 p-3 text-sm"
+                    data-testid="text-edit-needs-review"
+                  >
+                    These changes alter the brief, so the project goes back to admin review and stops taking
+                    submissions until it's approved again. Its escrow stays funded.
+                  </div>
+                )
+              }
+            >
+              <div className="space-y-2">
+                <Label htmlFor="project-edit-note">What changed (optional)</Label>
+                <Textarea
+                  id="project-edit-note"
+                  value={editNote}
+                  onChange={(e) => setEditNote(e.target.value)}
+                  placeholder="Helps the admin review your changes"
+                  data-testid="input-project-edit-note"
+                />
+              </div>
+            </ProjectForm>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Resubmit Project Dialog */}
+      <Dialog open={!!projectToResubmit} onOpenChange={(open) => !open && setProjectToResubmit(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit & Resubmit {projectToResubmit?.title}</DialogTitle>
+          </DialogHeader>
+          {projectToResubmit?.rejection && (
+            <div className="rounded-lg bg-destructive/5 border border-destructive p-3 text-sm">
+              {projectToResubmit.rejection.reason && (
+                <p className="font-medium">
+                  {projectRejectionReasonLabels[projectToResubmit.rejection.reason as ProjectRejectionReason] ?? projectToResubmit.rejection.reason}
+                </p>
+              )}
+              {projectToResubmit.rejection.note && (
+                <p className="text-muted-foreground">{projectToResubmit.rejection.note}</p>
+              )}
+            </div>
+          )}
+          {projectToResubmit && (
+            <ProjectForm
+              project={projectToResubmit}
+              submitLabel="Resubmit for Approval"
+              pendingLabel="Resubmitting..."
+              isPending={resubmitProjectMutation.isPending}
+              onSubmit={(request) => resubmitProjectMutation.mutate({ projectId: projectToResubmit.id, request })}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="project-resubmit-note">What changed (optional)</Label>
+                <Textarea
+                  id="project-resubmit-note"
+                  value={resubmitNote}
+                  onChange={(e) => setResubmitNote(e.target.value)}
+                  placeholder="Tell the reviewer what you fixed"
+                  data-testid="input-project-resubmit-note"
+                />
+              </div>
+            </ProjectForm>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Resubmit Company Dialog */}
+      <Dialog open={isCompanyResubmitOpen} onOpenChange={setIsCompanyResubmitOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit & Resubmit {company?.name}</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label>Review history</Label>
+            <div className="mt-2">
+              <CompanyStatusHistory queryKey={["/api/company/profile/history"]} />
+            </div>
+          </div>
+          {company && (
+            <CompanyForm company={company} onSubmit={(data) => resubmitCompanyMutation.mutate(data)}>
+              <div className="space-y-2">
+                <Label htmlFor="company-resubmit-note">What changed (optional)</Label>
+                <Textarea
+                  id="company-resubmit-note"
+                  value={resubmitNote}
+                  onChange={(e) => setResubmitNote(e.target.value)}
+                  placeholder="Tell the reviewer what you fixed"
+                  data-testid="input-company-resubmit-note"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={resubmitCompanyMutation.isPending} data-testid="button-submit-company">
+                  {resubmitCompanyMutation.isPending ? "Resubmitting..." : "Resubmit for Approval"}
+                </Button>
+              </DialogFooter>
+            </CompanyForm>
+          )}
+        </DialogContent>
+      </Dialog>
+      
       {/* Footer */}
       <footer className="border-t py-12 bg-muted/30 mt-auto">
         <div className="max-w-7xl mx-auto px-4">
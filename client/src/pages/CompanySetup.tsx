@@ -1,47 +1,35 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useMutation } from "@tanstack/react-query";
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { Label } from "@/components/ui/label";
+import { ImagePicker } from "@/components/ImagePicker";
+import { CompanyForm, type CompanyFormData } from "@/components/CompanyForm";
 import { Building2, ArrowRight, Briefcase } from "lucide-react";
 
-const companyFormSchema = z.object({
-  name: z.string().min(2, "Company name must be at least 2 characters"),
-  description: z.string().min(20, "Description must be at least 20 characters"),
-  website: z.string().url("Must be a valid URL").optional().or(z.literal("")),
-  industry: z.string().min(1, "Please select an industry"),
-  size: z.string().min(1, "Please select a company size"),
-});
-
-type CompanyFormData = z.infer<typeof companyFormSchema>;
-
 export default function CompanySetup() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const [logo, setLogo] = useState<File | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
 
-  const form = useForm<CompanyFormData>({
-    resolver: zodResolver(companyFormSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      website: "",
-      industry: "",
-      size: "",
-    },
-  });
+  // The logo is uploaded once the company exists, so show the file locally
+  useEffect(() => {
+    if (!logo) {
+      setLogoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(logo);
+    setLogoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [logo]);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -60,7 +48,20 @@ export default function CompanySetup() {
     mutationFn: async (data: CompanyFormData) => {
       return await apiRequest("POST", "/api/company/profile", data);
     },
-    onSuccess: () => {
+    onSuccess: async () => {
+      if (logo) {
+        try {
+          const upload = new FormData();
+          upload.append("image", logo);
+          await apiRequest("POST", "/api/company/logo", upload);
+        } catch (error) {
+          toast({
+            title: "Logo not uploaded",
+            description: error instanceof Error ? error.message : "You can upload it again from your dashboard.",
+            variant: "destructive",
+          });
+        }
+      }
       toast({ title: "Company Created!", description: "Your company profile is pending approval." });
       queryClient.invalidateQueries({ queryKey: ["/api/company/profile"] });
       setLocation("/company");
@@ -117,122 +118,34 @@ export default function CompanySetup() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit((data) => createCompanyMutation.mutate(data))} className="space-y-6">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Company Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Acme Inc." {...field} data-testid="input-company-name" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Tell candidates about your company, culture, and what you do..."
-                          className="min-h-[120px]"
-                          {...field} 
-                          data-testid="input-company-description"
-                        />
-                      </FormControl>
-                      <FormDescription>This will be shown to candidates on your project pages.</FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="website"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Website (Optional)</FormLabel>
-                      <FormControl>
-                        <Input type="url" placeholder="https://example.com" {...field} data-testid="input-company-website" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <div className="grid md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="industry"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Industry</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-company-industry">
-                              <SelectValue placeholder="Select industry" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="technology">Technology</SelectItem>
-                            <SelectItem value="finance">Finance</SelectItem>
-                            <SelectItem value="healthcare">Healthcare</SelectItem>
-                            <SelectItem value="education">Education</SelectItem>
-                            <SelectItem value="ecommerce">E-Commerce</SelectItem>
-                            <SelectItem value="media">Media & Entertainment</SelectItem>
-                            <SelectItem value="consulting">Consulting</SelectItem>
-                            <SelectItem value="other">Other</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  
-                  <FormField
-                    control={form.control}
-                    name="size"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Company Size</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-company-size">
-                              <SelectValue placeholder="Select size" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="1-10">1-10 employees</SelectItem>
-                            <SelectItem value="11-50">11-50 employees</SelectItem>
-                            <SelectItem value="51-200">51-200 employees</SelectItem>
-                            <SelectItem value="201-500">201-500 employees</SelectItem>
-                            <SelectItem value="500+">500+ employees</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+            <CompanyForm
+              onSubmit={(data) => createCompanyMutation.mutate(data)}
+              before={
+                <div className="space-y-2">
+                  <Label>Logo (Optional)</Label>
+                  <ImagePicker
+                    imageUrl={logoPreview}
+                    fallback={<Building2 className="h-8 w-8 text-muted-foreground" />}
+                    label="Logo"
+                    shape="square"
+                    onSelect={setLogo}
+                    onRemove={() => setLogo(null)}
+                    disabled={createCompanyMutation.isPending}
+                    testId="company-logo"
                   />
                 </div>
-                
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={createCompanyMutation.isPending}
-                  data-testid="button-create-company"
-                >
-                  {createCompanyMutation.isPending ? "Creating..." : "Create Company Profile"}
-                  <ArrowRight className="ml-2 h-4 w-4" />
-                </Button>
-              </form>
-            </Form>
+              }
+            >
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={createCompanyMutation.isPending}
+                data-testid="button-create-company"
+              >
+                {createCompanyMutation.isPending ? "Creating..." : "Create Company Profile"}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </CompanyForm>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,121 @@
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { companyRoleDescriptions, companyRoleLabels } from "@shared/companyRoles";
+import type { Company, SentCompanyInvitation } from "@shared/schema";
+import { Building2, LogIn, UserPlus } from "lucide-react";
+
+interface InvitationDetails extends SentCompanyInvitation {
+  company: Pick<Company, "id" | "name" | "logoUrl">;
+  expired: boolean;
+}
+
+// Where the link in an invitation email lands. Accepting it puts the
+// signed-in user on the company's team.
+export default function Invitation() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations", token],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/invitations/${token}/accept`),
+    onSuccess: () => {
+      toast({ title: "Welcome to the team!", description: `You've joined ${invitation?.company.name}.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company/profile"] });
+      setLocation("/company");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closed = invitation && (invitation.expired || invitation.acceptedAt || invitation.revokedAt);
+  const otherAccount = invitation && user?.email?.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="max-w-lg mx-auto px-4 py-20">
+        {authLoading || (isAuthenticated && isLoading) ? (
+          <Skeleton className="h-64 w-full" />
+        ) : !isAuthenticated ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>You've been invited to a team</CardTitle>
+              <CardDescription>
+                Log in with the email address the invitation was sent to, then open the link from the email again.
+              </CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button asChild data-testid="button-invitation-login">
+                <a href="/api/login">
+                  <LogIn className="mr-2 h-4 w-4" />
+                  Log in
+                </a>
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : error || !invitation ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <h1 className="text-xl font-semibold mb-2">Invitation not found</h1>
+              <p className="text-muted-foreground">Check the link in your email, or ask for a new invitation.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card data-testid="card-invitation">
+            <CardHeader className="items-center text-center">
+              <div className="h-16 w-16 rounded-lg bg-muted flex items-center justify-center overflow-hidden mb-2">
+                {invitation.company.logoUrl ? (
+                  <img src={invitation.company.logoUrl} alt="" className="h-full w-full object-cover" />
+                ) : (
+                  <Building2 className="h-8 w-8 text-muted-foreground" />
+                )}
+              </div>
+              <CardTitle>Join {invitation.company.name}</CardTitle>
+              <CardDescription>
+                As {companyRoleLabels[invitation.role]}: {companyRoleDescriptions[invitation.role].toLowerCase()}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="text-center text-sm text-muted-foreground">
+              {invitation.acceptedAt
+                ? "This invitation has already been accepted."
+                : invitation.revokedAt
+                  ? "This invitation has been revoked."
+                  : invitation.expired
+                    ? "This invitation has expired. Ask for a new one."
+                    : otherAccount
+                      ? `This invitation was sent to ${invitation.email}. Log in with that address to accept it.`
+                      : `Sent to ${invitation.email}. It expires on ${new Date(invitation.expiresAt).toLocaleDateString()}.`}
+            </CardContent>
+            <CardFooter className="justify-center">
+              <Button
+                onClick={() => acceptMutation.mutate()}
+                disabled={!!closed || otherAccount || acceptMutation.isPending}
+                data-testid="button-accept-invitation"
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                {acceptMutation.isPending ? "Joining..." : "Accept Invitation"}
+              </Button>
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
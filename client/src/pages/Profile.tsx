@@ -1,6 +1,9 @@
 import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Header } from "@/components/Header";
+import { EmailPreferences } from "@/components/EmailPreferences";
+import { PublicProfileSettings } from "@/components/PublicProfileSettings";
+import { ImagePicker } from "@/components/ImagePicker";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -38,6 +41,11 @@ interface SubmissionWithDetails extends Submission {
   rating?: Rating;
 }
 
+interface CandidateStats {
+  completedProjects: number;
+  averageRating: number;
+}
+
 const profileFormSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
@@ -97,6 +105,11 @@ export default function Profile() {
     enabled: isAuthenticated && user?.role === "candidate",
   });
 
+  const { data: stats } = useQuery<CandidateStats>({
+    queryKey: ["/api/candidate/stats"],
+    enabled: isAuthenticated && user?.role === "candidate",
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
       return await apiRequest("PATCH", "/api/profile", {
@@ -123,6 +136,23 @@ export default function Profile() {
     },
   });
 
+  const avatarMutation = useMutation({
+    mutationFn: async (file: File | null) => {
+      if (!file) {
+        return await apiRequest("DELETE", "/api/profile/avatar");
+      }
+      const form = new FormData();
+      form.append("image", file);
+      return await apiRequest("POST", "/api/profile/avatar", form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const getInitials = () => {
     if (user?.firstName && user?.lastName) {
       return `${user.firstName[0]}${user.lastName[0]}`.toUpperCase();
@@ -133,12 +163,7 @@ export default function Profile() {
     return "U";
   };
 
-  const averageRating = completedSubmissions?.reduce((acc, sub) => {
-    if (sub.rating) return acc + sub.rating.score;
-    return acc;
-  }, 0) || 0;
-  const ratingCount = completedSubmissions?.filter(s => s.rating).length || 0;
-  const avgRating = ratingCount > 0 ? (averageRating / ratingCount).toFixed(1) : "N/A";
+  const avgRating = stats?.averageRating ? stats.averageRating.toFixed(1) : "N/A";
 
   if (authLoading || !isAuthenticated) {
     return (
@@ -180,7 +205,7 @@ export default function Profile() {
                   <div className="flex flex-wrap gap-4">
                     <div className="flex items-center gap-2">
                       <FileText className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">{completedSubmissions?.length || 0} completed projects</span>
+                      <span className="text-sm">{stats?.completedProjects || 0} completed projects</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Star className="h-4 w-4 text-chart-4" />
@@ -218,6 +243,17 @@ export default function Profile() {
               <CardDescription>Update your personal information and skills.</CardDescription>
             </CardHeader>
             <CardContent>
+              <div className="mb-6">
+                <ImagePicker
+                  imageUrl={user?.profileImageUrl}
+                  fallback={getInitials()}
+                  label="Photo"
+                  onSelect={(file) => avatarMutation.mutate(file)}
+                  onRemove={() => avatarMutation.mutate(null)}
+                  disabled={avatarMutation.isPending}
+                  testId="avatar"
+                />
+              </div>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit((data) => updateProfileMutation.mutate(data))} className="space-y-6">
                   <div className="grid md:grid-cols-2 gap-4">
@@ -330,6 +366,10 @@ export default function Profile() {
               {user?.role === "candidate" && (
                 <TabsTrigger value="portfolio" data-testid="tab-portfolio">Portfolio</TabsTrigger>
               )}
+              {user?.role === "candidate" && (
+                <TabsTrigger value="public" data-testid="tab-public-profile">Public Profile</TabsTrigger>
+              )}
+              <TabsTrigger value="email" data-testid="tab-email">Email</TabsTrigger>
             </TabsList>
             
             <TabsContent value="about">
@@ -457,6 +497,16 @@ export default function Profile() {
                 </Card>
               </TabsContent>
             )}
+            
+            {user?.role === "candidate" && (
+              <TabsContent value="public">
+                <PublicProfileSettings user={user} />
+              </TabsContent>
+            )}
+            
+            <TabsContent value="email">
+              {user && <EmailPreferences user={user} />}
+            </TabsContent>
           </Tabs>
         )}
       </div>
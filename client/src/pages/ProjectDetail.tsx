@@ -13,6 +13,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDistanceToNow } from "date-fns";
 import { 
   ArrowLeft, 
   DollarSign, 
@@ -23,47 +24,80 @@ import {
   CheckCircle,
   FileText,
   Users,
-  Target
+  Target,
+  Lock,
+  Paperclip,
+  X
 } from "lucide-react";
-import type { Project, Company, Submission } from "@shared/schema";
+import type { Project, Company, Submission, SubmissionFile } from "@shared/schema";
+import { acceptedExtensions, formatFileSize, isAllowedFile, submissionFileRules } from "@shared/uploads";
+import { SubmissionFiles } from "@/components/SubmissionFiles";
+import { SubmissionThread } from "@/components/SubmissionThread";
+import { SubmissionRevisions } from "@/components/SubmissionRevisions";
+import { CompanyReviews, CompanyTrustBadge } from "@/components/CompanyRatings";
+import type { CompanyTrustScore } from "@shared/companyRatings";
 import { Link } from "wouter";
 
+interface ProjectAvailability {
+  acceptingSubmissions: boolean;
+  closedReason: "not_active" | "deadline_passed" | "full" | null;
+  maxSubmissions: number | null;
+  slotsTaken: number;
+  slotsLeft: number | null;
+  closesAt: string | null;
+}
+
 interface ProjectWithCompany extends Project {
   company?: Company;
+  availability?: ProjectAvailability;
+  companyTrust?: CompanyTrustScore | null;
 }
 
+const closedMessages: Record<NonNullable<ProjectAvailability["closedReason"]>, string> = {
+  not_active: "This project is not accepting submissions.",
+  deadline_passed: "The deadline for this project has passed.",
+  full: "All submission slots for this project have been taken.",
+};
+
 export default function ProjectDetail() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const [content, setContent] = useState("");
-  const [attachmentUrl, setAttachmentUrl] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
 
   const { data: project, isLoading } = useQuery<ProjectWithCompany>({
     queryKey: ["/api/projects", id],
   });
 
-  const { data: mySubmission } = useQuery<Submission>({
+  const { data: mySubmission } = useQuery<Submission & { files?: SubmissionFile[] }>({
     queryKey: ["/api/projects", id, "my-submission"],
     enabled: isAuthenticated,
   });
 
+  // Once the company asks for changes the same form sends a revision
+  const revising = mySubmission?.status === "changes_requested";
+
   const submitMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("POST", `/api/projects/${id}/submissions`, {
-        content,
-        attachmentUrl: attachmentUrl || undefined,
-      });
+      const form = new FormData();
+      form.append("content", content);
+      for (const file of files) {
+        form.append("files", file);
+      }
+      const url = revising ? `/api/submissions/${mySubmission!.id}/revisions` : `/api/projects/${id}/submissions`;
+      return await apiRequest("POST", url, form);
     },
     onSuccess: () => {
       toast({
-        title: "Submission Sent!",
+        title: revising ? "Revision Sent!" : "Submission Sent!",
         description: "Your work has been submitted for review.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", id, "my-submission"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", id] });
       setContent("");
-      setAttachmentUrl("");
+      setFiles([]);
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -77,6 +111,8 @@ export default function ProjectDetail() {
         }, 500);
         return;
       }
+      // The project may have filled up or closed since the page loaded
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", id] });
       toast({
         title: "Error",
         description: error.message || "Failed to submit. Please try again.",
@@ -85,6 +121,29 @@ export default function ProjectDetail() {
     },
   });
 
+  // Checked here too so candidates don't wait for an upload to be refused
+  const addFiles = (selected: FileList | null) => {
+    const accepted: File[] = [];
+    for (const file of Array.from(selected ?? [])) {
+      if (!isAllowedFile(submissionFileRules, file.name, file.type)) {
+        toast({ title: "Unsupported file", description: `${file.name} isn't a zip, pdf or image.`, variant: "destructive" });
+      } else if (file.size > submissionFileRules.maxFileSize) {
+        toast({
+          title: "File too large",
+          description: `${file.name} is over ${formatFileSize(submissionFileRules.maxFileSize)}.`,
+          variant: "destructive",
+        });
+      } else {
+        accepted.push(file);
+      }
+    }
+    const next = [...files, ...accepted];
+    if (next.length > submissionFileRules.maxFiles) {
+      toast({ title: "Too many files", description: `Attach at most ${submissionFileRules.maxFiles} files.`, variant: "destructive" });
+    }
+    setFiles(next.slice(0, submissionFileRules.maxFiles));
+  };
+
   const getDifficultyColor = (difficulty: string | null) => {
     switch (difficulty) {
       case "beginner": return "bg-chart-2/10 text-chart-2";
@@ -127,6 +186,11 @@ export default function ProjectDetail() {
   }
 
   const hasSubmitted = !!mySubmission;
+  const availability = project.availability;
+  const acceptingSubmissions = availability?.acceptingSubmissions ?? project.status === "active";
+  // A revision keeps its slot, so only a closed project or passed deadline stops it
+  const acceptingRevision = revising && (availability?.closedReason == null || availability.closedReason === "full");
+  const closesAt = availability?.closesAt ? new Date(availability.closesAt) : null;
 
   return (
     <div className="min-h-screen bg-background">
@@ -151,6 +215,7 @@ export default function ProjectDetail() {
                   <Building2 className="h-4 w-4" />
                   <span data-testid="text-company-name">{project.company?.name || "Company"}</span>
                 </div>
+                <CompanyTrustBadge trust={project.companyTrust} />
                 <span className={`px-2 py-1 rounded-md text-xs font-medium ${getDifficultyColor(project.difficulty)}`}>
                   {project.difficulty || "Intermediate"}
                 </span>
@@ -173,16 +238,20 @@ export default function ProjectDetail() {
           
           {/* Meta Info */}
           <div className="flex flex-wrap gap-6 text-sm text-muted-foreground">
-            {project.deadline && (
-              <div className="flex items-center gap-2">
+            {closesAt && (
+              <div className="flex items-center gap-2" data-testid="text-closes-in">
                 <Clock className="h-4 w-4" />
-                <span>Deadline: {new Date(project.deadline).toLocaleDateString()}</span>
+                <span>
+                  {closesAt.getTime() > Date.now()
+                    ? `Closes in ${formatDistanceToNow(closesAt)}`
+                    : `Closed ${formatDistanceToNow(closesAt, { addSuffix: true })}`}
+                </span>
               </div>
             )}
-            {project.maxSubmissions && (
-              <div className="flex items-center gap-2">
+            {availability?.maxSubmissions != null && (
+              <div className="flex items-center gap-2" data-testid="text-slots-left">
                 <Users className="h-4 w-4" />
-                <span>Max {project.maxSubmissions} submissions</span>
+                <span>{availability.slotsLeft} of {availability.maxSubmissions} slots left</span>
               </div>
             )}
           </div>
@@ -220,20 +289,26 @@ export default function ProjectDetail() {
             )}
             
             {/* Submission Form */}
-            {isAuthenticated && user?.role === "candidate" && !hasSubmitted && (
+            {isAuthenticated && user?.role === "candidate" && ((!hasSubmitted && acceptingSubmissions) || acceptingRevision) && (
               <Card data-testid="card-submission">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Send className="h-5 w-5" />
-                    Submit Your Work
+                    {revising ? `Send Revision ${mySubmission!.revision + 1}` : "Submit Your Work"}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {revising && mySubmission!.feedback && (
+                    <div className="p-4 bg-muted rounded-lg" data-testid="text-changes-requested">
+                      <p className="text-sm font-medium mb-1">Changes requested:</p>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{mySubmission!.feedback}</p>
+                    </div>
+                  )}
                   <div>
-                    <Label htmlFor="content">Your Submission</Label>
+                    <Label htmlFor="content">{revising ? "Your Revision" : "Your Submission"}</Label>
                     <Textarea
                       id="content"
-                      placeholder="Describe your work, approach, and deliverables..."
+                      placeholder={revising ? "Describe what you changed..." : "Describe your work, approach, and deliverables..."}
                       value={content}
                       onChange={(e) => setContent(e.target.value)}
                       className="mt-2 min-h-[150px]"
@@ -241,16 +316,44 @@ export default function ProjectDetail() {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="attachment">Attachment URL (optional)</Label>
+                    <Label htmlFor="attachment">Files (optional)</Label>
                     <Input
                       id="attachment"
-                      type="url"
-                      placeholder="https://github.com/yourusername/project or Google Drive link"
-                      value={attachmentUrl}
-                      onChange={(e) => setAttachmentUrl(e.target.value)}
+                      type="file"
+                      multiple
+                      accept={acceptedExtensions(submissionFileRules)}
+                      onChange={(e) => {
+                        addFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                      disabled={files.length >= submissionFileRules.maxFiles}
                       className="mt-2"
                       data-testid="input-attachment"
                     />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Zip, PDF or images. Up to {submissionFileRules.maxFiles} files of {formatFileSize(submissionFileRules.maxFileSize)} each.
+                    </p>
+                    {files.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {files.map((file, index) => (
+                          <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm" data-testid={`selected-file-${index}`}>
+                            <Paperclip className="h-4 w-4 text-muted-foreground shrink-0" />
+                            <span className="truncate">{file.name}</span>
+                            <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 ml-auto"
+                              onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                              data-testid={`button-remove-file-${index}`}
+                            >
+                              <X className="h-3 w-3" />
+                              <span className="sr-only">Remove {file.name}</span>
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                   <Button
                     onClick={() => submitMutation.mutate()}
@@ -258,13 +361,32 @@ export default function ProjectDetail() {
                     className="w-full"
                     data-testid="button-submit"
                   >
-                    {submitMutation.isPending ? "Submitting..." : "Submit Project"}
+                    {submitMutation.isPending ? "Submitting..." : revising ? "Send Revision" : "Submit Project"}
                     <Send className="ml-2 h-4 w-4" />
                   </Button>
                 </CardContent>
               </Card>
             )}
             
+            {/* Closed */}
+            {!hasSubmitted && !acceptingSubmissions && (
+              <Card data-testid="card-closed">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                      <Lock className="h-6 w-6 text-muted-foreground" />
+                    </div>
+                    <div>
+                      <h3 className="font-semibold">Submissions Closed</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {closedMessages[availability?.closedReason ?? "not_active"]}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            
             {/* Already Submitted */}
             {hasSubmitted && (
               <Card className="border-chart-2" data-testid="card-submitted">
@@ -274,22 +396,61 @@ export default function ProjectDetail() {
                       <CheckCircle className="h-6 w-6 text-chart-2" />
                     </div>
                     <div>
-                      <h3 className="font-semibold">Submission Received!</h3>
+                      <h3 className="font-semibold">{revising ? "Changes Requested" : "Submission Received!"}</h3>
                       <p className="text-sm text-muted-foreground">
-                        Your work is being reviewed. You'll be notified once it's rated.
+                        {revising
+                          ? acceptingRevision
+                            ? "The company asked for changes. Send a revision above."
+                            : "The company asked for changes, but the project no longer takes revisions."
+                          : "Your work is being reviewed. You'll be notified once it's rated."}
                       </p>
                     </div>
                   </div>
                   <div className="p-4 bg-muted rounded-lg">
-                    <p className="text-sm font-medium mb-2">Your submission:</p>
+                    <p className="text-sm font-medium mb-2">
+                      Your submission{mySubmission.revision > 1 ? ` (revision ${mySubmission.revision})` : ""}:
+                    </p>
                     <p className="text-sm text-muted-foreground line-clamp-3">{mySubmission.content}</p>
+                    {mySubmission.files?.length ? (
+                      <div className="mt-3">
+                        <SubmissionFiles files={mySubmission.files} />
+                      </div>
+                    ) : null}
                   </div>
                 </CardContent>
               </Card>
             )}
             
+            {/* Earlier revisions */}
+            {hasSubmitted && mySubmission.revision > 1 && (
+              <Card data-testid="card-revisions">
+                <CardHeader>
+                  <CardTitle className="text-lg">Revision History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SubmissionRevisions submissionId={mySubmission.id} />
+                </CardContent>
+              </Card>
+            )}
+            
+            {/* Messages with the company about the submission */}
+            {hasSubmitted && (
+              <Card data-testid="card-messages">
+                <CardHeader>
+                  <CardTitle className="text-lg">Messages</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SubmissionThread
+                    submissionId={mySubmission.id}
+                    side="candidate"
+                    otherName={project.company?.name || "Company"}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            
             {/* Not Logged In */}
-            {!isAuthenticated && (
+            {!isAuthenticated && acceptingSubmissions && (
               <Card data-testid="card-login-prompt">
                 <CardContent className="pt-6 text-center">
                   <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-4">
@@ -336,6 +497,21 @@ export default function ProjectDetail() {
               </Card>
             )}
             
+            {/* What candidates who worked with the company thought */}
+            {project.company && (
+              <Card data-testid="card-company-ratings">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center justify-between gap-2">
+                    Candidate Ratings
+                    <CompanyTrustBadge trust={project.companyTrust} />
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CompanyReviews companyId={project.company.id} />
+                </CardContent>
+              </Card>
+            )}
+            
             {/* Quick Stats */}
             <Card data-testid="card-stats">
               <CardHeader>
@@ -356,6 +532,18 @@ export default function ProjectDetail() {
                     <span>{new Date(project.deadline).toLocaleDateString()}</span>
                   </div>
                 )}
+                {availability?.maxSubmissions != null && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Slots</span>
+                    <span>{availability.slotsLeft} of {availability.maxSubmissions} left</span>
+                  </div>
+                )}
+                {project.blindReview && (
+                  <div className="flex justify-between items-center" data-testid="text-blind-review">
+                    <span className="text-muted-foreground">Review</span>
+                    <span>Blind until decided</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-muted-foreground">Status</span>
                   <Badge variant="secondary" className="capitalize">{project.status}</Badge>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -14,46 +14,146 @@ import {
   Clock, 
   Building2, 
   Briefcase,
+  ChevronLeft,
   ChevronRight,
   Target,
-  Zap
+  ArrowUpDown,
+  CalendarClock,
+  X
 } from "lucide-react";
-import type { Project, Company } from "@shared/schema";
-import { Link } from "wouter";
+import type { Project, Company, ProjectSort } from "@shared/schema";
+import { Link, useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { CompanyTrustBadge } from "@/components/CompanyRatings";
+import type { CompanyTrustScore } from "@shared/companyRatings";
 
 interface ProjectWithCompany extends Project {
   company?: Company;
+  companyTrust?: CompanyTrustScore | null;
+}
+
+interface ProjectSearchResponse {
+  projects: ProjectWithCompany[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const PAGE_SIZE = 12;
+
+// URL parameters that narrow the results; sort and paging don't count
+const FILTER_PARAMS = ["q", "skills", "difficulty", "minPayment", "maxPayment", "within", "companyId"];
+
+const sortLabels: Record<ProjectSort, string> = {
+  newest: "Newest",
+  highest_pay: "Highest Pay",
+  closing_soon: "Closing Soon",
+};
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+// Translates the page URL into /api/projects parameters. "within" is kept
+// relative in the URL so shared links stay meaningful, and is resolved to a
+// deadline window here.
+function toApiParams(urlParams: URLSearchParams, offset: number): string {
+  const apiParams = new URLSearchParams(urlParams);
+  apiParams.delete("within");
+  apiParams.delete("page");
+
+  const within = Number(urlParams.get("within"));
+  if (within > 0) {
+    const now = new Date();
+    const end = new Date(now);
+    end.setDate(end.getDate() + within);
+    apiParams.set("deadlineFrom", toDateParam(now));
+    apiParams.set("deadlineTo", toDateParam(end));
+  }
+
+  apiParams.set("limit", String(PAGE_SIZE));
+  apiParams.set("offset", String(offset));
+  return apiParams.toString();
 }
 
 export default function Projects() {
   const { isAuthenticated } = useAuth();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [difficultyFilter, setDifficultyFilter] = useState<string>("all");
-  const [skillFilter, setSkillFilter] = useState<string>("all");
-  
-  const { data: projects, isLoading } = useQuery<ProjectWithCompany[]>({
-    queryKey: ["/api/projects"],
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const urlParams = new URLSearchParams(search);
+
+  const searchQuery = urlParams.get("q") ?? "";
+  const difficultyFilter = urlParams.get("difficulty") ?? "all";
+  const selectedSkills = urlParams.get("skills")?.split(",").filter(Boolean) ?? [];
+  const skillMatch = urlParams.get("skillMatch") === "all" ? "all" : "any";
+  const withinFilter = urlParams.get("within") ?? "any";
+  const companyFilter = urlParams.get("companyId");
+  const sort = (urlParams.get("sort") as ProjectSort | null) ?? "newest";
+  const page = Math.max(1, Number(urlParams.get("page")) || 1);
+
+  // Text inputs are edited locally and written to the URL once typing settles
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [minPaymentInput, setMinPaymentInput] = useState(urlParams.get("minPayment") ?? "");
+  const [maxPaymentInput, setMaxPaymentInput] = useState(urlParams.get("maxPayment") ?? "");
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    // Any change other than paging starts again from the first page
+    if (!("page" in updates)) {
+      next.delete("page");
+    }
+    const query = next.toString();
+    setLocation(query ? `/projects?${query}` : "/projects", { replace: true });
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (
+        searchInput !== searchQuery ||
+        minPaymentInput !== (urlParams.get("minPayment") ?? "") ||
+        maxPaymentInput !== (urlParams.get("maxPayment") ?? "")
+      ) {
+        updateParams({ q: searchInput.trim(), minPayment: minPaymentInput, maxPayment: maxPaymentInput });
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, minPaymentInput, maxPaymentInput]);
+
+  const { data, isLoading } = useQuery<ProjectSearchResponse>({
+    queryKey: [`/api/projects?${toApiParams(urlParams, (page - 1) * PAGE_SIZE)}`],
+    placeholderData: keepPreviousData,
   });
 
-  const filteredProjects = projects?.filter((project) => {
-    if (project.status !== "active") return false;
-    
-    const matchesSearch = 
-      project.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      project.description.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesDifficulty = 
-      difficultyFilter === "all" || project.difficulty === difficultyFilter;
-    
-    const matchesSkill = 
-      skillFilter === "all" || 
-      project.skills?.some(s => s.toLowerCase().includes(skillFilter.toLowerCase()));
-    
-    return matchesSearch && matchesDifficulty && matchesSkill;
-  }) || [];
+  const { data: allSkills } = useQuery<string[]>({
+    queryKey: ["/api/projects/skills"],
+  });
 
-  const allSkills = [...new Set(projects?.flatMap(p => p.skills || []) || [])];
+  const projects = data?.projects ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = FILTER_PARAMS.some((param) => urlParams.has(param));
+  const filteredCompany = companyFilter
+    ? projects.find((project) => project.companyId === companyFilter)?.company
+    : undefined;
+
+  const toggleSkill = (skill: string) => {
+    const next = selectedSkills.includes(skill)
+      ? selectedSkills.filter((s) => s !== skill)
+      : [...selectedSkills, skill];
+    updateParams({ skills: next.join(",") });
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setMinPaymentInput("");
+    setMaxPaymentInput("");
+    updateParams(Object.fromEntries(FILTER_PARAMS.map((param) => [param, null])));
+  };
 
   const getDifficultyColor = (difficulty: string | null) => {
     switch (difficulty) {
@@ -94,19 +194,19 @@ export default function Projects() {
       
       {/* Filters */}
       <section className="py-6 border-b">
-        <div className="max-w-7xl mx-auto px-4">
+        <div className="max-w-7xl mx-auto px-4 space-y-4">
           <div className="flex flex-col md:flex-row gap-4">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search projects..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-10"
                 data-testid="input-search"
               />
             </div>
-            <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+            <Select value={difficultyFilter} onValueChange={(value) => updateParams({ difficulty: value === "all" ? null : value })}>
               <SelectTrigger className="w-full md:w-[180px]" data-testid="select-difficulty">
                 <Filter className="mr-2 h-4 w-4" />
                 <SelectValue placeholder="Difficulty" />
@@ -118,19 +218,89 @@ export default function Projects() {
                 <SelectItem value="advanced">Advanced</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={skillFilter} onValueChange={setSkillFilter}>
-              <SelectTrigger className="w-full md:w-[180px]" data-testid="select-skill">
-                <Zap className="mr-2 h-4 w-4" />
-                <SelectValue placeholder="Skill" />
+            <Select value={withinFilter} onValueChange={(value) => updateParams({ within: value === "any" ? null : value })}>
+              <SelectTrigger className="w-full md:w-[180px]" data-testid="select-deadline">
+                <CalendarClock className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Deadline" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Deadline</SelectItem>
+                <SelectItem value="7">Closes in 7 days</SelectItem>
+                <SelectItem value="14">Closes in 14 days</SelectItem>
+                <SelectItem value="30">Closes in 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => updateParams({ sort: value === "newest" ? null : value })}>
+              <SelectTrigger className="w-full md:w-[180px]" data-testid="select-sort">
+                <ArrowUpDown className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Sort" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Skills</SelectItem>
-                {allSkills.map((skill) => (
-                  <SelectItem key={skill} value={skill}>{skill}</SelectItem>
+                {Object.entries(sortLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min pay"
+                value={minPaymentInput}
+                onChange={(e) => setMinPaymentInput(e.target.value)}
+                className="w-28"
+                data-testid="input-min-payment"
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max pay"
+                value={maxPaymentInput}
+                onChange={(e) => setMaxPaymentInput(e.target.value)}
+                className="w-28"
+                data-testid="input-max-payment"
+              />
+            </div>
+            {filteredCompany && (
+              <Badge variant="outline" className="gap-1 w-fit" data-testid="badge-company-filter">
+                <Building2 className="h-3 w-3" />
+                {filteredCompany.name}
+                <button onClick={() => updateParams({ companyId: null })} aria-label="Clear company filter">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+          {(allSkills?.length || 0) > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {allSkills?.map((skill) => (
+                <Badge
+                  key={skill}
+                  variant={selectedSkills.includes(skill) ? "default" : "secondary"}
+                  className="cursor-pointer"
+                  onClick={() => toggleSkill(skill)}
+                  data-testid={`badge-skill-filter-${skill}`}
+                >
+                  {skill}
+                </Badge>
+              ))}
+              {selectedSkills.length > 1 && (
+                <Select value={skillMatch} onValueChange={(value) => updateParams({ skillMatch: value === "any" ? null : value })}>
+                  <SelectTrigger className="w-[160px] h-8" data-testid="select-skill-match">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Match any skill</SelectItem>
+                    <SelectItem value="all">Match all skills</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
         </div>
       </section>
       
@@ -154,25 +324,21 @@ export default function Projects() {
                 </Card>
               ))}
             </div>
-          ) : filteredProjects.length === 0 ? (
+          ) : projects.length === 0 ? (
             <div className="text-center py-16">
               <div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
                 <Briefcase className="h-8 w-8 text-muted-foreground" />
               </div>
               <h3 className="text-xl font-semibold mb-2" data-testid="text-no-projects">No Projects Found</h3>
               <p className="text-muted-foreground mb-6">
-                {searchQuery || difficultyFilter !== "all" || skillFilter !== "all"
+                {hasFilters
                   ? "Try adjusting your filters to see more projects."
                   : "No active projects available right now. Check back soon!"}
               </p>
-              {(searchQuery || difficultyFilter !== "all" || skillFilter !== "all") && (
+              {hasFilters && (
                 <Button
                   variant="outline"
-                  onClick={() => {
-                    setSearchQuery("");
-                    setDifficultyFilter("all");
-                    setSkillFilter("all");
-                  }}
+                  onClick={clearFilters}
                   data-testid="button-clear-filters"
                 >
                   Clear Filters
@@ -182,10 +348,10 @@ export default function Projects() {
           ) : (
             <>
               <p className="text-muted-foreground mb-6" data-testid="text-project-count">
-                {filteredProjects.length} project{filteredProjects.length !== 1 ? "s" : ""} available
+                {total} project{total !== 1 ? "s" : ""} available
               </p>
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredProjects.map((project) => (
+                {projects.map((project) => (
                   <Card key={project.id} className="flex flex-col hover-elevate" data-testid={`card-project-${project.id}`}>
                     <CardHeader>
                       <div className="flex items-start justify-between gap-4">
@@ -193,7 +359,16 @@ export default function Projects() {
                           <CardTitle className="text-lg mb-1 truncate">{project.title}</CardTitle>
                           <div className="flex items-center gap-2 text-sm text-muted-foreground">
                             <Building2 className="h-4 w-4 flex-shrink-0" />
-                            <span className="truncate">{project.company?.name || "Company"}</span>
+                            <button
+                              className="truncate hover:text-foreground hover:underline"
+                              onClick={() => updateParams({ companyId: project.companyId })}
+                              data-testid={`button-company-filter-${project.id}`}
+                            >
+                              {project.company?.name || "Company"}
+                            </button>
+                          </div>
+                          <div className="mt-1">
+                            <CompanyTrustBadge trust={project.companyTrust} />
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0">
@@ -252,6 +427,31 @@ export default function Projects() {
                   </Card>
                 ))}
               </div>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-4 mt-8">
+                  <Button
+                    variant="outline"
+                    disabled={page <= 1}
+                    onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null })}
+                    data-testid="button-prev-page"
+                  >
+                    <ChevronLeft className="mr-2 h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground" data-testid="text-page">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    disabled={page >= pageCount}
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                    data-testid="button-next-page"
+                  >
+                    Next
+                    <ChevronRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -0,0 +1,217 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Label } from "@/components/ui/label";
+import type { PublicCandidateProfile } from "@shared/publicProfile";
+import {
+  Briefcase,
+  Building2,
+  CheckCircle,
+  DollarSign,
+  Link as LinkIcon,
+  ShieldCheck,
+  Star,
+} from "lucide-react";
+
+// A candidate's shareable profile at /u/:handle, open to anyone. Shows only
+// what the candidate chose to; the work history is verified because it comes
+// from submissions companies approved here.
+export default function PublicProfile() {
+  const { handle } = useParams<{ handle: string }>();
+
+  const { data: profile, isLoading } = useQuery<PublicCandidateProfile>({
+    queryKey: ["/api/profiles", handle],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="max-w-4xl mx-auto px-4 py-12">
+          <Skeleton className="h-48 w-full mb-8" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="max-w-4xl mx-auto px-4 py-12 text-center">
+          <h1 className="text-2xl font-bold mb-4">Profile Not Found</h1>
+          <p className="text-muted-foreground">There's no public profile at /u/{handle}.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const displayName = profile.name || `@${profile.handle}`;
+  const initials = (profile.name || profile.handle)
+    .split(/[\s-]+/)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
+        <Card data-testid="card-public-profile-header">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-6 items-start md:items-center">
+              <Avatar className="h-24 w-24">
+                <AvatarImage src={profile.profileImageUrl || undefined} alt={displayName} className="object-cover" />
+                <AvatarFallback className="text-2xl">{initials}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold" data-testid="text-public-name">{displayName}</h1>
+                {profile.name && <p className="text-muted-foreground">@{profile.handle}</p>}
+                <div className="flex flex-wrap gap-4 mt-3">
+                  {profile.workHistory && (
+                    <div className="flex items-center gap-2">
+                      <CheckCircle className="h-4 w-4 text-chart-2" />
+                      <span className="text-sm">{profile.workHistory.length} completed projects</span>
+                    </div>
+                  )}
+                  {profile.rating && (
+                    <div className="flex items-center gap-2" data-testid="text-public-rating">
+                      <Star className="h-4 w-4 text-chart-4" />
+                      <span className="text-sm">
+                        {profile.rating.average === null
+                          ? "No ratings yet"
+                          : `${profile.rating.average.toFixed(1)} average rating (${profile.rating.count})`}
+                      </span>
+                    </div>
+                  )}
+                  {profile.earningsBand && (
+                    <div className="flex items-center gap-2" data-testid="text-public-earnings">
+                      <DollarSign className="h-4 w-4 text-chart-2" />
+                      <span className="text-sm">{profile.earningsBand} earned</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {(profile.bio || profile.skills?.length || profile.experience || profile.portfolioUrl) && (
+          <Card data-testid="card-public-about">
+            <CardHeader>
+              <CardTitle>About</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {profile.bio && (
+                <div>
+                  <Label className="text-muted-foreground">Bio</Label>
+                  <p className="mt-1">{profile.bio}</p>
+                </div>
+              )}
+              {profile.skills && profile.skills.length > 0 && (
+                <div>
+                  <Label className="text-muted-foreground">Skills</Label>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {profile.skills.map((skill) => (
+                      <Badge key={skill} variant="secondary">{skill}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {profile.experience && (
+                <div>
+                  <Label className="text-muted-foreground">Experience</Label>
+                  <p className="mt-1 whitespace-pre-wrap">{profile.experience}</p>
+                </div>
+              )}
+              {profile.portfolioUrl && (
+                <div>
+                  <Label className="text-muted-foreground">Portfolio</Label>
+                  <a
+                    href={profile.portfolioUrl}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="flex items-center gap-2 mt-1 text-primary hover:underline"
+                  >
+                    <LinkIcon className="h-4 w-4" />
+                    {profile.portfolioUrl}
+                  </a>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {profile.workHistory && (
+          <Card data-testid="card-work-history">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Work History
+                <Badge variant="outline" className="gap-1">
+                  <ShieldCheck className="h-3 w-3" />
+                  Verified
+                </Badge>
+              </CardTitle>
+              <CardDescription>Projects companies approved on LayOffers.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {profile.workHistory.length === 0 ? (
+                <div className="text-center py-8">
+                  <Briefcase className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No completed projects yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {profile.workHistory.map((work, index) => (
+                    <div key={index} className="flex items-start gap-4 p-4 border rounded-lg" data-testid={`work-item-${index}`}>
+                      <div className="h-12 w-12 rounded-lg bg-chart-2/10 flex items-center justify-center flex-shrink-0">
+                        <CheckCircle className="h-6 w-6 text-chart-2" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-semibold">{work.projectTitle || "Project"}</h4>
+                        <p className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
+                          <Building2 className="h-3 w-3" />
+                          {work.companyName || "Company"}
+                        </p>
+                        {work.skills.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {work.skills.map((skill) => (
+                              <Badge key={skill} variant="secondary" className="text-xs">{skill}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {work.rating ? (
+                          <div className="flex items-center gap-1 mt-2">
+                            {[...Array(5)].map((_, i) => (
+                              <Star
+                                key={i}
+                                className={`h-4 w-4 ${i < work.rating! ? "fill-chart-4 text-chart-4" : "text-muted"}`}
+                              />
+                            ))}
+                          </div>
+                        ) : null}
+                      </div>
+                      {work.completedAt && (
+                        <p className="text-xs text-muted-foreground flex-shrink-0">
+                          {new Date(work.completedAt).toLocaleDateString()}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
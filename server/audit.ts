@@ -0,0 +1,94 @@
+import type { AuditLogEntryWithActor } from "@shared/schema";
+import type { AuditAction } from "@shared/audit";
+import { storage } from "./storage";
+import { csvField } from "./invoices";
+
+export interface AuditEvent {
+  action: AuditAction;
+  targetType: string;
+  targetId: string;
+  // The company the action was taken for. Defaults to the acting member's.
+  companyId?: string | null;
+  // The target before and after the action. Only the fields that changed
+  // are recorded; leave out before for something new.
+  before?: object | null;
+  after?: object | null;
+  reason?: string | null;
+  // Defaults to the acting member's role, or "admin" on admin routes
+  actorRole?: string;
+}
+
+// Fields that change on every update and would only add noise
+const ignoredFields = new Set(["updatedAt"]);
+
+// Round-trips through JSON so dates and decimals compare and store the way
+// the API shows them
+function toRecord(value: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function diffFields(
+  before: object | null | undefined,
+  after: object | null | undefined,
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const previous = before ? toRecord(before) : null;
+  const next = after ? toRecord(after) : null;
+  const keys = new Set([...Object.keys(previous ?? {}), ...Object.keys(next ?? {})]);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of Array.from(keys)) {
+    if (ignoredFields.has(key) || JSON.stringify(previous?.[key]) === JSON.stringify(next?.[key])) {
+      continue;
+    }
+    if (previous && key in previous) changedBefore[key] = previous[key];
+    if (next && key in next) changedAfter[key] = next[key];
+  }
+  return {
+    before: previous && Object.keys(changedBefore).length ? changedBefore : null,
+    after: next && Object.keys(changedAfter).length ? changedAfter : null,
+  };
+}
+
+// Appends who did what, from where, to the audit log. Called once the
+// action has happened, so like notifications a failure to record it is
+// logged rather than failing the action.
+export async function recordAudit(req: any, event: AuditEvent): Promise<void> {
+  try {
+    const { before, after } = diffFields(event.before, event.after);
+    await storage.appendAuditLog({
+      actorId: req.user?.claims?.sub ?? null,
+      actorRole: event.actorRole ?? req.membership?.member.role ?? req.dbUser?.role ?? "user",
+      companyId: event.companyId !== undefined ? event.companyId : (req.membership?.company.id ?? null),
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId,
+      before,
+      after,
+      reason: event.reason || null,
+      ip: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error(`Error recording ${event.action} on ${event.targetType} ${event.targetId} in the audit log:`, error);
+  }
+}
+
+export function renderAuditCsv(entries: AuditLogEntryWithActor[]): string {
+  const rows = [
+    ["Time", "Actor", "Actor email", "Actor role", "Action", "Target type", "Target", "Company", "Reason", "IP", "Before", "After"],
+    ...entries.map((entry) => [
+      entry.createdAt.toISOString(),
+      [entry.actor?.firstName, entry.actor?.lastName].filter(Boolean).join(" "),
+      entry.actor?.email ?? "",
+      entry.actorRole,
+      entry.action,
+      entry.targetType,
+      entry.targetId,
+      entry.companyId ?? "",
+      entry.reason ?? "",
+      entry.ip ?? "",
+      entry.before ? JSON.stringify(entry.before) : "",
+      entry.after ? JSON.stringify(entry.after) : "",
+    ]),
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,150 @@
+import passport from "passport";
+import session from "express-session";
+import type { IncomingMessage } from "http";
+import type { Express, Request, RequestHandler, Response } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type { User } from "@shared/schema";
+import { storage, storageDriver } from "../storage";
+import { createOidcProvider, oidcOptionsFromEnv, replitOptionsFromEnv } from "./oidc";
+import { createLocalProvider } from "./local";
+import type { AuthProvider, SessionUser } from "./types";
+
+export type { AuthProvider, SessionUser } from "./types";
+
+// Picks the provider from AUTH_PROVIDER (replit | oidc | local). Without it
+// we keep the historical Replit behaviour when REPL_ID is present, use a
+// generic OIDC issuer when one is configured and fall back to local
+// credentials outside production.
+function resolveProvider(): AuthProvider {
+  const configured = process.env.AUTH_PROVIDER;
+  const name =
+    configured ??
+    (process.env.REPL_ID ? "replit" : process.env.OIDC_ISSUER_URL ? "oidc" : "local");
+
+  switch (name) {
+    case "replit":
+      return createOidcProvider(replitOptionsFromEnv());
+    case "oidc":
+      return createOidcProvider(oidcOptionsFromEnv());
+    case "local":
+      return createLocalProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${name}"`);
+  }
+}
+
+let provider: AuthProvider | undefined;
+
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    provider = resolveProvider();
+  }
+  return provider;
+}
+
+// Sessions live next to the data: in Postgres normally, in process memory
+// when storage is too
+function createSessionStore(ttl: number): session.Store {
+  if (storageDriver === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000, ttl });
+  }
+  const pgStore = connectPg(session);
+  return new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl,
+    tableName: "sessions",
+  });
+}
+
+export function getSession(secureCookies = true) {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: createSessionStore(sessionTtl),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: secureCookies,
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+let sessionParser: RequestHandler | undefined;
+
+export async function setupAuth(app: Express) {
+  const authProvider = getAuthProvider();
+
+  app.set("trust proxy", 1);
+  sessionParser = getSession(authProvider.secureCookies);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await authProvider.setup(app);
+}
+
+// Why a session may no longer be used even though it hasn't expired: the
+// account was suspended, or an admin signed the user out after it started
+export function sessionEndedReason(account: User, user: SessionUser): string | undefined {
+  if (account.suspendedAt) {
+    return "Your account is suspended";
+  }
+  if (account.sessionsRevokedAt && (user.signed_in_at ?? 0) < account.sessionsRevokedAt.getTime()) {
+    return "Your session has ended, please log in again";
+  }
+  return undefined;
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    if (now > user.expires_at && !(await getAuthProvider().refresh(user, req))) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    // Checked on every request, so suspending an account or ending its
+    // sessions takes effect straight away
+    const account = await storage.getUser(user.claims.sub);
+    const ended = account && sessionEndedReason(account, user);
+    if (ended) {
+      return req.logout(() => res.status(401).json({ message: ended }));
+    }
+    return next();
+  } catch (error) {
+    console.error("Authentication error:", error);
+    res.status(500).json({ message: "Authentication error" });
+  }
+};
+
+// Reads the signed-in user from the session cookie of a request that never
+// reaches Express, such as a WebSocket upgrade. Unlike isAuthenticated it
+// can't refresh an expired session, so those count as signed out.
+export function getSessionUser(req: IncomingMessage): Promise<SessionUser | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionParser) {
+      return reject(new Error("setupAuth must run before sessions can be read"));
+    }
+    const request = req as Request;
+    sessionParser(request, {} as Response, (error?: unknown) => {
+      if (error) {
+        return reject(error);
+      }
+      const user = (request.session as { passport?: { user?: SessionUser } } | undefined)?.passport?.user;
+      resolve(user?.expires_at && Math.floor(Date.now() / 1000) <= user.expires_at ? user : undefined);
+    });
+  });
+}
@@ -0,0 +1,71 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer, type Server } from "http";
+import { registerRoutes } from "../routes";
+
+// Run with STORAGE_DRIVER=memory and AUTH_PROVIDER=local (see `npm test`)
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function login(body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/login`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function sessionCookie(res: Response): string {
+  const cookie = res.headers.get("set-cookie");
+  assert.ok(cookie, "expected a session cookie");
+  return cookie.split(";")[0];
+}
+
+describe("local auth provider", () => {
+  it("signs in with an email and password and keeps the session", async () => {
+    const res = await login({ email: "Candidate@Example.com", password: "pw" });
+    assert.equal(res.status, 200);
+
+    const me = await fetch(`${baseUrl}/api/auth/user`, { headers: { cookie: sessionCookie(res) } });
+    assert.equal(me.status, 200);
+    const user = await me.json();
+    assert.equal(user.email, "candidate@example.com");
+  });
+
+  it("signs in as the requested role", async () => {
+    const res = await login({ email: "company@example.com", password: "pw", role: "company" });
+    assert.equal(res.status, 200);
+
+    const me = await fetch(`${baseUrl}/api/auth/user`, { headers: { cookie: sessionCookie(res) } });
+    const user = await me.json();
+    assert.equal(user.role, "company");
+  });
+
+  it("rejects an empty password", async () => {
+    const res = await login({ email: "candidate@example.com", password: "" });
+    assert.equal(res.status, 400);
+    assert.deepEqual(await res.json(), { message: "Enter your email and password" });
+    assert.equal(res.headers.get("set-cookie"), null);
+  });
+
+  it("requires a password on the login form", async () => {
+    const page = await (await fetch(`${baseUrl}/api/login`)).text();
+    assert.match(page, /<input name="password" type="password" required>/);
+  });
+});
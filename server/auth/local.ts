@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { userRoleEnum, type User } from "@shared/schema";
+import { storage } from "../storage";
+import { sendWelcomeEmail } from "../notifications";
+import type { AuthProvider, SessionUser } from "./types";
+
+// Local sessions don't come with a token expiry, so give them the
+// lifetime of the session cookie
+const sessionTtlSeconds = 7 * 24 * 60 * 60;
+
+const loginPage = (error?: string) => `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>LayOffers - Local login</title></head>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 4rem auto;">
+    <h1>Local login</h1>
+    <p>Development sign-in. Any email creates or reuses an account.</p>
+    ${error ? `<p style="color: #b91c1c;">${error}</p>` : ""}
+    <form method="post" action="/api/login">
+      <p><label>Email<br><input name="email" type="email" required></label></p>
+      <p><label>Password<br><input name="password" type="password" required></label></p>
+      <p><label>Role<br>
+        <select name="role">
+          <option value="">Keep current</option>
+          ${userRoleEnum.enumValues.map((role) => `<option value="${role}">${role}</option>`).join("")}
+        </select>
+      </label></p>
+      <button type="submit">Log in</button>
+    </form>
+  </body>
+</html>`;
+
+// Stable user id for an email, so repeated logins hit the same account
+export function localUserId(email: string): string {
+  return `local-${createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24)}`;
+}
+
+// Credentials provider for development and automated tests. Accepts any
+// email and password; when LOCAL_AUTH_PASSWORD is set the password must
+// match it. The optional role field lets tests sign in as a company or
+// admin directly.
+export function createLocalProvider(): AuthProvider {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The local auth provider is for development and tests only");
+  }
+
+  const requiredPassword = process.env.LOCAL_AUTH_PASSWORD;
+
+  return {
+    name: "local",
+    secureCookies: false,
+
+    async setup(app: Express) {
+      passport.use(
+        "local",
+        new LocalStrategy(
+          { usernameField: "email", passReqToCallback: true },
+          async (req, email, password, done) => {
+            try {
+              if (requiredPassword && password !== requiredPassword) {
+                return done(null, false, { message: "Invalid credentials" });
+              }
+
+              const requestedRole = req.body?.role;
+              const role = (userRoleEnum.enumValues as readonly string[]).includes(requestedRole)
+                ? (requestedRole as User["role"])
+                : undefined;
+
+              const id = localUserId(email);
+              const existing = await storage.getUser(id);
+              if (existing?.suspendedAt) {
+                return done(null, false, { message: "This account is suspended" });
+              }
+              const isNew = !existing;
+              const dbUser = await storage.upsertUser({
+                id,
+                email: email.toLowerCase(),
+                firstName: req.body?.firstName,
+                lastName: req.body?.lastName,
+                role,
+              });
+              if (isNew) {
+                await sendWelcomeEmail(dbUser);
+              }
+
+              const user: SessionUser = {
+                claims: { sub: id, email: email.toLowerCase() },
+                expires_at: Math.floor(Date.now() / 1000) + sessionTtlSeconds,
+                signed_in_at: Date.now(),
+              };
+              done(null, user);
+            } catch (error) {
+              done(error);
+            }
+          },
+        ),
+      );
+
+      app.get("/api/login", (_req, res) => {
+        res.type("html").send(loginPage());
+      });
+
+      // HTML forms get redirected, JSON clients (tests) get the user back
+      app.post("/api/login", (req, res, next) => {
+        // The form requires both fields, but JSON clients can still leave
+        // one out
+        if (!req.body?.email || !req.body?.password) {
+          const message = "Enter your email and password";
+          return req.is("json")
+            ? res.status(400).json({ message })
+            : res.status(400).type("html").send(loginPage(message));
+        }
+        passport.authenticate("local", (error: unknown, user: SessionUser | false, info?: { message?: string }) => {
+          if (error) return next(error);
+          if (!user) {
+            const message = info?.message || "Invalid credentials";
+            return req.is("json")
+              ? res.status(401).json({ message })
+              : res.status(401).type("html").send(loginPage(message));
+          }
+          req.logIn(user, (loginError) => {
+            if (loginError) return next(loginError);
+            if (req.is("json")) {
+              return res.json({ id: user.claims.sub });
+            }
+            res.redirect("/");
+          });
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          res.redirect("/");
+        });
+      });
+    },
+
+    async refresh() {
+      return false;
+    },
+  };
+}
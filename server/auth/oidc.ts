@@ -0,0 +1,232 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+
+import passport from "passport";
+import type { Express, Request } from "express";
+import memoize from "memoizee";
+import { storage } from "../storage";
+import { sendWelcomeEmail } from "../notifications";
+import { isStoredImageUrl } from "../images";
+import type { AuthProvider, SessionUser } from "./types";
+
+// Maps user columns that the provider fills in onto the ID token claim
+// that carries them
+export interface ClaimMapping {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  profileImageUrl: string;
+}
+
+export interface OidcProviderOptions {
+  name: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  // Fixed callback URL; when unset it is derived from the request host
+  callbackUrl?: string;
+  claims: ClaimMapping;
+}
+
+const defaultScopes = ["openid", "email", "profile", "offline_access"];
+
+const standardClaims: ClaimMapping = {
+  id: "sub",
+  email: "email",
+  firstName: "given_name",
+  lastName: "family_name",
+  profileImageUrl: "picture",
+};
+
+const replitClaims: ClaimMapping = {
+  id: "sub",
+  email: "email",
+  firstName: "first_name",
+  lastName: "last_name",
+  profileImageUrl: "profile_image_url",
+};
+
+// Parses OIDC_CLAIM_MAP, e.g. "firstName=given_name,profileImageUrl=avatar"
+function parseClaimMapping(value: string | undefined, defaults: ClaimMapping): ClaimMapping {
+  const mapping = { ...defaults };
+  if (!value) return mapping;
+
+  for (const pair of value.split(",")) {
+    const [field, claim] = pair.split("=").map((part) => part.trim());
+    if (!field || !claim) continue;
+    if (!(field in mapping)) {
+      throw new Error(`Unknown field "${field}" in OIDC_CLAIM_MAP`);
+    }
+    mapping[field as keyof ClaimMapping] = claim;
+  }
+  return mapping;
+}
+
+function parseScopes(value: string | undefined): string[] {
+  return value ? value.split(/[\s,]+/).filter(Boolean) : defaultScopes;
+}
+
+export function replitOptionsFromEnv(): OidcProviderOptions {
+  if (!process.env.REPL_ID) {
+    throw new Error("REPL_ID must be set to use the replit auth provider");
+  }
+  return {
+    name: "replitauth",
+    issuerUrl: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+    clientId: process.env.REPL_ID,
+    scopes: defaultScopes,
+    claims: replitClaims,
+  };
+}
+
+export function oidcOptionsFromEnv(): OidcProviderOptions {
+  const issuerUrl = process.env.OIDC_ISSUER_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuerUrl || !clientId) {
+    throw new Error("OIDC_ISSUER_URL and OIDC_CLIENT_ID must be set to use the oidc auth provider");
+  }
+  return {
+    name: "oidc",
+    issuerUrl,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scopes: parseScopes(process.env.OIDC_SCOPES),
+    callbackUrl: process.env.OIDC_CALLBACK_URL,
+    claims: parseClaimMapping(process.env.OIDC_CLAIM_MAP, standardClaims),
+  };
+}
+
+export function createOidcProvider(options: OidcProviderOptions): AuthProvider {
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(
+        new URL(options.issuerUrl),
+        options.clientId,
+        options.clientSecret,
+      );
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  const claim = (claims: Record<string, unknown>, field: keyof ClaimMapping) =>
+    claims[options.claims[field]] as string | undefined;
+
+  function updateUserSession(
+    user: SessionUser,
+    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+  ) {
+    const claims: Record<string, unknown> = tokens.claims() ?? {};
+    // Routes identify the user through claims.sub, so normalise the
+    // mapped id claim onto it
+    user.claims = { ...claims, sub: claim(claims, "id") ?? String(claims.sub) };
+    user.access_token = tokens.access_token;
+    user.refresh_token = tokens.refresh_token;
+    user.expires_at = Number(claims.exp);
+  }
+
+  async function upsertUser(claims: Record<string, unknown>) {
+    const id = claim(claims, "id");
+    const existing = id ? await storage.getUser(id) : undefined;
+    const user = await storage.upsertUser({
+      id,
+      email: claim(claims, "email"),
+      firstName: claim(claims, "firstName"),
+      lastName: claim(claims, "lastName"),
+      // A picture uploaded here wins over the one from the provider
+      profileImageUrl: isStoredImageUrl(existing?.profileImageUrl) ? undefined : claim(claims, "profileImageUrl"),
+    });
+    if (!existing) {
+      await sendWelcomeEmail(user);
+    }
+  }
+
+  const callbackUrlFor = (req: Request) =>
+    options.callbackUrl ?? `${req.protocol}://${req.get("host") ?? req.hostname}/api/callback`;
+
+  return {
+    name: options.name,
+    secureCookies: true,
+
+    async setup(app: Express) {
+      const config = await getOidcConfig();
+
+      const verify: VerifyFunction = async (
+        tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+        verified: passport.AuthenticateCallback
+      ) => {
+        const user = { signed_in_at: Date.now() } as SessionUser;
+        updateUserSession(user, tokens);
+        await upsertUser(user.claims);
+        verified(null, user);
+      };
+
+      const registeredStrategies = new Set<string>();
+
+      // One strategy per callback URL, so the app can be reached
+      // through several hostnames
+      const ensureStrategy = (req: Request) => {
+        const callbackURL = callbackUrlFor(req);
+        const strategyName = `${options.name}:${callbackURL}`;
+        if (!registeredStrategies.has(strategyName)) {
+          const strategy = new Strategy(
+            {
+              name: strategyName,
+              config,
+              scope: options.scopes.join(" "),
+              callbackURL,
+            },
+            verify,
+          );
+          passport.use(strategy);
+          registeredStrategies.add(strategyName);
+        }
+        return strategyName;
+      };
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(ensureStrategy(req), {
+          prompt: "login consent",
+          scope: options.scopes,
+        })(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(ensureStrategy(req), {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          const postLogoutRedirect = `${req.protocol}://${req.get("host") ?? req.hostname}`;
+          if (!config.serverMetadata().end_session_endpoint) {
+            return res.redirect(postLogoutRedirect);
+          }
+          res.redirect(
+            client.buildEndSessionUrl(config, {
+              client_id: options.clientId,
+              post_logout_redirect_uri: postLogoutRedirect,
+            }).href
+          );
+        });
+      });
+    },
+
+    async refresh(user: SessionUser) {
+      if (!user.refresh_token) {
+        return false;
+      }
+      try {
+        const config = await getOidcConfig();
+        const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+        updateUserSession(user, tokenResponse);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    },
+  };
+}
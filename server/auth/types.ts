@@ -0,0 +1,28 @@
+import type { Express, Request } from "express";
+
+// Shape of the user object kept in the session. Routes read `claims.sub`
+// as the user id, so every provider must populate it.
+export interface SessionUser {
+  claims: {
+    sub: string;
+    [claim: string]: unknown;
+  };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at: number;
+  // When the user signed in, in milliseconds. Admins can end every session
+  // started before a given time.
+  signed_in_at?: number;
+}
+
+export interface AuthProvider {
+  name: string;
+  // Whether the session cookie must only be sent over https
+  secureCookies: boolean;
+  // Registers the provider's passport strategy and its
+  // /api/login, /api/callback and /api/logout routes
+  setup(app: Express): Promise<void>;
+  // Called by isAuthenticated once expires_at has passed. Returns false
+  // when the session can't be renewed and the user must log in again.
+  refresh(user: SessionUser, req: Request): Promise<boolean>;
+}
@@ -0,0 +1,56 @@
+import type { Project, Submission } from "@shared/schema";
+
+export type SubmissionClosedReason = "not_active" | "deadline_passed" | "full" | "already_submitted";
+
+const closedMessages: Record<SubmissionClosedReason, string> = {
+  not_active: "Project not available for submissions",
+  deadline_passed: "The deadline for this project has passed",
+  full: "This project has no submission slots left",
+  already_submitted: "You have already submitted to this project",
+};
+
+// Thrown when a submission is refused because the project stopped taking them
+export class SubmissionClosedError extends Error {
+  constructor(public reason: SubmissionClosedReason) {
+    super(closedMessages[reason]);
+    this.name = "SubmissionClosedError";
+  }
+}
+
+export interface ProjectAvailability {
+  acceptingSubmissions: boolean;
+  closedReason: Exclude<SubmissionClosedReason, "already_submitted"> | null;
+  maxSubmissions: number | null;
+  slotsTaken: number;
+  // null when the project has no submission limit
+  slotsLeft: number | null;
+  closesAt: Date | null;
+}
+
+// A rejected submission gives its slot back, everything else holds one
+export function takesSlot(submission: Pick<Submission, "status">): boolean {
+  return submission.status !== "rejected";
+}
+
+export function getProjectAvailability(project: Project, slotsTaken: number, now = new Date()): ProjectAvailability {
+  const maxSubmissions = project.maxSubmissions ?? null;
+  const slotsLeft = maxSubmissions === null ? null : Math.max(maxSubmissions - slotsTaken, 0);
+
+  let closedReason: ProjectAvailability["closedReason"] = null;
+  if (project.status !== "active") {
+    closedReason = "not_active";
+  } else if (project.deadline && project.deadline.getTime() <= now.getTime()) {
+    closedReason = "deadline_passed";
+  } else if (slotsLeft === 0) {
+    closedReason = "full";
+  }
+
+  return {
+    acceptingSubmissions: closedReason === null,
+    closedReason,
+    maxSubmissions,
+    slotsTaken,
+    slotsLeft,
+    closesAt: project.deadline ?? null,
+  };
+}
@@ -0,0 +1,38 @@
+import { createHash, randomBytes } from "crypto";
+import type { Company, CompanyMember } from "@shared/schema";
+import { hasCompanyPermission, type CompanyPermission } from "@shared/companyRoles";
+import { storage } from "./storage";
+
+// How long an invitation link works for
+export const invitationLifetimeMs = 7 * 24 * 60 * 60 * 1000;
+
+export interface Membership {
+  company: Company;
+  member: CompanyMember;
+}
+
+// The company the user is on the team of, and their role in it
+export async function getMembership(userId: string): Promise<Membership | undefined> {
+  const member = await storage.getCompanyMemberByUser(userId);
+  const company = member ? await storage.getCompany(member.companyId) : undefined;
+  return member && company ? { company, member } : undefined;
+}
+
+// The team members whose role has the permission, or the whole team
+export async function getCompanyMemberIds(companyId: string, permission?: CompanyPermission): Promise<string[]> {
+  const members = await storage.getCompanyMembers(companyId);
+  return members
+    .filter((member) => !permission || hasCompanyPermission(member.role, permission))
+    .map((member) => member.userId);
+}
+
+// The token goes in the emailed link; only its hash is stored, so the
+// table alone can't be used to accept an invitation
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -5,7 +5,9 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// With STORAGE_DRIVER=memory nothing queries the pool, so the app can run
+// without a database
+if (!process.env.DATABASE_URL && process.env.STORAGE_DRIVER !== "memory") {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import path from "path";
+import { LocalDiskStorage } from "./local";
+import type { FileStorageDriver } from "./types";
+import type { UploadedFile } from "./upload";
+
+export { StoredFileNotFoundError, type FileStorageDriver } from "./types";
+export { LocalDiskStorage } from "./local";
+export { acceptFiles, type UploadedFile } from "./upload";
+
+// Picks the driver from FILE_STORAGE_DRIVER. Local disk is the only one so
+// far, rooted at UPLOAD_DIR.
+function resolveDriver(): FileStorageDriver {
+  const name = process.env.FILE_STORAGE_DRIVER ?? "local";
+
+  switch (name) {
+    case "local":
+      return new LocalDiskStorage(process.env.UPLOAD_DIR || "uploads");
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER "${name}"`);
+  }
+}
+
+let driver: FileStorageDriver | undefined;
+
+export function getFileStorage(): FileStorageDriver {
+  if (!driver) {
+    driver = resolveDriver();
+  }
+  return driver;
+}
+
+export interface StoredUpload {
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+}
+
+// Copies uploads into file storage under `prefix`. If one fails, the ones
+// already copied are removed again.
+export async function storeUploads(prefix: string, files: UploadedFile[]): Promise<StoredUpload[]> {
+  const storage = getFileStorage();
+  const stored: StoredUpload[] = [];
+  try {
+    for (const file of files) {
+      const storageKey = `${prefix}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+      await storage.put(storageKey, createReadStream(file.path));
+      stored.push({ fileName: file.originalname, contentType: file.mimetype, size: file.size, storageKey });
+    }
+  } catch (error) {
+    await removeStored(stored.map((upload) => upload.storageKey));
+    throw error;
+  }
+  return stored;
+}
+
+// Best effort: a file that can't be removed is logged and left behind
+export async function removeStored(keys: string[]): Promise<void> {
+  const storage = getFileStorage();
+  for (const key of keys) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Error removing stored file ${key}:`, error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rm, stat } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { StoredFileNotFoundError, type FileStorageDriver } from "./types";
+
+// Keeps files in a directory on the server's disk. Fine for a single
+// instance; several instances need a shared driver.
+export class LocalDiskStorage implements FileStorageDriver {
+  name = "local";
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`File key ${key} is outside the storage directory`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, source: Readable): Promise<void> {
+    const target = this.pathFor(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await pipeline(source, createWriteStream(target));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.pathFor(key);
+    try {
+      await stat(target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new StoredFileNotFoundError(key);
+      }
+      throw error;
+    }
+    return createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
@@ -0,0 +1,19 @@
+import type { Readable } from "stream";
+
+// Thrown by get() when nothing is stored under the key
+export class StoredFileNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`No file stored under ${key}`);
+    this.name = "StoredFileNotFoundError";
+  }
+}
+
+// Where uploaded bytes live. Keys are slash separated paths chosen by the
+// app, never by the uploader.
+export interface FileStorageDriver {
+  name: string;
+  put(key: string, source: Readable): Promise<void>;
+  get(key: string): Promise<Readable>;
+  // Succeeds when the key doesn't exist
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import type { RequestHandler } from "express";
+import multer from "multer";
+import { formatFileSize, isAllowedFile, type UploadRules } from "@shared/uploads";
+
+export type UploadedFile = Express.Multer.File;
+
+class UnsupportedFileError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} isn't a supported file type`);
+    this.name = "UnsupportedFileError";
+  }
+}
+
+function limitMessage(error: multer.MulterError, rules: UploadRules): string {
+  switch (error.code) {
+    case "LIMIT_FILE_SIZE":
+      return `Files can be at most ${formatFileSize(rules.maxFileSize)}`;
+    case "LIMIT_FILE_COUNT":
+    case "LIMIT_UNEXPECTED_FILE":
+      return `Attach at most ${rules.maxFiles} files`;
+    default:
+      return error.message;
+  }
+}
+
+// Parses multipart uploads in `field` into temporary files on req.files,
+// refusing ones that break the rules with a 400. JSON requests pass
+// straight through. The temporary files are removed once the response
+// is sent, so handlers copy what they keep into file storage.
+export function acceptFiles(field: string, rules: UploadRules): RequestHandler {
+  const upload = multer({
+    dest: tmpdir(),
+    defParamCharset: "utf8",
+    limits: { fileSize: rules.maxFileSize, files: rules.maxFiles },
+    fileFilter: (_req, file, cb) => {
+      if (isAllowedFile(rules, file.originalname, file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new UnsupportedFileError(file.originalname));
+      }
+    },
+  }).array(field, rules.maxFiles);
+
+  return (req, res, next) => {
+    res.on("close", () => {
+      const files = (req.files as UploadedFile[] | undefined) ?? [];
+      for (const file of files) {
+        rm(file.path, { force: true }).catch((error) => console.error(`Error removing upload ${file.path}:`, error));
+      }
+    });
+
+    upload(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: limitMessage(error, rules) });
+      }
+      if (error instanceof UnsupportedFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+}
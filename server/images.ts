@@ -0,0 +1,109 @@
+import { Readable } from "stream";
+import sharp from "sharp";
+import { randomUUID } from "crypto";
+import { getFileStorage } from "./files";
+
+export type ImageKind = "avatars" | "logos";
+
+interface ImageFormat {
+  // Square sizes in pixels, largest first. The largest is the one linked
+  // from the profile; the others share its URL apart from the size.
+  sizes: number[];
+  // Avatars are cropped to fill the square; logos are fitted inside it on a
+  // transparent background so wordmarks aren't cut off
+  fit: "cover" | "contain";
+}
+
+export const imageFormats: Record<ImageKind, ImageFormat> = {
+  avatars: { sizes: [256, 64], fit: "cover" },
+  logos: { sizes: [256, 64], fit: "contain" },
+};
+
+// Thrown when an upload can't be decoded as an image
+export class InvalidImageError extends Error {
+  constructor() {
+    super("That file isn't an image we can read");
+    this.name = "InvalidImageError";
+  }
+}
+
+const imageUrlPattern = /^\/api\/images\/(avatars|logos)\/([0-9a-f-]{36})\/(\d+)\.webp$/;
+
+export function imageKey(kind: ImageKind, id: string, size: number): string {
+  return `images/${kind}/${id}/${size}.webp`;
+}
+
+export function imageUrl(kind: ImageKind, id: string, size: number): string {
+  return `/api/images/${kind}/${id}/${size}.webp`;
+}
+
+// Images we stored ourselves, as opposed to one from an OIDC claim
+export function isStoredImageUrl(url: string | null | undefined): boolean {
+  return !!url && imageUrlPattern.test(url);
+}
+
+// Resizes an uploaded image to every size of its kind as WebP and stores
+// them. Each upload gets a new id, so the URLs can be cached forever.
+// Returns the URL of the largest size.
+export async function storeImage(kind: ImageKind, sourcePath: string): Promise<string> {
+  const format = imageFormats[kind];
+  const id = randomUUID();
+
+  // Decoding is capped at 40 megapixels so a tiny file can't expand into
+  // gigabytes of memory
+  const source = sharp(sourcePath, { limitInputPixels: 40_000_000 });
+  let resized: Buffer[];
+  try {
+    resized = await Promise.all(
+      format.sizes.map((size) =>
+        source
+          .clone()
+          .rotate()
+          .resize(size, size, { fit: format.fit, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+          .webp({ quality: 85 })
+          .toBuffer(),
+      ),
+    );
+  } catch {
+    throw new InvalidImageError();
+  }
+
+  const storage = getFileStorage();
+  try {
+    for (let i = 0; i < format.sizes.length; i++) {
+      await storage.put(imageKey(kind, id, format.sizes[i]), Readable.from(resized[i]));
+    }
+  } catch (error) {
+    await removeImage(imageUrl(kind, id, format.sizes[0]));
+    throw error;
+  }
+
+  return imageUrl(kind, id, format.sizes[0]);
+}
+
+// Deletes every size of an image we stored. Other URLs are left alone, and
+// failures are only logged since a leftover image does no harm.
+export async function removeImage(url: string | null | undefined): Promise<void> {
+  const match = url?.match(imageUrlPattern);
+  if (!match) {
+    return;
+  }
+  const [, kind, id] = match as unknown as [string, ImageKind, string];
+  for (const size of imageFormats[kind].sizes) {
+    try {
+      await getFileStorage().delete(imageKey(kind, id, size));
+    } catch (error) {
+      console.error(`Error removing image ${url}:`, error);
+    }
+  }
+}
+
+// Parses the path of an image URL, undefined when it isn't one we serve
+export function parseImagePath(kind: string, id: string, file: string): string | undefined {
+  const url = `/api/images/${kind}/${id}/${file}`;
+  const match = url.match(imageUrlPattern);
+  if (!match || !imageFormats[kind as ImageKind].sizes.includes(Number(match[3]))) {
+    return undefined;
+  }
+  return imageKey(kind as ImageKind, id, Number(match[3]));
+}
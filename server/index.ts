@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { jobRunner } from "./jobs";
+import { storage } from "./storage";
+import { attachRealtime, closeRealtime } from "./realtime";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -61,6 +64,13 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  attachRealtime(httpServer);
+
+  // Companies created before teams existed get their creator as owner
+  const owners = await storage.addMissingCompanyOwners();
+  if (owners > 0) {
+    log(`added ${owners} company owner(s) to their teams`);
+  }
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -95,4 +105,17 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  await jobRunner.start();
+
+  // Stop taking requests and let the running job finish before exiting
+  const shutdown = async (signal: string) => {
+    log(`${signal} received, shutting down`);
+    closeRealtime();
+    httpServer.close();
+    await jobRunner.stop();
+    process.exit(0);
+  };
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  process.once("SIGINT", () => void shutdown("SIGINT"));
 })();
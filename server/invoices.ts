@@ -0,0 +1,189 @@
+import PDFDocument from "pdfkit";
+import type { Company, Invoice, Payment } from "@shared/schema";
+import { storage } from "./storage";
+import { fromCents, toCents } from "./ledger";
+
+export interface BillingLine {
+  date: Date;
+  reference: string;
+  projectTitle: string;
+  candidateName: string;
+  amount: string;
+}
+
+// An invoice or a monthly statement, ready to be rendered
+export interface BillingDocument {
+  title: string;
+  number: string;
+  issuedAt: Date;
+  company: Company;
+  lines: BillingLine[];
+  total: string;
+}
+
+export const statementMonthPattern = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function formatInvoiceNumber(invoice: Invoice): string {
+  return `INV-${String(invoice.number).padStart(6, "0")}`;
+}
+
+// Billing is done in UTC so a payment lands in the same month for everyone
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function paymentMonth(payment: Payment): string {
+  return (payment.createdAt ?? new Date()).toISOString().slice(0, 7);
+}
+
+// Payments approved before invoicing existed get their invoice the first
+// time the company looks at its billing
+export async function ensureInvoices(companyId: string): Promise<Invoice[]> {
+  const existing = await storage.getInvoicesByCompany(companyId);
+  const invoiced = new Set(existing.map((invoice) => invoice.paymentId));
+  const payments = (await storage.getPaymentsByCompany(companyId)).filter((payment) => !invoiced.has(payment.id));
+  if (payments.length === 0) {
+    return existing;
+  }
+  // Oldest first so backfilled numbers follow the order of the payments
+  for (const payment of payments.reverse()) {
+    await storage.createInvoice(payment);
+  }
+  return storage.getInvoicesByCompany(companyId);
+}
+
+export async function describeInvoice(invoice: Invoice): Promise<BillingLine> {
+  const payment = await storage.getPayment(invoice.paymentId);
+  if (!payment) {
+    throw new Error(`Payment ${invoice.paymentId} not found`);
+  }
+  const submission = await storage.getSubmission(payment.submissionId);
+  const project = submission ? await storage.getProject(submission.projectId) : undefined;
+  const candidate = await storage.getUser(payment.candidateId);
+  const candidateName = [candidate?.firstName, candidate?.lastName].filter(Boolean).join(" ") || candidate?.email || "Candidate";
+
+  return {
+    date: payment.createdAt ?? invoice.createdAt ?? new Date(),
+    reference: formatInvoiceNumber(invoice),
+    projectTitle: project?.title ?? "Project",
+    candidateName,
+    amount: payment.amount,
+  };
+}
+
+function sumLines(lines: BillingLine[]): string {
+  return fromCents(lines.reduce((total, line) => total + toCents(line.amount), 0));
+}
+
+export async function buildInvoiceDocument(invoice: Invoice, company: Company): Promise<BillingDocument> {
+  const line = await describeInvoice(invoice);
+  return {
+    title: "Invoice",
+    number: formatInvoiceNumber(invoice),
+    issuedAt: invoice.createdAt ?? line.date,
+    company,
+    lines: [line],
+    total: line.amount,
+  };
+}
+
+// Months (YYYY-MM, newest first) in which the company has payments
+export async function getStatementMonths(companyId: string): Promise<string[]> {
+  const payments = await storage.getPaymentsByCompany(companyId);
+  return Array.from(new Set(payments.map(paymentMonth))).sort().reverse();
+}
+
+export async function buildStatementDocument(company: Company, month: string): Promise<BillingDocument> {
+  const invoices = await ensureInvoices(company.id);
+  const lines = (await Promise.all(invoices.map(describeInvoice)))
+    .filter((line) => formatDate(line.date).startsWith(month))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return {
+    title: `Statement for ${month}`,
+    number: `STM-${month}`,
+    issuedAt: new Date(),
+    company,
+    lines,
+    total: sumLines(lines),
+  };
+}
+
+// Quotes fields that need it and defuses values a spreadsheet would run as
+// a formula, since project titles and names are user supplied
+export function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderBillingCsv(document: BillingDocument): string {
+  const rows = [
+    ["Date", "Reference", "Project", "Candidate", "Amount"],
+    ...document.lines.map((line) => [
+      formatDate(line.date),
+      line.reference,
+      line.projectTitle,
+      line.candidateName,
+      line.amount,
+    ]),
+    ["", "", "", "Total", document.total],
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function renderBillingPdf(document: BillingDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    pdf.fontSize(20).font("Helvetica-Bold").text("LayOffers");
+    pdf.moveDown(0.5);
+    pdf.fontSize(14).text(`${document.title} ${document.number}`);
+    pdf.fontSize(10).font("Helvetica").text(`Issued ${formatDate(document.issuedAt)}`);
+    pdf.moveDown();
+    pdf.font("Helvetica-Bold").text("Billed to");
+    pdf.font("Helvetica").text(document.company.name);
+    if (document.company.website) {
+      pdf.text(document.company.website);
+    }
+    pdf.moveDown();
+
+    const columns = [
+      { label: "Date", x: 50, width: 70 },
+      { label: "Reference", x: 120, width: 80 },
+      { label: "Project", x: 200, width: 150 },
+      { label: "Candidate", x: 350, width: 120 },
+      { label: "Amount", x: 470, width: 75, align: "right" as const },
+    ];
+    const row = (values: string[], bold = false) => {
+      const y = pdf.y;
+      pdf.font(bold ? "Helvetica-Bold" : "Helvetica");
+      let bottom = y;
+      values.forEach((value, i) => {
+        const { x, width, align } = columns[i];
+        pdf.text(value, x, y, { width, align });
+        bottom = Math.max(bottom, pdf.y);
+      });
+      pdf.x = 50;
+      pdf.y = bottom + 4;
+    };
+
+    row(columns.map((column) => column.label), true);
+    for (const line of document.lines) {
+      row([formatDate(line.date), line.reference, line.projectTitle, line.candidateName, `$${line.amount}`]);
+    }
+    if (document.lines.length === 0) {
+      pdf.text("No payments in this period.");
+    }
+    pdf.moveDown();
+    row(["", "", "", "Total", `$${document.total}`], true);
+
+    pdf.moveDown(2);
+    pdf.fontSize(8).font("Helvetica").fillColor("gray")
+      .text("Paid from project escrow on approval of each submission.", 50);
+    pdf.end();
+  });
+}
@@ -0,0 +1,51 @@
+import { storage } from "../storage";
+import { handlePaymentEvent, sendPayout } from "../payments/flows";
+import type { PaymentEvent } from "../payments";
+import { completeExpiredProjects, completeProjectIfDone, refundEndedProjectEscrow } from "../projectCompletion";
+import { sendMail, type MailMessage } from "../mail";
+import { JobRunner } from "./runner";
+
+export { enqueueJob, type JobOptions } from "./queue";
+export { retryDelay } from "./runner";
+
+// Handlers must be idempotent, since any job can run more than once. See
+// JobHandler.
+export const jobRunner = new JobRunner({ pollInterval: 1000, staleAfter: 15 * 60 * 1000, timeout: 5 * 60 * 1000 });
+
+// Projects whose deadline has passed
+jobRunner
+  .register("projects.completeExpired", async () => {
+    await completeExpiredProjects();
+  })
+  .schedule("projects.completeExpired", "*/5 * * * *");
+
+// A project with a submission just reviewed. A live one may now be done;
+// one that already ended may no longer need the escrow it held back.
+jobRunner.register("projects.completeIfDone", async (payload) => {
+  const project = await storage.getProject(payload.projectId as string);
+  if (project?.status === "completed" || project?.status === "cancelled") {
+    await refundEndedProjectEscrow(project);
+  } else if (project) {
+    await completeProjectIfDone(project);
+  }
+});
+
+// Transfers an approved payout. Retrying is safe since the transfer is
+// keyed by the payout, so the processor sends it at most once.
+jobRunner.register("payouts.send", async (payload) => {
+  const payout = await storage.getPayout(payload.payoutId as string);
+  if (payout?.status === "processing") {
+    await sendPayout(payout);
+  }
+});
+
+// A verified processor webhook. Handling them here retries the ones that
+// fail instead of relying on the processor to redeliver.
+jobRunner.register("payments.handleEvent", async (payload) => {
+  await handlePaymentEvent(payload.event as PaymentEvent);
+});
+
+// An email rendered when it was queued, so a retry sends the same message
+jobRunner.register("mail.send", async (payload) => {
+  await sendMail(payload.message as MailMessage);
+});
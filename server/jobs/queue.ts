@@ -0,0 +1,22 @@
+import type { Job } from "@shared/schema";
+import { storage } from "../storage";
+
+export interface JobOptions {
+  // Defaults to now
+  runAt?: Date;
+  // Enqueuing the same key again returns the job already queued for it
+  uniqueKey?: string;
+  maxAttempts?: number;
+}
+
+// Queues work for the job runner. Kept apart from the runner so any module
+// can enqueue without importing every job handler.
+export function enqueueJob(name: string, payload: Record<string, unknown> = {}, options: JobOptions = {}): Promise<Job> {
+  return storage.enqueueJob({
+    name,
+    payload,
+    runAt: options.runAt,
+    uniqueKey: options.uniqueKey,
+    maxAttempts: options.maxAttempts,
+  });
+}
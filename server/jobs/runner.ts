@@ -0,0 +1,209 @@
+import type { Job } from "@shared/schema";
+import { storage } from "../storage";
+import { nextCronTime, parseCron, type CronExpression } from "./cron";
+import { enqueueJob } from "./queue";
+
+// Every handler must be idempotent. A job is retried after any failure,
+// including one that happened after its work was done, and a handler that
+// ignores `signal` can still be running when its job is requeued by the
+// stale sweep. `signal` is aborted when the attempt times out.
+export type JobHandler = (payload: Record<string, unknown>, job: Job, signal: AbortSignal) => Promise<void>;
+
+interface Schedule {
+  jobName: string;
+  cron: CronExpression;
+  payload: Record<string, unknown>;
+  nextRunAt: Date;
+}
+
+export interface JobRunnerOptions {
+  // How often the queue is checked when it is empty
+  pollInterval: number;
+  // Jobs still running this long after they were claimed are assumed to
+  // belong to a crashed process and are queued again. Swept on start and
+  // then every minute, so another process's crash is noticed too.
+  staleAfter: number;
+  // How long a handler gets before it is aborted and the runner moves on.
+  // Keep it well under staleAfter.
+  timeout: number;
+}
+
+const staleSweepInterval = 60 * 1000;
+
+// Waits 30s, 1m, 2m, ... between attempts, capped at an hour
+export function retryDelay(attempts: number): number {
+  return Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), 60 * 60 * 1000);
+}
+
+// Runs queued jobs one at a time in this process. Cron schedules are turned
+// into queued jobs, so scheduled work gets the same retries and admin view
+// as everything else.
+export class JobRunner {
+  private handlers = new Map<string, JobHandler>();
+  private schedules: Schedule[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private tickInFlight: Promise<void> | undefined;
+  // Attempts that timed out but whose handler hasn't returned yet
+  private overrunning = new Set<Promise<void>>();
+  private stopping = false;
+  private nextSweepAt = 0;
+
+  constructor(private options: JobRunnerOptions) {}
+
+  register(name: string, handler: JobHandler): this {
+    if (this.handlers.has(name)) {
+      throw new Error(`Job handler "${name}" is already registered`);
+    }
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  // Enqueues `jobName` every time the cron expression matches
+  schedule(jobName: string, expression: string, payload: Record<string, unknown> = {}): this {
+    const cron = parseCron(expression);
+    this.schedules.push({ jobName, cron, payload, nextRunAt: nextCronTime(cron, new Date()) });
+    return this;
+  }
+
+  async start(): Promise<void> {
+    this.stopping = false;
+    await this.requeueStale(new Date());
+    this.poll(0);
+  }
+
+  // Stops taking new jobs and waits for the ones in progress to finish,
+  // giving up after `timeout` milliseconds
+  async stop(timeout = 30_000): Promise<void> {
+    this.stopping = true;
+    clearTimeout(this.timer);
+    const running = [this.tickInFlight, ...Array.from(this.overrunning)].filter(Boolean);
+    if (running.length === 0) {
+      return;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn("Gave up waiting for running jobs to finish");
+        resolve();
+      }, timeout);
+    });
+    await Promise.race([Promise.all(running), expired]);
+    clearTimeout(timer);
+  }
+
+  private poll(delay: number) {
+    this.timer = setTimeout(async () => {
+      this.tickInFlight = this.tick();
+      await this.tickInFlight;
+      this.tickInFlight = undefined;
+      if (!this.stopping) {
+        this.poll(this.options.pollInterval);
+      }
+    }, delay);
+  }
+
+  // Requeues stale jobs and enqueues due schedules, then works through
+  // every job that is due
+  async tick(): Promise<void> {
+    try {
+      await this.requeueStale(new Date());
+      await this.enqueueScheduled(new Date());
+      let job: Job | undefined;
+      while (!this.stopping && (job = await storage.claimNextJob(new Date()))) {
+        await this.run(job);
+      }
+    } catch (error) {
+      console.error("Error running jobs:", error);
+    }
+  }
+
+  private async requeueStale(now: Date) {
+    if (now.getTime() < this.nextSweepAt) {
+      return;
+    }
+    this.nextSweepAt = now.getTime() + staleSweepInterval;
+    const requeued = await storage.requeueStaleJobs(new Date(now.getTime() - this.options.staleAfter));
+    if (requeued > 0) {
+      console.warn(`Requeued ${requeued} job${requeued === 1 ? "" : "s"} left running by a crashed process`);
+    }
+  }
+
+  private async enqueueScheduled(now: Date) {
+    for (const schedule of this.schedules) {
+      if (schedule.nextRunAt.getTime() > now.getTime()) {
+        continue;
+      }
+      // Keyed by the scheduled minute so a restart in the same minute
+      // doesn't run it twice
+      await enqueueJob(schedule.jobName, schedule.payload, {
+        runAt: schedule.nextRunAt,
+        uniqueKey: `cron:${schedule.jobName}:${schedule.nextRunAt.toISOString()}`,
+      });
+      schedule.nextRunAt = nextCronTime(schedule.cron, now);
+    }
+  }
+
+  private async run(job: Job) {
+    const handler = this.handlers.get(job.name);
+    if (!handler) {
+      await storage.updateJob(job.id, {
+        status: "failed",
+        lockedAt: null,
+        lastError: `No handler registered for job "${job.name}"`,
+      });
+      return;
+    }
+
+    // The job stays running until the handler returns, even past the
+    // timeout, so it isn't retried while the first attempt is still going
+    const controller = new AbortController();
+    const attempt = handler(job.payload, job, controller.signal).then(
+      () => this.settle(job),
+      (error) => this.settle(job, error),
+    );
+    if (await this.finishesInTime(attempt)) {
+      return;
+    }
+    console.warn(`Job ${job.name} (${job.id}) timed out after ${this.options.timeout}ms; aborting it`);
+    controller.abort(new Error(`Job ${job.name} timed out after ${this.options.timeout}ms`));
+    this.overrunning.add(attempt);
+    attempt.finally(() => this.overrunning.delete(attempt));
+  }
+
+  // Records how the attempt ended: succeeded, queued for a retry, or failed
+  // for good once it is out of attempts
+  private async settle(job: Job, error?: unknown) {
+    try {
+      if (error === undefined) {
+        await storage.updateJob(job.id, { status: "succeeded", lockedAt: null, lastError: null, completedAt: new Date() });
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = job.attempts >= job.maxAttempts;
+      console.error(`Job ${job.name} (${job.id}) failed on attempt ${job.attempts} of ${job.maxAttempts}:`, error);
+      await storage.updateJob(job.id, {
+        status: exhausted ? "failed" : "queued",
+        lockedAt: null,
+        lastError: message,
+        runAt: exhausted ? job.runAt : new Date(Date.now() + retryDelay(job.attempts)),
+      });
+    } catch (updateError) {
+      // Left running, so the stale sweep queues it again
+      console.error(`Error recording the outcome of job ${job.name} (${job.id}):`, updateError);
+    }
+  }
+
+  // A handler that hangs would hold up every job behind it, so the runner
+  // stops waiting after `timeout` and moves on to the next job
+  private async finishesInTime(attempt: Promise<void>): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.options.timeout);
+    });
+    try {
+      return await Promise.race([attempt.then(() => true), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
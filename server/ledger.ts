@@ -0,0 +1,48 @@
+import type { Project } from "@shared/schema";
+
+// Thrown when a release would take a project's escrow below zero
+export class InsufficientEscrowError extends Error {
+  constructor(public projectId: string) {
+    super("Not enough funds left in this project's escrow");
+    this.name = "InsufficientEscrowError";
+  }
+}
+
+// Thrown when payments picked for a payout were withdrawn concurrently
+export class PayoutConflictError extends Error {
+  constructor() {
+    super("Your balance changed while requesting the payout, please try again");
+    this.name = "PayoutConflictError";
+  }
+}
+
+// Ledger arithmetic is done in whole cents to avoid float rounding
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// A project pays `payment` for every approved submission, so the company
+// funds enough escrow to cover each submission slot. A project without a
+// limit can't be covered, so it can't be funded.
+export function projectEscrowAmount(project: Project): string {
+  if (project.maxSubmissions === null) {
+    throw new Error(`Project ${project.id} has no submission limit to fund`);
+  }
+  return fromCents(toCents(project.payment) * project.maxSubmissions);
+}
+
+// What the company still has to fund: the project's escrow amount less what
+// escrow holds and what it already paid out to approved submissions. A
+// project sent back to review after going live may have some, all or none
+// of its escrow left.
+export function escrowShortfall(project: Project, balance: string, released: string): string {
+  const covered = toCents(balance) + toCents(released);
+  return fromCents(Math.max(toCents(projectEscrowAmount(project)) - covered, 0));
+}
+
+// Candidates can only withdraw once their balance reaches this amount
+export const minimumPayoutAmount = fromCents(toCents(process.env.PAYOUT_MINIMUM ?? "20"));
@@ -0,0 +1,52 @@
+import { CaptureTransport, SmtpTransport } from "./transports";
+import type { MailMessage, MailTransport } from "./types";
+
+export type { MailMessage, MailTransport, OutgoingMail } from "./types";
+export { CaptureTransport, SmtpTransport, type CapturedMail } from "./transports";
+export * from "./templates";
+
+function createCaptureTransport(): CaptureTransport {
+  // Mail that silently never arrives is worse than no mail, so capturing
+  // has to be asked for by name in production
+  if (process.env.NODE_ENV === "production" && process.env.MAIL_TRANSPORT !== "capture") {
+    throw new Error("Set MAIL_TRANSPORT to capture mail in production");
+  }
+  return new CaptureTransport(process.env.MAIL_CAPTURE_DIR || undefined);
+}
+
+// Picks the transport from MAIL_TRANSPORT (smtp | capture). Without it we
+// send over SMTP when SMTP_URL is set and capture mail otherwise.
+function resolveTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_URL ? "smtp" : "capture");
+
+  switch (name) {
+    case "smtp":
+      if (!process.env.SMTP_URL) {
+        throw new Error("SMTP_URL is required for the smtp mail transport");
+      }
+      return new SmtpTransport(process.env.SMTP_URL);
+    case "capture":
+      return createCaptureTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = resolveTransport();
+  }
+  return transport;
+}
+
+// Where links in emails point
+export function appBaseUrl(): string {
+  return process.env.APP_URL ?? `http://localhost:${process.env.PORT || "5000"}`;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM ?? "LayOffers <no-reply@layoffers.local>";
+  await getMailTransport().send({ ...message, from });
+}
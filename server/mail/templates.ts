@@ -0,0 +1,235 @@
+import type { Company, CompanyRole, Payment, Project } from "@shared/schema";
+import { companyRoleLabels } from "@shared/companyRoles";
+import type { ReviewDecision } from "@shared/submissionReview";
+
+// What an email says, independent of how it is laid out. Links are paths on
+// the app and become absolute URLs when the email is rendered.
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; path: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderOptions {
+  recipientName?: string | null;
+  baseUrl: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function renderEmail(content: EmailContent, { recipientName, baseUrl }: RenderOptions): RenderedEmail {
+  const greeting = recipientName ? `Hi ${recipientName},` : "Hi,";
+  const actionUrl = content.action && new URL(content.action.path, baseUrl).toString();
+  const preferencesUrl = new URL("/profile", baseUrl).toString();
+  const footer = "You're receiving this because you have a LayOffers account.";
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(content.action ? [`${content.action.label}: ${actionUrl}`] : []),
+    "--",
+    `${footer} Manage your email preferences at ${preferencesUrl}`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f6fa;font-family:Inter,Helvetica,Arial,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:32px;">
+          <p style="margin:0 0 24px;font-size:20px;font-weight:700;color:#2563eb;">LayOffers</p>
+          <h1 style="margin:0 0 16px;font-size:22px;">${escapeHtml(content.heading)}</h1>
+          <p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(greeting)}</p>
+          ${content.paragraphs.map((paragraph) => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(paragraph)}</p>`).join("\n          ")}
+          ${
+            content.action
+              ? `<p style="margin:24px 0;"><a href="${escapeHtml(actionUrl!)}" style="display:inline-block;padding:10px 20px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;font-weight:600;">${escapeHtml(content.action.label)}</a></p>`
+              : ""
+          }
+          <p style="margin:32px 0 0;font-size:12px;color:#6b7280;">${escapeHtml(footer)} <a href="${escapeHtml(preferencesUrl)}" style="color:#6b7280;">Manage email preferences</a></p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject: content.subject, html, text };
+}
+
+// Sent as the account is created, before the user has said whether they
+// are hiring or looking for work, so it speaks to both
+export function welcomeEmail(): EmailContent {
+  return {
+    subject: "Welcome to LayOffers",
+    heading: "Welcome to LayOffers",
+    paragraphs: [
+      "Thanks for joining. LayOffers is where companies hire on proven skills and candidates show what they can do, through paid projects and real work.",
+      "Hiring? Set up your company profile, and once an admin approves it you can post your first project. Looking for work? Add your skills to your profile, then browse projects to find your first one.",
+    ],
+    action: { label: "Get started", path: "/" },
+  };
+}
+
+function reviewNoteParagraphs(reason?: string | null, note?: string | null): string[] {
+  return [reason && `Reason: ${reason}.`, note && `Reviewer's note: ${note}`].filter((line): line is string => !!line);
+}
+
+// `reason` is the label of the rejection reason
+export function companyReviewedEmail(
+  company: Company,
+  approved: boolean,
+  reason?: string | null,
+  note?: string | null,
+): EmailContent {
+  if (approved) {
+    return {
+      subject: `${company.name} was approved`,
+      heading: "Your company was approved",
+      paragraphs: [`${company.name} was approved. You can now post projects.`],
+      action: { label: "Post a project", path: "/company" },
+    };
+  }
+  return {
+    subject: `${company.name} was not approved`,
+    heading: "Your company was not approved",
+    paragraphs: [
+      `${company.name} was not approved to post projects.`,
+      ...reviewNoteParagraphs(reason, note),
+      "Update your company profile and resubmit it for review.",
+    ],
+    action: { label: "Update your company", path: "/company" },
+  };
+}
+
+export function companyInvitationEmail(company: Company, inviterName: string, role: CompanyRole, path: string): EmailContent {
+  return {
+    subject: `Join ${company.name} on LayOffers`,
+    heading: `You're invited to join ${company.name}`,
+    paragraphs: [
+      `${inviterName} invited you to join the ${company.name} team as ${companyRoleLabels[role].toLowerCase()}.`,
+      "Sign in with this email address to accept. The link works for 7 days.",
+    ],
+    action: { label: "Accept invitation", path },
+  };
+}
+
+// `reason` is the label of the rejection reason
+export function projectReviewedEmail(
+  project: Project,
+  approved: boolean,
+  note?: string | null,
+  reason?: string | null,
+): EmailContent {
+  const live = project.status === "active";
+  const paragraphs = approved
+    ? [`"${project.title}" was approved and ${live ? "is now live" : "goes live once its escrow is funded"}.`]
+    : [`"${project.title}" was not approved.`];
+  paragraphs.push(...reviewNoteParagraphs(reason, note));
+  if (!approved) {
+    paragraphs.push("Edit the project and resubmit it for review.");
+  }
+  return {
+    subject: approved ? `"${project.title}" was approved` : `"${project.title}" was not approved`,
+    heading: approved ? "Your project was approved" : "Your project was not approved",
+    paragraphs,
+    action: approved
+      ? { label: "View project", path: `/projects/${project.id}` }
+      : { label: "View your projects", path: "/company" },
+  };
+}
+
+export function submissionCreatedEmail(candidateName: string, project: Project): EmailContent {
+  return {
+    subject: `New submission for "${project.title}"`,
+    heading: "You have a new submission",
+    paragraphs: [`${candidateName} submitted work for "${project.title}".`],
+    action: { label: "Review submissions", path: "/company" },
+  };
+}
+
+export function submissionRevisedEmail(candidateName: string, project: Project, revision: number): EmailContent {
+  return {
+    subject: `Revised submission for "${project.title}"`,
+    heading: "A candidate sent a revision",
+    paragraphs: [`${candidateName} sent revision ${revision} of their submission for "${project.title}".`],
+    action: { label: "Review submissions", path: "/company" },
+  };
+}
+
+export function submissionMessageEmail(senderName: string, project: Project, body: string, path: string): EmailContent {
+  return {
+    subject: `New message about "${project.title}"`,
+    heading: `${senderName} sent you a message`,
+    paragraphs: [`${senderName} wrote about the submission for "${project.title}":`, body],
+    action: { label: "Reply", path },
+  };
+}
+
+export function submissionReviewedEmail(project: Project, decision: ReviewDecision, feedback?: string | null): EmailContent {
+  switch (decision) {
+    case "approved":
+      return {
+        subject: `Your submission for "${project.title}" was approved`,
+        heading: "Your submission was approved",
+        paragraphs: [`Your submission for "${project.title}" was approved. Payment is on its way to your balance.`],
+        action: { label: "View your submissions", path: "/candidate" },
+      };
+    case "changes_requested":
+      return {
+        subject: `Changes requested on your submission for "${project.title}"`,
+        heading: "The company asked for changes",
+        paragraphs: [
+          `The company reviewed your submission for "${project.title}" and asked for changes:`,
+          feedback ?? "",
+          "Send a revision from the project page.",
+        ],
+        action: { label: "Revise your submission", path: `/projects/${project.id}` },
+      };
+    case "rejected":
+      return {
+        subject: `Your submission for "${project.title}" was not selected`,
+        heading: "Your submission was not selected",
+        paragraphs: [
+          `Your submission for "${project.title}" was not selected this time.`,
+          "There are more projects waiting for you.",
+        ],
+        action: { label: "Browse projects", path: "/projects" },
+      };
+  }
+}
+
+export function companyRatedEmail(project: Project, score: number): EmailContent {
+  return {
+    subject: `A candidate rated your company`,
+    heading: "You have a new rating",
+    paragraphs: [
+      `A candidate who worked on "${project.title}" rated your company ${score.toFixed(1)} out of 5.`,
+      "You can reply to it once, publicly, from your dashboard.",
+    ],
+    action: { label: "View ratings", path: "/company" },
+  };
+}
+
+export function paymentReleasedEmail(payment: Payment, project: Project): EmailContent {
+  return {
+    subject: `$${payment.amount} was added to your balance`,
+    heading: "Payment released",
+    paragraphs: [`$${payment.amount} for "${project.title}" was added to your balance. You can withdraw it from your dashboard.`],
+    action: { label: "View your balance", path: "/candidate" },
+  };
+}
@@ -0,0 +1,15 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
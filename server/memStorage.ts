@@ -0,0 +1,1466 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  UpsertUser,
+  UserSearch,
+  Company,
+  InsertCompany,
+  CompanyMember,
+  CompanyRole,
+  CompanyInvitation,
+  InsertCompanyInvitation,
+  CompanyStatusChange,
+  InsertCompanyStatusChange,
+  AuditLogEntry,
+  InsertAuditLogEntry,
+  AuditSearch,
+  Project,
+  InsertProject,
+  ProjectSearch,
+  ProjectStatus,
+  ProjectStatusChange,
+  InsertProjectStatusChange,
+  Submission,
+  InsertSubmission,
+  SubmissionFile,
+  SubmissionRevision,
+  SubmissionRevisionWithFiles,
+  SubmissionMessage,
+  InsertSubmissionMessage,
+  SubmissionMessageFile,
+  SubmissionMessageWithFiles,
+  MessageSender,
+  Rating,
+  InsertRating,
+  CompanyRating,
+  InsertCompanyRating,
+  Payment,
+  InsertPayment,
+  Invoice,
+  PayoutMethod,
+  InsertPayoutMethod,
+  Payout,
+  InsertPayout,
+  PayoutEvent,
+  PayoutStatus,
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerTransaction,
+  LedgerEntry,
+  Notification,
+  InsertNotification,
+  Job,
+  InsertJob,
+  JobStatus,
+} from "@shared/schema";
+import type { IStorage, NewSubmissionFile, RevisionContent } from "./storage";
+import { InsufficientEscrowError, PayoutConflictError, fromCents, toCents } from "./ledger";
+import { SubmissionClosedError, getProjectAvailability, takesSlot } from "./availability";
+import { summarizeCompanyRatings, type CompanyTrustScore } from "@shared/companyRatings";
+import { awaitsDecision } from "@shared/submissionReview";
+
+// Decimal columns come back from Postgres as strings with two places
+function toMoney(value: number): string {
+  return value.toFixed(2);
+}
+
+// Newest first, like the `orderBy(desc(createdAt))` queries. Rows created in
+// the same millisecond keep reverse insertion order.
+function newestFirst<T extends { createdAt: Date | null }>(rows: Iterable<T>): T[] {
+  return Array.from(rows)
+    .reverse()
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+}
+
+// Oldest first, for the `orderBy(asc(createdAt))` queries
+function oldestFirst<T extends { createdAt: Date | null }>(rows: Iterable<T>): T[] {
+  return Array.from(rows).sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+}
+
+// Drops undefined keys, which drizzle leaves out of inserts and updates
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+// In-memory IStorage for tests and offline development. It applies the same
+// column defaults and orderings as DatabaseStorage so routes behave the same
+// against either backend. Data lives for the lifetime of the process.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private companies = new Map<string, Company>();
+  private companyMembers = new Map<string, CompanyMember>();
+  private companyInvitations = new Map<string, CompanyInvitation>();
+  private auditLog: AuditLogEntry[] = [];
+  private projects = new Map<string, Project>();
+  private projectStatusHistory: ProjectStatusChange[] = [];
+  private companyStatusHistory: CompanyStatusChange[] = [];
+  private submissions = new Map<string, Submission>();
+  private submissionFiles = new Map<string, SubmissionFile>();
+  private submissionRevisions: SubmissionRevision[] = [];
+  private submissionMessages = new Map<string, SubmissionMessage>();
+  private submissionMessageFiles = new Map<string, SubmissionMessageFile>();
+  private ratings = new Map<string, Rating>();
+  private companyRatings = new Map<string, CompanyRating>();
+  private payments = new Map<string, Payment>();
+  private invoices = new Map<string, Invoice>();
+  private payoutMethods = new Map<string, PayoutMethod>();
+  private payouts = new Map<string, Payout>();
+  private payoutEvents: PayoutEvent[] = [];
+  private ledgerAccounts = new Map<string, LedgerAccount>();
+  private ledgerTransactions = new Map<string, LedgerTransaction>();
+  private ledgerEntries: LedgerEntry[] = [];
+  private notifications = new Map<string, Notification>();
+  private jobs = new Map<string, Job>();
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const id = userData.id ?? randomUUID();
+    const existing = this.users.get(id);
+
+    if (userData.email) {
+      const emailOwner = Array.from(this.users.values()).find(
+        (user) => user.email === userData.email && user.id !== id,
+      );
+      if (emailOwner) {
+        throw new Error(`duplicate key value violates unique constraint "users_email_unique"`);
+      }
+    }
+
+    const now = new Date();
+    const user: User = existing
+      ? { ...existing, ...defined(userData), id, updatedAt: now }
+      : {
+          email: null,
+          firstName: null,
+          lastName: null,
+          profileImageUrl: null,
+          role: "candidate",
+          skills: null,
+          experience: null,
+          portfolioUrl: null,
+          bio: null,
+          emailOptOuts: null,
+          handle: null,
+          publicProfileFields: null,
+          suspendedAt: null,
+          suspensionReason: null,
+          sessionsRevokedAt: null,
+          createdAt: now,
+          updatedAt: now,
+          ...defined(userData),
+          id,
+        };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUserProfile(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    if (updates.handle && Array.from(this.users.values()).some((other) => other.handle === updates.handle && other.id !== id)) {
+      throw new Error(`duplicate key value violates unique constraint "users_handle_unique"`);
+    }
+    const updated = { ...user, ...defined(updates), id, updatedAt: new Date() };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUserByHandle(handle: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.handle === handle);
+  }
+
+  async searchUsers(search: UserSearch): Promise<{ users: User[]; total: number }> {
+    const q = search.q?.toLowerCase();
+    const matches = newestFirst(Array.from(this.users.values())).filter((user) => {
+      if (
+        q &&
+        ![user.email, user.firstName, user.lastName].some((value) => value?.toLowerCase().includes(q)) &&
+        user.id !== search.q
+      ) {
+        return false;
+      }
+      if (search.role && user.role !== search.role) return false;
+      if (search.status === "suspended" && !user.suspendedAt) return false;
+      if (search.status === "active" && user.suspendedAt) return false;
+      return true;
+    });
+    return { users: matches.slice(search.offset, search.offset + search.limit), total: matches.length };
+  }
+
+  // Company operations
+  async getCompany(id: string): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async getCompanyByUserId(userId: string): Promise<Company | undefined> {
+    return Array.from(this.companies.values()).find((company) => company.userId === userId);
+  }
+
+  async createCompany(company: InsertCompany): Promise<Company> {
+    const now = new Date();
+    const created: Company = {
+      description: null,
+      website: null,
+      logoUrl: null,
+      industry: null,
+      size: null,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+      ...defined(company),
+      userId: company.userId,
+      name: company.name,
+      id: randomUUID(),
+    };
+    this.companies.set(created.id, created);
+    this.addCompanyMember(created.id, created.userId, "owner");
+    return created;
+  }
+
+  async updateCompany(id: string, updates: Partial<Company>): Promise<Company | undefined> {
+    const company = this.companies.get(id);
+    if (!company) return undefined;
+    const updated = { ...company, ...defined(updates), id, updatedAt: new Date() };
+    this.companies.set(id, updated);
+    return updated;
+  }
+
+  async transitionCompanyStatus(
+    id: string,
+    change: Omit<InsertCompanyStatusChange, "id" | "companyId" | "createdAt">,
+    updates: Partial<Omit<Company, "status">> = {},
+  ): Promise<Company | undefined> {
+    const company = this.companies.get(id);
+    if (!company || company.status !== change.fromStatus) return undefined;
+    const now = new Date();
+    const updated = { ...company, ...defined(updates), id, status: change.toStatus, updatedAt: now };
+    this.companies.set(id, updated);
+    this.companyStatusHistory.push({
+      actorId: null,
+      reason: null,
+      note: null,
+      ...defined(change),
+      id: randomUUID(),
+      companyId: id,
+      action: change.action,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      createdAt: now,
+    });
+    return updated;
+  }
+
+  async getCompanyStatusHistory(companyId: string): Promise<CompanyStatusChange[]> {
+    return oldestFirst(this.companyStatusHistory).filter((change) => change.companyId === companyId);
+  }
+
+  async getPendingCompanies(): Promise<Company[]> {
+    return newestFirst(this.companies.values()).filter((company) => company.status === "pending");
+  }
+
+  async getAllCompanies(): Promise<Company[]> {
+    return newestFirst(this.companies.values());
+  }
+
+  // Company team operations
+  private addCompanyMember(companyId: string, userId: string, role: CompanyRole): CompanyMember {
+    if (Array.from(this.companyMembers.values()).some((member) => member.userId === userId)) {
+      throw new Error(`duplicate key value violates unique constraint "company_members_user_id_unique"`);
+    }
+    const member: CompanyMember = { id: randomUUID(), companyId, userId, role, createdAt: new Date() };
+    this.companyMembers.set(member.id, member);
+    return member;
+  }
+
+  async getCompanyMemberByUser(userId: string): Promise<CompanyMember | undefined> {
+    return Array.from(this.companyMembers.values()).find((member) => member.userId === userId);
+  }
+
+  async getCompanyMember(id: string): Promise<CompanyMember | undefined> {
+    return this.companyMembers.get(id);
+  }
+
+  async getCompanyMembers(companyId: string): Promise<CompanyMember[]> {
+    return oldestFirst(this.companyMembers.values()).filter((member) => member.companyId === companyId);
+  }
+
+  async updateCompanyMemberRole(id: string, role: CompanyRole): Promise<CompanyMember | undefined> {
+    const member = this.companyMembers.get(id);
+    if (!member) return undefined;
+    const updated = { ...member, role };
+    this.companyMembers.set(id, updated);
+    return updated;
+  }
+
+  async removeCompanyMember(id: string): Promise<void> {
+    this.companyMembers.delete(id);
+  }
+
+  async addMissingCompanyOwners(): Promise<number> {
+    let added = 0;
+    for (const company of Array.from(this.companies.values())) {
+      const members = await this.getCompanyMembers(company.id);
+      if (members.length === 0 && !(await this.getCompanyMemberByUser(company.userId))) {
+        this.addCompanyMember(company.id, company.userId, "owner");
+        added++;
+      }
+    }
+    return added;
+  }
+
+  async createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    if (Array.from(this.companyInvitations.values()).some((existing) => existing.tokenHash === invitation.tokenHash)) {
+      throw new Error(`duplicate key value violates unique constraint "company_invitations_token_hash_unique"`);
+    }
+    const created: CompanyInvitation = {
+      acceptedBy: null,
+      acceptedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      ...defined(invitation),
+      companyId: invitation.companyId,
+      email: invitation.email,
+      role: invitation.role,
+      tokenHash: invitation.tokenHash,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      id: randomUUID(),
+    };
+    this.companyInvitations.set(created.id, created);
+    return created;
+  }
+
+  async getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    return this.companyInvitations.get(id);
+  }
+
+  async getCompanyInvitationByTokenHash(tokenHash: string): Promise<CompanyInvitation | undefined> {
+    return Array.from(this.companyInvitations.values()).find((invitation) => invitation.tokenHash === tokenHash);
+  }
+
+  private isPendingInvitation(invitation: CompanyInvitation, now: Date): boolean {
+    return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt.getTime() >= now.getTime();
+  }
+
+  async getPendingCompanyInvitations(companyId: string, now: Date): Promise<CompanyInvitation[]> {
+    return newestFirst(this.companyInvitations.values()).filter(
+      (invitation) => invitation.companyId === companyId && this.isPendingInvitation(invitation, now),
+    );
+  }
+
+  async revokeCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    const invitation = this.companyInvitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) return undefined;
+    const revoked = { ...invitation, revokedAt: new Date() };
+    this.companyInvitations.set(id, revoked);
+    return revoked;
+  }
+
+  async acceptCompanyInvitation(id: string, userId: string): Promise<CompanyMember | undefined> {
+    const invitation = this.companyInvitations.get(id);
+    const now = new Date();
+    if (!invitation || !this.isPendingInvitation(invitation, now) || (await this.getCompanyMemberByUser(userId))) {
+      return undefined;
+    }
+    this.companyInvitations.set(id, { ...invitation, acceptedAt: now, acceptedBy: userId });
+    return this.addCompanyMember(invitation.companyId, userId, invitation.role);
+  }
+
+  // Project operations
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjectsByCompany(companyId: string): Promise<Project[]> {
+    return newestFirst(this.projects.values()).filter((project) => project.companyId === companyId);
+  }
+
+  async getActiveProjects(): Promise<Project[]> {
+    return newestFirst(this.projects.values()).filter((project) => project.status === "active");
+  }
+
+  async getFeaturedProjects(): Promise<Project[]> {
+    return (await this.getActiveProjects()).slice(0, 6);
+  }
+
+  async getPendingProjects(): Promise<Project[]> {
+    return newestFirst(this.projects.values()).filter((project) => project.status === "pending");
+  }
+
+  async getProjectsByStatus(statuses: ProjectStatus[]): Promise<Project[]> {
+    return newestFirst(this.projects.values()).filter((project) => statuses.includes(project.status));
+  }
+
+  async searchProjects(search: ProjectSearch): Promise<{ projects: Project[]; total: number }> {
+    const q = search.q?.toLowerCase();
+    const matches = (await this.getActiveProjects()).filter((project) => {
+      if (q && !project.title.toLowerCase().includes(q) && !project.description.toLowerCase().includes(q)) {
+        return false;
+      }
+      if (search.skills.length > 0) {
+        const skills = project.skills ?? [];
+        const matchesSkills = search.skillMatch === "all"
+          ? search.skills.every((skill) => skills.includes(skill))
+          : search.skills.some((skill) => skills.includes(skill));
+        if (!matchesSkills) return false;
+      }
+      if (search.difficulty && project.difficulty !== search.difficulty) return false;
+      if (search.minPayment !== undefined && Number(project.payment) < search.minPayment) return false;
+      if (search.maxPayment !== undefined && Number(project.payment) > search.maxPayment) return false;
+      if (search.deadlineFrom && (!project.deadline || project.deadline < search.deadlineFrom)) return false;
+      if (search.deadlineTo && (!project.deadline || project.deadline > search.deadlineTo)) return false;
+      if (search.companyId && project.companyId !== search.companyId) return false;
+      return true;
+    });
+
+    // matches is already newest first, and sort() is stable, so ties fall
+    // back to creation order like the secondary orderBy in DatabaseStorage
+    if (search.sort === "highest_pay") {
+      matches.sort((a, b) => Number(b.payment) - Number(a.payment));
+    } else if (search.sort === "closing_soon") {
+      // Projects without a deadline go last, like `nulls last`
+      const closesAt = (project: Project) => project.deadline?.getTime() ?? Number.MAX_SAFE_INTEGER;
+      matches.sort((a, b) => closesAt(a) - closesAt(b));
+    }
+
+    return {
+      projects: matches.slice(search.offset, search.offset + search.limit),
+      total: matches.length,
+    };
+  }
+
+  async getActiveProjectSkills(): Promise<string[]> {
+    const skills = new Set((await this.getActiveProjects()).flatMap((project) => project.skills ?? []));
+    return Array.from(skills).sort((a, b) => a.localeCompare(b));
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    if (project.payment === undefined) {
+      throw new Error(`null value in column "payment" violates not-null constraint`);
+    }
+    const now = new Date();
+    const created: Project = {
+      requirements: null,
+      skills: null,
+      difficulty: "intermediate",
+      deadline: null,
+      maxSubmissions: 10,
+      maxRevisions: 2,
+      rubric: null,
+      blindReview: false,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+      ...defined(project),
+      companyId: project.companyId,
+      title: project.title,
+      description: project.description,
+      payment: toMoney(Number(project.payment)),
+      id: randomUUID(),
+    };
+    this.projects.set(created.id, created);
+    return created;
+  }
+
+  async updateProject(id: string, updates: Partial<Omit<Project, "status">>): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+    const updated = { ...project, ...defined(updates), id, updatedAt: new Date() };
+    if (updates.payment !== undefined) {
+      updated.payment = toMoney(Number(updates.payment));
+    }
+    this.projects.set(id, updated);
+    return updated;
+  }
+
+  async transitionProjectStatus(
+    id: string,
+    change: Omit<InsertProjectStatusChange, "id" | "projectId" | "createdAt">,
+    updates: Partial<Omit<Project, "status">> = {},
+  ): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project || project.status !== change.fromStatus) return undefined;
+    const now = new Date();
+    const updated = { ...project, ...defined(updates), id, status: change.toStatus, updatedAt: now };
+    this.projects.set(id, updated);
+    this.projectStatusHistory.push({
+      actorId: null,
+      reason: null,
+      note: null,
+      ...defined(change),
+      id: randomUUID(),
+      projectId: id,
+      action: change.action,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      actor: change.actor,
+      createdAt: now,
+    });
+    return updated;
+  }
+
+  async getProjectStatusHistory(projectId: string): Promise<ProjectStatusChange[]> {
+    return oldestFirst(this.projectStatusHistory).filter((change) => change.projectId === projectId);
+  }
+
+  // Submission operations
+  async getSubmission(id: string): Promise<Submission | undefined> {
+    return this.submissions.get(id);
+  }
+
+  async getSubmissionsByProject(projectId: string): Promise<Submission[]> {
+    return newestFirst(this.submissions.values()).filter((submission) => submission.projectId === projectId);
+  }
+
+  async getSubmissionsByCandidate(candidateId: string): Promise<Submission[]> {
+    return newestFirst(this.submissions.values()).filter((submission) => submission.candidateId === candidateId);
+  }
+
+  async getSubmissionByProjectAndCandidate(projectId: string, candidateId: string): Promise<Submission | undefined> {
+    return Array.from(this.submissions.values()).find(
+      (submission) => submission.projectId === projectId && submission.candidateId === candidateId,
+    );
+  }
+
+  async countSubmissionSlotsTaken(projectId: string): Promise<number> {
+    return this.slotsTaken(projectId);
+  }
+
+  private slotsTaken(projectId: string): number {
+    return Array.from(this.submissions.values())
+      .filter((submission) => submission.projectId === projectId && takesSlot(submission)).length;
+  }
+
+  async createSubmission(submission: InsertSubmission, files: NewSubmissionFile[] = []): Promise<Submission> {
+    // No awaits between the checks and the insert, so concurrent submits
+    // can't both take the last slot
+    const project = this.projects.get(submission.projectId);
+    if (!project) {
+      throw new SubmissionClosedError("not_active");
+    }
+    const existing = Array.from(this.submissions.values()).some(
+      (other) => other.projectId === project.id && other.candidateId === submission.candidateId,
+    );
+    if (existing) {
+      throw new SubmissionClosedError("already_submitted");
+    }
+    const { closedReason } = getProjectAvailability(project, this.slotsTaken(project.id));
+    if (closedReason) {
+      throw new SubmissionClosedError(closedReason);
+    }
+
+    const now = new Date();
+    const created: Submission = {
+      attachmentUrl: null,
+      status: "pending",
+      feedback: null,
+      revision: 1,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(submission),
+      projectId: submission.projectId,
+      candidateId: submission.candidateId,
+      content: submission.content,
+      id: randomUUID(),
+    };
+    this.submissions.set(created.id, created);
+    this.addRevision(created, files, now);
+    return created;
+  }
+
+  // Records the submission's current content as its latest revision
+  private addRevision(submission: Submission, files: NewSubmissionFile[], now: Date) {
+    this.submissionRevisions.push({
+      id: randomUUID(),
+      submissionId: submission.id,
+      number: submission.revision,
+      content: submission.content,
+      attachmentUrl: submission.attachmentUrl,
+      changesRequested: null,
+      createdAt: now,
+    });
+    for (const file of files) {
+      const id = randomUUID();
+      this.submissionFiles.set(id, { ...file, id, submissionId: submission.id, revision: submission.revision, createdAt: now });
+    }
+  }
+
+  async getSubmissionFiles(submissionId: string, revision?: number): Promise<SubmissionFile[]> {
+    return oldestFirst(
+      Array.from(this.submissionFiles.values()).filter(
+        (file) => file.submissionId === submissionId && (revision === undefined || file.revision === revision),
+      ),
+    );
+  }
+
+  async getSubmissionFile(id: string): Promise<SubmissionFile | undefined> {
+    return this.submissionFiles.get(id);
+  }
+
+  async requestSubmissionChanges(id: string, feedback: string): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    if (submission?.status !== "pending" && submission?.status !== "under_review") {
+      return undefined;
+    }
+    const updated: Submission = { ...submission, status: "changes_requested", feedback, updatedAt: new Date() };
+    this.submissions.set(id, updated);
+    this.submissionRevisions = this.submissionRevisions.map((revision) =>
+      revision.submissionId === id && revision.number === updated.revision ? { ...revision, changesRequested: feedback } : revision,
+    );
+    return updated;
+  }
+
+  async rejectSubmission(id: string, feedback?: string): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    if (!submission || !awaitsDecision(submission.status)) {
+      return undefined;
+    }
+    const updated: Submission = { ...submission, ...defined({ feedback }), status: "rejected", updatedAt: new Date() };
+    this.submissions.set(id, updated);
+    return updated;
+  }
+
+  async createSubmissionRevision(id: string, revision: RevisionContent, files: NewSubmissionFile[] = []): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    if (submission?.status !== "changes_requested") {
+      return undefined;
+    }
+    const now = new Date();
+    const updated: Submission = {
+      ...submission,
+      ...revision,
+      revision: submission.revision + 1,
+      status: "pending",
+      updatedAt: now,
+    };
+    this.submissions.set(id, updated);
+    this.addRevision(updated, files, now);
+    return updated;
+  }
+
+  async getSubmissionRevisions(submissionId: string): Promise<SubmissionRevisionWithFiles[]> {
+    const files = await this.getSubmissionFiles(submissionId);
+    return this.submissionRevisions
+      .filter((revision) => revision.submissionId === submissionId)
+      .sort((a, b) => a.number - b.number)
+      .map((revision) => ({ ...revision, files: files.filter((file) => file.revision === revision.number) }));
+  }
+
+  // Submission message operations
+  async createSubmissionMessage(message: InsertSubmissionMessage, files: NewSubmissionFile[] = []): Promise<SubmissionMessageWithFiles> {
+    const now = new Date();
+    const created: SubmissionMessage = {
+      readAt: null,
+      createdAt: now,
+      ...defined(message),
+      submissionId: message.submissionId,
+      senderId: message.senderId,
+      sender: message.sender,
+      body: message.body,
+      id: randomUUID(),
+    };
+    this.submissionMessages.set(created.id, created);
+    const attached = files.map((file) => ({ ...file, id: randomUUID(), messageId: created.id, createdAt: now }));
+    for (const file of attached) {
+      this.submissionMessageFiles.set(file.id, file);
+    }
+    return { ...created, files: attached };
+  }
+
+  async getSubmissionMessages(submissionId: string): Promise<SubmissionMessageWithFiles[]> {
+    const files = oldestFirst(this.submissionMessageFiles.values());
+    return oldestFirst(
+      Array.from(this.submissionMessages.values()).filter((message) => message.submissionId === submissionId),
+    ).map((message) => ({ ...message, files: files.filter((file) => file.messageId === message.id) }));
+  }
+
+  async getSubmissionMessageFile(id: string): Promise<SubmissionMessageFile | undefined> {
+    return this.submissionMessageFiles.get(id);
+  }
+
+  async getSubmissionMessage(id: string): Promise<SubmissionMessage | undefined> {
+    return this.submissionMessages.get(id);
+  }
+
+  async markSubmissionMessagesRead(submissionId: string, reader: MessageSender): Promise<number> {
+    let marked = 0;
+    for (const message of Array.from(this.submissionMessages.values())) {
+      if (message.submissionId === submissionId && message.sender !== reader && !message.readAt) {
+        this.submissionMessages.set(message.id, { ...message, readAt: new Date() });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  async countUnreadSubmissionMessages(submissionIds: string[], reader: MessageSender): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const message of Array.from(this.submissionMessages.values())) {
+      if (submissionIds.includes(message.submissionId) && message.sender !== reader && !message.readAt) {
+        counts[message.submissionId] = (counts[message.submissionId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  async updateSubmission(id: string, updates: Partial<Submission>): Promise<Submission | undefined> {
+    const submission = this.submissions.get(id);
+    if (!submission) return undefined;
+    const updated = { ...submission, ...defined(updates), id, updatedAt: new Date() };
+    this.submissions.set(id, updated);
+    return updated;
+  }
+
+  // Rating operations
+  async createRating(rating: InsertRating): Promise<Rating> {
+    const created: Rating = {
+      review: null,
+      criteriaScores: null,
+      createdAt: new Date(),
+      ...defined(rating),
+      submissionId: rating.submissionId,
+      candidateId: rating.candidateId,
+      companyId: rating.companyId,
+      score: rating.score,
+      id: randomUUID(),
+    };
+    this.ratings.set(created.id, created);
+    return created;
+  }
+
+  async getRatingsByCandidate(candidateId: string): Promise<Rating[]> {
+    return newestFirst(this.ratings.values()).filter((rating) => rating.candidateId === candidateId);
+  }
+
+  // Company rating operations
+  async createCompanyRating(rating: InsertCompanyRating): Promise<CompanyRating> {
+    if (await this.getCompanyRatingBySubmission(rating.submissionId)) {
+      throw new Error(`duplicate key value violates unique constraint "company_ratings_submission_id_unique"`);
+    }
+    const created: CompanyRating = {
+      paymentSpeed: null,
+      comment: null,
+      status: "published",
+      reportedAt: null,
+      reportReason: null,
+      moderatedBy: null,
+      moderatedAt: null,
+      moderationNote: null,
+      reply: null,
+      repliedBy: null,
+      repliedAt: null,
+      createdAt: new Date(),
+      ...defined(rating),
+      submissionId: rating.submissionId,
+      projectId: rating.projectId,
+      candidateId: rating.candidateId,
+      companyId: rating.companyId,
+      clarity: rating.clarity,
+      fairness: rating.fairness,
+      id: randomUUID(),
+    };
+    this.companyRatings.set(created.id, created);
+    return created;
+  }
+
+  async getCompanyRating(id: string): Promise<CompanyRating | undefined> {
+    return this.companyRatings.get(id);
+  }
+
+  async getCompanyRatingBySubmission(submissionId: string): Promise<CompanyRating | undefined> {
+    return Array.from(this.companyRatings.values()).find((rating) => rating.submissionId === submissionId);
+  }
+
+  async getCompanyRatingsByCandidate(candidateId: string): Promise<CompanyRating[]> {
+    return newestFirst(this.companyRatings.values()).filter((rating) => rating.candidateId === candidateId);
+  }
+
+  async getCompanyRatings(companyId: string, includeHidden = false): Promise<CompanyRating[]> {
+    return newestFirst(this.companyRatings.values()).filter(
+      (rating) => rating.companyId === companyId && (includeHidden || rating.status === "published"),
+    );
+  }
+
+  async getCompanyRatingsForModeration(filter: "reported" | "hidden"): Promise<CompanyRating[]> {
+    const ratings = Array.from(this.companyRatings.values());
+    if (filter === "hidden") {
+      return ratings
+        .filter((rating) => rating.status === "hidden")
+        .sort((a, b) => (b.moderatedAt?.getTime() ?? 0) - (a.moderatedAt?.getTime() ?? 0));
+    }
+    return ratings
+      .filter((rating) => rating.status === "published" && rating.reportedAt && !rating.moderatedAt)
+      .sort((a, b) => (a.reportedAt?.getTime() ?? 0) - (b.reportedAt?.getTime() ?? 0));
+  }
+
+  async updateCompanyRating(
+    id: string,
+    updates: Partial<Pick<CompanyRating, "status" | "reportedAt" | "reportReason" | "moderatedBy" | "moderatedAt" | "moderationNote">>,
+  ): Promise<CompanyRating | undefined> {
+    const rating = this.companyRatings.get(id);
+    if (!rating) return undefined;
+    const updated = { ...rating, ...defined(updates), id };
+    this.companyRatings.set(id, updated);
+    return updated;
+  }
+
+  async replyToCompanyRating(id: string, reply: string, repliedBy: string): Promise<CompanyRating | undefined> {
+    const rating = this.companyRatings.get(id);
+    if (!rating || rating.reply !== null) return undefined;
+    const updated = { ...rating, reply, repliedBy, repliedAt: new Date() };
+    this.companyRatings.set(id, updated);
+    return updated;
+  }
+
+  async getCompanyTrustScores(companyIds: string[]): Promise<Record<string, CompanyTrustScore>> {
+    const scores: Record<string, CompanyTrustScore> = {};
+    for (const companyId of companyIds) {
+      const ratings = await this.getCompanyRatings(companyId);
+      if (ratings.length) {
+        scores[companyId] = summarizeCompanyRatings(ratings);
+      }
+    }
+    return scores;
+  }
+
+  // Payment operations
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    return this.insertPayment(payment);
+  }
+
+  private insertPayment(payment: InsertPayment): Payment {
+    if (Array.from(this.payments.values()).some((existing) => existing.submissionId === payment.submissionId)) {
+      throw new Error(`duplicate key value violates unique constraint "payments_submission_id_unique"`);
+    }
+    const created: Payment = {
+      status: "pending",
+      ledgerTransactionId: null,
+      payoutId: null,
+      provider: null,
+      providerReference: null,
+      failureReason: null,
+      paidAt: null,
+      createdAt: new Date(),
+      ...defined(payment),
+      submissionId: payment.submissionId,
+      candidateId: payment.candidateId,
+      companyId: payment.companyId,
+      amount: toMoney(Number(payment.amount)),
+      id: randomUUID(),
+    };
+    this.payments.set(created.id, created);
+    return created;
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentsByCandidate(candidateId: string): Promise<Payment[]> {
+    return newestFirst(this.payments.values()).filter((payment) => payment.candidateId === candidateId);
+  }
+
+  async getPaymentsByCompany(companyId: string): Promise<Payment[]> {
+    return newestFirst(this.payments.values()).filter((payment) => payment.companyId === companyId);
+  }
+
+  async getRecentPayments(limit: number): Promise<Payment[]> {
+    return newestFirst(this.payments.values()).slice(0, limit);
+  }
+
+  async getWithdrawablePayments(candidateId: string): Promise<Payment[]> {
+    return oldestFirst(this.payments.values()).filter(
+      (payment) => payment.candidateId === candidateId && payment.status === "pending" && !payment.payoutId,
+    );
+  }
+
+  async updatePaymentsByPayout(payoutId: string, updates: Partial<Payment>): Promise<void> {
+    for (const payment of Array.from(this.payments.values())) {
+      if (payment.payoutId === payoutId) {
+        this.payments.set(payment.id, { ...payment, ...defined(updates), id: payment.id });
+      }
+    }
+  }
+
+  // Invoice operations
+  async createInvoice(payment: Payment): Promise<Invoice> {
+    const existing = Array.from(this.invoices.values()).find((invoice) => invoice.paymentId === payment.id);
+    if (existing) return existing;
+    const created: Invoice = {
+      id: randomUUID(),
+      number: this.invoices.size + 1,
+      companyId: payment.companyId,
+      paymentId: payment.id,
+      createdAt: new Date(),
+    };
+    this.invoices.set(created.id, created);
+    return created;
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getInvoicesByCompany(companyId: string): Promise<Invoice[]> {
+    return Array.from(this.invoices.values())
+      .filter((invoice) => invoice.companyId === companyId)
+      .sort((a, b) => b.number - a.number);
+  }
+
+  // Payout operations
+  async getPayoutMethodsByUser(userId: string): Promise<PayoutMethod[]> {
+    return newestFirst(this.payoutMethods.values()).filter((method) => method.userId === userId && !method.removedAt);
+  }
+
+  async getPayoutMethod(id: string): Promise<PayoutMethod | undefined> {
+    return this.payoutMethods.get(id);
+  }
+
+  async createPayoutMethod(method: InsertPayoutMethod & { userId: string }): Promise<PayoutMethod> {
+    const created: PayoutMethod = {
+      ...method,
+      removedAt: null,
+      createdAt: new Date(),
+      id: randomUUID(),
+    };
+    this.payoutMethods.set(created.id, created);
+    return created;
+  }
+
+  async removePayoutMethod(id: string): Promise<void> {
+    const method = this.payoutMethods.get(id);
+    if (method) {
+      this.payoutMethods.set(id, { ...method, removedAt: new Date() });
+    }
+  }
+
+  async createPayout(payout: InsertPayout, paymentIds: string[]): Promise<Payout> {
+    const available = paymentIds.map((id) => this.payments.get(id));
+    if (available.some((payment) => !payment || payment.status !== "pending" || payment.payoutId)) {
+      throw new PayoutConflictError();
+    }
+
+    const created: Payout = {
+      status: "requested",
+      provider: null,
+      providerReference: null,
+      failureReason: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      paidAt: null,
+      createdAt: new Date(),
+      ...defined(payout),
+      candidateId: payout.candidateId,
+      payoutMethodId: payout.payoutMethodId,
+      amount: toMoney(Number(payout.amount)),
+      id: randomUUID(),
+    };
+    this.payouts.set(created.id, created);
+    for (const payment of available) {
+      this.payments.set(payment!.id, { ...payment!, payoutId: created.id });
+    }
+    this.recordPayoutEvent(created.id, created.status, { actorId: created.candidateId });
+    return created;
+  }
+
+  async getPayout(id: string): Promise<Payout | undefined> {
+    return this.payouts.get(id);
+  }
+
+  async getPayoutsByCandidate(candidateId: string): Promise<Payout[]> {
+    return newestFirst(this.payouts.values()).filter((payout) => payout.candidateId === candidateId);
+  }
+
+  async getPayoutsByStatus(status: PayoutStatus): Promise<Payout[]> {
+    return oldestFirst(this.payouts.values()).filter((payout) => payout.status === status);
+  }
+
+  async getPayoutByProviderReference(providerReference: string): Promise<Payout | undefined> {
+    return Array.from(this.payouts.values()).find((payout) => payout.providerReference === providerReference);
+  }
+
+  async updatePayout(
+    id: string,
+    updates: Partial<Payout>,
+    event?: { note?: string | null; actorId?: string | null; fromStatus?: PayoutStatus },
+  ): Promise<Payout | undefined> {
+    const payout = this.payouts.get(id);
+    if (!payout || (event?.fromStatus && payout.status !== event.fromStatus)) return undefined;
+    const updated = { ...payout, ...defined(updates), id };
+    this.payouts.set(id, updated);
+    if (updates.status) {
+      this.recordPayoutEvent(id, updates.status, event);
+    }
+    return updated;
+  }
+
+  async getPayoutEvents(payoutId: string): Promise<PayoutEvent[]> {
+    return this.payoutEvents.filter((event) => event.payoutId === payoutId);
+  }
+
+  private recordPayoutEvent(payoutId: string, status: PayoutStatus, event?: { note?: string | null; actorId?: string | null }) {
+    this.payoutEvents.push({
+      id: randomUUID(),
+      payoutId,
+      status,
+      note: event?.note ?? null,
+      actorId: event?.actorId ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  // Ledger operations. Everything here is synchronous, so each operation is
+  // atomic without the row locks DatabaseStorage needs.
+  async fundProjectEscrow(projectId: string, amount: string, providerReference?: string): Promise<LedgerTransaction> {
+    const project = this.requireProject(projectId);
+    return this.postLedgerTransaction(
+      { type: "escrow_fund", amount, companyId: project.companyId, projectId, providerReference, description: `Escrow funding for "${project.title}"` },
+      [
+        { type: "company_funding", ownerId: project.companyId, cents: -toCents(amount) },
+        { type: "project_escrow", ownerId: projectId, cents: toCents(amount) },
+      ],
+    );
+  }
+
+  async releaseEscrow(
+    projectId: string,
+    submissionId: string,
+    candidateId: string,
+    amount: string,
+    feedback?: string,
+  ): Promise<Payment | undefined> {
+    const project = this.requireProject(projectId);
+    const submission = this.submissions.get(submissionId);
+    if (!submission || !awaitsDecision(submission.status)) {
+      return undefined;
+    }
+    if (this.balanceCents("project_escrow", projectId) < toCents(amount)) {
+      throw new InsufficientEscrowError(projectId);
+    }
+    if (Array.from(this.payments.values()).some((payment) => payment.submissionId === submissionId)) {
+      throw new Error(`duplicate key value violates unique constraint "payments_submission_id_unique"`);
+    }
+    this.submissions.set(submissionId, { ...submission, ...defined({ feedback }), status: "approved", updatedAt: new Date() });
+    const release = this.postLedgerTransaction(
+      { type: "escrow_release", amount, companyId: project.companyId, projectId, submissionId, description: `Payment for "${project.title}"` },
+      [
+        { type: "project_escrow", ownerId: projectId, cents: -toCents(amount) },
+        { type: "candidate_balance", ownerId: candidateId, cents: toCents(amount) },
+      ],
+    );
+    return this.insertPayment({
+      submissionId,
+      candidateId,
+      companyId: project.companyId,
+      amount,
+      status: "pending",
+      ledgerTransactionId: release.id,
+    });
+  }
+
+  async refundProjectEscrow(projectId: string, keep = "0"): Promise<LedgerTransaction | undefined> {
+    const project = this.requireProject(projectId);
+    const remaining = this.balanceCents("project_escrow", projectId) - toCents(keep);
+    if (remaining <= 0) {
+      return undefined;
+    }
+    return this.postLedgerTransaction(
+      { type: "escrow_refund", amount: fromCents(remaining), companyId: project.companyId, projectId, description: `Escrow refund for "${project.title}"` },
+      [
+        { type: "project_escrow", ownerId: projectId, cents: -remaining },
+        { type: "company_funding", ownerId: project.companyId, cents: remaining },
+      ],
+    );
+  }
+
+  async reverseEscrowRefund(refund: LedgerTransaction, providerReference: string): Promise<LedgerTransaction | undefined> {
+    const reversed = Array.from(this.ledgerTransactions.values()).some(
+      (transaction) => transaction.type === "escrow_refund_reversal" && transaction.providerReference === providerReference,
+    );
+    if (reversed) {
+      return undefined;
+    }
+    return this.postLedgerTransaction(
+      {
+        type: "escrow_refund_reversal",
+        amount: refund.amount,
+        companyId: refund.companyId,
+        projectId: refund.projectId,
+        providerReference,
+        description: `Reversal of declined escrow refund ${refund.id}`,
+      },
+      [
+        { type: "company_funding", ownerId: refund.companyId!, cents: -toCents(refund.amount) },
+        { type: "project_escrow", ownerId: refund.projectId!, cents: toCents(refund.amount) },
+      ],
+    );
+  }
+
+  async setLedgerTransactionProviderReference(id: string, providerReference: string): Promise<LedgerTransaction | undefined> {
+    const transaction = this.ledgerTransactions.get(id);
+    if (!transaction) {
+      return undefined;
+    }
+    const updated = { ...transaction, providerReference };
+    this.ledgerTransactions.set(id, updated);
+    return updated;
+  }
+
+  async payCandidatePayout(payoutId: string, paidAt: Date): Promise<Payout | undefined> {
+    const processing = this.payouts.get(payoutId);
+    if (processing?.status !== "processing") {
+      return undefined;
+    }
+    if (this.balanceCents("candidate_balance", processing.candidateId) < toCents(processing.amount)) {
+      throw new Error(`Candidate ${processing.candidateId} can't cover payout ${payoutId}`);
+    }
+    if (Array.from(this.ledgerTransactions.values()).some((transaction) => transaction.payoutId === payoutId)) {
+      throw new Error('duplicate key value violates unique constraint "ledger_transactions_payout_id_unique"');
+    }
+    const payout: Payout = { ...processing, status: "paid", paidAt };
+    this.payouts.set(payoutId, payout);
+    this.recordPayoutEvent(payoutId, "paid");
+    this.postLedgerTransaction(
+      {
+        type: "candidate_payout",
+        amount: payout.amount,
+        payoutId: payout.id,
+        providerReference: payout.providerReference,
+        description: `Payout ${payout.id}`,
+      },
+      [
+        { type: "candidate_balance", ownerId: payout.candidateId, cents: -toCents(payout.amount) },
+        { type: "candidate_payout", ownerId: payout.candidateId, cents: toCents(payout.amount) },
+      ],
+    );
+    for (const payment of Array.from(this.payments.values())) {
+      if (payment.payoutId === payoutId) {
+        this.payments.set(payment.id, {
+          ...payment,
+          status: "paid",
+          provider: payout.provider,
+          providerReference: payout.providerReference,
+          paidAt,
+        });
+      }
+    }
+    return payout;
+  }
+
+  async getProjectEscrowBalance(projectId: string): Promise<string> {
+    return fromCents(this.balanceCents("project_escrow", projectId));
+  }
+
+  async getCandidateBalance(candidateId: string): Promise<string> {
+    return fromCents(this.balanceCents("candidate_balance", candidateId));
+  }
+
+  async getLedgerTransactionsByProject(projectId: string): Promise<LedgerTransaction[]> {
+    return newestFirst(this.ledgerTransactions.values()).filter((transaction) => transaction.projectId === projectId);
+  }
+
+  async getLedgerTransactionByProviderReference(providerReference: string): Promise<LedgerTransaction | undefined> {
+    return Array.from(this.ledgerTransactions.values()).find(
+      (transaction) => transaction.providerReference === providerReference,
+    );
+  }
+
+  private requireProject(projectId: string): Project {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    return project;
+  }
+
+  private findLedgerAccount(type: LedgerAccountType, ownerId: string): LedgerAccount | undefined {
+    return Array.from(this.ledgerAccounts.values()).find(
+      (account) => account.type === type && account.ownerId === ownerId,
+    );
+  }
+
+  private balanceCents(type: LedgerAccountType, ownerId: string, transactionType?: LedgerTransaction["type"]): number {
+    const account = this.findLedgerAccount(type, ownerId);
+    if (!account) return 0;
+    return this.ledgerEntries
+      .filter((entry) => entry.accountId === account.id)
+      .filter((entry) => !transactionType || this.ledgerTransactions.get(entry.transactionId)?.type === transactionType)
+      .reduce((total, entry) => total + toCents(entry.amount), 0);
+  }
+
+  private postLedgerTransaction(
+    values: Pick<LedgerTransaction, "type" | "amount"> &
+      Partial<Omit<LedgerTransaction, "id" | "createdAt" | "type" | "amount">>,
+    entries: { type: LedgerAccountType; ownerId: string; cents: number }[],
+  ): LedgerTransaction {
+    if (entries.reduce((total, entry) => total + entry.cents, 0) !== 0) {
+      throw new Error("Unbalanced ledger transaction");
+    }
+    const now = new Date();
+    const transaction: LedgerTransaction = {
+      companyId: null,
+      projectId: null,
+      submissionId: null,
+      payoutId: null,
+      description: null,
+      providerReference: null,
+      ...defined(values),
+      type: values.type,
+      amount: toMoney(Number(values.amount)),
+      id: randomUUID(),
+      createdAt: now,
+    };
+    this.ledgerTransactions.set(transaction.id, transaction);
+
+    for (const entry of entries) {
+      let account = this.findLedgerAccount(entry.type, entry.ownerId);
+      if (!account) {
+        account = { id: randomUUID(), type: entry.type, ownerId: entry.ownerId, createdAt: now };
+        this.ledgerAccounts.set(account.id, account);
+      }
+      this.ledgerEntries.push({
+        id: randomUUID(),
+        transactionId: transaction.id,
+        accountId: account.id,
+        amount: fromCents(entry.cents),
+        createdAt: now,
+      });
+    }
+    return transaction;
+  }
+
+  private releasedCents(filter: (transaction: LedgerTransaction) => boolean): number {
+    return Array.from(this.ledgerTransactions.values())
+      .filter((transaction) => transaction.type === "escrow_release" && filter(transaction))
+      .reduce((total, transaction) => total + toCents(transaction.amount), 0);
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const created: Notification = {
+      link: null,
+      readAt: null,
+      createdAt: new Date(),
+      ...defined(notification),
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      id: randomUUID(),
+    };
+    this.notifications.set(created.id, created);
+    return created;
+  }
+
+  async getNotificationsByUser(userId: string, limit: number): Promise<Notification[]> {
+    return newestFirst(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .slice(0, limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId && !notification.readAt).length;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+    const updated = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    let marked = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(notification.id, { ...notification, readAt: new Date() });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  // Job operations
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    const existing = job.uniqueKey
+      ? Array.from(this.jobs.values()).find((other) => other.uniqueKey === job.uniqueKey)
+      : undefined;
+    if (existing) {
+      return existing;
+    }
+    const now = new Date();
+    const created: Job = {
+      payload: {},
+      status: "queued",
+      attempts: 0,
+      maxAttempts: 5,
+      runAt: now,
+      uniqueKey: null,
+      lockedAt: null,
+      lastError: null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      ...defined(job),
+      name: job.name,
+      id: randomUUID(),
+    };
+    this.jobs.set(created.id, created);
+    return created;
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued" && job.runAt.getTime() <= now.getTime())
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!next) {
+      return undefined;
+    }
+    const claimed: Job = { ...next, status: "running", lockedAt: now, attempts: next.attempts + 1, updatedAt: now };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByStatus(status: JobStatus, limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === status)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...defined(updates), id, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    let requeued = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status === "running" && job.lockedAt && job.lockedAt.getTime() <= lockedBefore.getTime()) {
+        this.jobs.set(job.id, { ...job, status: "queued", lockedAt: null, updatedAt: new Date() });
+        requeued++;
+      }
+    }
+    return requeued;
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const created: AuditLogEntry = {
+      actorId: null,
+      companyId: null,
+      before: null,
+      after: null,
+      reason: null,
+      ip: null,
+      createdAt: new Date(),
+      ...defined(entry),
+      actorRole: entry.actorRole,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      id: randomUUID(),
+    };
+    this.auditLog.push(created);
+    return created;
+  }
+
+  async searchAuditLog(search: AuditSearch): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const q = search.q?.toLowerCase();
+    const matchingActors = new Set(
+      q
+        ? Array.from(this.users.values())
+            .filter((user) => [user.email, user.firstName, user.lastName].some((value) => value?.toLowerCase().includes(q)))
+            .map((user) => user.id)
+        : [],
+    );
+    const matches = newestFirst(this.auditLog).filter((entry) => {
+      if (
+        q &&
+        ![entry.action, entry.targetId, entry.reason].some((value) => value?.toLowerCase().includes(q)) &&
+        !(entry.actorId && matchingActors.has(entry.actorId))
+      ) {
+        return false;
+      }
+      if (search.action && entry.action !== search.action) return false;
+      if (search.actorId && entry.actorId !== search.actorId) return false;
+      if (search.targetType && entry.targetType !== search.targetType) return false;
+      if (search.companyId && entry.companyId !== search.companyId) return false;
+      if (search.from && entry.createdAt < search.from) return false;
+      if (search.to && entry.createdAt > search.to) return false;
+      return true;
+    });
+    return { entries: matches.slice(search.offset, search.offset + search.limit), total: matches.length };
+  }
+
+  // Stats
+  async getAdminStats() {
+    const companyList = Array.from(this.companies.values());
+    const projectList = Array.from(this.projects.values());
+    const payouts = this.releasedCents(() => true);
+
+    return {
+      totalUsers: this.users.size,
+      totalCompanies: companyList.length,
+      totalProjects: projectList.length,
+      pendingCompanies: companyList.filter((company) => company.status === "pending").length,
+      pendingProjects: projectList.filter((project) => project.status === "pending").length,
+      totalPayouts: payouts > 0 ? fromCents(payouts) : "0",
+    };
+  }
+
+  async getCandidateStats(candidateId: string) {
+    const submissionList = await this.getSubmissionsByCandidate(candidateId);
+    const earnings = this.balanceCents("candidate_balance", candidateId, "escrow_release");
+    const ratingList = await this.getRatingsByCandidate(candidateId);
+    const averageRating = ratingList.length > 0
+      ? ratingList.reduce((total, rating) => total + rating.score, 0) / ratingList.length
+      : 0;
+
+    return {
+      totalSubmissions: submissionList.length,
+      completedProjects: submissionList.filter((submission) => submission.status === "approved").length,
+      totalEarnings: earnings > 0 ? fromCents(earnings) : "0",
+      averageRating,
+    };
+  }
+
+  async getCompanyStats(companyId: string) {
+    const projectList = await this.getProjectsByCompany(companyId);
+    const projectIds = new Set(projectList.map((project) => project.id));
+
+    let submissionCount = 0;
+    let spentSum = "0";
+
+    if (projectIds.size > 0) {
+      submissionCount = Array.from(this.submissions.values()).filter((submission) =>
+        projectIds.has(submission.projectId),
+      ).length;
+
+      const spent = this.releasedCents((transaction) => transaction.companyId === companyId);
+      spentSum = spent > 0 ? fromCents(spent) : "0";
+    }
+
+    return {
+      totalProjects: projectList.length,
+      activeProjects: projectList.filter((project) => project.status === "active").length,
+      totalSubmissions: submissionCount,
+      totalSpent: spentSum,
+    };
+  }
+}
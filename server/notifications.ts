@@ -0,0 +1,311 @@
+import type { Company, CompanyInvitation, CompanyRating, InsertNotification, Payment, Project, Submission, SubmissionMessage, User } from "@shared/schema";
+import { storage } from "./storage";
+import { enqueueJob } from "./jobs/queue";
+import { publish } from "./realtime";
+import { getCompanyMemberIds } from "./companyTeam";
+import type { CompanyPermission } from "@shared/companyRoles";
+import { candidateHandle, isBlindReview, type ReviewDecision } from "@shared/submissionReview";
+import { summarizeCompanyRatings } from "@shared/companyRatings";
+import {
+  companyRejectionReasonLabels,
+  projectRejectionReasonLabels,
+  type CompanyRejectionReason,
+  type ProjectRejectionReason,
+} from "@shared/reviewReasons";
+import {
+  appBaseUrl,
+  companyInvitationEmail,
+  companyRatedEmail,
+  companyReviewedEmail,
+  paymentReleasedEmail,
+  projectReviewedEmail,
+  renderEmail,
+  submissionCreatedEmail,
+  submissionMessageEmail,
+  submissionReviewedEmail,
+  submissionRevisedEmail,
+  welcomeEmail,
+  type EmailContent,
+} from "./mail";
+
+export type NotificationInput = Omit<InsertNotification, "id" | "readAt" | "createdAt">;
+
+// Queues an email for the mail.send job. Keyed so that retrying whatever
+// triggered it doesn't email the user twice.
+async function queueEmail(user: User, content: EmailContent, uniqueKey: string) {
+  if (!user.email) {
+    return;
+  }
+  const message = { to: user.email, ...renderEmail(content, { recipientName: user.firstName, baseUrl: appBaseUrl() }) };
+  await enqueueJob("mail.send", { message }, { uniqueKey });
+}
+
+// Notifications are a side effect of whatever happened, so failing to
+// record one is logged rather than failing the action itself. The email
+// copy is skipped when the user has opted out of this type.
+export async function notify(notification: NotificationInput, email?: EmailContent): Promise<void> {
+  try {
+    const created = await storage.createNotification(notification);
+    publish({ userIds: [notification.userId] }, { type: "notification.created" });
+    if (!email) {
+      return;
+    }
+    const user = await storage.getUser(notification.userId);
+    if (user && !user.emailOptOuts?.includes(notification.type)) {
+      await queueEmail(user, email, `mail:notification:${created.id}`);
+    }
+  } catch (error) {
+    console.error(`Error creating ${notification.type} notification for user ${notification.userId}:`, error);
+  }
+}
+
+// Notifies the members of the company's team whose role lets them act on it
+async function notifyCompany(
+  companyId: string,
+  permission: CompanyPermission,
+  notification: Omit<NotificationInput, "userId">,
+  email?: EmailContent,
+) {
+  for (const userId of await getCompanyMemberIds(companyId, permission)) {
+    await notify({ ...notification, userId }, email);
+  }
+}
+
+// Sent once when an account is created. It isn't a notification type, so
+// it can't be opted out of.
+export async function sendWelcomeEmail(user: User): Promise<void> {
+  try {
+    await queueEmail(user, welcomeEmail(), `mail:welcome:${user.id}`);
+  } catch (error) {
+    console.error(`Error sending welcome email to user ${user.id}:`, error);
+  }
+}
+
+// How the company sees the submission's candidate: by name, or by handle
+// while the project's blind review hides who it is
+async function candidateName(submission: Submission, project: Project): Promise<string> {
+  if (isBlindReview(submission, project)) {
+    return candidateHandle(submission);
+  }
+  const candidate = await storage.getUser(submission.candidateId);
+  return [candidate?.firstName, candidate?.lastName].filter(Boolean).join(" ") || "A candidate";
+}
+
+// Invitations go to an email address that may not have an account yet, so
+// there's no notification, only the email with the link to accept
+export async function sendCompanyInvitationEmail(
+  invitation: CompanyInvitation,
+  company: Company,
+  inviter: User | undefined,
+  token: string,
+): Promise<void> {
+  try {
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") || "A teammate";
+    const content = companyInvitationEmail(company, inviterName, invitation.role, `/invitations/${token}`);
+    const message = { to: invitation.email, ...renderEmail(content, { baseUrl: appBaseUrl() }) };
+    await enqueueJob("mail.send", { message }, { uniqueKey: `mail:invitation:${invitation.id}` });
+  } catch (error) {
+    console.error(`Error sending invitation ${invitation.id}:`, error);
+  }
+}
+
+export async function notifySubmissionCreated(submission: Submission, project: Project): Promise<void> {
+  const name = await candidateName(submission, project);
+  await notifyCompany(
+    project.companyId,
+    "reviewSubmissions",
+    {
+      type: "submission_created",
+      title: "New submission",
+      body: `${name} submitted work for "${project.title}".`,
+      link: "/company",
+    },
+    submissionCreatedEmail(name, project),
+  );
+}
+
+const reviewedMessages: Record<ReviewDecision, { title: string; body: (project: Project) => string }> = {
+  approved: { title: "Submission approved", body: (project) => `Your submission for "${project.title}" was approved.` },
+  changes_requested: {
+    title: "Changes requested",
+    body: (project) => `The company asked for changes to your submission for "${project.title}".`,
+  },
+  rejected: {
+    title: "Submission not selected",
+    body: (project) => `Your submission for "${project.title}" was not selected this time.`,
+  },
+};
+
+export async function notifySubmissionReviewed(
+  submission: Submission,
+  project: Project,
+  decision: ReviewDecision,
+  feedback?: string | null,
+): Promise<void> {
+  await notify(
+    {
+      userId: submission.candidateId,
+      type: "submission_reviewed",
+      title: reviewedMessages[decision].title,
+      body: reviewedMessages[decision].body(project),
+      // Revisions are sent from the project page
+      link: decision === "changes_requested" ? `/projects/${project.id}` : "/candidate",
+    },
+    submissionReviewedEmail(project, decision, feedback),
+  );
+}
+
+// Revisions go out as the same notification type as new submissions
+export async function notifySubmissionRevised(submission: Submission, project: Project): Promise<void> {
+  const name = await candidateName(submission, project);
+  await notifyCompany(
+    project.companyId,
+    "reviewSubmissions",
+    {
+      type: "submission_created",
+      title: "Revised submission",
+      body: `${name} sent revision ${submission.revision} for "${project.title}".`,
+      link: "/company",
+    },
+    submissionRevisedEmail(name, project, submission.revision),
+  );
+}
+
+// Tells the other side of the thread about a new message. Candidates are
+// pointed at the project page, companies at their dashboard.
+export async function notifySubmissionMessage(
+  message: SubmissionMessage,
+  submission: Submission,
+  project: Project,
+): Promise<void> {
+  if (message.sender === "company") {
+    const company = await storage.getCompany(project.companyId);
+    const name = company?.name ?? "The company";
+    const link = `/projects/${project.id}`;
+    await notify(
+      {
+        userId: submission.candidateId,
+        type: "submission_message",
+        title: "New message",
+        body: `${name} sent you a message about "${project.title}".`,
+        link,
+      },
+      submissionMessageEmail(name, project, message.body, link),
+    );
+    return;
+  }
+
+  const name = await candidateName(submission, project);
+  await notifyCompany(
+    project.companyId,
+    "reviewSubmissions",
+    {
+      type: "submission_message",
+      title: "New message",
+      body: `${name} sent you a message about "${project.title}".`,
+      link: "/company",
+    },
+    submissionMessageEmail(name, project, message.body, "/company"),
+  );
+}
+
+export async function notifyCompanyReviewed(
+  company: Company,
+  approved: boolean,
+  reason?: CompanyRejectionReason | null,
+  note?: string | null,
+): Promise<void> {
+  const reasonLabel = reason ? companyRejectionReasonLabels[reason] : null;
+  await notifyCompany(
+    company.id,
+    "manageCompany",
+    {
+      type: "company_reviewed",
+      title: approved ? "Company approved" : "Company not approved",
+      body: approved
+        ? `${company.name} was approved. You can now post projects.`
+        : [`${company.name} was not approved to post projects.`, reasonLabel && `${reasonLabel}.`, note]
+            .filter(Boolean)
+            .join(" "),
+      link: "/company",
+    },
+    companyReviewedEmail(company, approved, reasonLabel, note),
+  );
+}
+
+export async function notifyProjectReviewed(
+  project: Project,
+  approved: boolean,
+  note?: string | null,
+  reason?: ProjectRejectionReason | null,
+): Promise<void> {
+  const live = project.status === "active";
+  const reasonLabel = reason ? projectRejectionReasonLabels[reason] : null;
+  const body = approved
+    ? `"${project.title}" was approved and ${live ? "is now live" : "goes live once its escrow is funded"}.`
+    : `"${project.title}" was not approved.`;
+  await notifyCompany(
+    project.companyId,
+    "manageProjects",
+    {
+      type: "project_reviewed",
+      title: approved ? "Project approved" : "Project rejected",
+      body: [body, reasonLabel && `${reasonLabel}.`, note].filter(Boolean).join(" "),
+      link: approved ? `/projects/${project.id}` : "/company",
+    },
+    projectReviewedEmail(project, approved, note, reasonLabel),
+  );
+}
+
+// Ratings are shown without the candidate's name, so the notification
+// leaves it out too
+export async function notifyCompanyRated(rating: CompanyRating, project: Project): Promise<void> {
+  const score = summarizeCompanyRatings([rating]).score ?? 0;
+  await notifyCompany(
+    rating.companyId,
+    "manageCompany",
+    {
+      type: "company_rated",
+      title: "New rating",
+      body: `A candidate who worked on "${project.title}" rated your company ${score.toFixed(1)} out of 5.`,
+      link: "/company",
+    },
+    companyRatedEmail(project, score),
+  );
+}
+
+// Admins sort out refunds the processor declined once the project is
+// already cancelled or completed, since the company can't ask again
+export async function notifyEscrowRefundFailed(project: Project, amount: string, reason?: string): Promise<void> {
+  let admins: User[];
+  try {
+    ({ users: admins } = await storage.searchUsers({ role: "admin", status: "active", limit: 100, offset: 0 }));
+  } catch (error) {
+    console.error(`Error finding admins to notify about the escrow refund for project ${project.id}:`, error);
+    return;
+  }
+  for (const admin of admins) {
+    await notify({
+      userId: admin.id,
+      type: "escrow_refund_failed",
+      title: "Escrow refund failed",
+      body: [`The $${amount} refund to the company behind "${project.title}" was declined and is back in escrow.`, reason]
+        .filter(Boolean)
+        .join(" "),
+      link: "/admin",
+    });
+  }
+}
+
+export async function notifyPaymentReleased(payment: Payment, project: Project): Promise<void> {
+  await notify(
+    {
+      userId: payment.candidateId,
+      type: "payment_released",
+      title: "Payment released",
+      body: `$${payment.amount} for "${project.title}" was added to your balance.`,
+      link: "/candidate",
+    },
+    paymentReleasedEmail(payment, project),
+  );
+}
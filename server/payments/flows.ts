@@ -0,0 +1,228 @@
+import type { Payout, Project } from "@shared/schema";
+import { storage } from "../storage";
+import { escrowShortfall, fromCents, toCents } from "../ledger";
+import { systemActor, transitionProject, type ProjectActorRef } from "../projectLifecycle";
+import { publish } from "../realtime";
+import { notifyEscrowRefundFailed } from "../notifications";
+import { getPaymentProvider } from "./index";
+import type { PaymentEvent, PaymentResult } from "./types";
+
+// Thrown when the processor declines a charge or refund outright
+export class PaymentFailedError extends Error {
+  constructor(reason?: string) {
+    super(reason ? `Payment failed: ${reason}` : "Payment failed");
+    this.name = "PaymentFailedError";
+  }
+}
+
+// Approves a pending project and charges the company for its escrow. A
+// succeeded charge funds the escrow and makes the project active straight
+// away; a pending one leaves it approved until the processor's webhook
+// settles the charge. A declined charge sends the project back to pending.
+//
+// A live project sent back for review after an edit is only charged what
+// its escrow is short of, so approving one that still covers every open
+// slot makes it active without charging. Returns null then.
+export async function fundProjectEscrow(project: Project, approvedBy: ProjectActorRef): Promise<PaymentResult | null> {
+  // Approve first: of two admins approving at once, only one gets past this
+  // and charges
+  const approved = await transitionProject(project, "approve", approvedBy);
+  const transactions = await storage.getLedgerTransactionsByProject(project.id);
+  const released = transactions
+    .filter((transaction) => transaction.type === "escrow_release")
+    .reduce((total, transaction) => total + toCents(transaction.amount), 0);
+  const amount = escrowShortfall(project, await storage.getProjectEscrowBalance(project.id), fromCents(released));
+  if (toCents(amount) === 0) {
+    await transitionProject(approved, "activate", systemActor);
+    return null;
+  }
+
+  // Funding rounds count the charges that went through, so each top-up
+  // gets its own key
+  const round = transactions.filter((transaction) => transaction.type === "escrow_fund").length + 1;
+  let charge: PaymentResult;
+  try {
+    charge = await getPaymentProvider().charge({
+      amount,
+      companyId: project.companyId,
+      description: `Escrow funding for "${project.title}"`,
+      // One charge per approval. Retrying after a decline approves, and so
+      // charges, afresh.
+      idempotencyKey: `escrow_fund:${project.id}:${round}:${await approvalId(project.id)}`,
+      metadata: { kind: "escrow_fund", projectId: project.id, amount },
+    });
+  } catch (error) {
+    await transitionProject(approved, "fundingFailed", systemActor);
+    throw error;
+  }
+
+  if (charge.status === "failed") {
+    await transitionProject(approved, "fundingFailed", systemActor, charge.failureReason);
+    throw new PaymentFailedError(charge.failureReason);
+  }
+  if (charge.status === "succeeded") {
+    await completeEscrowFunding(project.id, amount, charge.reference);
+  }
+  return charge;
+}
+
+// The status history entry of the project's latest approval
+async function approvalId(projectId: string): Promise<string> {
+  const history = await storage.getProjectStatusHistory(projectId);
+  const approval = history.filter((change) => change.action === "approve").pop();
+  if (!approval) {
+    throw new Error(`Project ${projectId} has no approval to charge for`);
+  }
+  return approval.id;
+}
+
+async function completeEscrowFunding(projectId: string, amount: string, reference: string) {
+  // Webhooks can be delivered more than once
+  if (await storage.getLedgerTransactionByProviderReference(reference)) {
+    return;
+  }
+  await storage.fundProjectEscrow(projectId, amount, reference);
+
+  const project = await storage.getProject(projectId);
+  if (project?.status === "approved") {
+    await transitionProject(project, "activate", systemActor);
+  }
+}
+
+// Refunds what is left in the project's escrow to the company, all but
+// `keep`. Returns the refunded amount, "0" when there was nothing to
+// refund. A declined refund goes back into escrow and admins are told.
+export async function refundProjectEscrow(project: Project, keep = "0"): Promise<string> {
+  const funding = (await storage.getLedgerTransactionsByProject(project.id))
+    .find((transaction) => transaction.type === "escrow_fund" && transaction.providerReference);
+
+  // The refund leaves escrow first: of two refunds at once, only one finds
+  // anything left to send
+  const refund = await storage.refundProjectEscrow(project.id, keep);
+  // Escrow funded before payments went through a processor only needs the
+  // ledger side of the refund
+  if (!refund || !funding?.providerReference) {
+    return refund?.amount ?? "0";
+  }
+
+  let result: PaymentResult;
+  try {
+    result = await getPaymentProvider().refund({
+      amount: refund.amount,
+      chargeReference: funding.providerReference,
+      description: `Escrow refund for "${project.title}"`,
+      idempotencyKey: `escrow_refund:${refund.id}`,
+      metadata: { kind: "escrow_refund", projectId: project.id, amount: refund.amount, transactionId: refund.id },
+    });
+  } catch (error) {
+    await storage.reverseEscrowRefund(refund, `escrow_refund:${refund.id}`);
+    throw error;
+  }
+  await storage.setLedgerTransactionProviderReference(refund.id, result.reference);
+  if (result.status === "failed") {
+    await storage.reverseEscrowRefund(refund, result.reference);
+    await notifyEscrowRefundFailed(project, refund.amount, result.failureReason);
+    throw new PaymentFailedError(result.failureReason);
+  }
+  // A pending refund is already on its way back, so it stays out of escrow
+  return refund.amount;
+}
+
+// Sends an approved payout to the candidate. The payout stays processing
+// until the transfer succeeds; a failed transfer puts its payments back in
+// the candidate's withdrawable balance.
+export async function sendPayout(payout: Payout): Promise<Payout> {
+  const provider = getPaymentProvider();
+  const transfer = await provider.transfer({
+    amount: payout.amount,
+    candidateId: payout.candidateId,
+    description: `Payout ${payout.id}`,
+    idempotencyKey: `payout:${payout.id}`,
+    metadata: { kind: "payout", payoutId: payout.id },
+  });
+
+  const updated = await storage.updatePayout(payout.id, {
+    provider: provider.name,
+    providerReference: transfer.reference,
+  });
+  return settlePayout(updated ?? payout, transfer);
+}
+
+async function settlePayout(payout: Payout, result: PaymentResult): Promise<Payout> {
+  if (result.status === "pending") {
+    return payout;
+  }
+  // A retried job or a redelivered webhook can settle a payout again; only
+  // the first settlement of a processing payout does anything
+  if (result.status === "failed") {
+    const failed = await storage.updatePayout(
+      payout.id,
+      { status: "failed", failureReason: result.failureReason ?? null },
+      { note: result.failureReason, fromStatus: "processing" },
+    );
+    if (!failed) {
+      return (await storage.getPayout(payout.id)) ?? payout;
+    }
+    await storage.updatePaymentsByPayout(payout.id, { payoutId: null });
+    publishPayoutUpdate(payout);
+    return failed;
+  }
+
+  const paid = await storage.payCandidatePayout(payout.id, new Date());
+  if (!paid) {
+    return (await storage.getPayout(payout.id)) ?? payout;
+  }
+  publishPayoutUpdate(payout);
+  return paid;
+}
+
+function publishPayoutUpdate(payout: Payout) {
+  publish({ userIds: [payout.candidateId], roles: ["admin"] }, { type: "payout.updated", payoutId: payout.id });
+}
+
+// Applies a verified webhook event from the processor
+export async function handlePaymentEvent(event: PaymentEvent): Promise<void> {
+  switch (event.metadata.kind) {
+    case "escrow_fund": {
+      const { projectId, amount } = event.metadata;
+      if (event.status === "succeeded") {
+        await completeEscrowFunding(projectId, amount, event.reference);
+      } else if (event.status === "failed") {
+        // Back to the admin queue so the project can be approved again
+        const project = await storage.getProject(projectId);
+        if (project?.status === "approved") {
+          await transitionProject(project, "fundingFailed", systemActor, event.failureReason);
+        }
+      }
+      return;
+    }
+    case "escrow_refund": {
+      if (event.status !== "failed") {
+        return;
+      }
+      // The refund left escrow when it was sent, so a declined one goes back
+      const { projectId } = event.metadata;
+      const refund = (await storage.getLedgerTransactionsByProject(projectId)).find(
+        (transaction) => transaction.type === "escrow_refund" && transaction.providerReference === event.reference,
+      );
+      if (!refund) {
+        throw new Error(`No escrow refund ${event.reference} for project ${projectId}`);
+      }
+      const reversal = await storage.reverseEscrowRefund(refund, event.reference);
+      const project = await storage.getProject(projectId);
+      if (reversal && project) {
+        await notifyEscrowRefundFailed(project, refund.amount, event.failureReason);
+      }
+      return;
+    }
+    case "payout": {
+      const payout = await storage.getPayoutByProviderReference(event.reference);
+      if (payout?.status === "processing") {
+        await settlePayout(payout, event);
+      }
+      return;
+    }
+    default:
+      console.warn(`Ignoring payment event ${event.reference} of unknown kind "${event.metadata.kind}"`);
+  }
+}
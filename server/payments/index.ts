@@ -0,0 +1,49 @@
+import { PaymentSimulator, simulatedOutcomes, type SimulatedOutcome } from "./simulator";
+import type { PaymentProvider } from "./types";
+
+export type {
+  PaymentEvent,
+  PaymentOperationStatus,
+  PaymentProvider,
+  PaymentResult,
+} from "./types";
+export { PaymentSimulator } from "./simulator";
+
+function createSimulator(): PaymentSimulator {
+  // Moving fake money in production is never what anyone wants, so the
+  // simulator has to be asked for by name there
+  if (process.env.NODE_ENV === "production" && process.env.PAYMENT_PROVIDER !== "simulator") {
+    throw new Error("Set PAYMENT_PROVIDER to use the payment simulator in production");
+  }
+
+  const outcome = process.env.PAYMENT_SIMULATOR_OUTCOME ?? "succeed";
+  if (!(simulatedOutcomes as readonly string[]).includes(outcome)) {
+    throw new Error(`Unknown PAYMENT_SIMULATOR_OUTCOME "${outcome}"`);
+  }
+  return new PaymentSimulator(
+    outcome as SimulatedOutcome,
+    process.env.PAYMENT_WEBHOOK_SECRET ?? "simulator-webhook-secret",
+  );
+}
+
+// Picks the processor from PAYMENT_PROVIDER. The simulator is the only one
+// so far and the default outside production.
+function resolveProvider(): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER ?? "simulator";
+
+  switch (name) {
+    case "simulator":
+      return createSimulator();
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+}
+
+let provider: PaymentProvider | undefined;
+
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = resolveProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,128 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import type {
+  ChargeInput,
+  PaymentEvent,
+  PaymentOperationInput,
+  PaymentOperationStatus,
+  PaymentProvider,
+  PaymentResult,
+  RefundInput,
+  TransferInput,
+} from "./types";
+
+export type SimulatedOutcome = "succeed" | "fail" | "pending";
+
+export const simulatedOutcomes: SimulatedOutcome[] = ["succeed", "fail", "pending"];
+
+export const SIGNATURE_HEADER = "x-simulator-signature";
+
+interface SimulatedOperation extends PaymentResult {
+  kind: "charge" | "transfer" | "refund";
+  amount: string;
+  metadata: Record<string, string>;
+}
+
+const outcomeStatus: Record<SimulatedOutcome, PaymentOperationStatus> = {
+  succeed: "succeeded",
+  fail: "failed",
+  pending: "pending",
+};
+
+// Deterministic in-process payment processor for development and tests.
+// Every operation gets the default outcome unless outcomes have been queued
+// with queueOutcome(). Pending operations stay pending until settle() is
+// called, which produces the signed webhook the real processor would send.
+export class PaymentSimulator implements PaymentProvider {
+  name = "simulator";
+  private operations = new Map<string, SimulatedOperation>();
+  private queuedOutcomes: SimulatedOutcome[] = [];
+
+  constructor(
+    private defaultOutcome: SimulatedOutcome,
+    private webhookSecret: string,
+  ) {}
+
+  // The next operations take these outcomes, in order
+  queueOutcome(...outcomes: SimulatedOutcome[]) {
+    this.queuedOutcomes.push(...outcomes);
+  }
+
+  async charge(input: ChargeInput): Promise<PaymentResult> {
+    return this.execute("charge", input);
+  }
+
+  async transfer(input: TransferInput): Promise<PaymentResult> {
+    return this.execute("transfer", input);
+  }
+
+  async refund(input: RefundInput): Promise<PaymentResult> {
+    return this.execute("refund", input);
+  }
+
+  getOperation(reference: string): PaymentResult | undefined {
+    const operation = this.operations.get(reference);
+    return operation && { reference, status: operation.status, failureReason: operation.failureReason };
+  }
+
+  // Completes a pending operation and returns the webhook request for it
+  settle(reference: string, status: Exclude<PaymentOperationStatus, "pending">) {
+    const operation = this.operations.get(reference);
+    if (!operation) {
+      throw new Error(`Unknown simulated payment ${reference}`);
+    }
+    if (operation.status !== "pending") {
+      throw new Error(`Simulated payment ${reference} is already ${operation.status}`);
+    }
+    operation.status = status;
+    operation.failureReason = status === "failed" ? "Simulated failure" : undefined;
+
+    const event: PaymentEvent = {
+      reference,
+      status,
+      failureReason: operation.failureReason,
+      metadata: operation.metadata,
+    };
+    const body = JSON.stringify(event);
+    return { body, headers: { [SIGNATURE_HEADER]: this.sign(body) } };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const signature = headers[SIGNATURE_HEADER];
+    const expected = Buffer.from(this.sign(rawBody));
+    if (
+      typeof signature !== "string" ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), expected)
+    ) {
+      throw new Error("Invalid webhook signature");
+    }
+    return JSON.parse(rawBody.toString("utf8")) as PaymentEvent;
+  }
+
+  private sign(body: string | Buffer): string {
+    return createHmac("sha256", this.webhookSecret).update(body).digest("hex");
+  }
+
+  private execute(kind: SimulatedOperation["kind"], input: PaymentOperationInput): PaymentResult {
+    // References derive from the idempotency key, so retries return the
+    // original result instead of moving money again
+    const reference = `sim_${kind}_${createHash("sha256").update(input.idempotencyKey).digest("hex").slice(0, 20)}`;
+    const existing = this.operations.get(reference);
+    if (existing) {
+      return { reference, status: existing.status, failureReason: existing.failureReason };
+    }
+
+    const outcome = this.queuedOutcomes.shift() ?? this.defaultOutcome;
+    const operation: SimulatedOperation = {
+      kind,
+      reference,
+      amount: input.amount,
+      metadata: input.metadata,
+      status: outcomeStatus[outcome],
+      failureReason: outcome === "fail" ? "Simulated failure" : undefined,
+    };
+    this.operations.set(reference, operation);
+    return { reference, status: operation.status, failureReason: operation.failureReason };
+  }
+}
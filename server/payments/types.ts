@@ -0,0 +1,48 @@
+import type { IncomingHttpHeaders } from "http";
+
+export type PaymentOperationStatus = "pending" | "succeeded" | "failed";
+
+export interface PaymentOperationInput {
+  amount: string;
+  description: string;
+  // Retrying an operation with the same key must not move money twice
+  idempotencyKey: string;
+  // Echoed back in webhook events so they can be matched to our records
+  metadata: Record<string, string>;
+}
+
+export interface ChargeInput extends PaymentOperationInput {
+  companyId: string;
+}
+
+export interface TransferInput extends PaymentOperationInput {
+  candidateId: string;
+}
+
+export interface RefundInput extends PaymentOperationInput {
+  chargeReference: string;
+}
+
+export interface PaymentResult {
+  reference: string;
+  status: PaymentOperationStatus;
+  failureReason?: string;
+}
+
+// Sent by the processor when an operation that was pending settles
+export interface PaymentEvent extends PaymentResult {
+  metadata: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  // Collects money from a company, used to fund project escrow
+  charge(input: ChargeInput): Promise<PaymentResult>;
+  // Sends money to a candidate
+  transfer(input: TransferInput): Promise<PaymentResult>;
+  // Returns money from an earlier charge to the company
+  refund(input: RefundInput): Promise<PaymentResult>;
+  // Checks the signature of a webhook request and parses its event.
+  // Throws when the request didn't come from the processor.
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
@@ -0,0 +1,116 @@
+import type { Project } from "@shared/schema";
+import { storage } from "./storage";
+import { refundProjectEscrow } from "./payments/flows";
+import { systemActor, transitionProject, type ProjectActorRef } from "./projectLifecycle";
+import { awaitsDecision } from "@shared/submissionReview";
+import { fromCents, toCents } from "./ledger";
+
+// Thrown when a project is closed while submissions still wait for a
+// review, since the escrow has to stay to pay for them
+export class SubmissionsAwaitingReviewError extends Error {
+  constructor(public count: number) {
+    super(`Review the ${count} outstanding submission${count === 1 ? "" : "s"} before closing this project`);
+    this.name = "SubmissionsAwaitingReviewError";
+  }
+}
+
+async function countAwaitingReview(projectId: string): Promise<number> {
+  const submissionList = await storage.getSubmissionsByProject(projectId);
+  return submissionList.filter((submission) => awaitsDecision(submission.status)).length;
+}
+
+// Refunds the escrow an ended project no longer needs, holding back what
+// the submissions still waiting for a review could be paid. Their reviews
+// queue projects.completeIfDone, which hands back the rest. A declined
+// refund stays in escrow for admins to sort out.
+export async function refundEndedProjectEscrow(project: Project): Promise<string> {
+  const awaiting = await countAwaitingReview(project.id);
+  try {
+    return await refundProjectEscrow(project, fromCents(awaiting * toCents(project.payment)));
+  } catch (error) {
+    console.error(`Error refunding the escrow of project ${project.id}:`, error);
+    return "0";
+  }
+}
+
+// Completes a project, handing whatever is left in its escrow back to the
+// company. The company closing it early and the system completing it both
+// end up here.
+export async function completeProject(
+  project: Project,
+  by: ProjectActorRef,
+  note?: string | null,
+): Promise<{ project: Project; refunded: string }> {
+  const awaiting = await countAwaitingReview(project.id);
+  if (awaiting > 0) {
+    throw new SubmissionsAwaitingReviewError(awaiting);
+  }
+  return endProject(project, by.actor === "system" ? "complete" : "close", by, note);
+}
+
+// Cancels a project and refunds its escrow. Submissions still waiting for
+// a review can be reviewed and paid from what is held back for them.
+export function cancelProject(
+  project: Project,
+  by: ProjectActorRef,
+  note?: string | null,
+): Promise<{ project: Project; refunded: string }> {
+  return endProject(project, "cancel", by, note);
+}
+
+async function endProject(
+  project: Project,
+  action: "complete" | "close" | "cancel",
+  by: ProjectActorRef,
+  note?: string | null,
+): Promise<{ project: Project; refunded: string }> {
+  // Ended first, so no submission comes in while the escrow goes back
+  const ended = await transitionProject(project, action, by, note);
+  const refunded = await refundEndedProjectEscrow(ended);
+  return { project: ended, refunded };
+}
+
+// Completes the project once every slot has an approved submission, or
+// once its deadline has passed and the last submission has been reviewed.
+// Returns undefined while the project still has work to do.
+export async function completeProjectIfDone(project: Project, now = new Date()): Promise<Project | undefined> {
+  if (project.status !== "active" && project.status !== "paused") {
+    return undefined;
+  }
+
+  const submissionList = await storage.getSubmissionsByProject(project.id);
+  const approved = submissionList.filter((submission) => submission.status === "approved").length;
+  const awaiting = submissionList.filter((submission) => awaitsDecision(submission.status)).length;
+  const filled = project.maxSubmissions != null && approved >= project.maxSubmissions;
+  const expired = !!project.deadline && project.deadline.getTime() <= now.getTime();
+  if (awaiting > 0 || (!filled && !expired)) {
+    return undefined;
+  }
+
+  const { project: completed } = await completeProject(
+    project,
+    systemActor,
+    filled ? "Every submission slot was filled" : "The deadline passed",
+  );
+  return completed;
+}
+
+// Sweeps live projects whose deadline has passed
+export async function completeExpiredProjects(now = new Date()): Promise<Project[]> {
+  const live = await storage.getProjectsByStatus(["active", "paused"]);
+  const completed: Project[] = [];
+  for (const project of live) {
+    if (!project.deadline || project.deadline.getTime() > now.getTime()) {
+      continue;
+    }
+    try {
+      const result = await completeProjectIfDone(project, now);
+      if (result) {
+        completed.push(result);
+      }
+    } catch (error) {
+      console.error(`Error completing project ${project.id}:`, error);
+    }
+  }
+  return completed;
+}
@@ -0,0 +1,54 @@
+import type { Project, ProjectActor } from "@shared/schema";
+import { canTransition, projectTransitions, type ProjectAction } from "@shared/projectLifecycle";
+import { storage } from "./storage";
+import { publishToCompany } from "./realtime";
+
+// Thrown when a status change isn't in the transition table for the
+// project's current status and the acting party
+export class ProjectTransitionError extends Error {
+  constructor(public project: Project, public action: ProjectAction) {
+    super(`Can't ${action} a project that is ${project.status}`);
+    this.name = "ProjectTransitionError";
+  }
+}
+
+export interface ProjectActorRef {
+  actor: ProjectActor;
+  // The user acting, null for the system
+  actorId: string | null;
+}
+
+export const systemActor: ProjectActorRef = { actor: "system", actorId: null };
+
+// Applies a transition from the shared table and records it in the
+// project's status history, with the reason code for rejections. The status
+// is compared and set in one step, so a concurrent change makes this throw
+// instead of being overwritten. Edits that go with the transition are saved
+// in the same step.
+export async function transitionProject(
+  project: Project,
+  action: ProjectAction,
+  by: ProjectActorRef,
+  note?: string | null,
+  reason?: string | null,
+  updates?: Partial<Omit<Project, "status">>,
+): Promise<Project> {
+  if (!canTransition(project.status, action, by.actor)) {
+    throw new ProjectTransitionError(project, action);
+  }
+  const updated = await storage.transitionProjectStatus(project.id, {
+    action,
+    fromStatus: project.status,
+    toStatus: projectTransitions[action].to,
+    actor: by.actor,
+    actorId: by.actorId,
+    reason: reason || null,
+    note: note || null,
+  }, updates);
+  if (!updated) {
+    const current = await storage.getProject(project.id);
+    throw new ProjectTransitionError(current ?? project, action);
+  }
+  await publishToCompany(updated.companyId, { type: "project.updated", projectId: updated.id });
+  return updated;
+}
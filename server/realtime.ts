@@ -0,0 +1,131 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import type { User } from "@shared/schema";
+import { realtimePath, type RealtimeEvent } from "@shared/realtime";
+import { getSessionUser, sessionEndedReason } from "./auth";
+import { storage } from "./storage";
+import { getCompanyMemberIds } from "./companyTeam";
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  role: User["role"];
+  alive: boolean;
+}
+
+export interface Audience {
+  userIds?: (string | null | undefined)[];
+  roles?: User["role"][];
+}
+
+const clients = new Set<RealtimeClient>();
+let server: WebSocketServer | undefined;
+
+// Sends an event to every open connection of the audience. Publishing is
+// fire and forget: clients that miss an event catch up on their next fetch.
+export function publish(audience: Audience, event: RealtimeEvent): void {
+  const data = JSON.stringify(event);
+  for (const client of Array.from(clients)) {
+    const addressed = audience.userIds?.includes(client.userId) || audience.roles?.includes(client.role);
+    if (addressed && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(data);
+    }
+  }
+}
+
+// Publishes to the company's team and admins, plus any other users given
+export async function publishToCompany(
+  companyId: string,
+  event: RealtimeEvent,
+  userIds: (string | null | undefined)[] = [],
+): Promise<void> {
+  if (clients.size === 0) {
+    return;
+  }
+  try {
+    const memberIds = await getCompanyMemberIds(companyId);
+    publish({ userIds: [...memberIds, ...userIds], roles: ["admin"] }, event);
+  } catch (error) {
+    console.error(`Error publishing ${event.type}:`, error);
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer) {
+  try {
+    const sessionUser = await getSessionUser(req);
+    const user = sessionUser && (await storage.getUser(sessionUser.claims.sub));
+    if (!user || sessionEndedReason(user, sessionUser)) {
+      return reject(socket, "401 Unauthorized");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: RealtimeClient = { socket: ws, userId: user.id, role: user.role, alive: true };
+      clients.add(client);
+      ws.on("pong", () => {
+        client.alive = true;
+      });
+      ws.on("close", () => clients.delete(client));
+      ws.on("error", (error) => console.error(`Realtime connection for user ${user.id} failed:`, error));
+    });
+  } catch (error) {
+    console.error("Error opening realtime connection:", error);
+    reject(socket, "500 Internal Server Error");
+  }
+}
+
+// Serves the push channel on the app's HTTP server. Other upgrade requests,
+// such as Vite's HMR socket in development, are left to their own handlers.
+export function attachRealtime(httpServer: Server, heartbeatInterval = 30_000): void {
+  const wss = new WebSocketServer({ noServer: true });
+  server = wss;
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname === realtimePath) {
+      void handleUpgrade(wss, req, socket, head);
+    }
+  });
+
+  // Drops connections that stopped answering pings, e.g. a laptop that
+  // went to sleep, so they don't pile up
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, heartbeatInterval);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+// Closes the user's connections, e.g. once they're suspended or their role
+// changes. Connections remember the role they were opened with, so a
+// client still signed in reconnects with the new one.
+export function disconnectUser(userId: string, reason: string): void {
+  for (const client of Array.from(clients)) {
+    if (client.userId === userId) {
+      client.socket.close(4001, reason);
+      clients.delete(client);
+    }
+  }
+}
+
+// Closes every connection so the HTTP server can shut down
+export function closeRealtime(): void {
+  for (const client of Array.from(clients)) {
+    client.socket.close(1001, "Server shutting down");
+  }
+  clients.clear();
+  server?.close();
+}
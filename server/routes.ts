@@ -1,7 +1,111 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, RequestHandler, Response } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated } from "./auth";
+import {
+  auditSearchSchema,
+  companyInvitationRequestSchema,
+  companyRatingModerationSchema,
+  companyRatingReplySchema,
+  companyRatingReportSchema,
+  companyRatingRequestSchema,
+  companyReviewRequestSchema,
+  insertPayoutMethodSchema,
+  jobStatusEnum,
+  notificationTypeEnum,
+  payoutStatusEnum,
+  projectReviewRequestSchema,
+  projectSearchSchema,
+  projectStatusEnum,
+  userRoleEnum,
+  userSearchSchema,
+  type AuditLogEntry,
+  type AuditLogEntryWithActor,
+  type CompanyMemberWithUser,
+  type CompanyRating,
+  type InsertProject,
+  type JobStatus,
+  type PayoutMethod,
+  type PayoutStatus,
+  type Project,
+  type ProjectStatus,
+  type SubmissionFile,
+  type SubmissionMessageFile,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { InsufficientEscrowError, PayoutConflictError, fromCents, minimumPayoutAmount, toCents } from "./ledger";
+import { SubmissionClosedError, getProjectAvailability } from "./availability";
+import { getPaymentProvider, PaymentSimulator } from "./payments";
+import { CaptureTransport, getMailTransport } from "./mail";
+import {
+  StoredFileNotFoundError,
+  acceptFiles,
+  getFileStorage,
+  removeStored,
+  storeUploads,
+  type StoredUpload,
+  type UploadedFile,
+} from "./files";
+import { imageFileRules, messageFileRules, submissionFileRules } from "@shared/uploads";
+import { InvalidImageError, parseImagePath, removeImage, storeImage } from "./images";
+import {
+  buildInvoiceDocument,
+  buildStatementDocument,
+  describeInvoice,
+  ensureInvoices,
+  getStatementMonths,
+  renderBillingCsv,
+  renderBillingPdf,
+  statementMonthPattern,
+  type BillingDocument,
+} from "./invoices";
+import { PaymentFailedError, fundProjectEscrow, handlePaymentEvent } from "./payments/flows";
+import { enqueueJob } from "./jobs";
+import {
+  notifyCompanyRated,
+  notifyCompanyReviewed,
+  notifyPaymentReleased,
+  notifyProjectReviewed,
+  notifySubmissionCreated,
+  notifySubmissionMessage,
+  notifySubmissionReviewed,
+  notifySubmissionRevised,
+  sendCompanyInvitationEmail,
+} from "./notifications";
+import { ProjectTransitionError, transitionProject } from "./projectLifecycle";
+import { SubmissionsAwaitingReviewError, cancelProject, completeProject } from "./projectCompletion";
+import { canTransition } from "@shared/projectLifecycle";
+import {
+  changedProjectFields,
+  isFundedProject,
+  isLiveProject,
+  isMaterialProjectEdit,
+  projectEditError,
+} from "@shared/projectEditing";
+import {
+  awaitsDecision,
+  candidateHandle,
+  isBlindReview,
+  reviewDecisions,
+  revisionsLeft,
+  type ReviewDecision,
+} from "@shared/submissionReview";
+import { rubricSchema, scoreRubric, weightedScore, type CriterionScore } from "@shared/rubric";
+import { canRateCompany, ratesPaymentSpeed, summarizeCompanyRatings } from "@shared/companyRatings";
+import {
+  earningsBand,
+  handlePattern,
+  publicProfileFields,
+  reservedHandles,
+  shownProfileFields,
+  type PublicCandidateProfile,
+} from "@shared/publicProfile";
+import { disconnectUser, publish, publishToCompany } from "./realtime";
+import { recordAudit, renderAuditCsv } from "./audit";
+import { createInvitationToken, getMembership, hashInvitationToken, invitationLifetimeMs } from "./companyTeam";
+import { assignableCompanyRoles, hasCompanyPermission, type CompanyPermission } from "@shared/companyRoles";
 
 // Role-based authorization middleware
 const requireRole = (allowedRoles: string[]): RequestHandler => {
@@ -32,17 +136,241 @@ const requireRole = (allowedRoles: string[]): RequestHandler => {
   };
 };
 
+// Company routes act for the company the user is on the team of. Attaches
+// the company and the user's membership to the request, and turns away
+// roles without the permission.
+const requireCompanyMember = (permission?: CompanyPermission): RequestHandler => {
+  return async (req: any, res, next) => {
+    try {
+      const membership = await getMembership(req.user.claims.sub);
+      if (!membership) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      
+      if (permission && !hasCompanyPermission(membership.member.role, permission)) {
+        return res.status(403).json({ message: "Your role on the team can't do this" });
+      }
+      
+      req.membership = membership;
+      next();
+    } catch (error) {
+      console.error("Company authorization error:", error);
+      res.status(500).json({ message: "Authorization error" });
+    }
+  };
+};
+
+// Whether the user is on the company's team with a role that reviews
+// submissions
+const reviewsForCompany = async (userId: string, companyId: string): Promise<boolean> => {
+  const member = await storage.getCompanyMemberByUser(userId);
+  return member?.companyId === companyId && hasCompanyPermission(member.role, "reviewSubmissions");
+};
+
+// Only the submission's candidate and the company team that owns the
+// project see its revisions and message thread. Attaches the submission, its
+// project and which side the user is on to the request.
+const requireSubmissionParty: RequestHandler = async (req: any, res, next) => {
+  try {
+    const userId = req.user.claims.sub;
+    const submission = await storage.getSubmission(req.params.id);
+    const project = submission ? await storage.getProject(submission.projectId) : undefined;
+    if (!submission || !project) {
+      return res.status(404).json({ message: "Submission not found" });
+    }
+    
+    const side = submission.candidateId === userId
+      ? "candidate"
+      : await reviewsForCompany(userId, project.companyId) ? "company" : undefined;
+    if (!side) {
+      return res.status(403).json({ message: "Not authorized to view this submission" });
+    }
+    
+    req.party = { submission, project, side };
+    next();
+  } catch (error) {
+    console.error("Submission authorization error:", error);
+    res.status(500).json({ message: "Authorization error" });
+  }
+};
+
+// Streams a stored upload as a download
+const sendStoredFile = async (res: Response, file: SubmissionFile | SubmissionMessageFile) => {
+  const stream = await getFileStorage().get(file.storageKey);
+  res.attachment(file.fileName);
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Content-Length", String(file.size));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  stream.on("error", (error) => {
+    console.error(`Error streaming file ${file.id}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+// Candidates only see the end of their bank account numbers
+const maskPayoutMethod = (method: PayoutMethod): PayoutMethod =>
+  method.type === "bank_transfer"
+    ? { ...method, details: `•••• ${method.details.slice(-4)}` }
+    : method;
+
+// Sends an invoice or statement as a download in the requested format
+const sendBillingDocument = async (res: Response, document: BillingDocument, format: string) => {
+  const filename = `${document.number}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  if (format === "csv") {
+    res.type("text/csv").send(renderBillingCsv(document));
+  } else {
+    res.type("application/pdf").send(await renderBillingPdf(document));
+  }
+};
+
+// The most audit log entries one export holds
+const auditExportLimit = 10000;
+
+// Attaches who took each action to audit log entries
+const withAuditActors = async (entries: AuditLogEntry[]): Promise<AuditLogEntryWithActor[]> => {
+  const actorIds = Array.from(new Set(entries.flatMap((entry) => (entry.actorId ? [entry.actorId] : []))));
+  const actors = new Map(
+    (await Promise.all(actorIds.map((id) => storage.getUser(id))))
+      .filter((user) => user !== undefined)
+      .map((user) => [user.id, { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName }]),
+  );
+  return entries.map((entry) => ({ ...entry, actor: (entry.actorId && actors.get(entry.actorId)) || null }));
+};
+
+// The most recent rejection in a company's or project's status history
+const latestRejection = <Change extends { action: string }>(history: Change[]): Change | null =>
+  history.filter((change) => change.action === "reject").pop() ?? null;
+
+// A candidate's public profile with only the fields they chose to show. The
+// work history is their approved submissions, newest first.
+const publicCandidateProfile = async (user: User, handle: string) => {
+  const shown = new Set(shownProfileFields(user));
+  const profile: PublicCandidateProfile = { handle };
+  
+  if (shown.has("name")) {
+    profile.name = [user.firstName, user.lastName].filter(Boolean).join(" ") || null;
+  }
+  if (shown.has("photo")) profile.profileImageUrl = user.profileImageUrl;
+  if (shown.has("bio")) profile.bio = user.bio;
+  if (shown.has("skills")) profile.skills = user.skills ?? [];
+  if (shown.has("experience")) profile.experience = user.experience;
+  if (shown.has("portfolioUrl")) profile.portfolioUrl = user.portfolioUrl;
+  
+  const ratingList = shown.has("rating") ? await storage.getRatingsByCandidate(user.id) : [];
+  if (shown.has("rating")) {
+    profile.rating = {
+      average: ratingList.length ? ratingList.reduce((total, rating) => total + rating.score, 0) / ratingList.length : null,
+      count: ratingList.length,
+    };
+  }
+  
+  if (shown.has("workHistory")) {
+    const approved = (await storage.getSubmissionsByCandidate(user.id)).filter((s) => s.status === "approved");
+    profile.workHistory = await Promise.all(
+      approved.map(async (submission) => {
+        const project = await storage.getProject(submission.projectId);
+        const company = project ? await storage.getCompany(project.companyId) : undefined;
+        const rating = ratingList.find((r) => r.submissionId === submission.id);
+        return {
+          projectTitle: project?.title ?? null,
+          companyName: company?.name ?? null,
+          skills: project?.skills ?? [],
+          completedAt: submission.updatedAt,
+          ...(shown.has("rating") ? { rating: rating?.score ?? null } : {}),
+        };
+      })
+    );
+  }
+  
+  if (shown.has("earnings")) {
+    const stats = await storage.getCandidateStats(user.id);
+    profile.earningsBand = earningsBand(stats.totalEarnings);
+  }
+  return profile;
+};
+
+// Attaches the title of the project each rating was given for
+const withRatedProjects = async (ratingList: CompanyRating[]) => {
+  const projectIds = Array.from(new Set(ratingList.map((rating) => rating.projectId)));
+  const titles = new Map(
+    (await Promise.all(projectIds.map((id) => storage.getProject(id))))
+      .filter((project) => project !== undefined)
+      .map((project) => [project.id, project.title]),
+  );
+  return ratingList.map((rating) => ({ ...rating, projectTitle: titles.get(rating.projectId) ?? null }));
+};
+
+// A company rating as anyone may see it: without who gave it, the
+// company's report or how an admin handled it
+const publicCompanyRating = (rating: CompanyRating & { projectTitle: string | null }) => ({
+  id: rating.id,
+  projectTitle: rating.projectTitle,
+  clarity: rating.clarity,
+  fairness: rating.fairness,
+  paymentSpeed: rating.paymentSpeed,
+  comment: rating.comment,
+  reply: rating.reply,
+  repliedAt: rating.repliedAt,
+  createdAt: rating.createdAt,
+});
+
+type ProjectFields = Partial<Omit<InsertProject, "companyId" | "status">>;
+
+// The project fields a create, edit or resubmit request sets. Fields the
+// request leaves out are left out here too, so an edit keeps them as they were.
+const parseProjectFields = (body: any): { fields: ProjectFields } | { error: string } => {
+  const { title, description, requirements, skills, payment, difficulty, deadline, maxSubmissions, maxRevisions, blindReview } = body;
+  if ((title !== undefined && !title) || (description !== undefined && !description)) {
+    return { error: "Give the project a title and description" };
+  }
+  if (maxRevisions !== undefined && (!Number.isInteger(maxRevisions) || maxRevisions < 0 || maxRevisions > 10)) {
+    return { error: "Allow between 0 and 10 revisions" };
+  }
+  // Escrow covers every submission slot, so the limit can't be left open
+  if (maxSubmissions !== undefined && (!Number.isInteger(maxSubmissions) || maxSubmissions < 1)) {
+    return { error: "Take at least one submission" };
+  }
+  const rubric = rubricSchema.optional().safeParse(body.rubric ?? undefined);
+  if (!rubric.success) {
+    return { error: fromZodError(rubric.error).message };
+  }
+  
+  return {
+    fields: {
+      title,
+      description,
+      requirements,
+      skills,
+      payment,
+      difficulty,
+      deadline: deadline === undefined ? undefined : deadline ? new Date(deadline) : null,
+      maxSubmissions,
+      maxRevisions,
+      // An empty rubric means the project is rated with stars
+      rubric: body.rubric === undefined ? undefined : rubric.data?.length ? rubric.data : null,
+      blindReview: blindReview === undefined ? undefined : blindReview === true,
+    },
+  };
+};
+
+// Why the company can't make the edit to the project as it stands, or null
+const findProjectEditError = async (project: Project, edit: ProjectFields) =>
+  projectEditError(project, edit, {
+    submissions: (await storage.getSubmissionsByProject(project.id)).length,
+    slotsTaken: await storage.countSubmissionSlotsTaken(project.id),
+    funded: isFundedProject(project.status, await storage.getProjectEscrowBalance(project.id)),
+  });
+
 export async function registerRoutes(server: Server, app: Express): Promise<void> {
   // Auth middleware
   await setupAuth(app);
 
-  // Auth routes - safe for unauthenticated access
-  app.get('/api/auth/user', async (req: any, res) => {
+  // Auth routes - answers 401 rather than redirecting when signed out,
+  // suspended or signed out by an admin
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
-      if (!req.isAuthenticated?.() || !req.user?.claims?.sub) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
       
@@ -61,7 +389,35 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
   app.patch('/api/profile', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { firstName, lastName, bio, skills, experience, portfolioUrl } = req.body;
+      const { firstName, lastName, bio, skills, experience, portfolioUrl, emailOptOuts, publicProfileFields: shown } = req.body;
+      
+      const notificationTypes = notificationTypeEnum.enumValues as readonly string[];
+      if (
+        emailOptOuts !== undefined &&
+        (!Array.isArray(emailOptOuts) || emailOptOuts.some((type) => !notificationTypes.includes(type)))
+      ) {
+        return res.status(400).json({ message: `emailOptOuts must only contain ${notificationTypes.join(", ")}` });
+      }
+      
+      const profileFields = publicProfileFields as readonly string[];
+      if (shown !== undefined && (!Array.isArray(shown) || shown.some((field) => !profileFields.includes(field)))) {
+        return res.status(400).json({ message: `publicProfileFields must only contain ${profileFields.join(", ")}` });
+      }
+      
+      // A blank handle takes the public profile down
+      const handle = typeof req.body.handle === "string" ? req.body.handle.trim().toLowerCase() || null : req.body.handle;
+      if (handle !== undefined && handle !== null) {
+        if (typeof handle !== "string" || !handlePattern.test(handle)) {
+          return res.status(400).json({ message: "Handles are 3-30 lowercase letters, digits and hyphens" });
+        }
+        if ((await storage.getUser(userId))?.role !== "candidate") {
+          return res.status(400).json({ message: "Only candidates have public profiles" });
+        }
+        const owner = await storage.getUserByHandle(handle);
+        if (reservedHandles.includes(handle) || (owner && owner.id !== userId)) {
+          return res.status(409).json({ message: "That handle is taken" });
+        }
+      }
       
       const user = await storage.updateUserProfile(userId, {
         firstName,
@@ -70,6 +426,9 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
         skills,
         experience,
         portfolioUrl,
+        emailOptOuts: emailOptOuts && Array.from(new Set<string>(emailOptOuts)),
+        handle,
+        publicProfileFields: shown && Array.from(new Set<string>(shown)),
       });
       
       res.json(user);
@@ -79,22 +438,89 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
+  // A candidate's public profile by handle (public). Only has the fields
+  // the candidate chose to show.
+  app.get('/api/profiles/:handle', async (req, res) => {
+    try {
+      const user = await storage.getUserByHandle(req.params.handle.toLowerCase());
+      if (!user?.handle || user.role !== "candidate" || user.suspendedAt) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      
+      res.json(await publicCandidateProfile(user, user.handle));
+    } catch (error) {
+      console.error("Error fetching public profile:", error);
+      res.status(500).json({ message: "Failed to fetch profile" });
+    }
+  });
+
+  // Upload a profile picture as multipart `image`
+  app.post('/api/profile/avatar', isAuthenticated, acceptFiles("image", imageFileRules), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [file] = (req.files as UploadedFile[] | undefined) ?? [];
+      if (!file) {
+        return res.status(400).json({ message: "Attach an image" });
+      }
+      
+      const previous = await storage.getUser(userId);
+      const profileImageUrl = await storeImage("avatars", file.path);
+      const user = await storage.updateUserProfile(userId, { profileImageUrl });
+      await removeImage(previous?.profileImageUrl);
+      
+      res.json(user);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error uploading avatar:", error);
+      res.status(500).json({ message: "Failed to upload avatar" });
+    }
+  });
+
+  // Remove the profile picture
+  app.delete('/api/profile/avatar', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const previous = await storage.getUser(userId);
+      const user = await storage.updateUserProfile(userId, { profileImageUrl: null });
+      await removeImage(previous?.profileImageUrl);
+      
+      res.json(user);
+    } catch (error) {
+      console.error("Error removing avatar:", error);
+      res.status(500).json({ message: "Failed to remove avatar" });
+    }
+  });
+
   // ============ PROJECT ROUTES ============
 
-  // Get all active projects (public)
+  // Search active projects (public)
   app.get('/api/projects', async (req, res) => {
     try {
-      const projectList = await storage.getActiveProjects();
+      const parsed = projectSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
       
-      // Add company info to each project
+      const search = parsed.data;
+      const { projects: projectList, total } = await storage.searchProjects(search);
+      const trust = await storage.getCompanyTrustScores(Array.from(new Set(projectList.map((p) => p.companyId))));
+      
+      // Add company info and its trust score to each project
       const projectsWithCompany = await Promise.all(
         projectList.map(async (project) => {
           const company = await storage.getCompany(project.companyId);
-          return { ...project, company };
+          return { ...project, company, companyTrust: trust[project.companyId] ?? null };
         })
       );
       
-      res.json(projectsWithCompany);
+      res.json({
+        projects: projectsWithCompany,
+        total,
+        limit: search.limit,
+        offset: search.offset,
+      });
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
@@ -120,6 +546,17 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
+  // Get the skills used by active projects, for the search filters (public)
+  app.get('/api/projects/skills', async (req, res) => {
+    try {
+      const skills = await storage.getActiveProjectSkills();
+      res.json(skills);
+    } catch (error) {
+      console.error("Error fetching project skills:", error);
+      res.status(500).json({ message: "Failed to fetch skills" });
+    }
+  });
+
   // Get single project
   app.get('/api/projects/:id', async (req, res) => {
     try {
@@ -129,7 +566,9 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
       }
       
       const company = await storage.getCompany(project.companyId);
-      res.json({ ...project, company });
+      const availability = getProjectAvailability(project, await storage.countSubmissionSlotsTaken(project.id));
+      const trust = await storage.getCompanyTrustScores([project.companyId]);
+      res.json({ ...project, company, availability, companyTrust: trust[project.companyId] ?? null });
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
@@ -146,56 +585,412 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
         return res.status(404).json({ message: "No submission found" });
       }
       
-      res.json(submission);
+      res.json({ ...submission, files: await storage.getSubmissionFiles(submission.id, submission.revision) });
     } catch (error) {
       console.error("Error fetching submission:", error);
       res.status(500).json({ message: "Failed to fetch submission" });
     }
   });
 
-  // Submit to a project
-  app.post('/api/projects/:id/submissions', isAuthenticated, async (req: any, res) => {
+  // Submit to a project. Takes JSON, or multipart with up to
+  // submissionFileRules.maxFiles uploads in `files`.
+  app.post('/api/projects/:id/submissions', isAuthenticated, acceptFiles("files", submissionFileRules), async (req: any, res) => {
+    let uploads: StoredUpload[] = [];
     try {
       const userId = req.user.claims.sub;
       const projectId = req.params.id;
       const { content, attachmentUrl } = req.body;
       
-      // Check if project exists and is active
+      // Stored first so the submission and its files are recorded together
+      uploads = await storeUploads("submissions", (req.files as UploadedFile[] | undefined) ?? []);
+      
+      // Status, deadline, free slots and duplicates are checked by storage
+      // under a lock on the project
+      const submission = await storage.createSubmission(
+        {
+          projectId,
+          candidateId: userId,
+          content,
+          attachmentUrl: attachmentUrl || null,
+          status: "pending",
+        },
+        uploads,
+      );
+      // Recorded now, so they must outlive anything that fails below
+      uploads = [];
+      
       const project = await storage.getProject(projectId);
-      if (!project || project.status !== "active") {
-        return res.status(400).json({ message: "Project not available for submissions" });
+      if (project) {
+        await notifySubmissionCreated(submission, project);
+        await publishToCompany(
+          project.companyId,
+          { type: "submission.created", projectId, submissionId: submission.id },
+          [userId],
+        );
+      }
+      
+      res.json(submission);
+    } catch (error) {
+      await removeStored(uploads.map((upload) => upload.storageKey));
+      if (error instanceof SubmissionClosedError) {
+        return res.status(error.reason === "full" ? 409 : 400).json({ message: error.message, reason: error.reason });
+      }
+      console.error("Error creating submission:", error);
+      res.status(500).json({ message: "Failed to create submission" });
+    }
+  });
+
+  // Download a file attached to a submission. Only the candidate, the
+  // company that owns the project and admins may.
+  app.get('/api/submissions/:id/files/:fileId', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const submission = await storage.getSubmission(req.params.id);
+      const file = await storage.getSubmissionFile(req.params.fileId);
+      if (!user || !submission || !file || file.submissionId !== submission.id) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      const project = await storage.getProject(submission.projectId);
+      const allowed = user.role === "admin"
+        || submission.candidateId === user.id
+        || (!!project && await reviewsForCompany(user.id, project.companyId));
+      if (!allowed) {
+        return res.status(403).json({ message: "Not authorized to download this file" });
+      }
+      
+      await sendStoredFile(res, file);
+    } catch (error) {
+      if (error instanceof StoredFileNotFoundError) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      console.error("Error downloading submission file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // ============ REVISION ROUTES ============
+
+  // Every revision of a submission with its files, oldest first
+  app.get('/api/submissions/:id/revisions', isAuthenticated, requireSubmissionParty, async (req: any, res) => {
+    try {
+      const revisions = await storage.getSubmissionRevisions(req.party.submission.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Send a revision after the company asked for changes. Takes JSON, or
+  // multipart with up to submissionFileRules.maxFiles uploads in `files`.
+  app.post('/api/submissions/:id/revisions', isAuthenticated, requireSubmissionParty, acceptFiles("files", submissionFileRules), async (req: any, res) => {
+    let uploads: StoredUpload[] = [];
+    try {
+      const { submission, project, side } = req.party;
+      if (side !== "candidate") {
+        return res.status(403).json({ message: "Only the candidate can revise a submission" });
+      }
+      if (submission.status !== "changes_requested") {
+        return res.status(409).json({ message: "No changes were requested on this submission" });
+      }
+      
+      // A revision keeps the submission's slot, so only the project being
+      // closed or past its deadline stops it
+      const { closedReason } = getProjectAvailability(project, await storage.countSubmissionSlotsTaken(project.id));
+      if (closedReason && closedReason !== "full") {
+        return res.status(400).json({ message: new SubmissionClosedError(closedReason).message, reason: closedReason });
+      }
+      
+      const content = typeof req.body.content === "string" ? req.body.content.trim() : "";
+      if (!content) {
+        return res.status(400).json({ message: "Describe what you changed" });
+      }
+      
+      uploads = await storeUploads("submissions", (req.files as UploadedFile[] | undefined) ?? []);
+      const revised = await storage.createSubmissionRevision(
+        submission.id,
+        { content, attachmentUrl: req.body.attachmentUrl || null },
+        uploads,
+      );
+      if (!revised) {
+        await removeStored(uploads.map((upload) => upload.storageKey));
+        return res.status(409).json({ message: "No changes were requested on this submission" });
+      }
+      uploads = [];
+      
+      await notifySubmissionRevised(revised, project);
+      await publishToCompany(
+        project.companyId,
+        { type: "submission.revised", projectId: project.id, submissionId: submission.id },
+        [submission.candidateId],
+      );
+      
+      res.json(revised);
+    } catch (error) {
+      await removeStored(uploads.map((upload) => upload.storageKey));
+      console.error("Error revising submission:", error);
+      res.status(500).json({ message: "Failed to revise submission" });
+    }
+  });
+
+  // ============ MESSAGE ROUTES ============
+
+  // The submission's message thread, oldest first
+  app.get('/api/submissions/:id/messages', isAuthenticated, requireSubmissionParty, async (req: any, res) => {
+    try {
+      const { submission, project, side } = req.party;
+      const messages = await storage.getSubmissionMessages(submission.id);
+      // The sender ids would give away who a blind-reviewed candidate is
+      if (side === "company" && isBlindReview(submission, project)) {
+        return res.json(messages.map(({ senderId, ...message }) => message));
+      }
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Send a message. Takes JSON, or multipart with up to
+  // messageFileRules.maxFiles uploads in `files`.
+  app.post('/api/submissions/:id/messages', isAuthenticated, requireSubmissionParty, acceptFiles("files", messageFileRules), async (req: any, res) => {
+    let uploads: StoredUpload[] = [];
+    try {
+      const { submission, project, side } = req.party;
+      const files = (req.files as UploadedFile[] | undefined) ?? [];
+      const body = typeof req.body.body === "string" ? req.body.body.trim() : "";
+      if (!body && files.length === 0) {
+        return res.status(400).json({ message: "Write a message or attach a file" });
+      }
+      if (body.length > 5000) {
+        return res.status(400).json({ message: "Messages can be at most 5000 characters" });
+      }
+      
+      uploads = await storeUploads("messages", files);
+      const message = await storage.createSubmissionMessage(
+        { submissionId: submission.id, senderId: req.user.claims.sub, sender: side, body },
+        uploads,
+      );
+      uploads = [];
+      
+      await notifySubmissionMessage(message, submission, project);
+      await publishToCompany(
+        project.companyId,
+        { type: "submission.messages", submissionId: submission.id },
+        [submission.candidateId],
+      );
+      
+      res.json(message);
+    } catch (error) {
+      await removeStored(uploads.map((upload) => upload.storageKey));
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Mark what the other side sent as read, which is what they see as a
+  // read receipt
+  app.post('/api/submissions/:id/messages/read', isAuthenticated, requireSubmissionParty, async (req: any, res) => {
+    try {
+      const { submission, project, side } = req.party;
+      const marked = await storage.markSubmissionMessagesRead(submission.id, side);
+      if (marked > 0) {
+        await publishToCompany(
+          project.companyId,
+          { type: "submission.messages", submissionId: submission.id },
+          [submission.candidateId],
+        );
+      }
+      res.json({ marked });
+    } catch (error) {
+      console.error("Error marking messages read:", error);
+      res.status(500).json({ message: "Failed to mark messages read" });
+    }
+  });
+
+  // Download a file attached to a message in the thread
+  app.get('/api/submissions/:id/messages/files/:fileId', isAuthenticated, requireSubmissionParty, async (req: any, res) => {
+    try {
+      const file = await storage.getSubmissionMessageFile(req.params.fileId);
+      const message = file ? await storage.getSubmissionMessage(file.messageId) : undefined;
+      if (!file || message?.submissionId !== req.party.submission.id) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      await sendStoredFile(res, file);
+    } catch (error) {
+      if (error instanceof StoredFileNotFoundError) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      console.error("Error downloading message file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // ============ IMAGE ROUTES ============
+
+  // Serve an uploaded avatar or logo (public). Every upload gets a new URL,
+  // so responses can be cached indefinitely.
+  app.get('/api/images/:kind/:id/:file', async (req, res) => {
+    try {
+      const key = parseImagePath(req.params.kind, req.params.id, req.params.file);
+      if (!key) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      const stream = await getFileStorage().get(key);
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      stream.on("error", (error) => {
+        console.error(`Error streaming image ${key}:`, error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof StoredFileNotFoundError) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      console.error("Error serving image:", error);
+      res.status(500).json({ message: "Failed to serve image" });
+    }
+  });
+
+  // ============ NOTIFICATION ROUTES ============
+
+  // Get the user's most recent notifications
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+      res.json(await storage.getNotificationsByUser(userId, limit));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Get how many notifications the user hasn't read
+  app.get('/api/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({ count: await storage.countUnreadNotifications(userId) });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  // Mark every notification read
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({ marked: await storage.markAllNotificationsRead(userId) });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  // Mark one notification read
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // ============ CANDIDATE ROUTES ============
+
+  // Rate the company that reviewed a submission, once it has approved or
+  // rejected it. Speed of payment is only rated for approved submissions.
+  app.post('/api/submissions/:id/company-rating', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const submission = await storage.getSubmission(req.params.id);
+      if (!submission || submission.candidateId !== userId) {
+        return res.status(403).json({ message: "Not authorized to rate this company" });
+      }
+      
+      if (!canRateCompany(submission)) {
+        return res.status(400).json({ message: "You can rate the company once it has approved or rejected your submission" });
+      }
+      
+      const parsed = companyRatingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const paid = ratesPaymentSpeed(submission);
+      if (paid && parsed.data.paymentSpeed === undefined) {
+        return res.status(400).json({ message: "Score the speed of payment too" });
       }
       
-      // Check if user already submitted
-      const existingSubmission = await storage.getSubmissionByProjectAndCandidate(projectId, userId);
-      if (existingSubmission) {
-        return res.status(400).json({ message: "You have already submitted to this project" });
+      if (await storage.getCompanyRatingBySubmission(submission.id)) {
+        return res.status(409).json({ message: "You've already rated the company for this submission" });
       }
       
-      const submission = await storage.createSubmission({
-        projectId,
+      const project = await storage.getProject(submission.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const rating = await storage.createCompanyRating({
+        submissionId: submission.id,
+        projectId: project.id,
         candidateId: userId,
-        content,
-        attachmentUrl,
-        status: "pending",
+        companyId: project.companyId,
+        clarity: parsed.data.clarity,
+        fairness: parsed.data.fairness,
+        paymentSpeed: paid ? parsed.data.paymentSpeed : null,
+        comment: parsed.data.comment || null,
       });
+      await notifyCompanyRated(rating, project);
       
-      res.json(submission);
+      res.json(rating);
     } catch (error) {
-      console.error("Error creating submission:", error);
-      res.status(500).json({ message: "Failed to create submission" });
+      console.error("Error rating company:", error);
+      res.status(500).json({ message: "Failed to rate company" });
     }
   });
 
-  // ============ CANDIDATE ROUTES ============
+  // A company's trust score and published ratings (public)
+  app.get('/api/companies/:id/ratings', async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.id);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      
+      const ratingList = await storage.getCompanyRatings(company.id);
+      res.json({
+        trust: summarizeCompanyRatings(ratingList),
+        ratings: (await withRatedProjects(ratingList)).map(publicCompanyRating),
+      });
+    } catch (error) {
+      console.error("Error fetching company ratings:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
+    }
+  });
 
   // Get candidate's submissions
   app.get('/api/candidate/submissions', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const submissionList = await storage.getSubmissionsByCandidate(userId);
+      const unread = await storage.countUnreadSubmissionMessages(submissionList.map((s) => s.id), "candidate");
+      const ratings = await storage.getRatingsByCandidate(userId);
+      const companyRatings = await storage.getCompanyRatingsByCandidate(userId);
       
-      // Add project and rating info
+      // Add project and rating info, both ways
       const submissionsWithDetails = await Promise.all(
         submissionList.map(async (submission) => {
           const project = await storage.getProject(submission.projectId);
@@ -203,6 +998,10 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
           return {
             ...submission,
             project: project ? { ...project, company: company ? { name: company.name } : null } : null,
+            files: await storage.getSubmissionFiles(submission.id, submission.revision),
+            unreadMessages: unread[submission.id] ?? 0,
+            rating: ratings.find((r) => r.submissionId === submission.id) ?? null,
+            companyRating: companyRatings.find((r) => r.submissionId === submission.id) ?? null,
           };
         })
       );
@@ -254,66 +1053,262 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
-  // ============ COMPANY ROUTES ============
-
-  // Get company profile
-  app.get('/api/company/profile', isAuthenticated, async (req: any, res) => {
+  // Get the candidate's withdrawable balance and payout history
+  app.get('/api/candidate/payouts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const company = await storage.getCompanyByUserId(userId);
+      const withdrawable = await storage.getWithdrawablePayments(userId);
+      const payoutList = await storage.getPayoutsByCandidate(userId);
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
-      }
+      const payoutsWithDetails = await Promise.all(
+        payoutList.map(async (payout) => {
+          const method = await storage.getPayoutMethod(payout.payoutMethodId);
+          const events = await storage.getPayoutEvents(payout.id);
+          return { ...payout, payoutMethod: method ? maskPayoutMethod(method) : null, events };
+        })
+      );
       
-      res.json(company);
+      res.json({
+        balance: fromCents(withdrawable.reduce((total, payment) => total + toCents(payment.amount), 0)),
+        minimum: minimumPayoutAmount,
+        payouts: payoutsWithDetails,
+      });
     } catch (error) {
-      console.error("Error fetching company:", error);
-      res.status(500).json({ message: "Failed to fetch company" });
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
     }
   });
 
-  // Create company profile
-  app.post('/api/company/profile', isAuthenticated, async (req: any, res) => {
+  // Request a withdrawal of the whole balance
+  app.post('/api/candidate/payouts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { name, description, website, industry, size } = req.body;
-      
-      // Check if user already has a company
-      const existingCompany = await storage.getCompanyByUserId(userId);
-      if (existingCompany) {
-        return res.status(400).json({ message: "You already have a company profile" });
+      const method = await storage.getPayoutMethod(req.body.payoutMethodId);
+      if (!method || method.userId !== userId || method.removedAt) {
+        return res.status(400).json({ message: "Choose one of your payout methods" });
       }
       
-      // Update user role to company
-      await storage.updateUserProfile(userId, { role: "company" });
+      const withdrawable = await storage.getWithdrawablePayments(userId);
+      const cents = withdrawable.reduce((total, payment) => total + toCents(payment.amount), 0);
+      if (cents < toCents(minimumPayoutAmount)) {
+        return res.status(400).json({ message: `You can withdraw once your balance reaches $${minimumPayoutAmount}` });
+      }
       
-      const company = await storage.createCompany({
-        userId,
-        name,
+      const payout = await storage.createPayout(
+        { candidateId: userId, payoutMethodId: method.id, amount: fromCents(cents) },
+        withdrawable.map((payment) => payment.id),
+      );
+      publish({ userIds: [userId], roles: ["admin"] }, { type: "payout.updated", payoutId: payout.id });
+      res.json(payout);
+    } catch (error) {
+      if (error instanceof PayoutConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error requesting payout:", error);
+      res.status(500).json({ message: "Failed to request payout" });
+    }
+  });
+
+  // Get the candidate's payout methods
+  app.get('/api/candidate/payout-methods', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const methods = await storage.getPayoutMethodsByUser(userId);
+      res.json(methods.map(maskPayoutMethod));
+    } catch (error) {
+      console.error("Error fetching payout methods:", error);
+      res.status(500).json({ message: "Failed to fetch payout methods" });
+    }
+  });
+
+  // Add a payout method
+  app.post('/api/candidate/payout-methods', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertPayoutMethodSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const method = await storage.createPayoutMethod({ ...parsed.data, userId });
+      res.json(maskPayoutMethod(method));
+    } catch (error) {
+      console.error("Error creating payout method:", error);
+      res.status(500).json({ message: "Failed to create payout method" });
+    }
+  });
+
+  // Remove a payout method
+  app.delete('/api/candidate/payout-methods/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const method = await storage.getPayoutMethod(req.params.id);
+      if (!method || method.userId !== userId || method.removedAt) {
+        return res.status(404).json({ message: "Payout method not found" });
+      }
+      
+      await storage.removePayoutMethod(method.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing payout method:", error);
+      res.status(500).json({ message: "Failed to remove payout method" });
+    }
+  });
+
+  // ============ COMPANY ROUTES ============
+
+  // Get the profile of the user's company, with their role on its team and,
+  // while it is rejected, why
+  app.get('/api/company/profile', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company, member } = req.membership;
+      const rejection = company.status === "rejected"
+        ? latestRejection(await storage.getCompanyStatusHistory(company.id))
+        : null;
+      res.json({ ...company, role: member.role, rejection });
+    } catch (error) {
+      console.error("Error fetching company:", error);
+      res.status(500).json({ message: "Failed to fetch company" });
+    }
+  });
+
+  // Create company profile
+  app.post('/api/company/profile', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { name, description, website, industry, size } = req.body;
+      
+      // Check if user already has a company or is on another's team
+      if (await storage.getCompanyMemberByUser(userId)) {
+        return res.status(400).json({ message: "You already have a company profile" });
+      }
+      
+      // Update user role to company
+      await storage.updateUserProfile(userId, { role: "company" });
+      
+      const company = await storage.createCompany({
+        userId,
+        name,
         description,
         website,
         industry,
         size,
         status: "pending",
       });
+      await recordAudit(req, {
+        action: "company.create",
+        targetType: "company",
+        targetId: company.id,
+        companyId: company.id,
+        actorRole: "owner",
+        after: company,
+      });
       
-      res.json(company);
+      res.json({ ...company, role: "owner" });
     } catch (error) {
       console.error("Error creating company:", error);
       res.status(500).json({ message: "Failed to create company" });
     }
   });
 
-  // Get company's projects
-  app.get('/api/company/projects', isAuthenticated, async (req: any, res) => {
+  // Every review of the company and every resubmission, oldest first
+  app.get('/api/company/profile/history', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      res.json(await storage.getCompanyStatusHistory(company.id));
+    } catch (error) {
+      console.error("Error fetching company history:", error);
+      res.status(500).json({ message: "Failed to fetch company history" });
+    }
+  });
+
+  // Edit a rejected company's profile and send it back to admin review
+  app.post('/api/company/profile/resubmit', isAuthenticated, requireCompanyMember("manageCompany"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const company = await storage.getCompanyByUserId(userId);
+      const { company } = req.membership;
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (company.status !== "rejected") {
+        return res.status(400).json({ message: `Can't resubmit a company that is ${company.status}` });
+      }
+      
+      const { name, description, website, industry, size, note } = req.body;
+      if (name !== undefined && !name) {
+        return res.status(400).json({ message: "Give the company a name" });
+      }
+      
+      // Saved only if the company is still rejected
+      const resubmitted = await storage.transitionCompanyStatus(
+        company.id,
+        { action: "resubmit", fromStatus: "rejected", toStatus: "pending", actorId: userId, note: note || null },
+        { name, description, website, industry, size },
+      );
+      if (!resubmitted) {
+        return res.status(409).json({ message: "The company changed while you were editing it" });
+      }
+      
+      await publishToCompany(company.id, { type: "company.resubmitted", companyId: company.id });
+      await recordAudit(req, {
+        action: "company.resubmit",
+        targetType: "company",
+        targetId: company.id,
+        before: company,
+        after: resubmitted,
+        reason: note,
+      });
+      
+      res.json({ ...resubmitted, role: req.membership.member.role, rejection: null });
+    } catch (error) {
+      console.error("Error resubmitting company:", error);
+      res.status(500).json({ message: "Failed to resubmit company" });
+    }
+  });
+
+  // Upload the company logo as multipart `image`
+  app.post('/api/company/logo', isAuthenticated, requireCompanyMember("manageCompany"), acceptFiles("image", imageFileRules), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const [file] = (req.files as UploadedFile[] | undefined) ?? [];
+      if (!file) {
+        return res.status(400).json({ message: "Attach an image" });
+      }
+      
+      const logoUrl = await storeImage("logos", file.path);
+      const updated = await storage.updateCompany(company.id, { logoUrl });
+      await removeImage(company.logoUrl);
+      await recordAudit(req, { action: "company.update", targetType: "company", targetId: company.id, before: company, after: updated });
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
       }
+      console.error("Error uploading logo:", error);
+      res.status(500).json({ message: "Failed to upload logo" });
+    }
+  });
+
+  // Remove the company logo
+  app.delete('/api/company/logo', isAuthenticated, requireCompanyMember("manageCompany"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const updated = await storage.updateCompany(company.id, { logoUrl: null });
+      await removeImage(company.logoUrl);
+      await recordAudit(req, { action: "company.update", targetType: "company", targetId: company.id, before: company, after: updated });
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error removing logo:", error);
+      res.status(500).json({ message: "Failed to remove logo" });
+    }
+  });
+
+  // Get company's projects
+  app.get('/api/company/projects', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
       
       const projectList = await storage.getProjectsByCompany(company.id);
       
@@ -321,16 +1316,29 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
       const projectsWithSubmissions = await Promise.all(
         projectList.map(async (project) => {
           const submissions = await storage.getSubmissionsByProject(project.id);
+          const unread = await storage.countUnreadSubmissionMessages(submissions.map((s) => s.id), "company");
           
-          // Add candidate info to each submission
+          // Add candidate info to each submission. Blind-reviewed ones only
+          // get a handle, without even the candidate id, until they're decided.
           const submissionsWithCandidates = await Promise.all(
             submissions.map(async (submission) => {
+              const files = await storage.getSubmissionFiles(submission.id, submission.revision);
+              const unreadMessages = unread[submission.id] ?? 0;
+              if (isBlindReview(submission, project)) {
+                const { candidateId, ...anonymous } = submission;
+                return { ...anonymous, candidateHandle: candidateHandle(submission), files, unreadMessages };
+              }
               const candidate = await storage.getUser(submission.candidateId);
-              return { ...submission, candidate };
+              return { ...submission, candidate, files, unreadMessages };
             })
           );
           
-          return { ...project, submissions: submissionsWithCandidates };
+          const escrowBalance = await storage.getProjectEscrowBalance(project.id);
+          const rejection = project.status === "rejected"
+            ? latestRejection(await storage.getProjectStatusHistory(project.id))
+            : null;
+          
+          return { ...project, escrowBalance, rejection, submissions: submissionsWithCandidates };
         })
       );
       
@@ -341,34 +1349,42 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
-  // Create a project
-  app.post('/api/company/projects', isAuthenticated, async (req: any, res) => {
+  // Create a project. With `draft: true` it's saved as a draft, which the
+  // company can do before it's approved, instead of going to admin review.
+  app.post('/api/company/projects', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const company = await storage.getCompanyByUserId(userId);
+      const { company } = req.membership;
+      const draft = req.body.draft === true;
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      if (!draft && company.status !== "approved") {
+        return res.status(403).json({ message: "Company must be approved to post projects" });
       }
       
-      if (company.status !== "approved") {
-        return res.status(403).json({ message: "Company must be approved to post projects" });
+      const parsed = parseProjectFields(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
       }
       
-      const { title, description, requirements, skills, payment, difficulty, deadline, maxSubmissions } = req.body;
+      const { title, description, maxSubmissions } = parsed.fields;
+      if (!title || !description) {
+        return res.status(400).json({ message: "Give the project a title and description" });
+      }
+      // Approval funds escrow for every slot, so a project without a limit
+      // could never be approved
+      if (maxSubmissions == null) {
+        return res.status(400).json({ message: "Set how many submissions the project takes" });
+      }
       
       const project = await storage.createProject({
-        companyId: company.id,
+        ...parsed.fields,
         title,
         description,
-        requirements,
-        skills,
-        payment,
-        difficulty,
-        deadline: deadline ? new Date(deadline) : null,
         maxSubmissions,
-        status: "pending",
+        companyId: company.id,
+        status: draft ? "draft" : "pending",
       });
+      await publishToCompany(company.id, { type: "project.updated", projectId: project.id });
+      await recordAudit(req, { action: "project.create", targetType: "project", targetId: project.id, after: project });
       
       res.json(project);
     } catch (error) {
@@ -377,180 +1393,1452 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
-  // Review a submission
-  app.post('/api/company/submissions/:id/review', isAuthenticated, async (req: any, res) => {
+  // Edit a project. Fields the request leaves out stay as they were. Drafts
+  // and projects in review change freely; live ones only within the rules in
+  // shared/projectEditing.ts, and an edit that changes the brief sends them
+  // back to admin review.
+  app.patch('/api/company/projects/:id', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const submissionId = req.params.id;
-      const { approved, rating: ratingScore, feedback } = req.body;
+      const { company } = req.membership;
       
-      const company = await storage.getCompanyByUserId(userId);
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to edit this project" });
       }
       
-      const submission = await storage.getSubmission(submissionId);
-      if (!submission) {
-        return res.status(404).json({ message: "Submission not found" });
+      const parsed = parseProjectFields(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
       }
       
-      const project = await storage.getProject(submission.projectId);
-      if (!project || project.companyId !== company.id) {
-        return res.status(403).json({ message: "Not authorized to review this submission" });
+      const editError = await findProjectEditError(project, parsed.fields);
+      if (editError) {
+        return res.status(400).json({ message: editError });
       }
       
-      // Update submission status
-      await storage.updateSubmission(submissionId, {
-        status: approved ? "approved" : "rejected",
-        feedback,
-      });
+      const changed = changedProjectFields(project, parsed.fields);
+      if (!changed.length) {
+        return res.json(project);
+      }
+      const updates: ProjectFields = Object.fromEntries(changed.map((field) => [field, parsed.fields[field]]));
       
-      if (approved) {
-        // Create rating
-        if (ratingScore) {
-          await storage.createRating({
-            submissionId,
-            candidateId: submission.candidateId,
-            companyId: company.id,
-            score: ratingScore,
-            review: feedback,
-          });
-        }
-        
-        // Create payment
-        await storage.createPayment({
-          submissionId,
-          candidateId: submission.candidateId,
-          companyId: company.id,
-          amount: project.payment,
-          status: "paid",
-          paidAt: new Date(),
-        });
+      // A material edit to a live project is saved along with sending it
+      // back to review, so candidates never see it unreviewed
+      const revised = isLiveProject(project.status) && isMaterialProjectEdit(project, updates);
+      let updated: Project;
+      if (revised) {
+        updated = await transitionProject(project, "revise", { actor: "company", actorId: userId }, req.body.note, null, updates);
+      } else {
+        updated = (await storage.updateProject(project.id, updates)) ?? project;
+        await publishToCompany(company.id, { type: "project.updated", projectId: project.id });
       }
+      await recordAudit(req, {
+        action: "project.update",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: updated,
+        reason: req.body.note,
+      });
       
-      res.json({ success: true });
+      res.json(updated);
     } catch (error) {
-      console.error("Error reviewing submission:", error);
-      res.status(500).json({ message: "Failed to review submission" });
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error editing project:", error);
+      res.status(500).json({ message: "Failed to edit project" });
     }
   });
 
-  // Get company stats
-  app.get('/api/company/stats', isAuthenticated, async (req: any, res) => {
+  // Send a draft to admin review
+  app.post('/api/company/projects/:id/submit', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const company = await storage.getCompanyByUserId(userId);
+      const { company } = req.membership;
       
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to submit this project" });
       }
       
-      const stats = await storage.getCompanyStats(company.id);
-      res.json(stats);
+      if (company.status !== "approved") {
+        return res.status(403).json({ message: "Company must be approved to post projects" });
+      }
+      
+      if (!canTransition(project.status, "submit", "company")) {
+        return res.status(400).json({ message: `Can't submit a project that is ${project.status}` });
+      }
+      
+      const submitted = await transitionProject(project, "submit", { actor: "company", actorId: userId }, req.body?.note);
+      await recordAudit(req, {
+        action: "project.submit",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: submitted,
+        reason: req.body?.note,
+      });
+      
+      res.json(submitted);
     } catch (error) {
-      console.error("Error fetching stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error submitting project:", error);
+      res.status(500).json({ message: "Failed to submit project" });
     }
   });
 
-  // ============ ADMIN ROUTES ============
-
-  // Get admin stats
-  app.get('/api/admin/stats', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // Pull a project out of admin review and back into the company's drafts
+  app.post('/api/company/projects/:id/withdraw', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
-      const stats = await storage.getAdminStats();
-      res.json(stats);
+      const userId = req.user.claims.sub;
+      const { company } = req.membership;
+      
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to withdraw this project" });
+      }
+      
+      if (!canTransition(project.status, "withdraw", "company")) {
+        return res.status(400).json({ message: `Can't withdraw a project that is ${project.status}` });
+      }
+      
+      const withdrawn = await transitionProject(project, "withdraw", { actor: "company", actorId: userId }, req.body?.note);
+      await recordAudit(req, {
+        action: "project.withdraw",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: withdrawn,
+        reason: req.body?.note,
+      });
+      
+      res.json(withdrawn);
     } catch (error) {
-      console.error("Error fetching admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error withdrawing project:", error);
+      res.status(500).json({ message: "Failed to withdraw project" });
     }
   });
 
-  // Get pending companies
-  app.get('/api/admin/companies/pending', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // Edit a rejected project and send it back to admin review. Fields the
+  // request leaves out stay as they were.
+  app.post('/api/company/projects/:id/resubmit', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
-      const companiesList = await storage.getPendingCompanies();
+      const userId = req.user.claims.sub;
+      const { company } = req.membership;
       
-      // Add user info
-      const companiesWithUsers = await Promise.all(
-        companiesList.map(async (company) => {
-          const user = await storage.getUser(company.userId);
-          return { ...company, user };
-        })
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to resubmit this project" });
+      }
+      
+      if (company.status !== "approved") {
+        return res.status(403).json({ message: "Company must be approved to post projects" });
+      }
+      
+      if (!canTransition(project.status, "resubmit", "company")) {
+        return res.status(400).json({ message: `Can't resubmit a project that is ${project.status}` });
+      }
+      
+      const parsed = parseProjectFields(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      
+      // A project rejected after going live still holds its escrow
+      const editError = await findProjectEditError(project, parsed.fields);
+      if (editError) {
+        return res.status(400).json({ message: editError });
+      }
+      
+      // Saved only if the project is still rejected
+      const resubmitted = await transitionProject(
+        project,
+        "resubmit",
+        { actor: "company", actorId: userId },
+        req.body.note,
+        null,
+        parsed.fields,
       );
+      await recordAudit(req, {
+        action: "project.resubmit",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: resubmitted,
+        reason: req.body.note,
+      });
       
-      res.json(companiesWithUsers);
+      res.json(resubmitted);
     } catch (error) {
-      console.error("Error fetching pending companies:", error);
-      res.status(500).json({ message: "Failed to fetch companies" });
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error resubmitting project:", error);
+      res.status(500).json({ message: "Failed to resubmit project" });
     }
   });
 
-  // Review a company
-  app.post('/api/admin/companies/:id/review', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // Cancel a project, refunding the escrow its waiting submissions don't need
+  app.post('/api/company/projects/:id/cancel', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
-      const companyId = req.params.id;
-      const { approved } = req.body;
+      const userId = req.user.claims.sub;
+      const { company } = req.membership;
+      
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to cancel this project" });
+      }
       
-      await storage.updateCompany(companyId, {
-        status: approved ? "approved" : "rejected",
+      if (!canTransition(project.status, "cancel", "company")) {
+        return res.status(400).json({ message: `Can't cancel a project that is ${project.status}` });
+      }
+      
+      const { project: cancelled, refunded } = await cancelProject(
+        project,
+        { actor: "company", actorId: userId },
+        req.body?.note,
+      );
+      await recordAudit(req, {
+        action: "project.cancel",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: cancelled,
+        reason: req.body?.note,
       });
       
-      res.json({ success: true });
+      res.json({ success: true, refunded });
     } catch (error) {
-      console.error("Error reviewing company:", error);
-      res.status(500).json({ message: "Failed to review company" });
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling project:", error);
+      res.status(500).json({ message: "Failed to cancel project" });
     }
   });
 
-  // Get pending projects
-  app.get('/api/admin/projects/pending', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // Pause, resume or close a project. Closing completes it and refunds
+  // what is left in its escrow.
+  app.post('/api/company/projects/:id/status', isAuthenticated, requireCompanyMember("manageProjects"), async (req: any, res) => {
     try {
-      const projectList = await storage.getPendingProjects();
+      const userId = req.user.claims.sub;
+      const { company } = req.membership;
       
-      // Add company info
-      const projectsWithCompany = await Promise.all(
-        projectList.map(async (project) => {
-          const company = await storage.getCompany(project.companyId);
-          return { ...project, company };
-        })
-      );
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to change this project" });
+      }
       
-      res.json(projectsWithCompany);
+      const { action, note } = req.body;
+      if (action !== "pause" && action !== "resume" && action !== "close") {
+        return res.status(400).json({ message: "Action must be pause, resume or close" });
+      }
+      
+      const by = { actor: "company" as const, actorId: userId };
+      if (action === "close") {
+        if (!canTransition(project.status, "close", "company")) {
+          return res.status(400).json({ message: `Can't close a project that is ${project.status}` });
+        }
+        const closed = await completeProject(project, by, note);
+        await recordAudit(req, {
+          action: "project.close",
+          targetType: "project",
+          targetId: project.id,
+          before: project,
+          after: closed.project,
+          reason: note,
+        });
+        return res.json({ ...closed.project, refunded: closed.refunded });
+      }
+      
+      const updated = await transitionProject(project, action, by, note);
+      await recordAudit(req, {
+        action: action === "pause" ? "project.pause" : "project.resume",
+        targetType: "project",
+        targetId: project.id,
+        before: project,
+        after: updated,
+        reason: note,
+      });
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching pending projects:", error);
-      res.status(500).json({ message: "Failed to fetch projects" });
+      if (error instanceof ProjectTransitionError || error instanceof SubmissionsAwaitingReviewError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing project status:", error);
+      res.status(500).json({ message: "Failed to change project status" });
     }
   });
 
-  // Review a project
-  app.post('/api/admin/projects/:id/review', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // Status history of one of the company's projects
+  app.get('/api/company/projects/:id/history', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
     try {
-      const projectId = req.params.id;
-      const { approved } = req.body;
+      const { company } = req.membership;
       
-      await storage.updateProject(projectId, {
-        status: approved ? "active" : "cancelled",
-      });
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to view this project" });
+      }
       
-      res.json({ success: true });
+      res.json(await storage.getProjectStatusHistory(project.id));
     } catch (error) {
-      console.error("Error reviewing project:", error);
-      res.status(500).json({ message: "Failed to review project" });
+      console.error("Error fetching project history:", error);
+      res.status(500).json({ message: "Failed to fetch project history" });
     }
   });
 
-  // Get recent payments
-  app.get('/api/admin/payments/recent', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+  // The company's ratings from candidates, hidden ones included, with its
+  // trust score from the published ones
+  app.get('/api/company/ratings', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
     try {
-      const paymentsList = await storage.getRecentPayments(20);
+      const { company } = req.membership;
       
-      // Add candidate and company info
-      const paymentsWithDetails = await Promise.all(
-        paymentsList.map(async (payment) => {
-          const candidate = await storage.getUser(payment.candidateId);
-          const company = await storage.getCompany(payment.companyId);
-          return { ...payment, candidate, company };
+      const ratingList = await storage.getCompanyRatings(company.id, true);
+      res.json({
+        trust: summarizeCompanyRatings(ratingList.filter((rating) => rating.status === "published")),
+        ratings: (await withRatedProjects(ratingList)).map(({ candidateId, moderatedBy, ...rating }) => rating),
+      });
+    } catch (error) {
+      console.error("Error fetching company ratings:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
+    }
+  });
+
+  // Reply to a rating. The reply is public and can't be changed.
+  app.post('/api/company/ratings/:id/reply', isAuthenticated, requireCompanyMember("manageCompany"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { company } = req.membership;
+      
+      const rating = await storage.getCompanyRating(req.params.id);
+      if (!rating || rating.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to reply to this rating" });
+      }
+      
+      const parsed = companyRatingReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const replied = await storage.replyToCompanyRating(rating.id, parsed.data.reply, userId);
+      if (!replied) {
+        return res.status(409).json({ message: "You've already replied to this rating" });
+      }
+      await recordAudit(req, {
+        action: "rating.reply",
+        targetType: "rating",
+        targetId: rating.id,
+        before: { reply: rating.reply },
+        after: { reply: replied.reply },
+      });
+      
+      res.json(replied);
+    } catch (error) {
+      console.error("Error replying to rating:", error);
+      res.status(500).json({ message: "Failed to reply to rating" });
+    }
+  });
+
+  // Report a rating for an admin to look at. A rating can be reported once.
+  app.post('/api/company/ratings/:id/report', isAuthenticated, requireCompanyMember("manageCompany"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const rating = await storage.getCompanyRating(req.params.id);
+      if (!rating || rating.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to report this rating" });
+      }
+      
+      const parsed = companyRatingReportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      if (rating.status === "hidden") {
+        return res.status(409).json({ message: "This rating is already hidden" });
+      }
+      if (rating.reportedAt) {
+        return res.status(409).json({ message: "This rating was already reported" });
+      }
+      
+      const reported = await storage.updateCompanyRating(rating.id, {
+        reportedAt: new Date(),
+        reportReason: parsed.data.reason,
+      });
+      await recordAudit(req, {
+        action: "rating.report",
+        targetType: "rating",
+        targetId: rating.id,
+        reason: parsed.data.reason,
+      });
+      
+      res.json(reported);
+    } catch (error) {
+      console.error("Error reporting rating:", error);
+      res.status(500).json({ message: "Failed to report rating" });
+    }
+  });
+
+  // Review a submission: approve and pay it, reject it or send it back for
+  // changes. Takes `decision`, or the older `approved` flag.
+  app.post('/api/company/submissions/:id/review', isAuthenticated, requireCompanyMember("reviewSubmissions"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      const submissionId = req.params.id;
+      const { rating: starScore, feedback } = req.body;
+      const decision: ReviewDecision = req.body.decision ?? (req.body.approved ? "approved" : "rejected");
+      if (!reviewDecisions.includes(decision)) {
+        return res.status(400).json({ message: `decision must be one of ${reviewDecisions.join(", ")}` });
+      }
+      const approved = decision === "approved";
+      
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      const project = await storage.getProject(submission.projectId);
+      if (!project || project.companyId !== company.id) {
+        return res.status(403).json({ message: "Not authorized to review this submission" });
+      }
+      
+      if (!awaitsDecision(submission.status)) {
+        return res.status(400).json({ message: "Submission has already been reviewed" });
+      }
+      
+      if (decision === "changes_requested") {
+        if (submission.status === "changes_requested") {
+          return res.status(400).json({ message: "Changes were already requested; wait for the revision" });
+        }
+        if (revisionsLeft(submission, project) === 0) {
+          return res.status(400).json({ message: "No revisions left on this submission; approve or reject it" });
+        }
+        if (typeof feedback !== "string" || !feedback.trim()) {
+          return res.status(400).json({ message: "Say what should change" });
+        }
+        const sentBack = await storage.requestSubmissionChanges(submissionId, feedback.trim());
+        if (!sentBack) {
+          return res.status(409).json({ message: "Submission has already been reviewed" });
+        }
+        await notifySubmissionReviewed(sentBack, project, decision, sentBack.feedback);
+        await recordAudit(req, {
+          action: "submission.review",
+          targetType: "submission",
+          targetId: submissionId,
+          before: { status: submission.status },
+          after: { status: sentBack.status },
+          reason: sentBack.feedback,
+        });
+        await publishToCompany(
+          project.companyId,
+          { type: "submission.reviewed", projectId: project.id, submissionId },
+          [submission.candidateId],
+        );
+        return res.json({ success: true });
+      }
+      
+      // Projects with a rubric are rated per criterion, and the weighted
+      // total stands in for the star rating
+      let ratingScore = starScore;
+      let criteriaScores: CriterionScore[] | null = null;
+      if (approved && project.rubric?.length) {
+        const scored = scoreRubric(project.rubric, req.body.scores ?? {});
+        if ("error" in scored) {
+          return res.status(400).json({ message: scored.error });
+        }
+        criteriaScores = scored.scores;
+        ratingScore = Math.round(weightedScore(criteriaScores));
+      }
+      
+      // The approval and the payment out of the project's escrow are recorded
+      // together, so a submission is never approved without being paid, or
+      // paid twice. Both only go through while it still awaits a decision.
+      const payment = approved
+        ? await storage.releaseEscrow(project.id, submissionId, submission.candidateId, project.payment, feedback)
+        : undefined;
+      const decided = approved ? payment : await storage.rejectSubmission(submissionId, feedback);
+      if (!decided) {
+        return res.status(409).json({ message: "Submission has already been reviewed" });
+      }
+      await notifySubmissionReviewed(submission, project, decision);
+      await recordAudit(req, {
+        action: "submission.review",
+        targetType: "submission",
+        targetId: submissionId,
+        before: { status: submission.status },
+        after: { status: approved ? "approved" : "rejected", rating: approved ? ratingScore ?? null : undefined },
+        reason: feedback,
+      });
+      await publishToCompany(
+        project.companyId,
+        { type: "submission.reviewed", projectId: project.id, submissionId },
+        [submission.candidateId],
+      );
+      
+      if (payment) {
+        // Create rating
+        if (ratingScore) {
+          await storage.createRating({
+            submissionId,
+            candidateId: submission.candidateId,
+            companyId: company.id,
+            score: ratingScore,
+            criteriaScores,
+            review: feedback,
+          });
+        }
+        
+        await storage.createInvoice(payment);
+        await notifyPaymentReleased(payment, project);
+        await publishToCompany(
+          project.companyId,
+          { type: "payment.updated", projectId: project.id, paymentId: payment.id },
+          [submission.candidateId],
+        );
+      }
+      
+      // The last review can finish the project. That runs as a job, so a
+      // failed refund is retried instead of failing a review that went
+      // through.
+      try {
+        await enqueueJob("projects.completeIfDone", { projectId: project.id }, {
+          uniqueKey: `projects.completeIfDone:${submissionId}`,
+        });
+      } catch (error) {
+        console.error(`Error queueing completion of project ${project.id}:`, error);
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof InsufficientEscrowError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error reviewing submission:", error);
+      res.status(500).json({ message: "Failed to review submission" });
+    }
+  });
+
+  // List the company's invoices and the months it can get statements for
+  app.get('/api/company/invoices', isAuthenticated, requireCompanyMember("viewBilling"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const invoiceList = await ensureInvoices(company.id);
+      const invoicesWithLines = await Promise.all(
+        invoiceList.map(async (invoice) => {
+          const line = await describeInvoice(invoice);
+          return { id: invoice.id, issuedAt: invoice.createdAt, ...line };
+        })
+      );
+      
+      res.json({ invoices: invoicesWithLines, statements: await getStatementMonths(company.id) });
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // Download a monthly statement (month is YYYY-MM)
+  app.get('/api/company/invoices/statements/:month/:format(pdf|csv)', isAuthenticated, requireCompanyMember("viewBilling"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      if (!statementMonthPattern.test(req.params.month)) {
+        return res.status(400).json({ message: "Month must look like 2024-01" });
+      }
+      
+      const statement = await buildStatementDocument(company, req.params.month);
+      await sendBillingDocument(res, statement, req.params.format);
+    } catch (error) {
+      console.error("Error generating statement:", error);
+      res.status(500).json({ message: "Failed to generate statement" });
+    }
+  });
+
+  // Download an invoice
+  app.get('/api/company/invoices/:id/:format(pdf|csv)', isAuthenticated, requireCompanyMember("viewBilling"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.companyId !== company.id) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const document = await buildInvoiceDocument(invoice, company);
+      await sendBillingDocument(res, document, req.params.format);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
+    }
+  });
+
+  // Get company stats
+  app.get('/api/company/stats', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const stats = await storage.getCompanyStats(company.id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // ============ TEAM ROUTES ============
+
+  // The company's team with each member's user, and the invitations still
+  // waiting to be accepted
+  app.get('/api/company/members', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      
+      const members = await storage.getCompanyMembers(company.id);
+      const membersWithUser: CompanyMemberWithUser[] = await Promise.all(
+        members.map(async (member) => {
+          const user = await storage.getUser(member.userId);
+          return {
+            ...member,
+            user: user && {
+              id: user.id,
+              firstName: user.firstName,
+              lastName: user.lastName,
+              email: user.email,
+              profileImageUrl: user.profileImageUrl,
+            },
+          };
+        })
+      );
+      const invitations = await storage.getPendingCompanyInvitations(company.id, new Date());
+      
+      res.json({
+        members: membersWithUser,
+        invitations: invitations.map(({ tokenHash, ...invitation }) => invitation),
+      });
+    } catch (error) {
+      console.error("Error fetching company members:", error);
+      res.status(500).json({ message: "Failed to fetch members" });
+    }
+  });
+
+  // Invite someone to the team by email
+  app.post('/api/company/invitations', isAuthenticated, requireCompanyMember("manageMembers"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      const parsed = companyInvitationRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const { email, role } = parsed.data;
+      const members = await storage.getCompanyMembers(company.id);
+      const memberUsers = await Promise.all(members.map((member) => storage.getUser(member.userId)));
+      if (memberUsers.some((user) => user?.email?.toLowerCase() === email)) {
+        return res.status(409).json({ message: `${email} is already on the team` });
+      }
+      const pending = await storage.getPendingCompanyInvitations(company.id, new Date());
+      if (pending.some((invitation) => invitation.email === email)) {
+        return res.status(409).json({ message: `${email} has already been invited` });
+      }
+      
+      const { token, tokenHash } = createInvitationToken();
+      const invitation = await storage.createCompanyInvitation({
+        companyId: company.id,
+        email,
+        role,
+        tokenHash,
+        invitedBy: req.user.claims.sub,
+        expiresAt: new Date(Date.now() + invitationLifetimeMs),
+      });
+      await sendCompanyInvitationEmail(invitation, company, await storage.getUser(req.user.claims.sub), token);
+      await recordAudit(req, {
+        action: "member.invite",
+        targetType: "invitation",
+        targetId: invitation.id,
+        after: { email, role },
+      });
+      
+      const { tokenHash: _, ...sent } = invitation;
+      res.json(sent);
+    } catch (error) {
+      console.error("Error inviting member:", error);
+      res.status(500).json({ message: "Failed to invite member" });
+    }
+  });
+
+  // Revoke an invitation that hasn't been accepted yet
+  app.delete('/api/company/invitations/:id', isAuthenticated, requireCompanyMember("manageMembers"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      const invitation = await storage.getCompanyInvitation(req.params.id);
+      if (!invitation || invitation.companyId !== company.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const revoked = await storage.revokeCompanyInvitation(invitation.id);
+      if (!revoked) {
+        return res.status(400).json({ message: "Invitation has already been accepted or revoked" });
+      }
+      await recordAudit(req, {
+        action: "member.revokeInvitation",
+        targetType: "invitation",
+        targetId: invitation.id,
+        before: { email: invitation.email, role: invitation.role },
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Change a member's role. The owner's role can't be changed.
+  app.patch('/api/company/members/:id', isAuthenticated, requireCompanyMember("manageMembers"), async (req: any, res) => {
+    try {
+      const { company } = req.membership;
+      const member = await storage.getCompanyMember(req.params.id);
+      if (!member || member.companyId !== company.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      const { role } = req.body;
+      if (!(assignableCompanyRoles as readonly string[]).includes(role)) {
+        return res.status(400).json({ message: `role must be one of ${assignableCompanyRoles.join(", ")}` });
+      }
+      if (member.role === "owner") {
+        return res.status(400).json({ message: "The owner's role can't be changed" });
+      }
+      
+      const updated = await storage.updateCompanyMemberRole(member.id, role);
+      await recordAudit(req, {
+        action: "member.changeRole",
+        targetType: "member",
+        targetId: member.id,
+        before: { userId: member.userId, role: member.role },
+        after: { userId: member.userId, role },
+      });
+      await publishToCompany(company.id, { type: "company.members", companyId: company.id }, [member.userId]);
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error changing member role:", error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Remove a member from the team, or leave it. The owner can't be removed.
+  app.delete('/api/company/members/:id', isAuthenticated, requireCompanyMember(), async (req: any, res) => {
+    try {
+      const { company, member: self } = req.membership;
+      const member = await storage.getCompanyMember(req.params.id);
+      if (!member || member.companyId !== company.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      if (member.id !== self.id && !hasCompanyPermission(self.role, "manageMembers")) {
+        return res.status(403).json({ message: "Your role on the team can't do this" });
+      }
+      if (member.role === "owner") {
+        return res.status(400).json({ message: "The owner can't be removed from the team" });
+      }
+      
+      await storage.removeCompanyMember(member.id);
+      await recordAudit(req, {
+        action: "member.remove",
+        targetType: "member",
+        targetId: member.id,
+        before: { userId: member.userId, role: member.role },
+      });
+      await publishToCompany(company.id, { type: "company.members", companyId: company.id }, [member.userId]);
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // An invitation by the token from its email, with the company it's for
+  app.get('/api/invitations/:token', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getCompanyInvitationByTokenHash(hashInvitationToken(req.params.token));
+      const company = invitation ? await storage.getCompany(invitation.companyId) : undefined;
+      if (!invitation || !company) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const { tokenHash, ...details } = invitation;
+      res.json({
+        ...details,
+        company: { id: company.id, name: company.name, logoUrl: company.logoUrl },
+        expired: invitation.expiresAt < new Date(),
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Join the team the invitation is for. It can only be accepted by the
+  // account with the address it was sent to.
+  app.post('/api/invitations/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const invitation = await storage.getCompanyInvitationByTokenHash(hashInvitationToken(req.params.token));
+      if (!user || !invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (user.email?.toLowerCase() !== invitation.email) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}` });
+      }
+      if (user.role === "admin") {
+        return res.status(400).json({ message: "Admins can't join a company team" });
+      }
+      if (await storage.getCompanyMemberByUser(user.id)) {
+        return res.status(409).json({ message: "You're already on a company team" });
+      }
+      
+      const member = await storage.acceptCompanyInvitation(invitation.id, user.id);
+      if (!member) {
+        return res.status(400).json({ message: "Invitation has expired or is no longer valid" });
+      }
+      await storage.updateUserProfile(user.id, { role: "company" });
+      await recordAudit(req, {
+        action: "member.join",
+        targetType: "member",
+        targetId: member.id,
+        companyId: member.companyId,
+        actorRole: member.role,
+        after: { userId: user.id, role: member.role },
+      });
+      await publishToCompany(member.companyId, { type: "company.members", companyId: member.companyId });
+      
+      res.json(member);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // ============ ADMIN ROUTES ============
+
+  // Get admin stats
+  app.get('/api/admin/stats', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const stats = await storage.getAdminStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching admin stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // Search users, newest first, with the company team each is on
+  app.get('/api/admin/users', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = userSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const search = parsed.data;
+      const { users: userList, total } = await storage.searchUsers(search);
+      const usersWithCompany = await Promise.all(
+        userList.map(async (user) => {
+          const membership = await getMembership(user.id);
+          return {
+            ...user,
+            company: membership ? { id: membership.company.id, name: membership.company.name } : null,
+            companyRole: membership?.member.role ?? null,
+          };
+        })
+      );
+      
+      res.json({ users: usersWithCompany, total, limit: search.limit, offset: search.offset });
+    } catch (error) {
+      console.error("Error searching users:", error);
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
+
+  // Change a user's role. Anyone leaving the company role leaves their
+  // company team too, which the owner can't.
+  app.patch('/api/admin/users/:id/role', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { role } = req.body;
+      if (!(userRoleEnum.enumValues as readonly string[]).includes(role)) {
+        return res.status(400).json({ message: `role must be one of ${userRoleEnum.enumValues.join(", ")}` });
+      }
+      if (user.id === req.dbUser.id) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+      if (role === user.role) {
+        return res.json(user);
+      }
+      
+      const membership = role === "company" ? undefined : await getMembership(user.id);
+      if (membership?.member.role === "owner") {
+        return res.status(409).json({ message: `${user.email ?? "The user"} owns ${membership.company.name} and can't leave its team` });
+      }
+      if (membership) {
+        await storage.removeCompanyMember(membership.member.id);
+        await recordAudit(req, {
+          action: "member.remove",
+          targetType: "member",
+          targetId: membership.member.id,
+          companyId: membership.company.id,
+          before: { userId: user.id, role: membership.member.role },
+        });
+      }
+      
+      const updated = await storage.updateUserProfile(user.id, { role: role as UserRole });
+      await recordAudit(req, {
+        action: "user.changeRole",
+        targetType: "user",
+        targetId: user.id,
+        companyId: null,
+        before: { role: user.role },
+        after: { role },
+      });
+      disconnectUser(user.id, "Role changed");
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Failed to change role" });
+    }
+  });
+
+  // Suspend an account, ending its sessions. Body: { reason }
+  app.post('/api/admin/users/:id/suspend', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ message: "Give a reason for the suspension" });
+      }
+      if (user.id === req.dbUser.id) {
+        return res.status(400).json({ message: "You can't suspend yourself" });
+      }
+      if (user.suspendedAt) {
+        return res.status(400).json({ message: "User is already suspended" });
+      }
+      
+      // Sessions are revoked too, so lifting the suspension doesn't bring
+      // them back
+      const now = new Date();
+      const updated = await storage.updateUserProfile(user.id, {
+        suspendedAt: now,
+        suspensionReason: reason,
+        sessionsRevokedAt: now,
+      });
+      await recordAudit(req, {
+        action: "user.suspend",
+        targetType: "user",
+        targetId: user.id,
+        companyId: null,
+        before: { suspended: false },
+        after: { suspended: true },
+        reason,
+      });
+      disconnectUser(user.id, "Account suspended");
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      res.status(500).json({ message: "Failed to suspend user" });
+    }
+  });
+
+  // Lift a suspension. Body: { reason? }
+  app.post('/api/admin/users/:id/unsuspend', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (!user.suspendedAt) {
+        return res.status(400).json({ message: "User isn't suspended" });
+      }
+      
+      const updated = await storage.updateUserProfile(user.id, { suspendedAt: null, suspensionReason: null });
+      await recordAudit(req, {
+        action: "user.unsuspend",
+        targetType: "user",
+        targetId: user.id,
+        companyId: null,
+        before: { suspended: true, suspensionReason: user.suspensionReason },
+        after: { suspended: false, suspensionReason: null },
+        reason: req.body.reason,
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error lifting suspension:", error);
+      res.status(500).json({ message: "Failed to lift suspension" });
+    }
+  });
+
+  // Sign a user out everywhere. Body: { reason? }
+  app.post('/api/admin/users/:id/logout', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updated = await storage.updateUserProfile(user.id, { sessionsRevokedAt: new Date() });
+      await recordAudit(req, {
+        action: "user.logout",
+        targetType: "user",
+        targetId: user.id,
+        companyId: null,
+        reason: req.body.reason,
+      });
+      disconnectUser(user.id, "Signed out by an admin");
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error signing user out:", error);
+      res.status(500).json({ message: "Failed to sign user out" });
+    }
+  });
+
+  // Get pending companies
+  app.get('/api/admin/companies/pending', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const companiesList = await storage.getPendingCompanies();
+      
+      // Add user info, and why it was rejected before if this is a
+      // resubmission
+      const companiesWithUsers = await Promise.all(
+        companiesList.map(async (company) => {
+          const user = await storage.getUser(company.userId);
+          const previousRejection = latestRejection(await storage.getCompanyStatusHistory(company.id));
+          return { ...company, user, previousRejection };
+        })
+      );
+      
+      res.json(companiesWithUsers);
+    } catch (error) {
+      console.error("Error fetching pending companies:", error);
+      res.status(500).json({ message: "Failed to fetch companies" });
+    }
+  });
+
+  // Review a company. Rejections take a reason from the taxonomy in
+  // shared/reviewReasons.ts and a note saying what to fix.
+  app.post('/api/admin/companies/:id/review', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const companyId = req.params.id;
+      const parsed = companyReviewRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const { approved, note } = parsed.data;
+      const reason = approved ? null : parsed.data.reason ?? null;
+      
+      const previous = await storage.getCompany(companyId);
+      if (!previous) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      if (previous.status !== "pending") {
+        return res.status(400).json({ message: `Company is already ${previous.status}` });
+      }
+      
+      const company = await storage.transitionCompanyStatus(companyId, {
+        action: approved ? "approve" : "reject",
+        fromStatus: previous.status,
+        toStatus: approved ? "approved" : "rejected",
+        actorId: req.dbUser.id,
+        reason,
+        note: note || null,
+      });
+      if (!company) {
+        return res.status(409).json({ message: "The company changed while you were reviewing it" });
+      }
+      
+      await notifyCompanyReviewed(company, approved, reason, note);
+      await publishToCompany(companyId, { type: "company.reviewed", companyId });
+      await recordAudit(req, {
+        action: "company.review",
+        targetType: "company",
+        targetId: companyId,
+        companyId,
+        before: { status: previous.status },
+        after: reason ? { status: company.status, reason } : { status: company.status },
+        reason: note,
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error reviewing company:", error);
+      res.status(500).json({ message: "Failed to review company" });
+    }
+  });
+
+  // Status history of a company: every review and resubmission
+  app.get('/api/admin/companies/:id/history', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      res.json(await storage.getCompanyStatusHistory(req.params.id));
+    } catch (error) {
+      console.error("Error fetching company history:", error);
+      res.status(500).json({ message: "Failed to fetch company history" });
+    }
+  });
+
+  // Get pending projects
+  app.get('/api/admin/projects/pending', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const projectList = await storage.getPendingProjects();
+      
+      // Add company info, why it was rejected before if this is a
+      // resubmission, and whether it was live before an edit sent it back
+      const projectsWithCompany = await Promise.all(
+        projectList.map(async (project) => {
+          const company = await storage.getCompany(project.companyId);
+          const history = await storage.getProjectStatusHistory(project.id);
+          const previousRejection = latestRejection(history);
+          const wasLive = history.some((change) => change.action === "activate");
+          return { ...project, company, previousRejection, wasLive };
+        })
+      );
+      
+      res.json(projectsWithCompany);
+    } catch (error) {
+      console.error("Error fetching pending projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  // Review a project. Rejections take a reason from the taxonomy in
+  // shared/reviewReasons.ts, and the company can edit and resubmit it.
+  app.post('/api/admin/projects/:id/review', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const projectId = req.params.id;
+      const parsed = projectReviewRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const { approved, note } = parsed.data;
+      const by = { actor: "admin" as const, actorId: req.dbUser.id };
+      
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (project.status !== "pending") {
+        return res.status(400).json({ message: `Project is already ${project.status}` });
+      }
+      
+      if (approved && project.maxSubmissions === null) {
+        return res.status(400).json({ message: "The project needs a submission limit before its escrow can be funded" });
+      }
+      
+      if (approved) {
+        // The company funds the project's escrow as it goes live. A pending
+        // charge leaves the project approved until the processor confirms it,
+        // and a live project sent back after an edit is already funded.
+        const charge = await fundProjectEscrow(project, by);
+        const approvedProject = (await storage.getProject(project.id)) ?? project;
+        await notifyProjectReviewed(approvedProject, true);
+        await recordAudit(req, {
+          action: "project.approve",
+          targetType: "project",
+          targetId: project.id,
+          companyId: project.companyId,
+          before: { status: project.status },
+          after: { status: approvedProject.status },
+          reason: note,
+        });
+        return res.json({ success: true, funding: charge?.status ?? "funded" });
+      }
+      
+      // A live project sent back after an edit keeps its escrow while the
+      // company fixes it; cancelling it refunds what's left
+      const reason = parsed.data.reason ?? null;
+      const rejected = await transitionProject(project, "reject", by, note, reason);
+      await notifyProjectReviewed(rejected, false, note, reason);
+      await recordAudit(req, {
+        action: "project.reject",
+        targetType: "project",
+        targetId: project.id,
+        companyId: project.companyId,
+        before: { status: project.status },
+        after: { status: rejected.status, reason },
+        reason: note,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof PaymentFailedError) {
+        return res.status(402).json({ message: error.message });
+      }
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error reviewing project:", error);
+      res.status(500).json({ message: "Failed to review project" });
+    }
+  });
+
+  // Get projects in the given comma separated statuses with their company
+  // (active projects by default)
+  app.get('/api/admin/projects', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const statuses = (typeof req.query.status === "string" ? req.query.status : "active").split(",");
+      const unknown = statuses.find((status) => !(projectStatusEnum.enumValues as readonly string[]).includes(status));
+      if (unknown !== undefined) {
+        return res.status(400).json({ message: `Unknown project status "${unknown}"` });
+      }
+      
+      const projectList = await storage.getProjectsByStatus(statuses as ProjectStatus[]);
+      const projectsWithCompany = await Promise.all(
+        projectList.map(async (project) => {
+          const company = await storage.getCompany(project.companyId);
+          return { ...project, company };
+        })
+      );
+      
+      res.json(projectsWithCompany);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  // Suspend or reinstate a live project
+  app.post('/api/admin/projects/:id/status', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const { action, note } = req.body;
+      if (action !== "suspend" && action !== "reinstate") {
+        return res.status(400).json({ message: "Action must be suspend or reinstate" });
+      }
+      
+      const updated = await transitionProject(project, action, { actor: "admin", actorId: req.dbUser.id }, note);
+      await recordAudit(req, {
+        action: action === "suspend" ? "project.suspend" : "project.reinstate",
+        targetType: "project",
+        targetId: project.id,
+        companyId: project.companyId,
+        before: { status: project.status },
+        after: { status: updated.status },
+        reason: note,
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ProjectTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing project status:", error);
+      res.status(500).json({ message: "Failed to change project status" });
+    }
+  });
+
+  // Status history of any project
+  app.get('/api/admin/projects/:id/history', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      res.json(await storage.getProjectStatusHistory(project.id));
+    } catch (error) {
+      console.error("Error fetching project history:", error);
+      res.status(500).json({ message: "Failed to fetch project history" });
+    }
+  });
+
+  // Company ratings for moderation: reported ones no admin has decided on,
+  // or with ?filter=hidden the ones taken down
+  app.get('/api/admin/company-ratings', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const filter = req.query.filter === "hidden" ? "hidden" : "reported";
+      const ratingList = await withRatedProjects(await storage.getCompanyRatingsForModeration(filter));
+      
+      const ratingsWithCompany = await Promise.all(
+        ratingList.map(async (rating) => {
+          const company = await storage.getCompany(rating.companyId);
+          return { ...rating, company: company ? { id: company.id, name: company.name } : null };
+        })
+      );
+      
+      res.json(ratingsWithCompany);
+    } catch (error) {
+      console.error("Error fetching company ratings:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
+    }
+  });
+
+  // Hide a rating, restore a hidden one or dismiss a report and leave the
+  // rating up. Hiding needs a note saying why.
+  app.post('/api/admin/company-ratings/:id/moderate', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const parsed = companyRatingModerationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const { action, note } = parsed.data;
+      
+      const rating = await storage.getCompanyRating(req.params.id);
+      if (!rating) {
+        return res.status(404).json({ message: "Rating not found" });
+      }
+      
+      if (action === "restore" ? rating.status !== "hidden" : rating.status !== "published") {
+        return res.status(400).json({ message: `Can't ${action} a rating that is ${rating.status}` });
+      }
+      if (action === "dismiss" && (!rating.reportedAt || rating.moderatedAt)) {
+        return res.status(400).json({ message: "This rating has no open report" });
+      }
+      
+      const status = action === "hide" ? "hidden" : action === "restore" ? "published" : rating.status;
+      const moderated = await storage.updateCompanyRating(rating.id, {
+        status,
+        moderatedBy: req.dbUser.id,
+        moderatedAt: new Date(),
+        moderationNote: note || null,
+      });
+      await recordAudit(req, {
+        action: `rating.${action}`,
+        targetType: "rating",
+        targetId: rating.id,
+        companyId: rating.companyId,
+        before: { status: rating.status },
+        after: { status },
+        reason: note,
+      });
+      
+      res.json(moderated);
+    } catch (error) {
+      console.error("Error moderating rating:", error);
+      res.status(500).json({ message: "Failed to moderate rating" });
+    }
+  });
+
+  // Get payouts in a given status, oldest first (the approval queue by default)
+  app.get('/api/admin/payouts', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "requested";
+      if (!(payoutStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `Unknown payout status "${status}"` });
+      }
+      
+      const payoutList = await storage.getPayoutsByStatus(status as PayoutStatus);
+      const payoutsWithDetails = await Promise.all(
+        payoutList.map(async (payout) => {
+          const candidate = await storage.getUser(payout.candidateId);
+          const payoutMethod = await storage.getPayoutMethod(payout.payoutMethodId);
+          const events = await storage.getPayoutEvents(payout.id);
+          return { ...payout, candidate, payoutMethod, events };
+        })
+      );
+      
+      res.json(payoutsWithDetails);
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+      res.status(500).json({ message: "Failed to fetch payouts" });
+    }
+  });
+
+  // Approve a payout, sending the transfer, or reject it
+  app.post('/api/admin/payouts/:id/review', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { approved, note } = req.body;
+      const payout = await storage.getPayout(req.params.id);
+      if (!payout) {
+        return res.status(404).json({ message: "Payout not found" });
+      }
+      
+      if (payout.status !== "requested") {
+        return res.status(400).json({ message: `Payout is already ${payout.status}` });
+      }
+      
+      const review = { reviewedBy: req.dbUser.id, reviewedAt: new Date() };
+      // Of two reviews at once, only the first finds the payout requested
+      const event = { note: note || null, actorId: req.dbUser.id, fromStatus: "requested" as const };
+      
+      if (!approved) {
+        const rejected = await storage.updatePayout(payout.id, { ...review, status: "rejected" }, event);
+        if (!rejected) {
+          return res.status(409).json({ message: "Payout has already been reviewed" });
+        }
+        // Rejected payments go back into the withdrawable balance
+        await storage.updatePaymentsByPayout(payout.id, { payoutId: null });
+        await recordAudit(req, {
+          action: "payout.review",
+          targetType: "payout",
+          targetId: payout.id,
+          companyId: null,
+          before: { status: payout.status },
+          after: { status: "rejected" },
+          reason: note,
+        });
+        publish({ userIds: [payout.candidateId], roles: ["admin"] }, { type: "payout.updated", payoutId: payout.id });
+        return res.json(rejected);
+      }
+      
+      // The transfer is sent by the job runner, which retries it if the
+      // processor can't be reached
+      const processing = await storage.updatePayout(payout.id, { ...review, status: "processing" }, event);
+      if (!processing) {
+        return res.status(409).json({ message: "Payout has already been reviewed" });
+      }
+      await enqueueJob("payouts.send", { payoutId: payout.id }, { uniqueKey: `payouts.send:${payout.id}` });
+      await recordAudit(req, {
+        action: "payout.review",
+        targetType: "payout",
+        targetId: payout.id,
+        companyId: null,
+        before: { status: payout.status },
+        after: { status: "processing" },
+        reason: note,
+      });
+      publish({ userIds: [payout.candidateId], roles: ["admin"] }, { type: "payout.updated", payoutId: payout.id });
+      res.json(processing);
+    } catch (error) {
+      console.error("Error reviewing payout:", error);
+      res.status(500).json({ message: "Failed to review payout" });
+    }
+  });
+
+  // Get recent payments
+  app.get('/api/admin/payments/recent', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const paymentsList = await storage.getRecentPayments(20);
+      
+      // Add candidate and company info
+      const paymentsWithDetails = await Promise.all(
+        paymentsList.map(async (payment) => {
+          const candidate = await storage.getUser(payment.candidateId);
+          const company = await storage.getCompany(payment.companyId);
+          return { ...payment, candidate, company };
         })
       );
       
@@ -561,4 +2849,166 @@ export async function registerRoutes(server: Server, app: Express): Promise<void
     }
   });
 
+  // Get background jobs in a given status, most recently updated first
+  // (failed jobs by default)
+  app.get('/api/admin/jobs', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "failed";
+      if (!(jobStatusEnum.enumValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `Unknown job status "${status}"` });
+      }
+      
+      res.json(await storage.getJobsByStatus(status as JobStatus, 100));
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  // Give a failed job a fresh set of attempts
+  app.post('/api/admin/jobs/:id/retry', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      if (job.status !== "failed") {
+        return res.status(400).json({ message: `Job is ${job.status}, only failed jobs can be retried` });
+      }
+      
+      const retried = await storage.updateJob(job.id, { status: "queued", attempts: 0, runAt: new Date() });
+      await recordAudit(req, {
+        action: "job.retry",
+        targetType: "job",
+        targetId: job.id,
+        companyId: null,
+        before: { status: job.status, attempts: job.attempts },
+        after: { status: "queued", attempts: 0 },
+      });
+      res.json(retried);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  // Search the audit log, newest first
+  app.get('/api/admin/audit', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = auditSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const search = parsed.data;
+      const { entries, total } = await storage.searchAuditLog(search);
+      res.json({ entries: await withAuditActors(entries), total, limit: search.limit, offset: search.offset });
+    } catch (error) {
+      console.error("Error searching audit log:", error);
+      res.status(500).json({ message: "Failed to search audit log" });
+    }
+  });
+
+  // Everything matching an audit log search as CSV
+  app.get('/api/admin/audit/export.csv', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = auditSearchSchema.omit({ limit: true, offset: true }).safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const { entries } = await storage.searchAuditLog({ ...parsed.data, limit: auditExportLimit, offset: 0 });
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.type("text/csv").send(renderAuditCsv(await withAuditActors(entries)));
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  // ============ PAYMENT ROUTES ============
+
+  // Processor webhook. Not behind auth: the signature is what proves the
+  // request came from the processor.
+  app.post('/api/payments/webhook', async (req, res) => {
+    let event;
+    try {
+      event = getPaymentProvider().verifyWebhook(req.rawBody as Buffer, req.headers);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid webhook" });
+    }
+    
+    try {
+      // Acknowledged once queued. Redeliveries of the same event are
+      // dropped by the key.
+      await enqueueJob("payments.handleEvent", { event }, {
+        uniqueKey: `payments.handleEvent:${event.reference}:${event.status}`,
+        maxAttempts: 8,
+      });
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ message: "Failed to handle webhook" });
+    }
+  });
+
+  // Settle a pending simulated payment, delivering the webhook the
+  // processor would send. Only exists while the simulator is in use.
+  app.post('/api/payments/simulator/:reference/settle', isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const provider = getPaymentProvider();
+      if (!(provider instanceof PaymentSimulator)) {
+        return res.status(404).json({ message: "Payment simulator is not enabled" });
+      }
+      
+      const { status } = req.body;
+      if (status !== "succeeded" && status !== "failed") {
+        return res.status(400).json({ message: "Status must be succeeded or failed" });
+      }
+      
+      const operation = provider.getOperation(req.params.reference);
+      if (!operation) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (operation.status !== "pending") {
+        return res.status(400).json({ message: `Payment is already ${operation.status}` });
+      }
+      
+      const webhook = provider.settle(req.params.reference, status);
+      await handlePaymentEvent(provider.verifyWebhook(Buffer.from(webhook.body), webhook.headers));
+      await recordAudit(req, {
+        action: "payment.settle",
+        targetType: "payment",
+        targetId: req.params.reference,
+        companyId: null,
+        before: { status: operation.status },
+        after: { status },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error settling simulated payment:", error);
+      res.status(500).json({ message: "Failed to settle payment" });
+    }
+  });
+
+  // ============ MAIL ROUTES ============
+
+  // Mail kept by the capture transport, newest first. Only exists while
+  // mail is being captured rather than sent.
+  app.get('/api/mail/captured', isAuthenticated, requireRole(["admin"]), async (req, res) => {
+    try {
+      const transport = getMailTransport();
+      if (!(transport instanceof CaptureTransport)) {
+        return res.status(404).json({ message: "Mail capture is not enabled" });
+      }
+      
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      res.json(transport.messages(to));
+    } catch (error) {
+      console.error("Error fetching captured mail:", error);
+      res.status(500).json({ message: "Failed to fetch captured mail" });
+    }
+  });
+
 }
@@ -1,65 +1,338 @@
 import {
   users,
   companies,
+  companyMembers,
+  companyInvitations,
+  companyStatusHistory,
+  auditLog,
   projects,
+  projectStatusHistory,
   submissions,
+  submissionFiles,
+  submissionRevisions,
+  submissionMessages,
+  submissionMessageFiles,
   ratings,
+  companyRatings,
   payments,
+  invoices,
+  payoutMethods,
+  payouts,
+  payoutEvents,
+  ledgerAccounts,
+  ledgerTransactions,
+  ledgerEntries,
+  jobs,
+  notifications,
   type User,
   type UpsertUser,
+  type UserSearch,
   type Company,
   type InsertCompany,
+  type CompanyMember,
+  type InsertCompanyMember,
+  type CompanyRole,
+  type CompanyInvitation,
+  type InsertCompanyInvitation,
+  type CompanyStatusChange,
+  type InsertCompanyStatusChange,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditSearch,
   type Project,
   type InsertProject,
+  type ProjectSearch,
+  type ProjectStatus,
+  type ProjectStatusChange,
+  type InsertProjectStatusChange,
   type Submission,
   type InsertSubmission,
+  type SubmissionFile,
+  type InsertSubmissionFile,
+  type SubmissionRevisionWithFiles,
+  type SubmissionMessage,
+  type InsertSubmissionMessage,
+  type SubmissionMessageFile,
+  type SubmissionMessageWithFiles,
+  type MessageSender,
   type Rating,
   type InsertRating,
+  type CompanyRating,
+  type InsertCompanyRating,
   type Payment,
   type InsertPayment,
+  type Invoice,
+  type PayoutMethod,
+  type InsertPayoutMethod,
+  type Payout,
+  type InsertPayout,
+  type PayoutEvent,
+  type PayoutStatus,
+  type LedgerAccountType,
+  type LedgerTransaction,
+  type Notification,
+  type InsertNotification,
+  type Job,
+  type InsertJob,
+  type JobStatus,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { MemStorage } from "./memStorage";
+import { InsufficientEscrowError, PayoutConflictError, fromCents, toCents } from "./ledger";
+import { SubmissionClosedError, getProjectAvailability } from "./availability";
+import { trustScore, type CompanyTrustScore } from "@shared/companyRatings";
+import { awaitingDecisionStatuses } from "@shared/submissionReview";
+import { eq, ne, desc, asc, and, or, gte, lte, ilike, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+export type NewSubmissionFile = Omit<InsertSubmissionFile, "id" | "submissionId" | "revision" | "createdAt">;
+
+// What a candidate sends for each revision of a submission
+export type RevisionContent = Pick<Submission, "content" | "attachmentUrl">;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface LedgerPosting {
+  type: LedgerAccountType;
+  ownerId: string;
+  cents: number;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserProfile(id: string, updates: Partial<User>): Promise<User | undefined>;
+  getUserByHandle(handle: string): Promise<User | undefined>;
+  // Users matching the admin search, newest first
+  searchUsers(search: UserSearch): Promise<{ users: User[]; total: number }>;
   
   // Company operations
   getCompany(id: string): Promise<Company | undefined>;
+  // The company userId created, which isn't necessarily the one they're a
+  // member of; see getCompanyMemberByUser
   getCompanyByUserId(userId: string): Promise<Company | undefined>;
+  // Also makes its creator the owner
   createCompany(company: InsertCompany): Promise<Company>;
   updateCompany(id: string, updates: Partial<Company>): Promise<Company | undefined>;
+  // Changes the status if it is still change.fromStatus and records the
+  // change in the company's status history; undefined if it moved on.
+  // Updates made along with the change are only saved if it goes through.
+  transitionCompanyStatus(
+    id: string,
+    change: Omit<InsertCompanyStatusChange, "id" | "companyId" | "createdAt">,
+    updates?: Partial<Omit<Company, "status">>,
+  ): Promise<Company | undefined>;
+  getCompanyStatusHistory(companyId: string): Promise<CompanyStatusChange[]>;
   getPendingCompanies(): Promise<Company[]>;
   getAllCompanies(): Promise<Company[]>;
   
+  // Company team operations
+  getCompanyMemberByUser(userId: string): Promise<CompanyMember | undefined>;
+  getCompanyMember(id: string): Promise<CompanyMember | undefined>;
+  // Oldest first, so the owner comes first
+  getCompanyMembers(companyId: string): Promise<CompanyMember[]>;
+  updateCompanyMemberRole(id: string, role: CompanyRole): Promise<CompanyMember | undefined>;
+  removeCompanyMember(id: string): Promise<void>;
+  // Makes the creator of each company without members its owner, for
+  // companies created before teams. Returns how many were added.
+  addMissingCompanyOwners(): Promise<number>;
+  createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation>;
+  getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined>;
+  getCompanyInvitationByTokenHash(tokenHash: string): Promise<CompanyInvitation | undefined>;
+  // Neither accepted, revoked nor expired at now, newest first
+  getPendingCompanyInvitations(companyId: string, now: Date): Promise<CompanyInvitation[]>;
+  // Returns undefined unless the invitation was still pending
+  revokeCompanyInvitation(id: string): Promise<CompanyInvitation | undefined>;
+  // Marks the invitation accepted and adds the user to the team with its
+  // role, in one step. Returns undefined when the invitation is no longer
+  // pending or the user is already on a team.
+  acceptCompanyInvitation(id: string, userId: string): Promise<CompanyMember | undefined>;
+  
   // Project operations
   getProject(id: string): Promise<Project | undefined>;
   getProjectsByCompany(companyId: string): Promise<Project[]>;
   getActiveProjects(): Promise<Project[]>;
   getFeaturedProjects(): Promise<Project[]>;
   getPendingProjects(): Promise<Project[]>;
+  getProjectsByStatus(statuses: ProjectStatus[]): Promise<Project[]>;
+  searchProjects(search: ProjectSearch): Promise<{ projects: Project[]; total: number }>;
+  getActiveProjectSkills(): Promise<string[]>;
   createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: string, updates: Partial<Project>): Promise<Project | undefined>;
+  // Status only changes through transitionProjectStatus
+  updateProject(id: string, updates: Partial<Omit<Project, "status">>): Promise<Project | undefined>;
+  // Moves the project from fromStatus to toStatus and records the change.
+  // Returns undefined when the project is no longer in fromStatus, in which
+  // case the updates made along with it aren't saved either.
+  transitionProjectStatus(
+    id: string,
+    change: Omit<InsertProjectStatusChange, "id" | "projectId" | "createdAt">,
+    updates?: Partial<Omit<Project, "status">>,
+  ): Promise<Project | undefined>;
+  getProjectStatusHistory(projectId: string): Promise<ProjectStatusChange[]>;
   
   // Submission operations
   getSubmission(id: string): Promise<Submission | undefined>;
   getSubmissionsByProject(projectId: string): Promise<Submission[]>;
   getSubmissionsByCandidate(candidateId: string): Promise<Submission[]>;
   getSubmissionByProjectAndCandidate(projectId: string, candidateId: string): Promise<Submission | undefined>;
-  createSubmission(submission: InsertSubmission): Promise<Submission>;
+  countSubmissionSlotsTaken(projectId: string): Promise<number>;
+  // Checks the project's status, deadline and free slots under a lock on
+  // the project, throwing SubmissionClosedError when it is not accepting.
+  // The files are recorded with the submission; their bytes must already
+  // be in file storage. The submission's content is also recorded as its
+  // first revision.
+  createSubmission(submission: InsertSubmission, files?: NewSubmissionFile[]): Promise<Submission>;
+  // All revisions' files, or only those of the given revision
+  getSubmissionFiles(submissionId: string, revision?: number): Promise<SubmissionFile[]>;
+  getSubmissionFile(id: string): Promise<SubmissionFile | undefined>;
   updateSubmission(id: string, updates: Partial<Submission>): Promise<Submission | undefined>;
+  // Sends the submission back for changes, recording the feedback on its
+  // current revision. Returns undefined unless it was waiting for review.
+  requestSubmissionChanges(id: string, feedback: string): Promise<Submission | undefined>;
+  // Rejects the submission. Returns undefined unless it was still waiting
+  // for a decision.
+  rejectSubmission(id: string, feedback?: string): Promise<Submission | undefined>;
+  // Records the next revision and puts the submission back up for review.
+  // Returns undefined unless changes were requested.
+  createSubmissionRevision(id: string, revision: RevisionContent, files?: NewSubmissionFile[]): Promise<Submission | undefined>;
+  // Oldest first
+  getSubmissionRevisions(submissionId: string): Promise<SubmissionRevisionWithFiles[]>;
+  
+  // Submission message operations
+  // The files are recorded with the message; their bytes must already be
+  // in file storage.
+  createSubmissionMessage(message: InsertSubmissionMessage, files?: NewSubmissionFile[]): Promise<SubmissionMessageWithFiles>;
+  // Oldest first
+  getSubmissionMessages(submissionId: string): Promise<SubmissionMessageWithFiles[]>;
+  getSubmissionMessageFile(id: string): Promise<SubmissionMessageFile | undefined>;
+  getSubmissionMessage(id: string): Promise<SubmissionMessage | undefined>;
+  // Marks what the other side sent as read by reader
+  markSubmissionMessagesRead(submissionId: string, reader: MessageSender): Promise<number>;
+  // Messages reader hasn't read yet, by submission. Submissions without
+  // any are left out.
+  countUnreadSubmissionMessages(submissionIds: string[], reader: MessageSender): Promise<Record<string, number>>;
   
   // Rating operations
   createRating(rating: InsertRating): Promise<Rating>;
   getRatingsByCandidate(candidateId: string): Promise<Rating[]>;
   
+  // Company rating operations
+  createCompanyRating(rating: InsertCompanyRating): Promise<CompanyRating>;
+  getCompanyRating(id: string): Promise<CompanyRating | undefined>;
+  getCompanyRatingBySubmission(submissionId: string): Promise<CompanyRating | undefined>;
+  getCompanyRatingsByCandidate(candidateId: string): Promise<CompanyRating[]>;
+  // Newest first, with hidden ones only when asked for
+  getCompanyRatings(companyId: string, includeHidden?: boolean): Promise<CompanyRating[]>;
+  // Reported ratings no admin has decided on yet, oldest report first, or
+  // every hidden rating, most recently moderated first
+  getCompanyRatingsForModeration(filter: "reported" | "hidden"): Promise<CompanyRating[]>;
+  updateCompanyRating(
+    id: string,
+    updates: Partial<Pick<CompanyRating, "status" | "reportedAt" | "reportReason" | "moderatedBy" | "moderatedAt" | "moderationNote">>,
+  ): Promise<CompanyRating | undefined>;
+  // Sets the company's reply, unless the rating already has one
+  replyToCompanyRating(id: string, reply: string, repliedBy: string): Promise<CompanyRating | undefined>;
+  // Trust scores from published ratings, by company. Companies without any
+  // are left out.
+  getCompanyTrustScores(companyIds: string[]): Promise<Record<string, CompanyTrustScore>>;
+  
   // Payment operations
   createPayment(payment: InsertPayment): Promise<Payment>;
+  getPayment(id: string): Promise<Payment | undefined>;
   getPaymentsByCandidate(candidateId: string): Promise<Payment[]>;
+  getPaymentsByCompany(companyId: string): Promise<Payment[]>;
   getRecentPayments(limit: number): Promise<Payment[]>;
+  // Approved payments not yet part of a payout
+  getWithdrawablePayments(candidateId: string): Promise<Payment[]>;
+  updatePaymentsByPayout(payoutId: string, updates: Partial<Payment>): Promise<void>;
+  
+  // Invoice operations
+  // Returns the payment's existing invoice if it already has one
+  createInvoice(payment: Payment): Promise<Invoice>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoicesByCompany(companyId: string): Promise<Invoice[]>;
+  
+  // Payout operations
+  getPayoutMethodsByUser(userId: string): Promise<PayoutMethod[]>;
+  getPayoutMethod(id: string): Promise<PayoutMethod | undefined>;
+  createPayoutMethod(method: InsertPayoutMethod & { userId: string }): Promise<PayoutMethod>;
+  removePayoutMethod(id: string): Promise<void>;
+  // Attaches the payments to the new payout. Throws PayoutConflictError when
+  // one of them has been withdrawn in the meantime.
+  createPayout(payout: InsertPayout, paymentIds: string[]): Promise<Payout>;
+  getPayout(id: string): Promise<Payout | undefined>;
+  getPayoutsByCandidate(candidateId: string): Promise<Payout[]>;
+  getPayoutsByStatus(status: PayoutStatus): Promise<Payout[]>;
+  getPayoutByProviderReference(providerReference: string): Promise<Payout | undefined>;
+  // Status changes are recorded as payout events along with the note and
+  // actor. With fromStatus, only updates a payout still in that status.
+  updatePayout(
+    id: string,
+    updates: Partial<Payout>,
+    event?: { note?: string | null; actorId?: string | null; fromStatus?: PayoutStatus },
+  ): Promise<Payout | undefined>;
+  getPayoutEvents(payoutId: string): Promise<PayoutEvent[]>;
+  
+  // Ledger operations. Money only moves through balanced double-entry
+  // transactions: funding moves it from the company into the project's
+  // escrow, releases move it from escrow to a candidate's balance,
+  // payouts move it from that balance out to the candidate and refunds
+  // return what is left in escrow to the company.
+  fundProjectEscrow(projectId: string, amount: string, providerReference?: string): Promise<LedgerTransaction>;
+  // Approves the submission, releases its payment and records the payment
+  // together, so it can't be approved, and paid, twice, or paid without a
+  // payment the candidate can withdraw. Returns undefined unless the
+  // submission was still waiting for a decision. Throws
+  // InsufficientEscrowError when the escrow can't cover the amount.
+  releaseEscrow(
+    projectId: string,
+    submissionId: string,
+    candidateId: string,
+    amount: string,
+    feedback?: string,
+  ): Promise<Payment | undefined>;
+  // Takes everything left in escrow but `keep` at once, so two refunds
+  // can't both take it. Returns undefined when there was nothing to refund.
+  refundProjectEscrow(projectId: string, keep?: string): Promise<LedgerTransaction | undefined>;
+  // Puts a refund the processor declined back into escrow. Returns
+  // undefined when the refund was already reversed.
+  reverseEscrowRefund(refund: LedgerTransaction, providerReference: string): Promise<LedgerTransaction | undefined>;
+  setLedgerTransactionProviderReference(id: string, providerReference: string): Promise<LedgerTransaction | undefined>;
+  // Marks a processing payout paid, debits the candidate's balance for it
+  // and marks its payments paid, together. Returns undefined unless the
+  // payout was still processing, so settling it twice pays it once.
+  payCandidatePayout(payoutId: string, paidAt: Date): Promise<Payout | undefined>;
+  getProjectEscrowBalance(projectId: string): Promise<string>;
+  getCandidateBalance(candidateId: string): Promise<string>;
+  getLedgerTransactionsByProject(projectId: string): Promise<LedgerTransaction[]>;
+  getLedgerTransactionByProviderReference(providerReference: string): Promise<LedgerTransaction | undefined>;
+  
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Newest first
+  getNotificationsByUser(userId: string, limit: number): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  // Only marks the notification when it belongs to the user
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  
+  // Job operations
+  // Returns the existing job when one with the same uniqueKey was enqueued before
+  enqueueJob(job: InsertJob): Promise<Job>;
+  // Marks the next due job running and counts the attempt. Concurrent
+  // workers never claim the same job.
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobsByStatus(status: JobStatus, limit: number): Promise<Job[]>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  // Puts jobs left running by a crashed process back in the queue
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  
+  // Audit log operations. Entries are only ever appended.
+  appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  // Newest first. q matches the action, target id, reason and the actor's
+  // name or email.
+  searchAuditLog(search: AuditSearch): Promise<{ entries: AuditLogEntry[]; total: number }>;
   
   // Stats
   getAdminStats(): Promise<{
@@ -115,6 +388,37 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByHandle(handle: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.handle, handle));
+    return user;
+  }
+
+  async searchUsers(search: UserSearch): Promise<{ users: User[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (search.q) {
+      const pattern = `%${search.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(ilike(users.email, pattern), ilike(users.firstName, pattern), ilike(users.lastName, pattern), eq(users.id, search.q)),
+      );
+    }
+    if (search.role) conditions.push(eq(users.role, search.role));
+    if (search.status === "suspended") conditions.push(isNotNull(users.suspendedAt));
+    if (search.status === "active") conditions.push(isNull(users.suspendedAt));
+
+    const where = and(...conditions);
+    const userList = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt), asc(users.id))
+      .limit(search.limit)
+      .offset(search.offset);
+    const [totalCount] = await db.select({ count: sql<number>`count(*)` }).from(users).where(where);
+
+    return { users: userList, total: Number(totalCount?.count || 0) };
+  }
+
   // Company operations
   async getCompany(id: string): Promise<Company | undefined> {
     const [company] = await db.select().from(companies).where(eq(companies.id, id));
@@ -127,8 +431,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCompany(company: InsertCompany): Promise<Company> {
-    const [created] = await db.insert(companies).values(company).returning();
-    return created;
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(companies).values(company).returning();
+      await tx.insert(companyMembers).values({ companyId: created.id, userId: created.userId, role: "owner" });
+      return created;
+    });
   }
 
   async updateCompany(id: string, updates: Partial<Company>): Promise<Company | undefined> {
@@ -140,6 +447,32 @@ export class DatabaseStorage implements IStorage {
     return company;
   }
 
+  async transitionCompanyStatus(
+    id: string,
+    change: Omit<InsertCompanyStatusChange, "id" | "companyId" | "createdAt">,
+    updates: Partial<Omit<Company, "status">> = {},
+  ): Promise<Company | undefined> {
+    return db.transaction(async (tx) => {
+      const [company] = await tx
+        .update(companies)
+        .set({ ...updates, status: change.toStatus, updatedAt: new Date() })
+        .where(and(eq(companies.id, id), eq(companies.status, change.fromStatus)))
+        .returning();
+      if (company) {
+        await tx.insert(companyStatusHistory).values({ ...change, companyId: id });
+      }
+      return company;
+    });
+  }
+
+  async getCompanyStatusHistory(companyId: string): Promise<CompanyStatusChange[]> {
+    return db
+      .select()
+      .from(companyStatusHistory)
+      .where(eq(companyStatusHistory.companyId, companyId))
+      .orderBy(asc(companyStatusHistory.createdAt));
+  }
+
   async getPendingCompanies(): Promise<Company[]> {
     return db.select().from(companies).where(eq(companies.status, "pending")).orderBy(desc(companies.createdAt));
   }
@@ -148,6 +481,113 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(companies).orderBy(desc(companies.createdAt));
   }
 
+  // Company team operations
+  async getCompanyMemberByUser(userId: string): Promise<CompanyMember | undefined> {
+    const [member] = await db.select().from(companyMembers).where(eq(companyMembers.userId, userId));
+    return member;
+  }
+
+  async getCompanyMember(id: string): Promise<CompanyMember | undefined> {
+    const [member] = await db.select().from(companyMembers).where(eq(companyMembers.id, id));
+    return member;
+  }
+
+  async getCompanyMembers(companyId: string): Promise<CompanyMember[]> {
+    return db
+      .select()
+      .from(companyMembers)
+      .where(eq(companyMembers.companyId, companyId))
+      .orderBy(asc(companyMembers.createdAt));
+  }
+
+  async updateCompanyMemberRole(id: string, role: CompanyRole): Promise<CompanyMember | undefined> {
+    const [member] = await db.update(companyMembers).set({ role }).where(eq(companyMembers.id, id)).returning();
+    return member;
+  }
+
+  async removeCompanyMember(id: string): Promise<void> {
+    await db.delete(companyMembers).where(eq(companyMembers.id, id));
+  }
+
+  async addMissingCompanyOwners(): Promise<number> {
+    const added = await db.execute(sql`
+      insert into ${companyMembers} (company_id, user_id, role)
+      select ${companies.id}, ${companies.userId}, 'owner' from ${companies}
+      where not exists (select 1 from ${companyMembers} where ${companyMembers.companyId} = ${companies.id})
+      on conflict do nothing
+    `);
+    return added.rowCount ?? 0;
+  }
+
+  async createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const [created] = await db.insert(companyInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async getCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.id, id));
+    return invitation;
+  }
+
+  async getCompanyInvitationByTokenHash(tokenHash: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async getPendingCompanyInvitations(companyId: string, now: Date): Promise<CompanyInvitation[]> {
+    return db
+      .select()
+      .from(companyInvitations)
+      .where(
+        and(
+          eq(companyInvitations.companyId, companyId),
+          isNull(companyInvitations.acceptedAt),
+          isNull(companyInvitations.revokedAt),
+          gte(companyInvitations.expiresAt, now),
+        ),
+      )
+      .orderBy(desc(companyInvitations.createdAt));
+  }
+
+  async revokeCompanyInvitation(id: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db
+      .update(companyInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(companyInvitations.id, id), isNull(companyInvitations.acceptedAt), isNull(companyInvitations.revokedAt)))
+      .returning();
+    return invitation;
+  }
+
+  async acceptCompanyInvitation(id: string, userId: string): Promise<CompanyMember | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(companyMembers).where(eq(companyMembers.userId, userId));
+      if (existing) {
+        return undefined;
+      }
+      const now = new Date();
+      const [invitation] = await tx
+        .update(companyInvitations)
+        .set({ acceptedAt: now, acceptedBy: userId })
+        .where(
+          and(
+            eq(companyInvitations.id, id),
+            isNull(companyInvitations.acceptedAt),
+            isNull(companyInvitations.revokedAt),
+            gte(companyInvitations.expiresAt, now),
+          ),
+        )
+        .returning();
+      if (!invitation) {
+        return undefined;
+      }
+      const [member] = await tx
+        .insert(companyMembers)
+        .values({ companyId: invitation.companyId, userId, role: invitation.role })
+        .returning();
+      return member;
+    });
+  }
+
   // Project operations
   async getProject(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
@@ -170,12 +610,68 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects).where(eq(projects.status, "pending")).orderBy(desc(projects.createdAt));
   }
 
+  async getProjectsByStatus(statuses: ProjectStatus[]): Promise<Project[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+    return db.select().from(projects).where(inArray(projects.status, statuses)).orderBy(desc(projects.createdAt));
+  }
+
+  async searchProjects(search: ProjectSearch): Promise<{ projects: Project[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [eq(projects.status, "active")];
+
+    if (search.q) {
+      const pattern = `%${search.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(projects.title, pattern), ilike(projects.description, pattern)));
+    }
+    if (search.skills.length > 0) {
+      const skillList = sql`ARRAY[${sql.join(search.skills.map((skill) => sql`${skill}`), sql`, `)}]::text[]`;
+      conditions.push(
+        search.skillMatch === "all"
+          ? sql`${projects.skills} @> ${skillList}`
+          : sql`${projects.skills} && ${skillList}`,
+      );
+    }
+    if (search.difficulty) conditions.push(eq(projects.difficulty, search.difficulty));
+    if (search.minPayment !== undefined) conditions.push(gte(projects.payment, String(search.minPayment)));
+    if (search.maxPayment !== undefined) conditions.push(lte(projects.payment, String(search.maxPayment)));
+    if (search.deadlineFrom) conditions.push(gte(projects.deadline, search.deadlineFrom));
+    if (search.deadlineTo) conditions.push(lte(projects.deadline, search.deadlineTo));
+    if (search.companyId) conditions.push(eq(projects.companyId, search.companyId));
+
+    const where = and(...conditions);
+    const orderBy = {
+      newest: [desc(projects.createdAt)],
+      highest_pay: [desc(projects.payment), desc(projects.createdAt)],
+      closing_soon: [sql`${projects.deadline} asc nulls last`, desc(projects.createdAt)],
+    }[search.sort];
+
+    const projectList = await db
+      .select()
+      .from(projects)
+      .where(where)
+      .orderBy(...orderBy, asc(projects.id))
+      .limit(search.limit)
+      .offset(search.offset);
+    const [totalCount] = await db.select({ count: sql<number>`count(*)` }).from(projects).where(where);
+
+    return { projects: projectList, total: Number(totalCount?.count || 0) };
+  }
+
+  async getActiveProjectSkills(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ skill: sql<string>`unnest(${projects.skills})` })
+      .from(projects)
+      .where(eq(projects.status, "active"));
+    return rows.map((row) => row.skill).sort((a, b) => a.localeCompare(b));
+  }
+
   async createProject(project: InsertProject): Promise<Project> {
     const [created] = await db.insert(projects).values(project).returning();
     return created;
   }
 
-  async updateProject(id: string, updates: Partial<Project>): Promise<Project | undefined> {
+  async updateProject(id: string, updates: Partial<Omit<Project, "status">>): Promise<Project | undefined> {
     const [project] = await db
       .update(projects)
       .set({ ...updates, updatedAt: new Date() })
@@ -184,6 +680,32 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
+  async transitionProjectStatus(
+    id: string,
+    change: Omit<InsertProjectStatusChange, "id" | "projectId" | "createdAt">,
+    updates: Partial<Omit<Project, "status">> = {},
+  ): Promise<Project | undefined> {
+    return db.transaction(async (tx) => {
+      const [project] = await tx
+        .update(projects)
+        .set({ ...updates, status: change.toStatus, updatedAt: new Date() })
+        .where(and(eq(projects.id, id), eq(projects.status, change.fromStatus)))
+        .returning();
+      if (project) {
+        await tx.insert(projectStatusHistory).values({ ...change, projectId: id });
+      }
+      return project;
+    });
+  }
+
+  async getProjectStatusHistory(projectId: string): Promise<ProjectStatusChange[]> {
+    return db
+      .select()
+      .from(projectStatusHistory)
+      .where(eq(projectStatusHistory.projectId, projectId))
+      .orderBy(asc(projectStatusHistory.createdAt));
+  }
+
   // Submission operations
   async getSubmission(id: string): Promise<Submission | undefined> {
     const [submission] = await db.select().from(submissions).where(eq(submissions.id, id));
@@ -206,9 +728,202 @@ export class DatabaseStorage implements IStorage {
     return submission;
   }
 
-  async createSubmission(submission: InsertSubmission): Promise<Submission> {
-    const [created] = await db.insert(submissions).values(submission).returning();
-    return created;
+  async countSubmissionSlotsTaken(projectId: string): Promise<number> {
+    return this.countSlotsTaken(db, projectId);
+  }
+
+  private async countSlotsTaken(tx: DbTransaction | typeof db, projectId: string): Promise<number> {
+    const [row] = await tx
+      .select({ count: sql<number>`count(*)` })
+      .from(submissions)
+      .where(and(eq(submissions.projectId, projectId), ne(submissions.status, "rejected")));
+    return Number(row?.count || 0);
+  }
+
+  async createSubmission(submission: InsertSubmission, files: NewSubmissionFile[] = []): Promise<Submission> {
+    return db.transaction(async (tx) => {
+      // Concurrent submits to the same project queue up here, so the last
+      // slot can only be taken once
+      const [project] = await tx.select().from(projects).where(eq(projects.id, submission.projectId)).for("update");
+      if (!project) {
+        throw new SubmissionClosedError("not_active");
+      }
+      const [existing] = await tx
+        .select({ id: submissions.id })
+        .from(submissions)
+        .where(and(eq(submissions.projectId, project.id), eq(submissions.candidateId, submission.candidateId)));
+      if (existing) {
+        throw new SubmissionClosedError("already_submitted");
+      }
+      const availability = getProjectAvailability(project, await this.countSlotsTaken(tx, project.id));
+      if (availability.closedReason) {
+        throw new SubmissionClosedError(availability.closedReason);
+      }
+
+      const [created] = await tx.insert(submissions).values(submission).returning();
+      await tx.insert(submissionRevisions).values({
+        submissionId: created.id,
+        number: created.revision,
+        content: created.content,
+        attachmentUrl: created.attachmentUrl,
+      });
+      if (files.length > 0) {
+        await tx
+          .insert(submissionFiles)
+          .values(files.map((file) => ({ ...file, submissionId: created.id, revision: created.revision })));
+      }
+      return created;
+    });
+  }
+
+  async getSubmissionFiles(submissionId: string, revision?: number): Promise<SubmissionFile[]> {
+    return db
+      .select()
+      .from(submissionFiles)
+      .where(
+        and(
+          eq(submissionFiles.submissionId, submissionId),
+          revision === undefined ? undefined : eq(submissionFiles.revision, revision),
+        ),
+      )
+      .orderBy(submissionFiles.createdAt);
+  }
+
+  async getSubmissionFile(id: string): Promise<SubmissionFile | undefined> {
+    const [file] = await db.select().from(submissionFiles).where(eq(submissionFiles.id, id));
+    return file;
+  }
+
+  async requestSubmissionChanges(id: string, feedback: string): Promise<Submission | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(submissions)
+        .set({ status: "changes_requested", feedback, updatedAt: new Date() })
+        .where(and(eq(submissions.id, id), inArray(submissions.status, ["pending", "under_review"])))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+      await tx
+        .update(submissionRevisions)
+        .set({ changesRequested: feedback })
+        .where(and(eq(submissionRevisions.submissionId, id), eq(submissionRevisions.number, updated.revision)));
+      return updated;
+    });
+  }
+
+  async rejectSubmission(id: string, feedback?: string): Promise<Submission | undefined> {
+    const [updated] = await db
+      .update(submissions)
+      .set({ status: "rejected", feedback, updatedAt: new Date() })
+      .where(and(eq(submissions.id, id), inArray(submissions.status, [...awaitingDecisionStatuses])))
+      .returning();
+    return updated;
+  }
+
+  async createSubmissionRevision(id: string, revision: RevisionContent, files: NewSubmissionFile[] = []): Promise<Submission | undefined> {
+    return db.transaction(async (tx) => {
+      // Locked so two revisions sent at once can't both be recorded
+      const [submission] = await tx.select().from(submissions).where(eq(submissions.id, id)).for("update");
+      if (submission?.status !== "changes_requested") {
+        return undefined;
+      }
+      const number = submission.revision + 1;
+      await tx.insert(submissionRevisions).values({ submissionId: id, number, ...revision });
+      if (files.length > 0) {
+        await tx.insert(submissionFiles).values(files.map((file) => ({ ...file, submissionId: id, revision: number })));
+      }
+      const [updated] = await tx
+        .update(submissions)
+        .set({ ...revision, revision: number, status: "pending", updatedAt: new Date() })
+        .where(eq(submissions.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getSubmissionRevisions(submissionId: string): Promise<SubmissionRevisionWithFiles[]> {
+    const revisions = await db
+      .select()
+      .from(submissionRevisions)
+      .where(eq(submissionRevisions.submissionId, submissionId))
+      .orderBy(submissionRevisions.number);
+    const files = await this.getSubmissionFiles(submissionId);
+    return revisions.map((revision) => ({ ...revision, files: files.filter((file) => file.revision === revision.number) }));
+  }
+
+  // Submission message operations
+  async createSubmissionMessage(message: InsertSubmissionMessage, files: NewSubmissionFile[] = []): Promise<SubmissionMessageWithFiles> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(submissionMessages).values(message).returning();
+      const attached = files.length > 0
+        ? await tx
+            .insert(submissionMessageFiles)
+            .values(files.map((file) => ({ ...file, messageId: created.id })))
+            .returning()
+        : [];
+      return { ...created, files: attached };
+    });
+  }
+
+  async getSubmissionMessages(submissionId: string): Promise<SubmissionMessageWithFiles[]> {
+    const messages = await db
+      .select()
+      .from(submissionMessages)
+      .where(eq(submissionMessages.submissionId, submissionId))
+      .orderBy(submissionMessages.createdAt);
+    if (messages.length === 0) {
+      return [];
+    }
+    const files = await db
+      .select()
+      .from(submissionMessageFiles)
+      .where(inArray(submissionMessageFiles.messageId, messages.map((message) => message.id)))
+      .orderBy(submissionMessageFiles.createdAt);
+    return messages.map((message) => ({ ...message, files: files.filter((file) => file.messageId === message.id) }));
+  }
+
+  async getSubmissionMessageFile(id: string): Promise<SubmissionMessageFile | undefined> {
+    const [file] = await db.select().from(submissionMessageFiles).where(eq(submissionMessageFiles.id, id));
+    return file;
+  }
+
+  async getSubmissionMessage(id: string): Promise<SubmissionMessage | undefined> {
+    const [message] = await db.select().from(submissionMessages).where(eq(submissionMessages.id, id));
+    return message;
+  }
+
+  async markSubmissionMessagesRead(submissionId: string, reader: MessageSender): Promise<number> {
+    const marked = await db
+      .update(submissionMessages)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(submissionMessages.submissionId, submissionId),
+          ne(submissionMessages.sender, reader),
+          isNull(submissionMessages.readAt),
+        ),
+      )
+      .returning({ id: submissionMessages.id });
+    return marked.length;
+  }
+
+  async countUnreadSubmissionMessages(submissionIds: string[], reader: MessageSender): Promise<Record<string, number>> {
+    if (submissionIds.length === 0) {
+      return {};
+    }
+    const rows = await db
+      .select({ submissionId: submissionMessages.submissionId, count: sql<number>`count(*)` })
+      .from(submissionMessages)
+      .where(
+        and(
+          inArray(submissionMessages.submissionId, submissionIds),
+          ne(submissionMessages.sender, reader),
+          isNull(submissionMessages.readAt),
+        ),
+      )
+      .groupBy(submissionMessages.submissionId);
+    return Object.fromEntries(rows.map((row) => [row.submissionId, Number(row.count)]));
   }
 
   async updateSubmission(id: string, updates: Partial<Submission>): Promise<Submission | undefined> {
@@ -230,20 +945,611 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(ratings).where(eq(ratings.candidateId, candidateId)).orderBy(desc(ratings.createdAt));
   }
 
+  // Company rating operations
+  async createCompanyRating(rating: InsertCompanyRating): Promise<CompanyRating> {
+    const [created] = await db.insert(companyRatings).values(rating).returning();
+    return created;
+  }
+
+  async getCompanyRating(id: string): Promise<CompanyRating | undefined> {
+    const [rating] = await db.select().from(companyRatings).where(eq(companyRatings.id, id));
+    return rating;
+  }
+
+  async getCompanyRatingBySubmission(submissionId: string): Promise<CompanyRating | undefined> {
+    const [rating] = await db.select().from(companyRatings).where(eq(companyRatings.submissionId, submissionId));
+    return rating;
+  }
+
+  async getCompanyRatingsByCandidate(candidateId: string): Promise<CompanyRating[]> {
+    return db
+      .select()
+      .from(companyRatings)
+      .where(eq(companyRatings.candidateId, candidateId))
+      .orderBy(desc(companyRatings.createdAt));
+  }
+
+  async getCompanyRatings(companyId: string, includeHidden = false): Promise<CompanyRating[]> {
+    return db
+      .select()
+      .from(companyRatings)
+      .where(
+        and(
+          eq(companyRatings.companyId, companyId),
+          includeHidden ? undefined : eq(companyRatings.status, "published"),
+        ),
+      )
+      .orderBy(desc(companyRatings.createdAt));
+  }
+
+  async getCompanyRatingsForModeration(filter: "reported" | "hidden"): Promise<CompanyRating[]> {
+    if (filter === "hidden") {
+      return db
+        .select()
+        .from(companyRatings)
+        .where(eq(companyRatings.status, "hidden"))
+        .orderBy(desc(companyRatings.moderatedAt));
+    }
+    return db
+      .select()
+      .from(companyRatings)
+      .where(
+        and(
+          eq(companyRatings.status, "published"),
+          isNotNull(companyRatings.reportedAt),
+          isNull(companyRatings.moderatedAt),
+        ),
+      )
+      .orderBy(asc(companyRatings.reportedAt));
+  }
+
+  async updateCompanyRating(
+    id: string,
+    updates: Partial<Pick<CompanyRating, "status" | "reportedAt" | "reportReason" | "moderatedBy" | "moderatedAt" | "moderationNote">>,
+  ): Promise<CompanyRating | undefined> {
+    const [rating] = await db.update(companyRatings).set(updates).where(eq(companyRatings.id, id)).returning();
+    return rating;
+  }
+
+  async replyToCompanyRating(id: string, reply: string, repliedBy: string): Promise<CompanyRating | undefined> {
+    const [rating] = await db
+      .update(companyRatings)
+      .set({ reply, repliedBy, repliedAt: new Date() })
+      .where(and(eq(companyRatings.id, id), isNull(companyRatings.reply)))
+      .returning();
+    return rating;
+  }
+
+  async getCompanyTrustScores(companyIds: string[]): Promise<Record<string, CompanyTrustScore>> {
+    if (!companyIds.length) {
+      return {};
+    }
+    const rows = await db
+      .select({
+        companyId: companyRatings.companyId,
+        count: sql<number>`count(*)`,
+        clarity: sql<string | null>`avg(${companyRatings.clarity})`,
+        fairness: sql<string | null>`avg(${companyRatings.fairness})`,
+        paymentSpeed: sql<string | null>`avg(${companyRatings.paymentSpeed})`,
+      })
+      .from(companyRatings)
+      .where(and(inArray(companyRatings.companyId, companyIds), eq(companyRatings.status, "published")))
+      .groupBy(companyRatings.companyId);
+    const average = (value: string | null) => (value === null ? null : Number(value));
+    return Object.fromEntries(
+      rows.map((row) => [
+        row.companyId,
+        trustScore(Number(row.count), {
+          clarity: average(row.clarity),
+          fairness: average(row.fairness),
+          paymentSpeed: average(row.paymentSpeed),
+        }),
+      ]),
+    );
+  }
+
   // Payment operations
   async createPayment(payment: InsertPayment): Promise<Payment> {
     const [created] = await db.insert(payments).values(payment).returning();
     return created;
   }
 
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
   async getPaymentsByCandidate(candidateId: string): Promise<Payment[]> {
     return db.select().from(payments).where(eq(payments.candidateId, candidateId)).orderBy(desc(payments.createdAt));
   }
 
+  async getPaymentsByCompany(companyId: string): Promise<Payment[]> {
+    return db.select().from(payments).where(eq(payments.companyId, companyId)).orderBy(desc(payments.createdAt));
+  }
+
   async getRecentPayments(limit: number): Promise<Payment[]> {
     return db.select().from(payments).orderBy(desc(payments.createdAt)).limit(limit);
   }
 
+  async getWithdrawablePayments(candidateId: string): Promise<Payment[]> {
+    return db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.candidateId, candidateId), eq(payments.status, "pending"), isNull(payments.payoutId)))
+      .orderBy(asc(payments.createdAt));
+  }
+
+  async updatePaymentsByPayout(payoutId: string, updates: Partial<Payment>): Promise<void> {
+    await db.update(payments).set(updates).where(eq(payments.payoutId, payoutId));
+  }
+
+  // Invoice operations
+  async createInvoice(payment: Payment): Promise<Invoice> {
+    await db.insert(invoices).values({ companyId: payment.companyId, paymentId: payment.id }).onConflictDoNothing();
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.paymentId, payment.id));
+    return invoice;
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoicesByCompany(companyId: string): Promise<Invoice[]> {
+    return db.select().from(invoices).where(eq(invoices.companyId, companyId)).orderBy(desc(invoices.number));
+  }
+
+  // Payout operations
+  async getPayoutMethodsByUser(userId: string): Promise<PayoutMethod[]> {
+    return db
+      .select()
+      .from(payoutMethods)
+      .where(and(eq(payoutMethods.userId, userId), isNull(payoutMethods.removedAt)))
+      .orderBy(desc(payoutMethods.createdAt));
+  }
+
+  async getPayoutMethod(id: string): Promise<PayoutMethod | undefined> {
+    const [method] = await db.select().from(payoutMethods).where(eq(payoutMethods.id, id));
+    return method;
+  }
+
+  async createPayoutMethod(method: InsertPayoutMethod & { userId: string }): Promise<PayoutMethod> {
+    const [created] = await db.insert(payoutMethods).values(method).returning();
+    return created;
+  }
+
+  async removePayoutMethod(id: string): Promise<void> {
+    await db.update(payoutMethods).set({ removedAt: new Date() }).where(eq(payoutMethods.id, id));
+  }
+
+  async createPayout(payout: InsertPayout, paymentIds: string[]): Promise<Payout> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(payouts).values(payout).returning();
+      const attached = await tx
+        .update(payments)
+        .set({ payoutId: created.id })
+        .where(and(inArray(payments.id, paymentIds), eq(payments.status, "pending"), isNull(payments.payoutId)))
+        .returning({ id: payments.id });
+      if (attached.length !== paymentIds.length) {
+        throw new PayoutConflictError();
+      }
+      await tx.insert(payoutEvents).values({ payoutId: created.id, status: created.status, actorId: created.candidateId });
+      return created;
+    });
+  }
+
+  async getPayout(id: string): Promise<Payout | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.id, id));
+    return payout;
+  }
+
+  async getPayoutsByCandidate(candidateId: string): Promise<Payout[]> {
+    return db.select().from(payouts).where(eq(payouts.candidateId, candidateId)).orderBy(desc(payouts.createdAt));
+  }
+
+  async getPayoutsByStatus(status: PayoutStatus): Promise<Payout[]> {
+    return db.select().from(payouts).where(eq(payouts.status, status)).orderBy(asc(payouts.createdAt));
+  }
+
+  async getPayoutByProviderReference(providerReference: string): Promise<Payout | undefined> {
+    const [payout] = await db.select().from(payouts).where(eq(payouts.providerReference, providerReference));
+    return payout;
+  }
+
+  async updatePayout(
+    id: string,
+    updates: Partial<Payout>,
+    event?: { note?: string | null; actorId?: string | null; fromStatus?: PayoutStatus },
+  ): Promise<Payout | undefined> {
+    return db.transaction(async (tx) => {
+      const [payout] = await tx
+        .update(payouts)
+        .set(updates)
+        .where(and(eq(payouts.id, id), event?.fromStatus ? eq(payouts.status, event.fromStatus) : undefined))
+        .returning();
+      if (payout && updates.status) {
+        await tx.insert(payoutEvents).values({ payoutId: id, status: updates.status, note: event?.note, actorId: event?.actorId });
+      }
+      return payout;
+    });
+  }
+
+  async getPayoutEvents(payoutId: string): Promise<PayoutEvent[]> {
+    return db.select().from(payoutEvents).where(eq(payoutEvents.payoutId, payoutId)).orderBy(asc(payoutEvents.createdAt));
+  }
+
+  // Ledger operations
+  async fundProjectEscrow(projectId: string, amount: string, providerReference?: string): Promise<LedgerTransaction> {
+    return db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId));
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      return this.postLedgerTransaction(
+        tx,
+        { type: "escrow_fund", amount, companyId: project.companyId, projectId, providerReference, description: `Escrow funding for "${project.title}"` },
+        [
+          { type: "company_funding", ownerId: project.companyId, cents: -toCents(amount) },
+          { type: "project_escrow", ownerId: projectId, cents: toCents(amount) },
+        ],
+      );
+    });
+  }
+
+  async releaseEscrow(
+    projectId: string,
+    submissionId: string,
+    candidateId: string,
+    amount: string,
+    feedback?: string,
+  ): Promise<Payment | undefined> {
+    return db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId));
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      // Claim the approval first; of two approvals at once only one gets here
+      const [approved] = await tx
+        .update(submissions)
+        .set({ status: "approved", feedback, updatedAt: new Date() })
+        .where(and(eq(submissions.id, submissionId), inArray(submissions.status, [...awaitingDecisionStatuses])))
+        .returning();
+      if (!approved) {
+        return undefined;
+      }
+      // Lock the escrow account so concurrent approvals can't overdraw it
+      const escrow = await this.getOrCreateLedgerAccount(tx, "project_escrow", projectId);
+      await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, escrow.id)).for("update");
+      const balance = await this.getLedgerAccountBalance(tx, escrow.id);
+      if (toCents(balance) < toCents(amount)) {
+        throw new InsufficientEscrowError(projectId);
+      }
+      const release = await this.postLedgerTransaction(
+        tx,
+        { type: "escrow_release", amount, companyId: project.companyId, projectId, submissionId, description: `Payment for "${project.title}"` },
+        [
+          { type: "project_escrow", ownerId: projectId, cents: -toCents(amount) },
+          { type: "candidate_balance", ownerId: candidateId, cents: toCents(amount) },
+        ],
+      );
+      // Stays pending in the candidate's balance until they withdraw it
+      const [payment] = await tx
+        .insert(payments)
+        .values({ submissionId, candidateId, companyId: project.companyId, amount, status: "pending", ledgerTransactionId: release.id })
+        .returning();
+      return payment;
+    });
+  }
+
+  async refundProjectEscrow(projectId: string, keep = "0"): Promise<LedgerTransaction | undefined> {
+    return db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId));
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const escrow = await this.getOrCreateLedgerAccount(tx, "project_escrow", projectId);
+      await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, escrow.id)).for("update");
+      const remaining = toCents(await this.getLedgerAccountBalance(tx, escrow.id)) - toCents(keep);
+      if (remaining <= 0) {
+        return undefined;
+      }
+      return this.postLedgerTransaction(
+        tx,
+        { type: "escrow_refund", amount: fromCents(remaining), companyId: project.companyId, projectId, description: `Escrow refund for "${project.title}"` },
+        [
+          { type: "project_escrow", ownerId: projectId, cents: -remaining },
+          { type: "company_funding", ownerId: project.companyId, cents: remaining },
+        ],
+      );
+    });
+  }
+
+  async reverseEscrowRefund(refund: LedgerTransaction, providerReference: string): Promise<LedgerTransaction | undefined> {
+    const projectId = refund.projectId!;
+    return db.transaction(async (tx) => {
+      const escrow = await this.getOrCreateLedgerAccount(tx, "project_escrow", projectId);
+      await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, escrow.id)).for("update");
+      // Webhooks can be delivered more than once
+      const [reversed] = await tx
+        .select()
+        .from(ledgerTransactions)
+        .where(and(eq(ledgerTransactions.type, "escrow_refund_reversal"), eq(ledgerTransactions.providerReference, providerReference)));
+      if (reversed) {
+        return undefined;
+      }
+      return this.postLedgerTransaction(
+        tx,
+        {
+          type: "escrow_refund_reversal",
+          amount: refund.amount,
+          companyId: refund.companyId,
+          projectId,
+          providerReference,
+          description: `Reversal of declined escrow refund ${refund.id}`,
+        },
+        [
+          { type: "company_funding", ownerId: refund.companyId!, cents: -toCents(refund.amount) },
+          { type: "project_escrow", ownerId: projectId, cents: toCents(refund.amount) },
+        ],
+      );
+    });
+  }
+
+  async setLedgerTransactionProviderReference(id: string, providerReference: string): Promise<LedgerTransaction | undefined> {
+    const [transaction] = await db
+      .update(ledgerTransactions)
+      .set({ providerReference })
+      .where(eq(ledgerTransactions.id, id))
+      .returning();
+    return transaction;
+  }
+
+  async payCandidatePayout(payoutId: string, paidAt: Date): Promise<Payout | undefined> {
+    return db.transaction(async (tx) => {
+      // Claim the payout first; of two settlements at once only one gets here
+      const [payout] = await tx
+        .update(payouts)
+        .set({ status: "paid", paidAt })
+        .where(and(eq(payouts.id, payoutId), eq(payouts.status, "processing")))
+        .returning();
+      if (!payout) {
+        return undefined;
+      }
+      await tx.insert(payoutEvents).values({ payoutId, status: "paid" });
+      const balance = await this.getOrCreateLedgerAccount(tx, "candidate_balance", payout.candidateId);
+      await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, balance.id)).for("update");
+      if (toCents(await this.getLedgerAccountBalance(tx, balance.id)) < toCents(payout.amount)) {
+        throw new Error(`Candidate ${payout.candidateId} can't cover payout ${payout.id}`);
+      }
+      await this.postLedgerTransaction(
+        tx,
+        {
+          type: "candidate_payout",
+          amount: payout.amount,
+          payoutId: payout.id,
+          providerReference: payout.providerReference,
+          description: `Payout ${payout.id}`,
+        },
+        [
+          { type: "candidate_balance", ownerId: payout.candidateId, cents: -toCents(payout.amount) },
+          { type: "candidate_payout", ownerId: payout.candidateId, cents: toCents(payout.amount) },
+        ],
+      );
+      await tx
+        .update(payments)
+        .set({ status: "paid", provider: payout.provider, providerReference: payout.providerReference, paidAt })
+        .where(eq(payments.payoutId, payoutId));
+      return payout;
+    });
+  }
+
+  async getProjectEscrowBalance(projectId: string): Promise<string> {
+    return this.getBalanceByOwner("project_escrow", projectId);
+  }
+
+  async getCandidateBalance(candidateId: string): Promise<string> {
+    return this.getBalanceByOwner("candidate_balance", candidateId);
+  }
+
+  async getLedgerTransactionsByProject(projectId: string): Promise<LedgerTransaction[]> {
+    return db.select().from(ledgerTransactions).where(eq(ledgerTransactions.projectId, projectId)).orderBy(desc(ledgerTransactions.createdAt));
+  }
+
+  async getLedgerTransactionByProviderReference(providerReference: string): Promise<LedgerTransaction | undefined> {
+    const [transaction] = await db.select().from(ledgerTransactions).where(eq(ledgerTransactions.providerReference, providerReference));
+    return transaction;
+  }
+
+  private async getBalanceByOwner(type: LedgerAccountType, ownerId: string): Promise<string> {
+    const [balance] = await db
+      .select({ sum: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .innerJoin(ledgerAccounts, eq(ledgerEntries.accountId, ledgerAccounts.id))
+      .where(and(eq(ledgerAccounts.type, type), eq(ledgerAccounts.ownerId, ownerId)));
+    return fromCents(toCents(balance?.sum || "0"));
+  }
+
+  private async getOrCreateLedgerAccount(tx: DbTransaction, type: LedgerAccountType, ownerId: string) {
+    await tx.insert(ledgerAccounts).values({ type, ownerId }).onConflictDoNothing();
+    const [account] = await tx
+      .select()
+      .from(ledgerAccounts)
+      .where(and(eq(ledgerAccounts.type, type), eq(ledgerAccounts.ownerId, ownerId)));
+    return account;
+  }
+
+  private async getLedgerAccountBalance(tx: DbTransaction, accountId: string): Promise<string> {
+    const [balance] = await tx
+      .select({ sum: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.accountId, accountId));
+    return balance?.sum || "0";
+  }
+
+  // Writes a transaction and its entries; the entries must sum to zero
+  private async postLedgerTransaction(
+    tx: DbTransaction,
+    values: typeof ledgerTransactions.$inferInsert,
+    entries: LedgerPosting[],
+  ): Promise<LedgerTransaction> {
+    if (entries.reduce((total, entry) => total + entry.cents, 0) !== 0) {
+      throw new Error("Unbalanced ledger transaction");
+    }
+    const [transaction] = await tx.insert(ledgerTransactions).values(values).returning();
+    for (const entry of entries) {
+      const account = await this.getOrCreateLedgerAccount(tx, entry.type, entry.ownerId);
+      await tx.insert(ledgerEntries).values({
+        transactionId: transaction.id,
+        accountId: account.id,
+        amount: fromCents(entry.cents),
+      });
+    }
+    return transaction;
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async getNotificationsByUser(userId: string, limit: number): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return Number(row?.count || 0);
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`COALESCE(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const marked = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return marked.length;
+  }
+
+  // Job operations
+  async enqueueJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(jobs).values(job).onConflictDoNothing({ target: jobs.uniqueKey }).returning();
+    if (created) {
+      return created;
+    }
+    const [existing] = await db.select().from(jobs).where(eq(jobs.uniqueKey, job.uniqueKey!));
+    return existing;
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    return db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+        .orderBy(asc(jobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) {
+        return undefined;
+      }
+      const [job] = await tx
+        .update(jobs)
+        .set({ status: "running", lockedAt: now, attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsByStatus(status: JobStatus, limit: number): Promise<Job[]> {
+    return db.select().from(jobs).where(eq(jobs.status, status)).orderBy(desc(jobs.updatedAt)).limit(limit);
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: "queued", lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lte(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async searchAuditLog(search: AuditSearch): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (search.q) {
+      const pattern = `%${search.q.replace(/[\\%_]/g, "\\$&")}%`;
+      const matchingActors = db
+        .select({ id: users.id })
+        .from(users)
+        .where(or(ilike(users.email, pattern), ilike(users.firstName, pattern), ilike(users.lastName, pattern)));
+      conditions.push(
+        or(
+          ilike(auditLog.action, pattern),
+          ilike(auditLog.targetId, pattern),
+          ilike(auditLog.reason, pattern),
+          inArray(auditLog.actorId, matchingActors),
+        ),
+      );
+    }
+    if (search.action) conditions.push(eq(auditLog.action, search.action));
+    if (search.actorId) conditions.push(eq(auditLog.actorId, search.actorId));
+    if (search.targetType) conditions.push(eq(auditLog.targetType, search.targetType));
+    if (search.companyId) conditions.push(eq(auditLog.companyId, search.companyId));
+    if (search.from) conditions.push(gte(auditLog.createdAt, search.from));
+    if (search.to) conditions.push(lte(auditLog.createdAt, search.to));
+
+    const where = and(...conditions);
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(search.limit)
+      .offset(search.offset);
+    const [totalCount] = await db.select({ count: sql<number>`count(*)` }).from(auditLog).where(where);
+
+    return { entries, total: Number(totalCount?.count || 0) };
+  }
+
   // Stats
   async getAdminStats() {
     const [userCount] = await db.select({ count: sql<number>`count(*)` }).from(users);
@@ -251,7 +1557,7 @@ export class DatabaseStorage implements IStorage {
     const [projectCount] = await db.select({ count: sql<number>`count(*)` }).from(projects);
     const [pendingCompanyCount] = await db.select({ count: sql<number>`count(*)` }).from(companies).where(eq(companies.status, "pending"));
     const [pendingProjectCount] = await db.select({ count: sql<number>`count(*)` }).from(projects).where(eq(projects.status, "pending"));
-    const [payoutSum] = await db.select({ sum: sql<string>`COALESCE(SUM(amount), 0)` }).from(payments).where(eq(payments.status, "paid"));
+    const [payoutSum] = await db.select({ sum: sql<string>`COALESCE(SUM(amount), 0)` }).from(ledgerTransactions).where(eq(ledgerTransactions.type, "escrow_release"));
 
     return {
       totalUsers: Number(userCount?.count || 0),
@@ -266,7 +1572,16 @@ export class DatabaseStorage implements IStorage {
   async getCandidateStats(candidateId: string) {
     const [submissionCount] = await db.select({ count: sql<number>`count(*)` }).from(submissions).where(eq(submissions.candidateId, candidateId));
     const [completedCount] = await db.select({ count: sql<number>`count(*)` }).from(submissions).where(and(eq(submissions.candidateId, candidateId), eq(submissions.status, "approved")));
-    const [earningsSum] = await db.select({ sum: sql<string>`COALESCE(SUM(amount), 0)` }).from(payments).where(and(eq(payments.candidateId, candidateId), eq(payments.status, "paid")));
+    const [earningsSum] = await db
+      .select({ sum: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .innerJoin(ledgerAccounts, eq(ledgerEntries.accountId, ledgerAccounts.id))
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transactionId, ledgerTransactions.id))
+      .where(and(
+        eq(ledgerAccounts.type, "candidate_balance"),
+        eq(ledgerAccounts.ownerId, candidateId),
+        eq(ledgerTransactions.type, "escrow_release"),
+      ));
     const [avgRating] = await db.select({ avg: sql<number>`COALESCE(AVG(score), 0)` }).from(ratings).where(eq(ratings.candidateId, candidateId));
 
     return {
@@ -291,7 +1606,7 @@ export class DatabaseStorage implements IStorage {
       const [subCount] = await db.select({ count: sql<number>`count(*)` }).from(submissions).where(sql`${submissions.projectId} = ANY(${projectIds})`);
       submissionCount = Number(subCount?.count || 0);
       
-      const [spentTotal] = await db.select({ sum: sql<string>`COALESCE(SUM(amount), 0)` }).from(payments).where(and(eq(payments.companyId, companyId), eq(payments.status, "paid")));
+      const [spentTotal] = await db.select({ sum: sql<string>`COALESCE(SUM(amount), 0)` }).from(ledgerTransactions).where(and(eq(ledgerTransactions.companyId, companyId), eq(ledgerTransactions.type, "escrow_release")));
       spentSum = spentTotal?.sum || "0";
     }
 
@@ -304,4 +1619,8 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_DRIVER=memory backs the app with MemStorage so it can run
+// without Postgres, e.g. for tests and offline development
+export const storageDriver = process.env.STORAGE_DRIVER === "memory" ? "memory" : "database";
+
+export const storage: IStorage = storageDriver === "memory" ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,42 @@
+// Everything that is recorded in the audit log, named target.verb
+export const auditActionLabels = {
+  "company.create": "Created company",
+  "company.update": "Updated company",
+  "company.review": "Reviewed company",
+  "company.resubmit": "Resubmitted company",
+  "project.create": "Created project",
+  "project.update": "Edited project",
+  "project.submit": "Submitted project",
+  "project.withdraw": "Withdrew project",
+  "project.approve": "Approved project",
+  "project.reject": "Rejected project",
+  "project.resubmit": "Resubmitted project",
+  "project.pause": "Paused project",
+  "project.resume": "Resumed project",
+  "project.close": "Closed project",
+  "project.cancel": "Cancelled project",
+  "project.suspend": "Suspended project",
+  "project.reinstate": "Reinstated project",
+  "submission.review": "Reviewed submission",
+  "rating.reply": "Replied to rating",
+  "rating.report": "Reported rating",
+  "rating.hide": "Hid rating",
+  "rating.restore": "Restored rating",
+  "rating.dismiss": "Dismissed rating report",
+  "member.invite": "Invited member",
+  "member.revokeInvitation": "Revoked invitation",
+  "member.join": "Joined team",
+  "member.changeRole": "Changed member role",
+  "member.remove": "Removed member",
+  "user.changeRole": "Changed user role",
+  "user.suspend": "Suspended user",
+  "user.unsuspend": "Lifted suspension",
+  "user.logout": "Signed user out",
+  "payout.review": "Reviewed payout",
+  "payment.settle": "Settled simulated payment",
+  "job.retry": "Retried job",
+} as const;
+
+export type AuditAction = keyof typeof auditActionLabels;
+
+export const auditActions = Object.keys(auditActionLabels) as AuditAction[];
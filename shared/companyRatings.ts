@@ -0,0 +1,62 @@
+import type { CompanyRating, Submission } from "./schema";
+
+// What candidates rate a company on, each from 1 to 5
+export const companyRatingCriteria = ["clarity", "fairness", "paymentSpeed"] as const;
+export type CompanyRatingCriterion = (typeof companyRatingCriteria)[number];
+
+export const companyRatingCriterionLabels: Record<CompanyRatingCriterion, string> = {
+  clarity: "Clarity of brief",
+  fairness: "Fairness of review",
+  paymentSpeed: "Speed of payment",
+};
+
+// A company's published ratings, averaged. An average is null when no
+// rating scored it.
+export interface CompanyTrustScore {
+  score: number | null;
+  ratingCount: number;
+  clarity: number | null;
+  fairness: number | null;
+  paymentSpeed: number | null;
+}
+
+export type CompanyRatingAverages = Pick<CompanyTrustScore, "clarity" | "fairness" | "paymentSpeed">;
+
+// Candidates rate the company once it has approved or rejected their
+// submission
+export function canRateCompany(submission: Pick<Submission, "status">): boolean {
+  return submission.status === "approved" || submission.status === "rejected";
+}
+
+// Only approved submissions were paid
+export function ratesPaymentSpeed(submission: Pick<Submission, "status">): boolean {
+  return submission.status === "approved";
+}
+
+// The trust score is the mean of the criterion averages, so speed of
+// payment counts as much as the others however few ratings scored it
+export function trustScore(ratingCount: number, averages: CompanyRatingAverages): CompanyTrustScore {
+  const scored = companyRatingCriteria
+    .map((criterion) => averages[criterion])
+    .filter((average): average is number => average !== null);
+  return {
+    score: scored.length ? scored.reduce((sum, average) => sum + average, 0) / scored.length : null,
+    ratingCount,
+    ...averages,
+  };
+}
+
+// The trust score of a set of published ratings
+export function summarizeCompanyRatings(
+  ratings: Pick<CompanyRating, CompanyRatingCriterion>[],
+): CompanyTrustScore {
+  const average = (criterion: CompanyRatingCriterion) => {
+    const scores = ratings.map((rating) => rating[criterion]).filter((score): score is number => score !== null);
+    return scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  };
+  return trustScore(ratings.length, {
+    clarity: average("clarity"),
+    fairness: average("fairness"),
+    paymentSpeed: average("paymentSpeed"),
+  });
+}
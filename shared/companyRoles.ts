@@ -0,0 +1,41 @@
+import type { CompanyRole } from "./schema";
+
+// What each role on a company's team may do. The server checks every
+// /api/company route against this table.
+export const companyPermissions = {
+  // The company's profile and logo
+  manageCompany: ["owner", "admin"],
+  // Inviting members, changing their roles and removing them
+  manageMembers: ["owner", "admin"],
+  // Posting projects and pausing, resuming, closing or cancelling them
+  manageProjects: ["owner", "admin"],
+  // Reviewing submissions and messaging candidates
+  reviewSubmissions: ["owner", "admin", "reviewer"],
+  // Invoices and statements
+  viewBilling: ["owner", "admin", "billing"],
+} as const satisfies Record<string, readonly CompanyRole[]>;
+
+export type CompanyPermission = keyof typeof companyPermissions;
+
+export const companyRoleLabels: Record<CompanyRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  reviewer: "Reviewer",
+  billing: "Billing",
+};
+
+export const companyRoleDescriptions: Record<CompanyRole, string> = {
+  owner: "Everything, and can't be removed",
+  admin: "Everything but removing the owner",
+  reviewer: "Reviews submissions and messages candidates",
+  billing: "Sees invoices and statements",
+};
+
+// Roles members can be invited with or changed to. There is only ever the
+// one owner.
+export const assignableCompanyRoles = ["admin", "reviewer", "billing"] as const satisfies readonly CompanyRole[];
+
+export function hasCompanyPermission(role: CompanyRole, permission: CompanyPermission): boolean {
+  const roles: readonly CompanyRole[] = companyPermissions[permission];
+  return roles.includes(role);
+}
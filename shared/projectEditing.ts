@@ -0,0 +1,213 @@
+import type { Project, ProjectStatus } from "./schema";
+import type { RubricCriterion } from "./rubric";
+
+// The fields of a project its company can edit
+export const editableProjectFields = [
+  "title",
+  "description",
+  "requirements",
+  "skills",
+  "payment",
+  "difficulty",
+  "deadline",
+  "maxSubmissions",
+  "maxRevisions",
+  "rubric",
+  "blindReview",
+] as const;
+
+export type EditableProjectField = (typeof editableProjectFields)[number];
+
+export const projectFieldLabels: Record<EditableProjectField, string> = {
+  title: "Title",
+  description: "Description",
+  requirements: "Requirements",
+  skills: "Skills",
+  payment: "Payment",
+  difficulty: "Difficulty",
+  deadline: "Deadline",
+  maxSubmissions: "Max submissions",
+  maxRevisions: "Revisions allowed",
+  rubric: "Scoring rubric",
+  blindReview: "Blind review",
+};
+
+// An edit as the routes or the project form have it. Fields left out stay
+// as they were.
+export interface ProjectEdit {
+  title?: string;
+  description?: string;
+  requirements?: string | null;
+  skills?: string[] | null;
+  payment?: string | number;
+  difficulty?: string | null;
+  deadline?: Date | string | null;
+  maxSubmissions?: number | null;
+  maxRevisions?: number;
+  rubric?: RubricCriterion[] | null;
+  blindReview?: boolean;
+}
+
+// Drafts and projects waiting for or turned down in review can change
+// freely. Live ones only within the limits projectEditError checks.
+export const editableProjectStatuses: readonly ProjectStatus[] = ["draft", "pending", "rejected", "active", "paused"];
+
+export function isLiveProject(status: ProjectStatus): boolean {
+  return status === "active" || status === "paused";
+}
+
+// Whether the project's escrow was funded at its payment and submission
+// limit. A live project sent back to review keeps what is left of its
+// escrow, and approving it again doesn't charge more, so it counts too.
+export function isFundedProject(status: ProjectStatus, escrowBalance: string | number): boolean {
+  return isLiveProject(status) || Number(escrowBalance) > 0;
+}
+
+// Candidates who already submitted took the project on these terms
+export const lockedOnceSubmittedFields: readonly EditableProjectField[] = ["rubric", "blindReview", "maxRevisions"];
+
+// Changing any of these changes what candidates are asked to do, so it
+// sends a live project back to admin review
+export const reviewedProjectFields: readonly EditableProjectField[] = [
+  "title",
+  "description",
+  "requirements",
+  "skills",
+  "difficulty",
+  "rubric",
+];
+
+// How many characters of a text field can change without sending a live
+// project back to review, so typos can be fixed while it runs
+export const minorTextEditLimit = 10;
+
+const textFields: readonly EditableProjectField[] = ["title", "description", "requirements"];
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+// A field's value in a form two values can be compared in. Blank text, no
+// skills and an empty rubric all mean the field isn't set.
+function comparable(field: EditableProjectField, value: unknown): unknown {
+  switch (field) {
+    case "payment":
+      return Number(value ?? 0);
+    case "deadline":
+      return toDate(value as Date | string | null)?.getTime() ?? null;
+    case "skills":
+    case "rubric":
+      return Array.isArray(value) && value.length ? JSON.stringify(value) : null;
+    case "requirements":
+    case "difficulty":
+      return value || null;
+    default:
+      return value ?? null;
+  }
+}
+
+// The fields the edit actually changes
+export function changedProjectFields(project: Project, edit: ProjectEdit): EditableProjectField[] {
+  return editableProjectFields.filter(
+    (field) => edit[field] !== undefined && comparable(field, edit[field]) !== comparable(field, project[field]),
+  );
+}
+
+// Whether `a` can become `b` with at most `limit` single-character
+// insertions, deletions or substitutions. Only cells within `limit` of the
+// diagonal can stay under it, so long texts are cheap to compare.
+export function withinEditDistance(a: string, b: string, limit: number): boolean {
+  if (Math.abs(a.length - b.length) > limit) {
+    return false;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => (j <= limit ? j : Infinity));
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(Infinity);
+    if (i <= limit) {
+      current[0] = i;
+    }
+    let best = current[0];
+    for (let j = Math.max(1, i - limit); j <= Math.min(b.length, i + limit); j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      best = Math.min(best, current[j]);
+    }
+    if (best > limit) {
+      return false;
+    }
+    previous = current;
+  }
+  return previous[b.length] <= limit;
+}
+
+// Whether the edit would send a live project back to admin review
+export function isMaterialProjectEdit(project: Project, edit: ProjectEdit): boolean {
+  return changedProjectFields(project, edit).some((field) => {
+    if (!reviewedProjectFields.includes(field)) {
+      return false;
+    }
+    if (textFields.includes(field)) {
+      const before = String(project[field] ?? "");
+      const after = String(edit[field as "title" | "description" | "requirements"] ?? "");
+      return !withinEditDistance(before, after, minorTextEditLimit);
+    }
+    return true;
+  });
+}
+
+// Fields that can't change on the project as it stands, with or without an
+// edit. The project form disables these.
+export function lockedProjectFields({ submissions, funded }: { submissions: number; funded: boolean }): EditableProjectField[] {
+  const locked: EditableProjectField[] = funded ? ["payment"] : [];
+  return submissions > 0 ? [...locked, ...lockedOnceSubmittedFields] : locked;
+}
+
+// Why the edit can't be made, or null when it can. Only the fields the edit
+// changes are checked.
+export function projectEditError(
+  project: Project,
+  edit: ProjectEdit,
+  { submissions, slotsTaken, funded }: { submissions: number; slotsTaken: number; funded: boolean },
+  now = new Date(),
+): string | null {
+  if (!editableProjectStatuses.includes(project.status)) {
+    return `Can't edit a project that is ${project.status}`;
+  }
+  const changed = changedProjectFields(project, edit);
+
+  const locked = changed.find((field) => lockedProjectFields({ submissions, funded }).includes(field));
+  if (locked === "payment") {
+    return "Payment can't change while the project holds escrow, since it was funded at that amount";
+  }
+  if (locked) {
+    return `${projectFieldLabels[locked]} can't change once a project has submissions`;
+  }
+
+  if (changed.includes("deadline")) {
+    const deadline = toDate(edit.deadline);
+    if (deadline && deadline.getTime() <= now.getTime()) {
+      return "Set a deadline in the future";
+    }
+    const current = toDate(project.deadline);
+    if (submissions > 0 && deadline && (!current || deadline.getTime() < current.getTime())) {
+      return "The deadline can only move later once a project has submissions";
+    }
+  }
+
+  if (changed.includes("maxSubmissions")) {
+    const max = edit.maxSubmissions ?? null;
+    const raised = max === null
+      ? project.maxSubmissions !== null
+      : project.maxSubmissions !== null && max > project.maxSubmissions;
+    if (funded && raised) {
+      return "A funded project can't take more submissions than its escrow covers";
+    }
+    if (max !== null && max < slotsTaken) {
+      return `Max submissions can't go below the ${slotsTaken} the project already holds`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import type { ProjectActor, ProjectStatus } from "./schema";
+
+export interface ProjectTransition {
+  from: readonly ProjectStatus[];
+  to: ProjectStatus;
+  actors: readonly ProjectActor[];
+}
+
+// Every way a project's status can change, and who may change it. The
+// server refuses any status change that isn't listed here.
+export const projectTransitions = {
+  // Admin review. Approval waits in approved until the escrow charge settles.
+  approve: { from: ["pending"], to: "approved", actors: ["admin"] },
+  reject: { from: ["pending"], to: "rejected", actors: ["admin"] },
+  activate: { from: ["approved"], to: "active", actors: ["system"] },
+  fundingFailed: { from: ["approved"], to: "pending", actors: ["system"] },
+
+  // The company running the project. Drafts go to admin review when the
+  // company submits them, and it can pull them back while they wait. A
+  // rejected project goes back once the company has fixed it, and a live one
+  // when it's edited in a way that changes the brief.
+  submit: { from: ["draft"], to: "pending", actors: ["company"] },
+  withdraw: { from: ["pending"], to: "draft", actors: ["company"] },
+  resubmit: { from: ["rejected"], to: "pending", actors: ["company"] },
+  revise: { from: ["active", "paused"], to: "pending", actors: ["company"] },
+  pause: { from: ["active"], to: "paused", actors: ["company"] },
+  resume: { from: ["paused"], to: "active", actors: ["company"] },
+  close: { from: ["active", "paused"], to: "completed", actors: ["company"] },
+  cancel: { from: ["draft", "pending", "rejected", "active", "paused"], to: "cancelled", actors: ["company"] },
+
+  // Moderation
+  suspend: { from: ["active", "paused"], to: "suspended", actors: ["admin"] },
+  reinstate: { from: ["suspended"], to: "active", actors: ["admin"] },
+
+  // Once the deadline has passed or every slot has an approved submission
+  complete: { from: ["active", "paused"], to: "completed", actors: ["system"] },
+} as const satisfies Record<string, ProjectTransition>;
+
+export type ProjectAction = keyof typeof projectTransitions;
+
+export const projectActionLabels: Record<ProjectAction, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  activate: "Went live",
+  fundingFailed: "Escrow funding failed",
+  submit: "Submitted for review",
+  withdraw: "Withdrawn from review",
+  resubmit: "Resubmitted for review",
+  revise: "Edited and sent back for review",
+  pause: "Paused",
+  resume: "Resumed",
+  close: "Closed",
+  cancel: "Cancelled",
+  suspend: "Suspended",
+  reinstate: "Reinstated",
+  complete: "Completed",
+};
+
+export function canTransition(status: ProjectStatus, action: ProjectAction, actor: ProjectActor): boolean {
+  const transition: ProjectTransition = projectTransitions[action];
+  return transition.from.includes(status) && transition.actors.includes(actor);
+}
+
+// Actions the actor can take on a project in the given status
+export function availableProjectActions(status: ProjectStatus, actor: ProjectActor): ProjectAction[] {
+  return (Object.keys(projectTransitions) as ProjectAction[]).filter((action) => canTransition(status, action, actor));
+}
@@ -0,0 +1,82 @@
+import type { User } from "./schema";
+
+// What a candidate can show on their public profile at /u/:handle
+export const publicProfileFields = [
+  "name",
+  "photo",
+  "bio",
+  "skills",
+  "experience",
+  "portfolioUrl",
+  "workHistory",
+  "rating",
+  "earnings",
+] as const;
+
+export type PublicProfileField = (typeof publicProfileFields)[number];
+
+export const publicProfileFieldLabels: Record<PublicProfileField, { label: string; description: string }> = {
+  name: { label: "Name", description: "Your first and last name." },
+  photo: { label: "Photo", description: "Your profile picture." },
+  bio: { label: "Bio", description: "What you wrote about yourself." },
+  skills: { label: "Skills", description: "The skills listed on your profile." },
+  experience: { label: "Experience", description: "Your professional experience." },
+  portfolioUrl: { label: "Portfolio link", description: "The link to your portfolio." },
+  workHistory: { label: "Work history", description: "Projects you completed and the companies behind them." },
+  rating: { label: "Rating", description: "Your average rating from companies, and each project's." },
+  earnings: { label: "Earnings", description: "A range your total earnings fall in, never the exact amount." },
+};
+
+// Shown until the candidate picks for themselves. Earnings are only shown
+// when they opt in.
+export const defaultPublicProfileFields: readonly PublicProfileField[] = publicProfileFields.filter(
+  (field) => field !== "earnings",
+);
+
+export function shownProfileFields(user: Pick<User, "publicProfileFields">): readonly PublicProfileField[] {
+  return (user.publicProfileFields as PublicProfileField[] | null) ?? defaultPublicProfileFields;
+}
+
+// A public profile as GET /api/profiles/:handle returns it. Fields the
+// candidate doesn't show are left out.
+export interface PublicCandidateProfile {
+  handle: string;
+  name?: string | null;
+  profileImageUrl?: string | null;
+  bio?: string | null;
+  skills?: string[];
+  experience?: string | null;
+  portfolioUrl?: string | null;
+  rating?: { average: number | null; count: number };
+  workHistory?: {
+    projectTitle: string | null;
+    companyName: string | null;
+    skills: string[];
+    completedAt: Date | string | null;
+    // Only when the rating is shown
+    rating?: number | null;
+  }[];
+  earningsBand?: string;
+}
+
+// 3-30 lowercase letters, digits and single hyphens, not at either end
+export const handlePattern = /^(?=.{3,30}$)[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Paths under /u/ the app might want for itself
+export const reservedHandles: readonly string[] = ["admin", "api", "me", "new", "settings", "support"];
+
+// Lower bounds of the earnings bands, in dollars
+const earningsBandFloors = [0, 100, 500, 1000, 5000, 10000, 50000];
+
+// The band total earnings fall in, e.g. "$1,000 - $5,000"
+export function earningsBand(total: number | string): string {
+  const amount = Number(total);
+  const index = Math.max(earningsBandFloors.filter((floor) => amount >= floor).length - 1, 0);
+  const floor = earningsBandFloors[index];
+  const ceiling = earningsBandFloors[index + 1];
+  const dollars = (value: number) => `$${value.toLocaleString("en-US")}`;
+  if (ceiling === undefined) {
+    return `${dollars(floor)}+`;
+  }
+  return floor === 0 ? `Under ${dollars(ceiling)}` : `${dollars(floor)} - ${dollars(ceiling)}`;
+}
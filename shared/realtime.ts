@@ -0,0 +1,22 @@
+// Path of the WebSocket the server pushes events on
+export const realtimePath = "/api/events";
+
+// Pushed to signed-in clients when data they may be showing changed. Events
+// only carry ids; clients refetch whatever the event makes stale.
+export type RealtimeEvent =
+  | { type: "submission.created"; projectId: string; submissionId: string }
+  | { type: "submission.reviewed"; projectId: string; submissionId: string }
+  | { type: "submission.revised"; projectId: string; submissionId: string }
+  // A message was sent or read in the submission's thread
+  | { type: "submission.messages"; submissionId: string }
+  | { type: "company.reviewed"; companyId: string }
+  // A rejected company was edited and sent back for review
+  | { type: "company.resubmitted"; companyId: string }
+  // Someone joined or left the company's team, or a role changed
+  | { type: "company.members"; companyId: string }
+  | { type: "project.updated"; projectId: string }
+  | { type: "payment.updated"; projectId: string; paymentId: string }
+  | { type: "payout.updated"; payoutId: string }
+  | { type: "notification.created" };
+
+export type RealtimeEventType = RealtimeEvent["type"];
@@ -0,0 +1,43 @@
+// Why an admin turned down a company or a project. Rejections carry one of
+// these, and "other" needs a note saying what to fix.
+export const companyRejectionReasons = [
+  "incomplete_profile",
+  "unverifiable",
+  "website_unreachable",
+  "prohibited_business",
+  "duplicate",
+  "other",
+] as const;
+
+export const projectRejectionReasons = [
+  "unclear_brief",
+  "missing_requirements",
+  "unrealistic_scope",
+  "payment_too_low",
+  "prohibited_content",
+  "duplicate",
+  "other",
+] as const;
+
+export type CompanyRejectionReason = (typeof companyRejectionReasons)[number];
+export type ProjectRejectionReason = (typeof projectRejectionReasons)[number];
+
+export const companyRejectionReasonLabels: Record<CompanyRejectionReason, string> = {
+  incomplete_profile: "Profile is incomplete",
+  unverifiable: "Company couldn't be verified",
+  website_unreachable: "Website is missing or unreachable",
+  prohibited_business: "Business isn't allowed on the platform",
+  duplicate: "Company is already registered",
+  other: "Other",
+};
+
+export const projectRejectionReasonLabels: Record<ProjectRejectionReason, string> = {
+  unclear_brief: "Brief is unclear",
+  missing_requirements: "Requirements or deliverables are missing",
+  unrealistic_scope: "Scope doesn't fit the deadline or payment",
+  payment_too_low: "Payment is too low for the work",
+  prohibited_content: "Work isn't allowed on the platform",
+  duplicate: "Duplicates another project",
+  other: "Other",
+};
+
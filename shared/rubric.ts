@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// Criteria are scored from 1 to rubricLevels, like the star rating the
+// weighted total becomes
+export const rubricLevels = 5;
+
+// One criterion of a project's rubric. levels[i] describes what earns a
+// score of i + 1.
+export interface RubricCriterion {
+  name: string;
+  weight: number;
+  levels: string[];
+}
+
+// A reviewer's score for one criterion. The name and weight are copied from
+// the rubric so the breakdown still reads the same if the rubric changes.
+export interface CriterionScore {
+  name: string;
+  weight: number;
+  score: number;
+}
+
+export const rubricSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, "Every criterion needs a name").max(100),
+      weight: z.number().int().min(1, "Weights must be at least 1").max(100),
+      levels: z.array(z.string().trim().max(300)).length(rubricLevels),
+    }),
+  )
+  .max(10, "A rubric can have at most 10 criteria")
+  .refine(
+    (criteria) => new Set(criteria.map((criterion) => criterion.name.toLowerCase())).size === criteria.length,
+    "Criteria need different names",
+  );
+
+export const criterionScoresSchema = z.array(
+  z.object({
+    name: z.string(),
+    weight: z.number(),
+    score: z.number(),
+  }),
+);
+
+// Scores every criterion of the rubric from scores, keyed by criterion name.
+// Returns an error message when one is missing or out of range.
+export function scoreRubric(
+  rubric: RubricCriterion[],
+  scores: Record<string, unknown>,
+): { scores: CriterionScore[] } | { error: string } {
+  const scored: CriterionScore[] = [];
+  for (const criterion of rubric) {
+    const score = scores[criterion.name];
+    if (typeof score !== "number" || !Number.isInteger(score) || score < 1 || score > rubricLevels) {
+      return { error: `Score "${criterion.name}" from 1 to ${rubricLevels}` };
+    }
+    scored.push({ name: criterion.name, weight: criterion.weight, score });
+  }
+  return { scores: scored };
+}
+
+// The weight-averaged score, not rounded
+export function weightedScore(scores: CriterionScore[]): number {
+  const totalWeight = scores.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  return scores.reduce((sum, criterion) => sum + criterion.score * criterion.weight, 0) / totalWeight;
+}
@@ -7,18 +7,67 @@ import {
   varchar,
   text,
   integer,
+  serial,
   boolean,
   decimal,
   pgEnum,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { criterionScoresSchema, rubricSchema, type CriterionScore, type RubricCriterion } from "./rubric";
+import { assignableCompanyRoles } from "./companyRoles";
+import { companyRejectionReasons, projectRejectionReasons } from "./reviewReasons";
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["candidate", "company", "admin"]);
-export const projectStatusEnum = pgEnum("project_status", ["pending", "approved", "active", "completed", "cancelled"]);
-export const submissionStatusEnum = pgEnum("submission_status", ["pending", "under_review", "approved", "rejected"]);
+export const projectStatusEnum = pgEnum("project_status", [
+  "pending",
+  "approved",
+  "active",
+  "paused",
+  "suspended",
+  "completed",
+  "cancelled",
+  "rejected",
+  "draft",
+]);
+export const projectActorEnum = pgEnum("project_actor", ["company", "admin", "system"]);
+export const submissionStatusEnum = pgEnum("submission_status", [
+  "pending",
+  "under_review",
+  "changes_requested",
+  "approved",
+  "rejected",
+]);
 export const companyStatusEnum = pgEnum("company_status", ["pending", "approved", "rejected"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "paid", "failed"]);
+export const payoutStatusEnum = pgEnum("payout_status", ["requested", "processing", "paid", "failed", "rejected"]);
+export const payoutMethodTypeEnum = pgEnum("payout_method_type", ["bank_transfer", "paypal"]);
+export const ledgerAccountTypeEnum = pgEnum("ledger_account_type", ["company_funding", "project_escrow", "candidate_balance", "candidate_payout"]);
+export const ledgerTransactionTypeEnum = pgEnum("ledger_transaction_type", [
+  "escrow_fund",
+  "escrow_release",
+  "escrow_refund",
+  // Puts a refund the processor declined back into escrow
+  "escrow_refund_reversal",
+  "candidate_payout",
+]);
+export const companyRatingStatusEnum = pgEnum("company_rating_status", ["published", "hidden"]);
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "succeeded", "failed"]);
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "submission_created",
+  "submission_reviewed",
+  "company_reviewed",
+  "project_reviewed",
+  "payment_released",
+  "submission_message",
+  "company_rated",
+  // Sent to admins
+  "escrow_refund_failed",
+]);
+export const messageSenderEnum = pgEnum("message_sender", ["candidate", "company"]);
+export const companyMemberRoleEnum = pgEnum("company_member_role", ["owner", "admin", "reviewer", "billing"]);
 
 // Session storage table - mandatory for Replit Auth
 export const sessions = pgTable(
@@ -43,6 +92,19 @@ export const users = pgTable("users", {
   experience: text("experience"),
   portfolioUrl: varchar("portfolio_url"),
   bio: text("bio"),
+  // Notification types the user doesn't want emailed
+  emailOptOuts: text("email_opt_outs").array(),
+  // A candidate's public profile lives at /u/:handle once they pick one.
+  // publicProfileFields are the fields it shows (shared/publicProfile.ts),
+  // or the defaults while null.
+  handle: varchar("handle").unique(),
+  publicProfileFields: text("public_profile_fields").array(),
+  // Set while an admin has suspended the account. Suspended users can't
+  // sign in and their sessions stop working.
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
+  // Sessions started before this were ended by an admin
+  sessionsRevokedAt: timestamp("sessions_revoked_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -62,6 +124,61 @@ export const companies = pgTable("companies", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Company members - the users on a company's team and their role, which
+// decides what they can do (shared/companyRoles.ts). A user is on at most
+// one team. Whoever creates the company becomes its owner.
+export const companyMembers = pgTable(
+  "company_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").notNull().references(() => companies.id),
+    userId: varchar("user_id").notNull().unique().references(() => users.id),
+    role: companyMemberRoleEnum("role").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_company_members_company").on(table.companyId)],
+);
+
+// Company status history - every admin decision on a company and every time
+// it was resubmitted after a rejection, oldest first
+export const companyStatusHistory = pgTable(
+  "company_status_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").notNull().references(() => companies.id),
+    // approve, reject or resubmit
+    action: varchar("action").notNull(),
+    fromStatus: companyStatusEnum("from_status").notNull(),
+    toStatus: companyStatusEnum("to_status").notNull(),
+    actorId: varchar("actor_id").references(() => users.id),
+    // Rejections carry a code from shared/reviewReasons.ts
+    reason: varchar("reason"),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_company_status_history_company").on(table.companyId)],
+);
+
+// Company invitations - sent by email with a link to accept them. Only a
+// hash of the link's token is kept.
+export const companyInvitations = pgTable(
+  "company_invitations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    companyId: varchar("company_id").notNull().references(() => companies.id),
+    email: varchar("email").notNull(),
+    role: companyMemberRoleEnum("role").notNull(),
+    tokenHash: varchar("token_hash").notNull().unique(),
+    invitedBy: varchar("invited_by").notNull().references(() => users.id),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedBy: varchar("accepted_by").references(() => users.id),
+    acceptedAt: timestamp("accepted_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_company_invitations_company").on(table.companyId)],
+);
+
 // Projects table
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -74,6 +191,12 @@ export const projects = pgTable("projects", {
   difficulty: varchar("difficulty").default("intermediate"),
   deadline: timestamp("deadline"),
   maxSubmissions: integer("max_submissions").default(10),
+  // How many times a candidate may revise a submission after the first
+  maxRevisions: integer("max_revisions").default(2).notNull(),
+  // Criteria approved submissions are scored on, null for a plain star rating
+  rubric: jsonb("rubric").$type<RubricCriterion[]>(),
+  // Hides who submitted from the company until each submission is decided
+  blindReview: boolean("blind_review").default(false).notNull(),
   status: projectStatusEnum("status").default("pending").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -88,33 +211,327 @@ export const submissions = pgTable("submissions", {
   attachmentUrl: varchar("attachment_url"),
   status: submissionStatusEnum("status").default("pending").notNull(),
   feedback: text("feedback"),
+  // Number of the latest revision, whose content and attachmentUrl are
+  // copied here
+  revision: integer("revision").default(1).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Submission revisions - every version of a submission, starting with the
+// original as revision 1. Revisions are never changed once made apart from
+// recording the changes the company asked for.
+export const submissionRevisions = pgTable(
+  "submission_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    submissionId: varchar("submission_id").notNull().references(() => submissions.id),
+    number: integer("number").notNull(),
+    content: text("content").notNull(),
+    attachmentUrl: varchar("attachment_url"),
+    // What the company asked to change, when this revision was sent back
+    changesRequested: text("changes_requested"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_submission_revisions_number").on(table.submissionId, table.number)],
+);
+
+// Submission files - uploads attached to a submission. The bytes live in
+// the file storage driver under storageKey.
+export const submissionFiles = pgTable(
+  "submission_files",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    submissionId: varchar("submission_id").notNull().references(() => submissions.id),
+    // The revision the file was attached to
+    revision: integer("revision").default(1).notNull(),
+    fileName: varchar("file_name").notNull(),
+    contentType: varchar("content_type").notNull(),
+    size: integer("size").notNull(),
+    storageKey: varchar("storage_key").notNull().unique(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_submission_files_submission").on(table.submissionId)],
+);
+
+// Submission messages - a thread between the submission's candidate and
+// the company that owns the project. readAt is set once the other side
+// has opened the thread.
+export const submissionMessages = pgTable(
+  "submission_messages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    submissionId: varchar("submission_id").notNull().references(() => submissions.id),
+    senderId: varchar("sender_id").notNull().references(() => users.id),
+    sender: messageSenderEnum("sender").notNull(),
+    body: text("body").notNull(),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_submission_messages_submission").on(table.submissionId, table.createdAt)],
+);
+
+// Files attached to a submission message, stored like submission files
+export const submissionMessageFiles = pgTable(
+  "submission_message_files",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    messageId: varchar("message_id").notNull().references(() => submissionMessages.id),
+    fileName: varchar("file_name").notNull(),
+    contentType: varchar("content_type").notNull(),
+    size: integer("size").notNull(),
+    storageKey: varchar("storage_key").notNull().unique(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_submission_message_files_message").on(table.messageId)],
+);
+
 // Ratings table
 export const ratings = pgTable("ratings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   submissionId: varchar("submission_id").notNull().references(() => submissions.id),
   candidateId: varchar("candidate_id").notNull().references(() => users.id),
   companyId: varchar("company_id").notNull().references(() => companies.id),
+  // 1 to 5. With a rubric, the weighted total of criteriaScores rounded.
   score: integer("score").notNull(),
+  criteriaScores: jsonb("criteria_scores").$type<CriterionScore[]>(),
   review: text("review"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Candidates' ratings of the companies that reviewed their work, one per
+// submission. Hidden ratings were taken down by an admin and don't count
+// towards the company's trust score.
+export const companyRatings = pgTable(
+  "company_ratings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    submissionId: varchar("submission_id").notNull().unique().references(() => submissions.id),
+    projectId: varchar("project_id").notNull().references(() => projects.id),
+    candidateId: varchar("candidate_id").notNull().references(() => users.id),
+    companyId: varchar("company_id").notNull().references(() => companies.id),
+    // 1 to 5 each. Payment speed is only rated for approved submissions.
+    clarity: integer("clarity").notNull(),
+    fairness: integer("fairness").notNull(),
+    paymentSpeed: integer("payment_speed"),
+    comment: text("comment"),
+    status: companyRatingStatusEnum("status").default("published").notNull(),
+    // The company can report a rating once for an admin to look at
+    reportedAt: timestamp("reported_at"),
+    reportReason: text("report_reason"),
+    moderatedBy: varchar("moderated_by").references(() => users.id),
+    moderatedAt: timestamp("moderated_at"),
+    moderationNote: text("moderation_note"),
+    // The company's one public reply
+    reply: text("reply"),
+    repliedBy: varchar("replied_by").references(() => users.id),
+    repliedAt: timestamp("replied_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_company_ratings_company").on(table.companyId, table.createdAt)],
+);
+
 // Payments table
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  submissionId: varchar("submission_id").notNull().references(() => submissions.id),
+  // A submission is paid once
+  submissionId: varchar("submission_id").notNull().unique().references(() => submissions.id),
   candidateId: varchar("candidate_id").notNull().references(() => users.id),
   companyId: varchar("company_id").notNull().references(() => companies.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").default("pending").notNull(),
+  status: paymentStatusEnum("status").default("pending").notNull(),
+  ledgerTransactionId: varchar("ledger_transaction_id").references(() => ledgerTransactions.id),
+  // Set while the payment is part of a withdrawal. Pending payments without
+  // a payout make up the candidate's withdrawable balance.
+  payoutId: varchar("payout_id").references(() => payouts.id),
+  // Processor that moved the money and its id for the transfer
+  provider: varchar("provider"),
+  providerReference: varchar("provider_reference"),
+  failureReason: text("failure_reason"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Invoices - one per payment, numbered in the order they were issued
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: serial("number").notNull().unique(),
+  companyId: varchar("company_id").notNull().references(() => companies.id),
+  paymentId: varchar("payment_id").notNull().unique().references(() => payments.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payout methods - where a candidate's withdrawals are sent. Removed
+// methods are kept so past payouts still show where they went.
+export const payoutMethods = pgTable("payout_methods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: payoutMethodTypeEnum("type").notNull(),
+  label: varchar("label").notNull(),
+  // Account number / IBAN for bank transfers, email address for PayPal
+  details: text("details").notNull(),
+  removedAt: timestamp("removed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payouts - a candidate withdrawing their balance, reviewed by an admin
+export const payouts = pgTable("payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => users.id),
+  payoutMethodId: varchar("payout_method_id").notNull().references(() => payoutMethods.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  status: payoutStatusEnum("status").default("requested").notNull(),
+  provider: varchar("provider"),
+  providerReference: varchar("provider_reference").unique(),
+  failureReason: text("failure_reason"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
   paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Payout events - every status a payout has been through
+export const payoutEvents = pgTable("payout_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  payoutId: varchar("payout_id").notNull().references(() => payouts.id),
+  status: payoutStatusEnum("status").notNull(),
+  note: text("note"),
+  actorId: varchar("actor_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Project status history - one row per lifecycle transition
+export const projectStatusHistory = pgTable(
+  "project_status_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    projectId: varchar("project_id").notNull().references(() => projects.id),
+    action: varchar("action").notNull(),
+    fromStatus: projectStatusEnum("from_status").notNull(),
+    toStatus: projectStatusEnum("to_status").notNull(),
+    actor: projectActorEnum("actor").notNull(),
+    // null for system transitions
+    actorId: varchar("actor_id").references(() => users.id),
+    // Rejections carry a code from shared/reviewReasons.ts
+    reason: varchar("reason"),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_project_status_history_project").on(table.projectId)],
+);
+
+// Ledger accounts - one per (type, owner). The owner is the company for
+// company_funding, the project for project_escrow and the user for
+// candidate_balance and candidate_payout.
+export const ledgerAccounts = pgTable(
+  "ledger_accounts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: ledgerAccountTypeEnum("type").notNull(),
+    ownerId: varchar("owner_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_ledger_account_owner").on(table.type, table.ownerId)],
+);
+
+// Ledger transactions - each one is balanced by entries summing to zero
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: ledgerTransactionTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  // Company and project are empty for payouts, which can span several
+  companyId: varchar("company_id").references(() => companies.id),
+  projectId: varchar("project_id").references(() => projects.id),
+  submissionId: varchar("submission_id").references(() => submissions.id),
+  // A payout is debited once
+  payoutId: varchar("payout_id").unique().references(() => payouts.id),
+  description: text("description"),
+  // Processor charge, refund or transfer behind the transaction, if any
+  providerReference: varchar("provider_reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Ledger entries - signed amounts, positive credits the account
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    transactionId: varchar("transaction_id").notNull().references(() => ledgerTransactions.id),
+    accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_ledger_entries_account").on(table.accountId)],
+);
+
+// Notifications - in-app messages about something that happened to the user
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: notificationTypeEnum("type").notNull(),
+    title: varchar("title").notNull(),
+    body: text("body").notNull(),
+    // Where clicking the notification goes, an app path
+    link: varchar("link"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_notifications_user").on(table.userId, table.createdAt)],
+);
+
+// Background jobs. A job is queued until its runAt, retried with backoff
+// until maxAttempts and then left failed for an admin to look at.
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name").notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+    status: jobStatusEnum("status").default("queued").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(5).notNull(),
+    runAt: timestamp("run_at").defaultNow().notNull(),
+    // Enqueuing a job with a key that already exists returns the existing job
+    uniqueKey: varchar("unique_key").unique(),
+    lockedAt: timestamp("locked_at"),
+    lastError: text("last_error"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_jobs_status_run_at").on(table.status, table.runAt)],
+);
+
+// Audit log - admin actions and company actions that change something,
+// appended and never updated. before and after only hold the fields that
+// changed.
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    actorId: varchar("actor_id").references(() => users.id),
+    // "admin", or the actor's role on the company's team
+    actorRole: varchar("actor_role").notNull(),
+    // The company the action was taken for, if any
+    companyId: varchar("company_id").references(() => companies.id),
+    action: varchar("action").notNull(),
+    targetType: varchar("target_type").notNull(),
+    targetId: varchar("target_id").notNull(),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    reason: text("reason"),
+    ip: varchar("ip"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_audit_log_created").on(table.createdAt),
+    index("IDX_audit_log_actor").on(table.actorId, table.createdAt),
+    index("IDX_audit_log_target").on(table.targetType, table.targetId),
+  ],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   company: one(companies, {
@@ -124,6 +541,8 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   submissions: many(submissions),
   ratings: many(ratings),
   payments: many(payments),
+  payoutMethods: many(payoutMethods),
+  payouts: many(payouts),
 }));
 
 export const companiesRelations = relations(companies, ({ one, many }) => ({
@@ -132,8 +551,42 @@ export const companiesRelations = relations(companies, ({ one, many }) => ({
     references: [users.id],
   }),
   projects: many(projects),
+  members: many(companyMembers),
+  invitations: many(companyInvitations),
+  statusHistory: many(companyStatusHistory),
   ratings: many(ratings),
+  candidateRatings: many(companyRatings),
   payments: many(payments),
+  invoices: many(invoices),
+}));
+
+export const companyMembersRelations = relations(companyMembers, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyMembers.companyId],
+    references: [companies.id],
+  }),
+  user: one(users, {
+    fields: [companyMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const companyStatusHistoryRelations = relations(companyStatusHistory, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyStatusHistory.companyId],
+    references: [companies.id],
+  }),
+  actorUser: one(users, {
+    fields: [companyStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const companyInvitationsRelations = relations(companyInvitations, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyInvitations.companyId],
+    references: [companies.id],
+  }),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -142,6 +595,18 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [companies.id],
   }),
   submissions: many(submissions),
+  statusHistory: many(projectStatusHistory),
+}));
+
+export const projectStatusHistoryRelations = relations(projectStatusHistory, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectStatusHistory.projectId],
+    references: [projects.id],
+  }),
+  actorUser: one(users, {
+    fields: [projectStatusHistory.actorId],
+    references: [users.id],
+  }),
 }));
 
 export const submissionsRelations = relations(submissions, ({ one, many }) => ({
@@ -155,6 +620,42 @@ export const submissionsRelations = relations(submissions, ({ one, many }) => ({
   }),
   rating: one(ratings),
   payment: one(payments),
+  files: many(submissionFiles),
+  revisions: many(submissionRevisions),
+  messages: many(submissionMessages),
+}));
+
+export const submissionRevisionsRelations = relations(submissionRevisions, ({ one }) => ({
+  submission: one(submissions, {
+    fields: [submissionRevisions.submissionId],
+    references: [submissions.id],
+  }),
+}));
+
+export const submissionFilesRelations = relations(submissionFiles, ({ one }) => ({
+  submission: one(submissions, {
+    fields: [submissionFiles.submissionId],
+    references: [submissions.id],
+  }),
+}));
+
+export const submissionMessagesRelations = relations(submissionMessages, ({ one, many }) => ({
+  submission: one(submissions, {
+    fields: [submissionMessages.submissionId],
+    references: [submissions.id],
+  }),
+  senderUser: one(users, {
+    fields: [submissionMessages.senderId],
+    references: [users.id],
+  }),
+  files: many(submissionMessageFiles),
+}));
+
+export const submissionMessageFilesRelations = relations(submissionMessageFiles, ({ one }) => ({
+  message: one(submissionMessages, {
+    fields: [submissionMessageFiles.messageId],
+    references: [submissionMessages.id],
+  }),
 }));
 
 export const ratingsRelations = relations(ratings, ({ one }) => ({
@@ -172,7 +673,30 @@ export const ratingsRelations = relations(ratings, ({ one }) => ({
   }),
 }));
 
+export const companyRatingsRelations = relations(companyRatings, ({ one }) => ({
+  submission: one(submissions, {
+    fields: [companyRatings.submissionId],
+    references: [submissions.id],
+  }),
+  project: one(projects, {
+    fields: [companyRatings.projectId],
+    references: [projects.id],
+  }),
+  candidate: one(users, {
+    fields: [companyRatings.candidateId],
+    references: [users.id],
+  }),
+  company: one(companies, {
+    fields: [companyRatings.companyId],
+    references: [companies.id],
+  }),
+}));
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
+  ledgerTransaction: one(ledgerTransactions, {
+    fields: [payments.ledgerTransactionId],
+    references: [ledgerTransactions.id],
+  }),
   submission: one(submissions, {
     fields: [payments.submissionId],
     references: [submissions.id],
@@ -185,6 +709,85 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
     fields: [payments.companyId],
     references: [companies.id],
   }),
+  payout: one(payouts, {
+    fields: [payments.payoutId],
+    references: [payouts.id],
+  }),
+  invoice: one(invoices),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  company: one(companies, {
+    fields: [invoices.companyId],
+    references: [companies.id],
+  }),
+  payment: one(payments, {
+    fields: [invoices.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+export const payoutMethodsRelations = relations(payoutMethods, ({ one, many }) => ({
+  user: one(users, {
+    fields: [payoutMethods.userId],
+    references: [users.id],
+  }),
+  payouts: many(payouts),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one, many }) => ({
+  candidate: one(users, {
+    fields: [payouts.candidateId],
+    references: [users.id],
+  }),
+  payoutMethod: one(payoutMethods, {
+    fields: [payouts.payoutMethodId],
+    references: [payoutMethods.id],
+  }),
+  payments: many(payments),
+  events: many(payoutEvents),
+}));
+
+export const payoutEventsRelations = relations(payoutEvents, ({ one }) => ({
+  payout: one(payouts, {
+    fields: [payoutEvents.payoutId],
+    references: [payouts.id],
+  }),
+}));
+
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ many }) => ({
+  entries: many(ledgerEntries),
+}));
+
+export const ledgerTransactionsRelations = relations(ledgerTransactions, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [ledgerTransactions.companyId],
+    references: [companies.id],
+  }),
+  project: one(projects, {
+    fields: [ledgerTransactions.projectId],
+    references: [projects.id],
+  }),
+  submission: one(submissions, {
+    fields: [ledgerTransactions.submissionId],
+    references: [submissions.id],
+  }),
+  payout: one(payouts, {
+    fields: [ledgerTransactions.payoutId],
+    references: [payouts.id],
+  }),
+  entries: many(ledgerEntries),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  transaction: one(ledgerTransactions, {
+    fields: [ledgerEntries.transactionId],
+    references: [ledgerTransactions.id],
+  }),
+  account: one(ledgerAccounts, {
+    fields: [ledgerEntries.accountId],
+    references: [ledgerAccounts.id],
+  }),
 }));
 
 // Insert schemas
@@ -206,6 +809,7 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   updatedAt: true,
 }).extend({
   payment: z.string().optional(),
+  rubric: rubricSchema.nullish(),
 });
 
 export const insertSubmissionSchema = createInsertSchema(submissions).omit({
@@ -217,6 +821,8 @@ export const insertSubmissionSchema = createInsertSchema(submissions).omit({
 export const insertRatingSchema = createInsertSchema(ratings).omit({
   id: true,
   createdAt: true,
+}).extend({
+  criteriaScores: criterionScoresSchema.nullish(),
 });
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({
@@ -224,22 +830,215 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
   createdAt: true,
 });
 
+export const insertPayoutMethodSchema = createInsertSchema(payoutMethods, {
+  label: (schema) => schema.trim().min(1, "Label is required").max(100),
+  details: (schema) => schema.trim().min(1, "Account details are required").max(200),
+}).omit({
+  id: true,
+  userId: true,
+  removedAt: true,
+  createdAt: true,
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Project search (GET /api/projects query parameters)
+export const projectSortOptions = ["newest", "highest_pay", "closing_soon"] as const;
+export const skillMatchOptions = ["any", "all"] as const;
+
+// Repeated query parameters arrive as arrays; accept those as well as
+// comma separated lists
+const listParam = z.preprocess(
+  (value) => (Array.isArray(value) ? value.join(",") : value),
+  z.string().optional().transform((value) =>
+    value ? value.split(",").map((item) => item.trim()).filter(Boolean) : [],
+  ),
+);
+
+export const projectSearchSchema = z.object({
+  q: z.string().trim().optional(),
+  skills: listParam,
+  skillMatch: z.enum(skillMatchOptions).default("any"),
+  difficulty: z.string().optional(),
+  minPayment: z.coerce.number().nonnegative().optional(),
+  maxPayment: z.coerce.number().nonnegative().optional(),
+  deadlineFrom: z.coerce.date().optional(),
+  deadlineTo: z.coerce.date().optional(),
+  companyId: z.string().optional(),
+  sort: z.enum(projectSortOptions).default("newest"),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Audit log search (GET /api/admin/audit query parameters)
+export const userSearchSchema = z.object({
+  q: z.string().trim().optional(),
+  role: z.enum(userRoleEnum.enumValues).optional(),
+  status: z.enum(["active", "suspended"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const companyInvitationRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(assignableCompanyRoles),
+});
+
+// An admin's decision on a pending company or project. Rejections need a
+// reason, and "other" needs a note.
+function reviewRequestSchema<Reason extends string>(reasons: readonly [Reason, ...Reason[]]) {
+  return z
+    .object({
+      approved: z.boolean(),
+      reason: z.enum(reasons).optional(),
+      note: z.string().trim().max(2000).optional(),
+    })
+    .refine((review) => review.approved || review.reason, {
+      message: "Choose a reason for the rejection",
+      path: ["reason"],
+    })
+    .refine((review) => review.approved || review.reason !== "other" || review.note, {
+      message: "Say what needs fixing",
+      path: ["note"],
+    });
+}
+
+export const companyReviewRequestSchema = reviewRequestSchema(companyRejectionReasons);
+export const projectReviewRequestSchema = reviewRequestSchema(projectRejectionReasons);
+
+// A candidate's rating of the company that reviewed their submission
+const companyRatingScore = z.number().int().min(1, "Score each part from 1 to 5").max(5, "Score each part from 1 to 5");
+
+export const companyRatingRequestSchema = z.object({
+  clarity: companyRatingScore,
+  fairness: companyRatingScore,
+  paymentSpeed: companyRatingScore.optional(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const companyRatingReplySchema = z.object({
+  reply: z.string().trim().min(1, "Write a reply").max(2000),
+});
+
+export const companyRatingReportSchema = z.object({
+  reason: z.string().trim().min(1, "Say what's wrong with the rating").max(2000),
+});
+
+// hide takes a rating down, restore puts a hidden one back and dismiss
+// closes a report and leaves the rating up
+export const companyRatingModerationSchema = z
+  .object({
+    action: z.enum(["hide", "restore", "dismiss"]),
+    note: z.string().trim().max(2000).optional(),
+  })
+  .refine((moderation) => moderation.action !== "hide" || moderation.note, {
+    message: "Say why the rating is hidden",
+    path: ["note"],
+  });
+
+export const auditSearchSchema = z.object({
+  q: z.string().trim().optional(),
+  action: z.string().optional(),
+  actorId: z.string().optional(),
+  targetType: z.string().optional(),
+  companyId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserRole = User["role"];
+export type UserSearch = z.infer<typeof userSearchSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Company = typeof companies.$inferSelect;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 
+export type CompanyStatusChange = typeof companyStatusHistory.$inferSelect;
+export type InsertCompanyStatusChange = typeof companyStatusHistory.$inferInsert;
+
+export type CompanyMember = typeof companyMembers.$inferSelect;
+export type InsertCompanyMember = typeof companyMembers.$inferInsert;
+export type CompanyRole = CompanyMember["role"];
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
+export type InsertCompanyInvitation = typeof companyInvitations.$inferInsert;
+// Teammates only see each other's name, email and photo
+export type CompanyMemberWithUser = CompanyMember & {
+  user?: Pick<User, "id" | "firstName" | "lastName" | "email" | "profileImageUrl">;
+};
+// Invitations as the API shows them, without the token's hash
+export type SentCompanyInvitation = Omit<CompanyInvitation, "tokenHash">;
+
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type ProjectSearch = z.infer<typeof projectSearchSchema>;
+export type ProjectSort = (typeof projectSortOptions)[number];
+export type ProjectStatus = Project["status"];
+export type ProjectActor = (typeof projectActorEnum.enumValues)[number];
+export type ProjectStatusChange = typeof projectStatusHistory.$inferSelect;
+export type InsertProjectStatusChange = typeof projectStatusHistory.$inferInsert;
 
 export type Submission = typeof submissions.$inferSelect;
 export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
 
+export type SubmissionStatus = Submission["status"];
+
+export type SubmissionRevision = typeof submissionRevisions.$inferSelect;
+export type SubmissionRevisionWithFiles = SubmissionRevision & { files: SubmissionFile[] };
+
+export type SubmissionFile = typeof submissionFiles.$inferSelect;
+export type InsertSubmissionFile = typeof submissionFiles.$inferInsert;
+
+export type SubmissionMessage = typeof submissionMessages.$inferSelect;
+export type InsertSubmissionMessage = typeof submissionMessages.$inferInsert;
+export type MessageSender = SubmissionMessage["sender"];
+export type SubmissionMessageFile = typeof submissionMessageFiles.$inferSelect;
+export type InsertSubmissionMessageFile = typeof submissionMessageFiles.$inferInsert;
+export type SubmissionMessageWithFiles = SubmissionMessage & { files: SubmissionMessageFile[] };
+
 export type Rating = typeof ratings.$inferSelect;
 export type InsertRating = z.infer<typeof insertRatingSchema>;
 
+export type CompanyRating = typeof companyRatings.$inferSelect;
+export type InsertCompanyRating = typeof companyRatings.$inferInsert;
+export type CompanyRatingStatus = CompanyRating["status"];
+
 export type Payment = typeof payments.$inferSelect;
+export type PaymentStatus = Payment["status"];
+
+export type Invoice = typeof invoices.$inferSelect;
+
+export type PayoutMethod = typeof payoutMethods.$inferSelect;
+export type InsertPayoutMethod = z.infer<typeof insertPayoutMethodSchema>;
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type PayoutStatus = Payout["status"];
+export type PayoutEvent = typeof payoutEvents.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerAccountType = LedgerAccount["type"];
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationType = Notification["type"];
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type JobStatus = Job["status"];
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type AuditLogEntryWithActor = AuditLogEntry & {
+  actor: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+};
+export type AuditSearch = z.infer<typeof auditSearchSchema>;
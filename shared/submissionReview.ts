@@ -0,0 +1,32 @@
+import type { Project, Submission, SubmissionStatus } from "./schema";
+
+// What a company can decide when it reviews a submission
+export const reviewDecisions = ["approved", "rejected", "changes_requested"] as const;
+export type ReviewDecision = (typeof reviewDecisions)[number];
+
+// Submissions the company still has to approve or reject. One sent back for
+// changes counts too, since it may still be approved and paid.
+export const awaitingDecisionStatuses: readonly SubmissionStatus[] = ["pending", "under_review", "changes_requested"];
+
+export function awaitsDecision(status: SubmissionStatus): boolean {
+  return awaitingDecisionStatuses.includes(status);
+}
+
+// Whether the company reviewing the submission may not yet know who sent it
+export function isBlindReview(
+  submission: Pick<Submission, "status">,
+  project: Pick<Project, "blindReview">,
+): boolean {
+  return project.blindReview && awaitsDecision(submission.status);
+}
+
+// The name a blind-reviewed submission's candidate goes by. It's derived from
+// the submission, so the same candidate gets a different one on each project.
+export function candidateHandle(submission: Pick<Submission, "id">): string {
+  return `Candidate ${submission.id.slice(0, 6).toUpperCase()}`;
+}
+
+// How many more times the candidate could be asked to revise
+export function revisionsLeft(submission: Pick<Submission, "revision">, project: Pick<Project, "maxRevisions">): number {
+  return Math.max(project.maxRevisions + 1 - submission.revision, 0);
+}
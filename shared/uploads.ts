@@ -0,0 +1,67 @@
+export interface UploadRules {
+  maxFiles: number;
+  // Bytes per file
+  maxFileSize: number;
+  // Accepted content types and the extensions each may use
+  types: Record<string, string[]>;
+}
+
+export const submissionFileRules: UploadRules = {
+  maxFiles: 5,
+  maxFileSize: 25 * 1024 * 1024,
+  types: {
+    "application/pdf": [".pdf"],
+    "application/zip": [".zip"],
+    "application/x-zip-compressed": [".zip"],
+    "image/png": [".png"],
+    "image/jpeg": [".jpg", ".jpeg"],
+    "image/gif": [".gif"],
+    "image/webp": [".webp"],
+  },
+};
+
+// Attachments to submission messages, the same kinds of file as the
+// submission itself
+export const messageFileRules: UploadRules = {
+  maxFiles: 3,
+  maxFileSize: 10 * 1024 * 1024,
+  types: submissionFileRules.types,
+};
+
+// Avatars and logos. They are re-encoded, so only the source format matters.
+export const imageFileRules: UploadRules = {
+  maxFiles: 1,
+  maxFileSize: 5 * 1024 * 1024,
+  types: {
+    "image/png": [".png"],
+    "image/jpeg": [".jpg", ".jpeg"],
+    "image/gif": [".gif"],
+    "image/webp": [".webp"],
+  },
+};
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+}
+
+// Both the content type and the extension have to match, since browsers
+// guess the type from the extension and some send none at all
+export function isAllowedFile(rules: UploadRules, fileName: string, contentType: string): boolean {
+  return rules.types[contentType]?.includes(extensionOf(fileName)) ?? false;
+}
+
+// For the accept attribute of file inputs
+export function acceptedExtensions(rules: UploadRules): string {
+  return Array.from(new Set(Object.values(rules.types).flat())).join(",");
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}